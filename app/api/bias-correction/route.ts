@@ -0,0 +1,49 @@
+// app/api/bias-correction/route.ts
+import { type NextRequest, NextResponse } from "next/server"
+import { BIAS_CORRECTABLE_SOURCES, getBiasModel, resolveBiasMethod } from "@/lib/bias-correction"
+import type { ClimateRequest } from "@/lib/types"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * Correcciones de sesgo ajustadas (por variable y mes) y su habilidad, sin pedir ninguna serie.
+ * Body: { source, latitude, longitude, biasCorrection?: "delta" | "quantile", biasReference?: "SIAR" | "LOCAL_DB" }
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const latitude = Number(body?.latitude)
+  const longitude = Number(body?.longitude)
+
+  if (!BIAS_CORRECTABLE_SOURCES.includes(body?.source)) {
+    return NextResponse.json(
+      { success: false, error: `source debe ser ${BIAS_CORRECTABLE_SOURCES.join(", ")}` },
+      { status: 400 },
+    )
+  }
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return NextResponse.json({ success: false, error: "Faltan coordenadas (latitude/longitude)" }, { status: 400 })
+  }
+
+  // por defecto "delta" aunque BIAS_CORRECTION esté apagado: aquí se pide explícitamente
+  const method = resolveBiasMethod(body.biasCorrection)
+
+  const req: ClimateRequest = {
+    source: body.source,
+    latitude,
+    longitude,
+    biasCorrection: method === "none" ? "delta" : method,
+    biasReference: body.biasReference,
+  }
+
+  try {
+    const model = await getBiasModel(req, { origin: process.env.INTERNAL_BASE_URL || request.nextUrl.origin })
+    return NextResponse.json({ success: true, source: req.source, model })
+  } catch (error) {
+    console.error("Bias correction error:", error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Error ajustando la corrección" },
+      { status: 502 },
+    )
+  }
+}
@@ -1,7 +1,25 @@
 // app/api/climate-data/route.ts
 import { type NextRequest, NextResponse } from "next/server"
-import { WeatherService } from "@/lib/weather-apis"
-import type { ClimateRequest } from "@/lib/types"
+import { WeatherService, mergeChunkDebug } from "@/lib/weather-apis"
+import { calculatorForRequest } from "@/lib/climate-calculations"
+import { getProvider } from "@/lib/providers"
+import { startClimateJob } from "@/lib/climate-jobs"
+import { applyClimateSchema } from "@/lib/climate-schema"
+import type { ClimateRequest, SeasonCalendar } from "@/lib/types"
+import { CropError, orchardBudBreak, orchardCanopyCover, resolveCrop, type CropProfile } from "@/lib/crops"
+import type { WeatherProvider } from "@/lib/providers/types"
+import {
+  addDaysISO,
+  CAMPAIGN_MAX_FORECAST_DAYS,
+  campaignTotals,
+  DEFAULT_CAMPAIGN_FORECAST_DAYS,
+  defaultCampaignStart,
+  isCampaignForecastSource,
+  lastObservedDate,
+  MAX_BRIDGE_DAYS,
+  stitchCampaign,
+} from "@/lib/campaign"
+import { resolveSeasonCalendar, SeasonCalendarError } from "@/lib/season-calendar"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -76,14 +94,192 @@ function splitRangeIntoChunks(startStr: string, endStr: string, maxDaysInclusive
   return chunks
 }
 
+/**
+ * Proveedores lentos (ERA5/CDS): no bloqueamos la petición, devolvemos un job (202).
+ * El cliente consulta GET /api/jobs/[id] hasta "successful" y luego pide ?include=result.
+ */
+async function respondWithJob(origin: string, requests: ClimateRequest[], requestInfo: Record<string, any>) {
+  const job = await startClimateJob(origin, requests, requestInfo)
+  return NextResponse.json(
+    {
+      success: true,
+      pending: true,
+      source: job.source,
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `/api/jobs/${job.id}`,
+      requestInfo: job.requestInfo,
+    },
+    { status: 202 },
+  )
+}
+
+/**
+ * Campaña en curso (body.campaign): observado desde el inicio de campaña hasta ayer con `source`
+ * + previsión (Open-Meteo o AEMET) para los próximos días, en una sola serie con `isForecast`.
+ * Si la previsión falla se devuelve solo lo observado (debug.campaign.forecastError).
+ */
+async function respondWithCampaign(
+  origin: string,
+  provider: WeatherProvider,
+  body: Partial<ClimateRequest>,
+  calendar: SeasonCalendar,
+  crop: CropProfile,
+): Promise<NextResponse> {
+  const forecastSource = body.campaign?.forecastSource ?? "OPEN_METEO"
+  if (!isCampaignForecastSource(forecastSource)) {
+    return NextResponse.json(
+      { success: false, error: `campaign.forecastSource inválida: ${String(forecastSource)}` },
+      { status: 400 },
+    )
+  }
+  if (provider.descriptor.capabilities.asyncJobs) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `${provider.descriptor.name} va por descarga en segundo plano: no sirve para la campaña en curso`,
+      },
+      { status: 400 },
+    )
+  }
+  if (body.latitude === undefined || body.longitude === undefined) {
+    return NextResponse.json(
+      { success: false, error: "Missing required parameters (latitude, longitude)" },
+      { status: 400 },
+    )
+  }
+  const postalCode = String(body.postalCode || "").trim()
+  if (forecastSource === "AEMET" && !/^\d{5}$/.test(postalCode)) {
+    return NextResponse.json(
+      { success: false, error: "La previsión AEMET necesita código postal (5 dígitos)" },
+      { status: 400 },
+    )
+  }
+
+  const todayStr = new Date().toISOString().slice(0, 10)
+  const startStr = normalizeToYYYYMMDD(body.startDate) || defaultCampaignStart(todayStr, calendar)
+  if (!isYYYYMMDD(startStr) || startStr >= todayStr) {
+    return NextResponse.json(
+      { success: false, error: "El inicio de campaña debe ser una fecha pasada (YYYY-MM-DD)" },
+      { status: 400 },
+    )
+  }
+
+  // el observado va en una sola llamada (sin trocear): no puede pasar del máximo de la fuente
+  const observedDays = diffDaysInclusive(toDateOrNull(startStr)!, toDateOrNull(todayStr)!) - 1
+  const maxObservedDays = provider.descriptor.capabilities.maxRangeDays
+  if (observedDays > maxObservedDays) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `La campaña no puede empezar más de ${maxObservedDays} días atrás con ${provider.descriptor.name}`,
+        debug: { startStr, todayStr, maxRangeDays: maxObservedDays },
+      },
+      { status: 400 },
+    )
+  }
+
+  const requestedDays = Math.round(Number(body.campaign?.forecastDays) || DEFAULT_CAMPAIGN_FORECAST_DAYS)
+  const forecastDays = Math.min(Math.max(1, requestedDays), CAMPAIGN_MAX_FORECAST_DAYS[forecastSource])
+  const endStr = addDaysISO(todayStr, forecastDays - 1)
+
+  const weatherService = new WeatherService(origin)
+  const base: Omit<ClimateRequest, "source"> = {
+    latitude: Number(body.latitude),
+    longitude: Number(body.longitude),
+    postalCode: postalCode || undefined,
+    municipio: body.municipio,
+    parameters: Array.isArray(body.parameters) ? body.parameters : [],
+    elevation: body.elevation != null && Number.isFinite(Number(body.elevation)) ? Number(body.elevation) : undefined,
+    lapseRate: typeof body.lapseRate === "number" || typeof body.lapseRate === "boolean" ? body.lapseRate : undefined,
+    gapFill: body.gapFill,
+    gapFillSource: body.gapFillSource,
+    noCache: !!body.noCache,
+    seasonCalendar: body.seasonCalendar,
+    crop: body.crop,
+    orchard: body.orchard,
+  }
+
+  const observed = await weatherService.getClimateDataBySource({
+    ...base,
+    source: provider.descriptor.id,
+    blend: body.blend,
+    stations: Number(body.stations) > 0 ? Number(body.stations) : undefined,
+    biasCorrection: body.biasCorrection,
+    biasReference: body.biasReference,
+    startDate: startStr,
+    endDate: addDaysISO(todayStr, -1),
+  })
+  if (!observed.success || !Array.isArray(observed.data)) {
+    return NextResponse.json(observed, { status: 400 })
+  }
+
+  // Open-Meteo cubre también el retraso de la fuente observada; AEMET solo desde hoy
+  const lastObserved = lastObservedDate(observed.data, todayStr)
+  let forecastStart = todayStr
+  if (forecastSource === "OPEN_METEO") {
+    const bridgeFrom = lastObserved ? addDaysISO(lastObserved, 1) : startStr
+    const oldest = addDaysISO(todayStr, -MAX_BRIDGE_DAYS)
+    forecastStart = bridgeFrom < oldest ? oldest : bridgeFrom > todayStr ? todayStr : bridgeFrom
+  }
+
+  const forecast = await weatherService.getClimateDataBySource({
+    ...base,
+    source: forecastSource,
+    startDate: forecastStart,
+    endDate: endStr,
+  })
+  const forecastRows = forecast.success && Array.isArray(forecast.data) ? forecast.data : []
+
+  const data = stitchCampaign(observed.data, forecastRows, {
+    todayISO: todayStr,
+    observedSource: provider.descriptor.id,
+    forecastSource,
+  })
+
+  const requestInfo = {
+    source: provider.descriptor.id,
+    latitude: base.latitude,
+    longitude: base.longitude,
+    startDate: startStr,
+    endDate: endStr,
+    dayCount: diffDaysInclusive(toDateOrNull(startStr)!, toDateOrNull(endStr)!) - 1,
+    isHistorical: false,
+    postalCode: base.postalCode,
+    campaign: { forecastSource, forecastDays },
+    seasonCalendar: calendar,
+    crop: crop.id,
+    orchard: body.orchard,
+  }
+
+  return NextResponse.json({
+    success: true,
+    source: provider.descriptor.id,
+    data,
+    requestInfo,
+    debug: {
+      observed: observed.debug,
+      forecast: forecast.debug,
+      campaign: {
+        ...requestInfo.campaign,
+        startDate: startStr,
+        endDate: endStr,
+        forecastStart,
+        forecastError: forecast.success ? undefined : forecast.error || "Sin previsión",
+        totals: campaignTotals(data),
+      },
+    },
+  })
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = (await request.json()) as Partial<ClimateRequest> & {
       isHistorical?: boolean
+      wait?: boolean // true = esperar aunque el proveedor vaya por jobs (scripts/CLI)
     }
 
     const origin = process.env.INTERNAL_BASE_URL || request.nextUrl.origin
-    const isAemet = body.source === "AEMET"
     const isHistorical = !!(body as any)?.isHistorical
 
     // ✅ source siempre obligatorio
@@ -91,21 +287,53 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Missing required parameter (source)" }, { status: 400 })
     }
 
+    const provider = getProvider(body.source)
+    if (!provider) {
+      return NextResponse.json({ success: false, error: `Invalid source: ${String(body.source)}` }, { status: 400 })
+    }
+
+    // ✅ Calendario de campaña (ventanas de frío / GDD...), cultivo y parcela: se validan antes de pedir nada
+    let calendar: SeasonCalendar
+    let crop: CropProfile
+    try {
+      calendar = resolveSeasonCalendar(body.seasonCalendar)
+      crop = resolveCrop(body.crop)
+      orchardCanopyCover(crop, body.orchard)
+      orchardBudBreak(body.orchard)
+    } catch (e) {
+      if (!(e instanceof SeasonCalendarError) && !(e instanceof CropError)) throw e
+      return NextResponse.json({ success: false, error: e.message }, { status: e.status })
+    }
+
+    // ✅ Campaña en curso: observado + previsión (lib/campaign.ts)
+    if (body.campaign) return respondWithCampaign(origin, provider, body, calendar, crop)
+
+    // ✅ Capacidades declaradas por el proveedor (lib/providers)
+    const caps = provider.descriptor.capabilities
+    const useJob = caps.asyncJobs && !body.wait
+    const maxRangeDays = caps.maxRangeDays
+    const todayStr = new Date().toISOString().slice(0, 10)
+    const hasPostalCode = !!body.postalCode && /^\d{5}$/.test(String(body.postalCode).trim())
+
+    // previsión (AEMET): sin fechas o desde hoy; con fechas pasadas va por la serie climatológica
+    const isForecast =
+      !!caps.forecastDays && (!body.startDate || normalizeToYYYYMMDD(body.startDate) >= todayStr)
+
     // ✅ Validación por fuente
-    if (isAemet) {
-      // AEMET: solo CP obligatorio
-      if (!body.postalCode || !/^\d{5}$/.test(String(body.postalCode).trim())) {
+    if (isForecast) {
+      // AEMET previsión: solo CP obligatorio
+      if (!hasPostalCode) {
         return NextResponse.json({ success: false, error: "Código postal inválido (5 dígitos)" }, { status: 400 })
       }
     } else {
-      // NASA/ERA5/SIAR: fechas + lat/lon obligatorios
+      // NASA/ERA5/SIAR/AEMET climatología: fechas + lat/lon (o CP si el proveedor lo acepta) obligatorios
       if (!body.startDate || !body.endDate) {
         return NextResponse.json(
           { success: false, error: "Missing required parameters (startDate, endDate)" },
           { status: 400 },
         )
       }
-      if (body.latitude === undefined || body.longitude === undefined) {
+      if ((body.latitude === undefined || body.longitude === undefined) && !(caps.postalCode && hasPostalCode)) {
         return NextResponse.json(
           { success: false, error: "Missing required parameters (latitude, longitude)" },
           { status: 400 },
@@ -113,13 +341,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // ✅ Fechas (AEMET: opcionales; resto: obligatorias)
-    const todayStr = new Date().toISOString().slice(0, 10)
-
+    // ✅ Fechas (previsión AEMET: opcionales; resto: obligatorias)
     let startStr = ""
     let endStr = ""
 
-    if (isAemet) {
+    if (isForecast) {
       // si no vienen fechas, default = hoy -> hoy+6
       startStr = normalizeToYYYYMMDD(body.startDate) || todayStr
       endStr = normalizeToYYYYMMDD(body.endDate) || addDaysYYYYMMDD(startStr, 6)
@@ -148,17 +374,14 @@ export async function POST(request: NextRequest) {
     // --------------------
     // AEMET (forecast)
     // --------------------
-    if (isAemet) {
-      // AEMET: forecast futuro y máximo 7 días
-      if (startStr < todayStr) {
+    if (isForecast) {
+      // AEMET: forecast futuro y máximo caps.forecastDays días
+      if (daysDiffInclusive > caps.forecastDays!) {
         return NextResponse.json(
-          { success: false, error: "AEMET solo permite previsión futura (desde hoy).", debug: { startStr, todayStr } },
+          { success: false, error: `Rango de fechas excedido (máx ${caps.forecastDays} días)` },
           { status: 400 },
         )
       }
-      if (daysDiffInclusive > 7) {
-        return NextResponse.json({ success: false, error: "Rango de fechas excedido (máx 7 días)" }, { status: 400 })
-      }
 
       const aemetRes = await fetch(`${origin}/api/weather/aemet`, {
         method: "POST",
@@ -186,10 +409,14 @@ export async function POST(request: NextRequest) {
         )
       }
 
+      // no pasa por WeatherService: el esquema (viento en km/h -> m/s) se aplica aquí
+      const forecast = applyClimateSchema(aemetPayload, provider.descriptor.units)
+
       return NextResponse.json({
         success: true,
         source: "AEMET",
-        data: aemetPayload.data,
+        data: forecast.data,
+        debug: forecast.debug,
         requestInfo: {
           source: "AEMET",
           latitude: 0,
@@ -206,7 +433,7 @@ export async function POST(request: NextRequest) {
     }
 
     // --------------------
-    // Resto (NASA/ERA5/SIAR)
+    // Resto (NASA/ERA5/SIAR/LOCAL_DB, AEMET climatología)
     // --------------------
     if (dayCount < 0) {
       return NextResponse.json({ success: false, error: "endDate must be >= startDate" }, { status: 400 })
@@ -215,26 +442,55 @@ export async function POST(request: NextRequest) {
     const weatherService = new WeatherService(origin)
 
     const baseReq: ClimateRequest = {
-      latitude: Number(body.latitude),
-      longitude: Number(body.longitude),
+      // AEMET climatología admite solo CP: el proveedor lo geocodifica
+      latitude: body.latitude !== undefined ? Number(body.latitude) : undefined,
+      longitude: body.longitude !== undefined ? Number(body.longitude) : undefined,
+      postalCode: hasPostalCode ? String(body.postalCode).trim() : undefined,
       startDate: startStr,
       endDate: endStr,
       parameters: Array.isArray(body.parameters) ? body.parameters : [],
       source: body.source,
+      blend: body.blend,
+      stations: Number(body.stations) > 0 ? Number(body.stations) : undefined,
+      elevation: body.elevation != null && Number.isFinite(Number(body.elevation)) ? Number(body.elevation) : undefined,
+      lapseRate: typeof body.lapseRate === "number" || typeof body.lapseRate === "boolean" ? body.lapseRate : undefined,
+      biasCorrection: body.biasCorrection,
+      biasReference: body.biasReference,
+      gapFill: body.gapFill,
+      gapFillSource: body.gapFillSource,
+      noCache: !!body.noCache,
+      seasonCalendar: body.seasonCalendar,
+      crop: body.crop,
+      orchard: body.orchard,
     }
 
-    // ✅ Caso normal: limitamos a 2 años
+    // ✅ Caso normal: limitamos al máximo por llamada del proveedor (2 años en NASA/Open-Meteo/ERA5)
     if (!isHistorical) {
-      if (dayCount > 730) {
+      if (dayCount > maxRangeDays) {
         return NextResponse.json(
           {
             success: false,
-            error: "Date range cannot exceed 2 years (activa isHistorical para rangos largos)",
+            error: `Date range cannot exceed ${maxRangeDays} days (activa isHistorical para rangos largos)`,
           },
           { status: 400 },
         )
       }
 
+      if (useJob) {
+        return respondWithJob(origin, [baseReq], {
+          source: baseReq.source,
+          latitude: baseReq.latitude,
+          longitude: baseReq.longitude,
+          startDate: baseReq.startDate,
+          endDate: baseReq.endDate,
+          dayCount,
+          isHistorical: false,
+          seasonCalendar: calendar,
+          crop: crop.id,
+          orchard: body.orchard,
+        })
+      }
+
       const result = await weatherService.getClimateDataBySource(baseReq)
       if (!result.success) return NextResponse.json(result, { status: 400 })
 
@@ -242,6 +498,7 @@ export async function POST(request: NextRequest) {
         success: true,
         source: baseReq.source,
         data: result.data,
+        debug: result.debug,
         requestInfo: {
           source: baseReq.source,
           latitude: baseReq.latitude,
@@ -250,18 +507,49 @@ export async function POST(request: NextRequest) {
           endDate: baseReq.endDate,
           dayCount,
           isHistorical: false,
+          seasonCalendar: calendar,
+          crop: crop.id,
+          orchard: body.orchard,
         },
       })
     }
 
-    // ✅ Histórico: chunking <= 730 días por llamada y merge final
-    const chunks = splitRangeIntoChunks(startStr, endStr, 730)
+    if (!caps.historic20y) {
+      return NextResponse.json(
+        { success: false, error: `${provider.descriptor.name} no soporta series históricas largas` },
+        { status: 400 },
+      )
+    }
+
+    // ✅ Histórico: chunking <= maxRangeDays por llamada y merge final
+    const chunks = splitRangeIntoChunks(startStr, endStr, maxRangeDays)
 
     if (!chunks.length) {
       return NextResponse.json({ success: false, error: "No se pudo generar el rango histórico" }, { status: 400 })
     }
 
+    if (useJob) {
+      return respondWithJob(
+        origin,
+        chunks.map((c) => ({ ...baseReq, startDate: c.start, endDate: c.end })),
+        {
+          source: baseReq.source,
+          latitude: baseReq.latitude,
+          longitude: baseReq.longitude,
+          startDate: startStr,
+          endDate: endStr,
+          dayCount: diffDaysInclusive(startDateObj, endDateObj) - 1,
+          isHistorical: true,
+          seasonCalendar: calendar,
+          crop: crop.id,
+          orchard: body.orchard,
+          chunksCount: chunks.length,
+        },
+      )
+    }
+
     const merged: any[] = []
+    const chunkDebug: Array<{ start: string; end: string; debug?: Record<string, any> }> = []
 
     for (const c of chunks) {
       const chunkReq: ClimateRequest = {
@@ -284,9 +572,15 @@ export async function POST(request: NextRequest) {
       }
 
       if (Array.isArray(r.data)) merged.push(...r.data)
+      chunkDebug.push({ ...c, debug: r.debug })
     }
 
-    const finalData = sortAndDedupeByDate(merged)
+    // cada tramo pasó por processClimateData por separado: los índices térmicos se rehacen sobre la serie
+    // completa para que el Modelo Dinámico (porciones) no se reinicie en cada límite de tramo
+    const finalData = calculatorForRequest(baseReq).recomputeThermalIndices(
+      sortAndDedupeByDate(merged),
+      baseReq.latitude,
+    )
 
     const yearsCount = new Set(finalData.map((d: any) => String(d.date || "").slice(0, 4)).filter(Boolean)).size
 
@@ -302,9 +596,13 @@ export async function POST(request: NextRequest) {
         endDate: endStr,
         dayCount: diffDaysInclusive(startDateObj, endDateObj) - 1,
         isHistorical: true,
+        seasonCalendar: calendar,
+        crop: crop.id,
+        orchard: body.orchard,
         yearsCount,
         chunksCount: chunks.length,
       },
+      debug: mergeChunkDebug(chunkDebug),
     })
   } catch (error) {
     console.error("Climate data API error:", error)
@@ -0,0 +1,133 @@
+// app/api/compare-sources/route.ts
+import { type NextRequest, NextResponse } from "next/server"
+import { WeatherService } from "@/lib/weather-apis"
+import { getEnabledProviders, getProvider } from "@/lib/providers"
+import { compareSources } from "@/lib/source-comparison"
+import { resolveSeasonCalendar, SeasonCalendarError } from "@/lib/season-calendar"
+import { CropError, resolveCrop, type CropProfile } from "@/lib/crops"
+import type { ClimateData, DataSource, SeasonCalendar } from "@/lib/types"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// si no se indica referencia, se prefiere una estación frente a las rejillas
+const PREFERRED_REFERENCES: DataSource[] = ["SIAR", "LOCAL_DB", "AEMET", "NASA_POWER", "OPEN_METEO", "ERA5"]
+
+function isYYYYMMDD(s?: string) {
+  return !!s && /^\d{4}-\d{2}-\d{2}$/.test(s)
+}
+
+function diffDaysInclusive(startISO: string, endISO: string) {
+  return Math.floor((Date.parse(`${endISO}T00:00:00Z`) - Date.parse(`${startISO}T00:00:00Z`)) / 86400000) + 1
+}
+
+/**
+ * Misma parcela y periodo en varias fuentes: sesgo, RMSE y correlación por variable
+ * y diferencias en horas frío, GDD y déficit ETo (lib/source-comparison.ts).
+ *
+ * Body: { latitude, longitude, startDate, endDate, sources?: DataSource[], reference?: DataSource,
+ *         seasonCalendar?, crop? }
+ * Sin `sources`: proveedores activos por coordenadas sin jobs lentos (ERA5 hay que pedirlo explícitamente).
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const latitude = Number(body?.latitude)
+  const longitude = Number(body?.longitude)
+  const startDate = String(body?.startDate || "").slice(0, 10)
+  const endDate = String(body?.endDate || "").slice(0, 10)
+
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return NextResponse.json({ success: false, error: "Faltan coordenadas (latitude/longitude)" }, { status: 400 })
+  }
+  if (!isYYYYMMDD(startDate) || !isYYYYMMDD(endDate) || endDate < startDate) {
+    return NextResponse.json(
+      { success: false, error: "Fechas inválidas (YYYY-MM-DD, endDate >= startDate)" },
+      { status: 400 },
+    )
+  }
+
+  // GDD con la base del cultivo
+  let calendar: SeasonCalendar
+  let crop: CropProfile
+  try {
+    calendar = resolveSeasonCalendar(body?.seasonCalendar)
+    crop = resolveCrop(body?.crop)
+  } catch (e) {
+    if (!(e instanceof SeasonCalendarError) && !(e instanceof CropError)) throw e
+    return NextResponse.json({ success: false, error: e.message }, { status: e.status })
+  }
+
+  const requested: DataSource[] = Array.isArray(body?.sources)
+    ? body.sources
+    : getEnabledProviders()
+        .filter((p) => p.descriptor.capabilities.coordinates && !p.descriptor.capabilities.asyncJobs)
+        .map((p) => p.descriptor.id)
+
+  // BLEND ya es una mezcla de las demás
+  const sources = [...new Set(requested)].filter((s) => {
+    const p = getProvider(s)
+    return p && s !== "BLEND" && p.descriptor.capabilities.coordinates
+  })
+
+  if (sources.length < 2) {
+    return NextResponse.json(
+      { success: false, error: "Hacen falta al menos dos fuentes por coordenadas para comparar" },
+      { status: 400 },
+    )
+  }
+
+  const dayCount = diffDaysInclusive(startDate, endDate)
+  const maxDays = Math.min(...sources.map((s) => getProvider(s)!.descriptor.capabilities.maxRangeDays))
+  if (dayCount > maxDays) {
+    return NextResponse.json(
+      { success: false, error: `El rango no puede superar ${maxDays} días para las fuentes elegidas` },
+      { status: 400 },
+    )
+  }
+
+  const weatherService = new WeatherService(request.nextUrl.origin)
+
+  // en serie: ERA5/SIAR no llevan bien ráfagas de peticiones en paralelo
+  const series: Partial<Record<DataSource, ClimateData[]>> = {}
+  const perSource: Record<string, { ok: boolean; days: number; error?: string }> = {}
+
+  for (const source of sources) {
+    try {
+      const res = await weatherService.getClimateDataBySource({
+        source,
+        latitude,
+        longitude,
+        startDate,
+        endDate,
+        seasonCalendar: body?.seasonCalendar,
+        crop: crop.id,
+      })
+      const rows = res.success && Array.isArray(res.data) ? res.data : []
+      if (rows.length) series[source] = rows
+      perSource[source] = { ok: !!res.success && rows.length > 0, days: rows.length, error: res.error }
+    } catch (e) {
+      perSource[source] = { ok: false, days: 0, error: e instanceof Error ? e.message : "Unknown error" }
+    }
+  }
+
+  const available = Object.keys(series) as DataSource[]
+  if (available.length < 2) {
+    return NextResponse.json(
+      { success: false, error: "Menos de dos fuentes devolvieron datos", debug: { sources: perSource } },
+      { status: 502 },
+    )
+  }
+
+  const reference: DataSource = available.includes(body?.reference)
+    ? body.reference
+    : PREFERRED_REFERENCES.find((s) => available.includes(s)) ?? available[0]
+
+  const report = compareSources(series, reference, calendar)
+
+  return NextResponse.json({
+    success: true,
+    data: report,
+    requestInfo: { latitude, longitude, startDate, endDate, sources, seasonCalendar: calendar, crop: crop.id },
+    debug: { sources: perSource },
+  })
+}
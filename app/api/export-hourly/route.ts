@@ -4,6 +4,9 @@ import { NextRequest, NextResponse } from "next/server"
 import ExcelJS from "exceljs"
 import fs from "node:fs"
 import path from "node:path"
+import { fetchNasaPowerHourly } from "@/lib/hourly-providers"
+import { municipioIneForPostalCode } from "@/lib/gazetteer"
+import { utahWeight } from "@/lib/chill-models"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -88,23 +91,6 @@ async function aemetDownloadFinalJson(datosUrl: string) {
   return await res.json()
 }
 
-// ---------- Resolver municipio INE (reutiliza /api/weather/aemet) ----------
-async function resolveMunicipioViaDaily(req: NextRequest, postalCode: string): Promise<string> {
-  const origin = req.nextUrl.origin
-  const res = await fetch(`${origin}/api/weather/aemet`, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    cache: "no-store",
-    body: JSON.stringify({ postalCode }),
-  })
-
-  const j = await res.json().catch(() => null)
-  if (!res.ok || !j?.success || !j?.municipio) {
-    throw new Error(j?.error || "No se pudo resolver municipio AEMET desde el código postal.")
-  }
-  return String(j.municipio)
-}
-
 // ---------- Parse AEMET horaria -> filas ----------
 function mapAemetMunicipioHourly(predJson: any) {
   const root = Array.isArray(predJson) ? predJson[0] : predJson
@@ -197,14 +183,8 @@ function mapAemetMunicipioHourly(predJson: any) {
 // ---------- NASA POWER hourly -> rows + calc ----------
 function chillUtahUnit(tempC: number | null) {
   if (tempC === null) return 0
-  // Utah model (clásico)
-  if (tempC < 1.4) return 0
-  if (tempC < 2.4) return 0.5
-  if (tempC < 9.1) return 1
-  if (tempC < 12.4) return 0.5
-  if (tempC < 15.9) return 0
-  if (tempC < 18.0) return -0.5
-  return -1
+  // Utah model (clásico), mismos tramos que las series diarias
+  return utahWeight(tempC)
 }
 
 function chillSimpleHour(tempC: number | null) {
@@ -250,32 +230,6 @@ function etoHargreaves_mm_day(tmin: number | null, tmax: number | null, tmean: n
   return 0.0023 * (tmean + 17.8) * Math.sqrt(td) * ra
 }
 
-async function fetchNasaPowerHourly(params: {
-  latitude: number
-  longitude: number
-  startYYYYMMDD: string
-  endYYYYMMDD: string
-}) {
-  const { latitude, longitude, startYYYYMMDD, endYYYYMMDD } = params
-
-  const url =
-    "https://power.larc.nasa.gov/api/temporal/hourly/point" +
-    `?parameters=T2M,RH2M,WS2M,ALLSKY_SFC_SW_DWN` +
-    `&community=AG` +
-    `&latitude=${encodeURIComponent(String(latitude))}` +
-    `&longitude=${encodeURIComponent(String(longitude))}` +
-    `&start=${encodeURIComponent(startYYYYMMDD)}` +
-    `&end=${encodeURIComponent(endYYYYMMDD)}` +
-    `&format=JSON`
-
-  const res = await fetch(url, { cache: "no-store" })
-  if (!res.ok) {
-    const txt = await res.text().catch(() => "")
-    throw new Error(`NASA POWER hourly error ${res.status}: ${txt}`)
-  }
-  return await res.json()
-}
-
 function mapNasaPowerHourlyToRows(nasaJson: any) {
   const feature = Array.isArray(nasaJson?.features) ? nasaJson.features[0] : nasaJson
   const fill = Number(nasaJson?.header?.fill_value ?? -999)
@@ -576,7 +530,8 @@ export async function POST(req: NextRequest) {
 
       let muni = String(body.municipio || "").trim()
       if (!/^\d{5}$/.test(muni)) {
-        muni = await resolveMunicipioViaDaily(req, cp)
+        // ✅ nomenclátor offline (lib/gazetteer.ts)
+        muni = municipioIneForPostalCode(cp)
       }
 
       const endpoint = `${AEMET_BASE}/prediccion/especifica/municipio/horaria/${muni}`
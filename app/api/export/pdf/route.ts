@@ -9,7 +9,7 @@ export const dynamic = "force-dynamic"
 type Payload = {
   source?: string
   isHistorical?: boolean
-  coordinates?: { lat: number; lon: number }
+  coordinates?: { lat: number; lon: number; label?: string }
   period?: { start: string; end: string }
   kpis?: { tavg: number; precip: number; eto: number; etc: number; chill: number }
   highlights?: {
@@ -34,6 +34,7 @@ function buildHtml(p: Payload, logoDataUrl?: string) {
   const mode = p.isHistorical ? "Histórico (20 años)" : "Actual"
   const lat = p.coordinates?.lat?.toFixed?.(4) ?? "0.0000"
   const lon = p.coordinates?.lon?.toFixed?.(4) ?? "0.0000"
+  const location = p.coordinates?.label ? escapeHtml(p.coordinates.label) : `${lat}, ${lon}`
   const start = escapeHtml(p.period?.start || "")
   const end = escapeHtml(p.period?.end || "")
   const generated = new Date().toLocaleString("es-ES")
@@ -193,7 +194,7 @@ function buildHtml(p: Payload, logoDataUrl?: string) {
     <h1>Informe de Recomendaciones de Riego (Pistacho)</h1>
 
     <div class="meta">
-      <div><b>Ubicación:</b> ${lat}, ${lon}</div>
+      <div><b>Ubicación:</b> ${location}</div>
       <div><b>Coordenadas:</b> ${lat} , ${lon}</div>
       <div><b>Período:</b> ${start} → ${end}</div>
       <div><b>Generado:</b> ${generated}</div>
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { WeatherService } from "@/lib/weather-apis"
 import { buildClimateWorkbook } from "@/lib/xlsx-export"
+import { getJob, jobMatchesRequest } from "@/lib/climate-jobs"
 import type { ClimateRequest } from "@/lib/types"
 
 export const runtime = "nodejs"
@@ -26,9 +27,18 @@ export async function POST(req: NextRequest) {
     longitude: Number(body.longitude ?? 0),
     postalCode: body.postalCode ? String(body.postalCode).trim() : undefined,
     municipio: body.municipio ? String(body.municipio).trim() : undefined,
+    // ETc y Kc con el cultivo, el calendario y la parcela del análisis
+    seasonCalendar: body.seasonCalendar,
+    crop: body.crop,
+    orchard: body.orchard,
   } as any
 
-  const resp = await service.getClimateDataBySource(climateRequest)
+  // ✅ Si hay job (ERA5) terminado para la misma fuente, punto y periodo, usamos su resultado guardado
+  const job = body.jobId ? await getJob(String(body.jobId)) : null
+  const resp =
+    job?.status === "successful" && job.result && jobMatchesRequest(job, climateRequest)
+      ? { success: true, source, data: job.result.data }
+      : await service.getClimateDataBySource(climateRequest)
 
   if (!resp.success) {
     return NextResponse.json(resp, { status: 400 })
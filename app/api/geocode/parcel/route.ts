@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { GazetteerError, reverseGeocode } from "@/lib/gazetteer"
+import { nearestSiarStations } from "@/lib/siar-client"
+import { nearestAemetStations } from "@/lib/aemet-climatology"
+import type { ParcelInfo, ParcelStation } from "@/lib/parcel"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// mismo criterio que /api/geocode/reverse: más lejos = fuera de España
+const MAX_KM = 30
+
+/**
+ * Clic en el mapa -> municipio, provincia, CP y estaciones SIAR / AEMET más cercanas.
+ * Las estaciones son opcionales: sin clave o sin red se devuelven a null (debug.stations).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const lat = Number(body?.latitude)
+    const lon = Number(body?.longitude)
+
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+      return NextResponse.json({ success: false, error: "Faltan coordenadas (latitude/longitude)" }, { status: 400 })
+    }
+
+    const match = reverseGeocode(lat, lon, { maxKm: MAX_KM })
+    if (!match) {
+      return NextResponse.json(
+        { success: false, error: "No hay ningún municipio cerca de ese punto" },
+        { status: 404 },
+      )
+    }
+
+    const errors: Record<string, string> = {}
+    const [siar, aemet] = await Promise.all([
+      nearestSiarStations(lat, lon, 1)
+        .then(([s]): ParcelStation | null => (s ? { id: s.code, name: s.name, distanceKm: s.distanceKm ?? 0 } : null))
+        .catch((e) => {
+          errors.SIAR = e instanceof Error ? e.message : "Error SIAR"
+          return null
+        }),
+      nearestAemetStations(lat, lon, { k: 1 })
+        .then(([s]): ParcelStation | null => (s ? { id: s.indicativo, name: s.nombre, distanceKm: s.distanceKm } : null))
+        .catch((e) => {
+          errors.AEMET = e instanceof Error ? e.message : "Error AEMET"
+          return null
+        }),
+    ])
+
+    const data: ParcelInfo = {
+      latitude: lat,
+      longitude: lon,
+      ine: match.ine,
+      municipio: match.municipio,
+      provincia: match.provincia,
+      postalCode: match.postalCodes[0],
+      postalCodes: match.postalCodes,
+      altitude: match.altitude,
+      siarStation: siar,
+      aemetStation: aemet,
+    }
+
+    return NextResponse.json({
+      success: true,
+      data,
+      debug: { municipioDistanceKm: match.distanceKm, stations: Object.keys(errors).length ? errors : undefined },
+    })
+  } catch (e) {
+    const status = e instanceof GazetteerError ? e.status : 500
+    return NextResponse.json(
+      { success: false, error: e instanceof Error ? e.message : "Error localizando la parcela" },
+      { status },
+    )
+  }
+}
@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
+import { GazetteerError, lookupPostalCode } from "@/lib/gazetteer"
 
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// ✅ CP -> coordenadas + municipio INE desde el nomenclátor offline (lib/gazetteer.ts)
 export async function POST(req: NextRequest) {
   try {
     const { postalCode } = await req.json()
@@ -9,31 +14,24 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ success: false, error: "Código postal inválido (5 dígitos)" }, { status: 400 })
     }
 
-    const q = encodeURIComponent(`${cp}, Spain`)
-    const url = `https://nominatim.openstreetmap.org/search?format=json&limit=1&q=${q}`
-
-    const res = await fetch(url, {
-      headers: {
-        "User-Agent": "Agroclima/1.0 (contact: support@agroptimum.com)",
-        Accept: "application/json",
-      },
-      cache: "no-store",
-    })
-
-    const data: any[] = await res.json().catch(() => [])
-    if (!Array.isArray(data) || data.length === 0) {
+    const match = lookupPostalCode(cp)
+    if (!match) {
       return NextResponse.json({ success: false, error: "No se encontró ese código postal" }, { status: 404 })
     }
 
-    const lat = Number(data[0].lat)
-    const lon = Number(data[0].lon)
-
-    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
-      return NextResponse.json({ success: false, error: "Respuesta inválida del geocoder" }, { status: 500 })
-    }
-
-    return NextResponse.json({ success: true, latitude: lat, longitude: lon })
+    return NextResponse.json({
+      success: true,
+      latitude: match.latitude,
+      longitude: match.longitude,
+      postalCode: cp,
+      ine: match.ine,
+      municipio: match.municipio,
+      provincia: match.provincia,
+      altitude: match.altitude,
+      others: match.others,
+    })
   } catch (e) {
-    return NextResponse.json({ success: false, error: e instanceof Error ? e.message : "Geocoding error" }, { status: 500 })
+    const status = e instanceof GazetteerError ? e.status : 500
+    return NextResponse.json({ success: false, error: e instanceof Error ? e.message : "Geocoding error" }, { status })
   }
 }
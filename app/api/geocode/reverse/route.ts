@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { GazetteerError, reverseGeocode } from "@/lib/gazetteer"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// más lejos que esto del centroide más cercano = fuera de España (mar, Portugal...)
+const MAX_KM = 30
+
+// ✅ (lat, lon) -> municipio más cercano del nomenclátor offline (lib/gazetteer.ts)
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const lat = Number(body?.latitude)
+    const lon = Number(body?.longitude)
+
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
+      return NextResponse.json({ success: false, error: "Faltan coordenadas (latitude/longitude)" }, { status: 400 })
+    }
+
+    const match = reverseGeocode(lat, lon, { maxKm: MAX_KM })
+    if (!match) {
+      return NextResponse.json(
+        { success: false, error: "No hay ningún municipio cerca de ese punto" },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      ine: match.ine,
+      municipio: match.municipio,
+      provincia: match.provincia,
+      postalCodes: match.postalCodes,
+      altitude: match.altitude,
+      centroid: { latitude: match.latitude, longitude: match.longitude },
+      distanceKm: match.distanceKm,
+    })
+  } catch (e) {
+    const status = e instanceof GazetteerError ? e.status : 500
+    return NextResponse.json(
+      { success: false, error: e instanceof Error ? e.message : "Reverse geocoding error" },
+      { status },
+    )
+  }
+}
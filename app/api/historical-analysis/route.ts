@@ -1,6 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { WeatherService } from "@/lib/weather-apis"
-import type { ClimateRequest, DataSource } from "@/lib/types"
+import { resolveSeasonCalendar, SeasonCalendarError } from "@/lib/season-calendar"
+import { CropError, orchardBudBreak, orchardCanopyCover, resolveCrop, type CropProfile } from "@/lib/crops"
+import type {
+  ClimateRequest,
+  CropId,
+  DataSource,
+  OrchardInput,
+  SeasonCalendar,
+  SeasonCalendarInput,
+} from "@/lib/types"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -11,6 +20,9 @@ type Body = Partial<{
   source: DataSource
   startDate: string
   endDate: string
+  seasonCalendar: SeasonCalendarInput
+  crop: CropId
+  orchard: OrchardInput
 }>
 
 function toISODate(d: Date) {
@@ -36,6 +48,18 @@ export async function POST(request: NextRequest) {
 
     const source: DataSource = body.source ?? "NASA_POWER"
 
+    let calendar: SeasonCalendar
+    let crop: CropProfile
+    try {
+      calendar = resolveSeasonCalendar(body.seasonCalendar)
+      crop = resolveCrop(body.crop)
+      orchardCanopyCover(crop, body.orchard)
+      orchardBudBreak(body.orchard)
+    } catch (e) {
+      if (!(e instanceof SeasonCalendarError) && !(e instanceof CropError)) throw e
+      return NextResponse.json({ success: false, error: e.message }, { status: e.status })
+    }
+
     // ✅ 20 años hacia atrás desde HOY (o desde endDate si lo mandas)
     const end = isValidISODate(body.endDate) ? new Date(body.endDate!) : new Date()
     const start = isValidISODate(body.startDate)
@@ -56,6 +80,9 @@ export async function POST(request: NextRequest) {
       endDate: toISODate(end),
       parameters: [],
       source,
+      seasonCalendar: body.seasonCalendar,
+      crop: crop.id,
+      orchard: body.orchard,
     }
 
     const weatherService = new WeatherService()
@@ -92,6 +119,9 @@ export async function POST(request: NextRequest) {
         endDate: climateRequest.endDate,
         dayCount,
         isHistorical: true,
+        seasonCalendar: calendar,
+        crop: crop.id,
+        orchard: body.orchard,
       },
     })
   } catch (error) {
@@ -0,0 +1,24 @@
+// app/api/jobs/[id]/route.ts
+import { type NextRequest, NextResponse } from "next/server"
+import { getJob, jobSummary } from "@/lib/climate-jobs"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/**
+ * Estado de un job de descarga (lib/climate-jobs.ts).
+ * ?include=result añade data/debug cuando el job ha terminado bien.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const job = await getJob(params.id)
+  if (!job) {
+    return NextResponse.json({ success: false, error: "Job no encontrado" }, { status: 404 })
+  }
+
+  const includeResult = request.nextUrl.searchParams.get("include") === "result"
+
+  return NextResponse.json({
+    success: job.status !== "failed",
+    ...jobSummary(job, includeResult),
+  })
+}
@@ -0,0 +1,10 @@
+// app/api/providers/route.ts
+import { NextResponse } from "next/server"
+import { listProviderDescriptors } from "@/lib/providers"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  return NextResponse.json({ success: true, source: "API", data: listProviderDescriptors() })
+}
@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { VarietyRecommendationEngine } from "@/lib/variety-recommendation"
+import { resolveSeasonCalendar, SeasonCalendarError } from "@/lib/season-calendar"
 import type { VarietyRecommendationRequest } from "@/lib/types"
 
 export async function POST(request: NextRequest) {
@@ -15,7 +16,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No climate data provided" }, { status: 400 })
     }
 
-    const engine = new VarietyRecommendationEngine()
+    // ventanas de frío / GDD / heladas / calor: body.seasonCalendar (id o calendario propio)
+    let engine: VarietyRecommendationEngine
+    try {
+      engine = new VarietyRecommendationEngine(resolveSeasonCalendar(body.seasonCalendar))
+    } catch (e) {
+      if (!(e instanceof SeasonCalendarError)) throw e
+      return NextResponse.json({ error: e.message }, { status: e.status })
+    }
 
     // Generate variety recommendations
     const recommendations = engine.recommendVarieties(body.climateData, {
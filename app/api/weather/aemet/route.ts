@@ -1,6 +1,7 @@
 // app/api/weather/aemet/route.ts
 import "server-only"
 import { NextRequest, NextResponse } from "next/server"
+import { lookupPostalCode } from "@/lib/gazetteer"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
@@ -85,11 +86,11 @@ function pickProb00_24(list: any[] | undefined): number {
   return Number.isFinite(v) ? v : 0
 }
 
-function maxWindMs(viento: any[] | undefined): number {
+// km/h tal cual los da AEMET: la respuesta lo declara en `units` y lib/climate-schema.ts pasa a m/s
+function maxWindKmh(viento: any[] | undefined): number {
   if (!Array.isArray(viento) || viento.length === 0) return 0
   const speeds = viento.map((v) => Number(v?.velocidad)).filter((n) => Number.isFinite(n))
-  const maxKmh = speeds.length ? Math.max(...speeds) : 0
-  return maxKmh / 3.6
+  return speeds.length ? Math.max(...speeds) : 0
 }
 
 // ---------- map AEMET -> ClimateData-like[] ----------
@@ -112,7 +113,7 @@ function mapAemetMunicipioDaily(predJson: any) {
       rhDatoAvg ??
       (Number.isFinite(rhMax) && Number.isFinite(rhMin) ? (rhMax + rhMin) / 2 : 0)
 
-    const windMs = maxWindMs(d?.viento)
+    const windKmh = maxWindKmh(d?.viento)
     const probPrecip = pickProb00_24(d?.probPrecipitacion)
     const uv = Number(d?.uvMax ?? 0)
 
@@ -123,7 +124,7 @@ function mapAemetMunicipioDaily(predJson: any) {
       temperature_avg: Number.isFinite(tavg) ? tavg : 0,
       humidity: Number.isFinite(rhAvg) ? rhAvg : 0,
       precipitation: Number.isFinite(probPrecip) ? probPrecip : 0,
-      wind_speed: Number.isFinite(windMs) ? windMs : 0,
+      wind_speed: Number.isFinite(windKmh) ? windKmh : 0,
       solar_radiation: 0,
       eto: 0,
       etc: 0,
@@ -136,85 +137,6 @@ function mapAemetMunicipioDaily(predJson: any) {
   })
 }
 
-// ---------- CP -> coords -> INE municipio ----------
-type AemetMunicipio = { id: string; nombre: string; latitud: string; longitud: string }
-
-const MUNICIPIOS_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
-const municipiosCache: { ts: number; data: AemetMunicipio[] | null } =
-  (globalThis as any).__aemet_municipios_cache ??
-  ((globalThis as any).__aemet_municipios_cache = { ts: 0, data: null })
-
-function parseAemetCoordToNumber(s: string): number | null {
-  if (!s) return null
-  const m = String(s).trim().match(/^(\d+(?:[.,]\d+)?)([NSEW])?$/i)
-  if (!m) return null
-  const num = Number(m[1].replace(",", "."))
-  if (!Number.isFinite(num)) return null
-  const hemi = (m[2] || "").toUpperCase()
-  if (hemi === "S" || hemi === "W") return -num
-  return num
-}
-
-function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const R = 6371
-  const toRad = (x: number) => (x * Math.PI) / 180
-  const dLat = toRad(lat2 - lat1)
-  const dLon = toRad(lon2 - lon1)
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2
-  return 2 * R * Math.asin(Math.sqrt(a))
-}
-
-async function getAemetMunicipios(): Promise<AemetMunicipio[]> {
-  const now = Date.now()
-  if (municipiosCache.data && now - municipiosCache.ts < MUNICIPIOS_CACHE_TTL_MS) return municipiosCache.data
-
-  const endpoint = `${AEMET_BASE}/maestro/municipios`
-  const datosUrl = await aemetGetDatosUrl(endpoint)
-  const list = await aemetDownloadFinalJson(datosUrl)
-
-  if (!Array.isArray(list)) throw new Error("AEMET: maestro/municipios no devolvió array")
-
-  municipiosCache.data = list as AemetMunicipio[]
-  municipiosCache.ts = now
-  return municipiosCache.data
-}
-
-async function geocodePostalCode(req: NextRequest, postalCode: string): Promise<{ lat: number; lon: number }> {
-  const origin = req.nextUrl.origin
-  const res = await fetch(`${origin}/api/geocode/postalcode`, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify({ postalCode }),
-    cache: "no-store",
-  })
-
-  const j = await res.json().catch(() => null)
-
-  // ✅ tu geocoder devuelve success:true ya (si lo cambiaste)
-  if (!res.ok || !j?.success || typeof j?.latitude !== "number" || typeof j?.longitude !== "number") {
-    throw new Error("No se pudieron obtener coordenadas para el código postal.")
-  }
-  return { lat: j.latitude, lon: j.longitude }
-}
-
-async function resolveMunicipioIneFromPostalCode(req: NextRequest, postalCode: string) {
-  const { lat, lon } = await geocodePostalCode(req, postalCode)
-  const municipios = await getAemetMunicipios()
-
-  let best: { id: string; nombre: string; distKm: number } | null = null
-  for (const m of municipios) {
-    const mlat = parseAemetCoordToNumber(m.latitud)
-    const mlon = parseAemetCoordToNumber(m.longitud)
-    if (mlat == null || mlon == null) continue
-    const d = haversineKm(lat, lon, mlat, mlon)
-    if (!best || d < best.distKm) best = { id: String(m.id), nombre: String(m.nombre), distKm: d }
-  }
-  if (!best) throw new Error("No se pudo resolver municipio AEMET cercano.")
-  return best
-}
-
 // ---------- handler ----------
 export async function POST(req: NextRequest) {
   try {
@@ -258,58 +180,47 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ success: false, error: `Rango de fechas excedido (máx ${MAX_FORECAST_DAYS} días)`, source: "AEMET" }, { status: 400 })
     }
 
-    // ✅ INE municipio
-// ✅ INE municipio:
-// 1) primero: como Postman -> usa el CP como municipio (muchos CP coinciden)
-// 2) si falla, fallback: CP -> coords -> municipio AEMET más cercano
-
-let muni = String(body.municipio || "").trim()
-let muniNombre: string | undefined
-let muniDistKm: number | undefined
-
-if (!/^\d{5}$/.test(muni)) muni = cp
-
-let predJson: any = null
-
-try {
-  // 1) Intento directo (igual que Postman)
-  const endpointDirect = `${AEMET_BASE}/prediccion/especifica/municipio/diaria/${muni}`
-  const datosUrlDirect = await aemetGetDatosUrl(endpointDirect)
-  predJson = await aemetDownloadFinalJson(datosUrlDirect)
-} catch (err) {
-  // 2) Fallback: resolver municipio cercano
-  const r = await resolveMunicipioIneFromPostalCode(req, cp)
-  muni = r.id
-  muniNombre = r.nombre
-  muniDistKm = r.distKm
-
-  const endpoint = `${AEMET_BASE}/prediccion/especifica/municipio/diaria/${muni}`
-  const datosUrl = await aemetGetDatosUrl(endpoint)
-  predJson = await aemetDownloadFinalJson(datosUrl)
-}
+    // ✅ INE municipio: el que venga en el body o el del CP en el nomenclátor (lib/gazetteer.ts)
+    let muni = String(body.municipio || "").trim()
+    let muniNombre: string | undefined
+
+    if (!/^\d{5}$/.test(muni)) {
+      const match = lookupPostalCode(cp)
+      if (!match) {
+        return NextResponse.json(
+          { success: false, error: "Código postal no encontrado en el nomenclátor", source: "AEMET" },
+          { status: 404 },
+        )
+      }
+      muni = match.ine
+      muniNombre = match.municipio
+    }
 
-// ✅ map + filtro rango
-let data = mapAemetMunicipioDaily(predJson)
-data = filterByRange(data, startStr, endStr)
+    const endpoint = `${AEMET_BASE}/prediccion/especifica/municipio/diaria/${muni}`
+    const datosUrl = await aemetGetDatosUrl(endpoint)
+    const predJson = await aemetDownloadFinalJson(datosUrl)
 
-if (data.length === 0) {
-  return NextResponse.json(
-    { success: false, error: "Sin datos en el rango solicitado", source: "AEMET", municipio: muni, debug: { startStr, endStr } },
-    { status: 400 },
-  )
-}
+    // ✅ map + filtro rango
+    let data = mapAemetMunicipioDaily(predJson)
+    data = filterByRange(data, startStr, endStr)
 
-return NextResponse.json({
-  success: true,
-  source: "AEMET",
-  data,
-  postalCode: cp,
-  municipio: muni,
-  municipioNombre: muniNombre,
-  municipioDistanceKm: muniDistKm,
-  requestRange: { startDate: startStr, endDate: endStr },
-})
+    if (data.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Sin datos en el rango solicitado", source: "AEMET", municipio: muni, debug: { startStr, endStr } },
+        { status: 400 },
+      )
+    }
 
+    return NextResponse.json({
+      success: true,
+      source: "AEMET",
+      data,
+      units: { wind_speed: "km/h" },
+      postalCode: cp,
+      municipio: muni,
+      municipioNombre: muniNombre,
+      requestRange: { startDate: startStr, endDate: endStr },
+    })
   } catch (e) {
     // ✅ aquí verás el motivo real del 500
     return NextResponse.json(
@@ -1,83 +1,104 @@
+// app/api/weather/hourly/route.ts
+import "server-only"
 import { type NextRequest, NextResponse } from "next/server"
-import type { HourlyClimateRequest, HourlyClimateData, ApiResponse } from "@/lib/types"
+import type { ApiResponse } from "@/lib/types"
+import type { HourlyClimateData, HourlyClimateRequest } from "@/lib/hourly-data-service"
+import { getHourlyClimateData, HOURLY_SOURCES, isHourlySource } from "@/lib/hourly-providers"
 
-export async function POST(request: NextRequest) {
-  try {
-    const body: HourlyClimateRequest = await request.json()
-
-    // Validate request
-    if (!body.latitude || !body.longitude || !body.startDate || !body.endDate) {
-      return NextResponse.json({ error: "Missing required parameters" }, { status: 400 })
-    }
-
-    // Validate date range (max 1 year for hourly data)
-    const startDate = new Date(body.startDate)
-    const endDate = new Date(body.endDate)
-    const hoursDiff = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60))
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
 
-    const maxHours = body.maxHours || 8760 // 1 year default
-    if (hoursDiff > maxHours) {
-      return NextResponse.json(
-        {
-          error: `Date range too large. Maximum ${maxHours} hours (${Math.floor(maxHours / 24)} days)`,
-        },
-        { status: 400 },
-      )
-    }
+const DEFAULT_MAX_HOURS = 8760 // 1 año
 
-    // Generate mock hourly data (in production, this would call real APIs)
-    const hourlyData: HourlyClimateData[] = []
+function isYYYYMMDD(s?: string) {
+  return !!s && /^\d{4}-\d{2}-\d{2}$/.test(s)
+}
 
-    for (let hour = 0; hour < hoursDiff; hour++) {
-      const currentTime = new Date(startDate.getTime() + hour * 60 * 60 * 1000)
-      const hourOfDay = currentTime.getHours()
+/**
+ * Datos horarios reales (lib/hourly-providers.ts).
+ * source: OPEN_METEO (por defecto), NASA_POWER o ERA5. Cada hora lleva `provenance`.
+ */
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => ({}))) as Partial<HourlyClimateRequest>
+  const source = body.source ?? "OPEN_METEO"
 
-      // Simulate daily temperature cycle
-      const baseTemp = 15 + Math.sin((currentTime.getTime() / (1000 * 60 * 60 * 24 * 365)) * 2 * Math.PI) * 10
-      const dailyVariation = Math.sin((hourOfDay / 24) * 2 * Math.PI - Math.PI / 2) * 8
-      const temperature = baseTemp + dailyVariation + (Math.random() - 0.5) * 3
+  if (!isHourlySource(source)) {
+    return NextResponse.json(
+      {
+        success: false,
+        source: String(source),
+        error: `Fuente horaria no soportada: ${source}. Usa ${HOURLY_SOURCES.join(", ")}`,
+      } satisfies ApiResponse<never>,
+      { status: 400 },
+    )
+  }
 
-      // Simulate humidity (inverse relationship with temperature)
-      const humidity = Math.max(20, Math.min(95, 80 - (temperature - 15) * 1.5 + (Math.random() - 0.5) * 20))
+  const latitude = Number(body.latitude)
+  const longitude = Number(body.longitude)
+  const startDate = String(body.startDate || "").slice(0, 10)
+  const endDate = String(body.endDate || "").slice(0, 10)
 
-      // Simulate solar radiation (peak at noon)
-      const solarFactor = Math.max(0, Math.sin(((hourOfDay - 6) / 12) * Math.PI))
-      const solar_radiation = solarFactor * (800 + Math.random() * 200)
+  if (body.latitude == null || body.longitude == null || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return NextResponse.json(
+      { success: false, source, error: "Faltan coordenadas (latitude/longitude)" } satisfies ApiResponse<never>,
+      { status: 400 },
+    )
+  }
+  if (!isYYYYMMDD(startDate) || !isYYYYMMDD(endDate) || endDate < startDate) {
+    return NextResponse.json(
+      {
+        success: false,
+        source,
+        error: "Fechas inválidas (YYYY-MM-DD, endDate >= startDate)",
+      } satisfies ApiResponse<never>,
+      { status: 400 },
+    )
+  }
 
-      // Simulate precipitation (random events)
-      const precipitation = Math.random() < 0.05 ? Math.random() * 5 : 0
+  // rango inclusivo: cada día son 24 horas
+  const hours = (Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 3_600_000 + 24
+  const maxHours = Number(body.maxHours) > 0 ? Number(body.maxHours) : DEFAULT_MAX_HOURS
+  if (hours > maxHours) {
+    return NextResponse.json(
+      {
+        success: false,
+        source,
+        error: `Rango demasiado largo. Máximo ${maxHours} horas (${Math.floor(maxHours / 24)} días)`,
+      } satisfies ApiResponse<never>,
+      { status: 400 },
+    )
+  }
 
-      // Simulate wind speed
-      const wind_speed = 2 + Math.random() * 8
+  try {
+    const data = await getHourlyClimateData(source, { latitude, longitude, startDate, endDate })
 
-      hourlyData.push({
-        datetime: currentTime.toISOString(),
-        temperature: Number.parseFloat(temperature.toFixed(1)),
-        humidity: Number.parseFloat(humidity.toFixed(1)),
-        wind_speed: Number.parseFloat(wind_speed.toFixed(1)),
-        precipitation: Number.parseFloat(precipitation.toFixed(1)),
-        solar_radiation: Number.parseFloat(solar_radiation.toFixed(1)),
-        pressure: Number.parseFloat((1013 + (Math.random() - 0.5) * 20).toFixed(1)),
-        dew_point: Number.parseFloat((temperature - (100 - humidity) / 5).toFixed(1)),
-      })
+    if (!data.length) {
+      return NextResponse.json(
+        {
+          success: false,
+          source,
+          error: `${source} no devolvió datos horarios en ${startDate} → ${endDate}`,
+        } satisfies ApiResponse<never>,
+        { status: 502 },
+      )
     }
 
     const response: ApiResponse<HourlyClimateData[]> = {
       success: true,
-      data: hourlyData,
-      source: "HOURLY_MOCK",
+      source,
+      data,
+      debug: { hourly: { requestedHours: hours, returnedHours: data.length, timezone: "UTC" } },
     }
-
     return NextResponse.json(response)
   } catch (error) {
     console.error("Hourly weather API error:", error)
     return NextResponse.json(
       {
         success: false,
-        error: "Internal server error",
-        source: "HOURLY_API",
-      },
-      { status: 500 },
+        source,
+        error: error instanceof Error ? error.message : "Error obteniendo datos horarios",
+      } satisfies ApiResponse<never>,
+      { status: 502 },
     )
   }
 }
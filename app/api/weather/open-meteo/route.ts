@@ -1,13 +1,15 @@
 // app/api/weather/open-meteo/route.ts
 import { NextRequest, NextResponse } from "next/server"
 import type { ApiResponse, ClimateData, ClimateRequest } from "@/lib/types"
+import { DEFAULT_AGRONOMY, dailyGdd } from "@/lib/agronomy"
+import { dailyChillModelsFromHourly, type DailyChillModels } from "@/lib/chill-models"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
-const CHILL_THRESHOLD_C = 7.2
-const FROST_THRESHOLD_C = 0
-const GDD_BASE_C = 7
+// mismos umbrales que el motor agronómico, pero contando horas reales
+const CHILL_THRESHOLD_C = DEFAULT_AGRONOMY.chill.thresholdC
+const FROST_THRESHOLD_C = DEFAULT_AGRONOMY.frost.thresholdC
 
 function isISODate(s?: string) {
   return typeof s === "string" && /^\d{4}-\d{2}-\d{2}$/.test(s)
@@ -41,7 +43,9 @@ async function fetchJson(url: string, timeoutMs = 30000) {
  * Open-Meteo daily:
  * - precipitation_sum: mm
  * - et0_fao_evapotranspiration: mm
- * - shortwave_radiation_sum: normalmente MJ/m²/día
+ * - shortwave_radiation_sum: MJ/m²/día
+ * - wind_speed_10m_mean: km/h (unidad por defecto; descriptor.units lo declara). La media, no la máxima:
+ *   Penman-Monteith y el ajuste de Kc esperan el viento medio del día (la racha máxima infla u2)
  */
 type DailyPayload = {
   daily?: {
@@ -51,7 +55,7 @@ type DailyPayload = {
     precipitation_sum?: number[]
     et0_fao_evapotranspiration?: number[]
     shortwave_radiation_sum?: number[]
-    wind_speed_10m_max?: number[]
+    wind_speed_10m_mean?: number[]
   }
   hourly?: {
     time?: string[]
@@ -64,11 +68,6 @@ type ChillAgg = {
   frostH: number
 }
 
-function mjToKWh(mj: number) {
-  // 1 MJ = 0.277777... kWh
-  return mj * 0.2777777778
-}
-
 export async function POST(req: NextRequest) {
   try {
     const body = (await req.json().catch(() => ({}))) as Partial<ClimateRequest>
@@ -105,10 +104,11 @@ export async function POST(req: NextRequest) {
     const startDate = body.startDate!
     const endDate = body.endDate!
 
-    // Elegimos API histórica o forecast según si termina en futuro
-    // (si tu rango cruza pasado/futuro, forecast suele funcionar mejor; archive es más estricto)
+    // Elegimos API histórica o forecast según si llega a hoy o al futuro
+    // (si tu rango cruza pasado/futuro, forecast suele funcionar mejor; archive es más estricto
+    // y no tiene el día de hoy: una previsión de 1 día de campaña termina hoy)
     const todayISO = new Date().toISOString().slice(0, 10)
-    const useForecast = endDate > todayISO
+    const useForecast = endDate >= todayISO
 
     const baseUrl = useForecast ? "https://api.open-meteo.com/v1/forecast" : "https://archive-api.open-meteo.com/v1/archive"
 
@@ -119,7 +119,7 @@ export async function POST(req: NextRequest) {
       "precipitation_sum",
       "et0_fao_evapotranspiration",
       "shortwave_radiation_sum",
-      "wind_speed_10m_max",
+      "wind_speed_10m_mean",
     ].join(",")
 
     // ✅ HOURLY: solo lo necesario para horas frío/helada reales
@@ -143,7 +143,7 @@ export async function POST(req: NextRequest) {
     const pSumA = payload.daily?.precipitation_sum ?? []
     const etoA = payload.daily?.et0_fao_evapotranspiration ?? []
     const radSumA = payload.daily?.shortwave_radiation_sum ?? []
-    const windMaxA = payload.daily?.wind_speed_10m_max ?? []
+    const windMeanA = payload.daily?.wind_speed_10m_mean ?? []
 
     const hTime = payload.hourly?.time ?? []
     const hTemp = payload.hourly?.temperature_2m ?? []
@@ -161,9 +161,10 @@ export async function POST(req: NextRequest) {
     }
 
     // ---------
-    // 1) Agregar horas frío / helada desde hourly
+    // 1) Agregar horas frío / helada (y modelos de frío) desde hourly
     // ---------
     const chillByDay: Record<string, ChillAgg> = {}
+    let chillModels: Record<string, DailyChillModels> = {}
 
     if (Array.isArray(hTime) && Array.isArray(hTemp) && hTime.length > 0 && hTime.length === hTemp.length) {
       for (let i = 0; i < hTime.length; i++) {
@@ -178,6 +179,11 @@ export async function POST(req: NextRequest) {
         if (Tc < CHILL_THRESHOLD_C) chillByDay[dayKey].chillH += 1
         if (Tc < FROST_THRESHOLD_C) chillByDay[dayKey].frostH += 1
       }
+
+      // porciones (Modelo Dinámico) y Utah sobre la serie horaria completa
+      chillModels = dailyChillModelsFromHourly(
+        hTime.map((t: string, i: number) => ({ time: String(t), tempC: safeNum(hTemp[i], NaN) })),
+      )
     } else {
       // no es fatal, pero avisamos
       // (sin hourly no puedes calcular horas frío reales)
@@ -193,17 +199,16 @@ export async function POST(req: NextRequest) {
 
       const precip = safeNum(pSumA[idx], 0) // mm/día
       const eto = safeNum(etoA[idx], 0) // mm/día
-      const windMax = safeNum(windMaxA[idx], 0)
+      const windMean = safeNum(windMeanA[idx], NaN)
 
-      // radiación diaria: MJ/m²/día -> kWh/m²/día (como tu ERA5)
+      // radiación diaria en MJ/m²/día; viento en km/h (lib/climate-schema.ts los pasa a canónicas)
       const radMJ = safeNum(radSumA[idx], 0)
-      const radKWh = mjToKWh(Math.max(0, radMJ))
 
       const chill = chillByDay[dateISO]?.chillH ?? 0
       const frost = chillByDay[dateISO]?.frostH ?? 0
 
-      // GDD base 7 diario (coherente con tu motor de variedades)
-      const gdd = Math.max(0, tavg - GDD_BASE_C)
+      // GDD diario con el motor común (base 7)
+      const gdd = dailyGdd(tmax, tmin)
 
       return {
         date: dateISO,
@@ -211,12 +216,13 @@ export async function POST(req: NextRequest) {
         temperature_min: Number(tmin.toFixed(2)),
         temperature_avg: Number(tavg.toFixed(2)),
 
-        // Open-Meteo daily no nos da RH en daily en este endpoint -> dejamos 0
-        humidity: 0,
+        // Open-Meteo daily no nos da RH en daily en este endpoint -> hueco (undefined), no 0
+        humidity: undefined,
 
         precipitation: Number(Math.max(0, precip).toFixed(2)),
-        wind_speed: Number(Math.max(0, windMax).toFixed(2)), // aquí usamos el max diario como proxy
-        solar_radiation: Number(radKWh.toFixed(3)), // kWh/m²/día
+        // sin dato: hueco (undefined), no 0 (un viento nulo baja la ETo de Penman-Monteith)
+        wind_speed: Number.isFinite(windMean) ? Number(Math.max(0, windMean).toFixed(2)) : undefined,
+        solar_radiation: Number(Math.max(0, radMJ).toFixed(3)), // MJ/m²/día
 
         eto: Number(Math.max(0, eto).toFixed(3)), // mm/día
         etc: 0, // lo calculará tu ClimateCalculator con Kc
@@ -224,6 +230,7 @@ export async function POST(req: NextRequest) {
         frost_hours: frost,
         chill_hours: chill,
         gdd: Number(gdd.toFixed(2)),
+        ...chillModels[dateISO],
 
         computedChillHeat: true,
         computedFromHourly: true,
@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Thermometer, Snowflake, Clock, Droplets, TrendingUp, AlertTriangle, CheckCircle } from "lucide-react"
+import { CROP_PROFILES, DEFAULT_CROP, isCropId } from "@/lib/crops"
+import type { CropId } from "@/lib/types"
 
 interface AnalysisData {
   summary: {
@@ -20,6 +22,7 @@ interface AnalysisData {
     waterDeficit: number
   }
   suitability: {
+    crop?: CropId
     suitabilityScore: number
     recommendations: string[]
     warnings: string[]
@@ -49,6 +52,8 @@ export function ClimateAnalysisResults({ data }: ClimateAnalysisResultsProps) {
   // Use the first available source for display (could be enhanced to combine sources)
   const primarySource = sources[0]
   const analysis = data.analyses[primarySource]
+  const cropId = analysis?.suitability?.crop
+  const crop = isCropId(cropId) ? CROP_PROFILES[cropId] : DEFAULT_CROP
 
   const getSuitabilityColor = (score: number) => {
     if (score >= 80) return "text-green-600"
@@ -70,7 +75,7 @@ export function ClimateAnalysisResults({ data }: ClimateAnalysisResultsProps) {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TrendingUp className="h-5 w-5 text-primary" />
-            Índice de Aptitud para Pistacho
+            Índice de Aptitud para {crop.label}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -21,6 +21,7 @@ import {
   CheckCircle,
   Info,
   ArrowLeft,
+  CloudSun,
 } from "lucide-react"
 
 import { ClimateAnalysisResults } from "./climate-analysis-results"
@@ -28,14 +29,18 @@ import { HistogramCharts } from "./histogram-charts"
 import { DownloadButtons } from "./download-buttons"
 import { DetailedReport } from "./detailed-report"
 import { VarietyRecommendationDashboard } from "./variety-recommendation-dashboard"
+import { SourceComparisonPanel } from "./source-comparison-panel"
 
 // ✅ Recalc dinámico del dashboard
-import {
-  CHILL_SEASON_MONTHS,
-  filterDailyData,
-  recalcMetricsFromDaily,
-  recalcHistoricalAveragesFromDaily,
-} from "@/lib/dashboard-recalc"
+import { filterDailyData, recalcMetricsFromDaily, recalcHistoricalAveragesFromDaily } from "@/lib/dashboard-recalc"
+import { DEFAULT_SEASON_CALENDAR, seasonWindowLabel } from "@/lib/season-calendar"
+import { CROP_PROFILES, DEFAULT_CROP, cropSuitabilityScore, isCropId } from "@/lib/crops"
+import type { CropId, OrchardInput, SeasonCalendar } from "@/lib/types"
+import { BLEND_VARIABLES, BLEND_VARIABLE_LABELS, summarizeProvenance } from "@/lib/blend"
+import { isComparableRange } from "@/lib/source-comparison"
+import { campaignTotals } from "@/lib/campaign"
+import { formatParcelLabel, type ParcelInfo } from "@/lib/parcel"
+import { QC_FIELD_LABELS, QC_TEST_LABELS, QC_TESTS, formatQcFlags, hasQcFlags, qcSummary } from "@/lib/quality-control"
 
 type RequestInfo = {
   latitude: number
@@ -50,6 +55,11 @@ type RequestInfo = {
   postalCode?: string
   municipio?: string
   municipioNombre?: string
+  campaign?: { forecastSource: string; forecastDays: number } // campaña en curso (observado + previsión)
+  parcel?: ParcelInfo // clic en el mapa: municipio + estaciones cercanas
+  seasonCalendar?: SeasonCalendar // ventanas de frío / GDD de la consulta (por defecto, pistacho hemisferio norte)
+  crop?: CropId // reglas de aptitud (por defecto, pistacho)
+  orchard?: OrchardInput // cobertura / edad de la plantación con que se calculó el Kc
 }
 
 interface ClimateDashboardProps {
@@ -66,34 +76,6 @@ function clampNumber(n: unknown, fallback = 0) {
   return Number.isFinite(v) ? v : fallback
 }
 
-/**
- * ✅ Score “dashboard” para que el índice NO dependa del total 20 años.
- * Reglas alineadas con tu ClimateCalculator (pero usando valores medios anuales).
- */
-function calculateSuitabilityScoreFromSummary(summary: {
-  chillHours: number
-  totalGDD: number
-  frostDays: number
-  waterDeficit: number
-}) {
-  let score = 100
-
-  // Chill hours (ideal 600-1500)
-  if (summary.chillHours < 600 || summary.chillHours > 1500) score -= 30
-
-  // GDD (Abr-Oct) ideal 1500-3000
-  if (summary.totalGDD < 1500) score -= 25
-  if (summary.totalGDD > 3400) score -= 8
-
-  // Frost days
-  if (summary.frostDays > 10) score -= summary.frostDays * 2
-
-  // Water deficit
-  if (summary.waterDeficit > 500) score -= Math.min(25, (summary.waterDeficit - 500) / 40)
-
-  return Math.max(0, Math.min(100, Math.round(score)))
-}
-
 function scoreLabel(score: number) {
   if (score >= 80) return "Excelente"
   if (score >= 60) return "Bueno"
@@ -105,6 +87,8 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
   const [activeTab, setActiveTab] = useState("overview")
   const [showDetailedReport, setShowDetailedReport] = useState(false)
   const [showVarietyRecommendation, setShowVarietyRecommendation] = useState(false)
+  // ✅ días con flags de calidad (lib/quality-control.ts): fuera de las métricas si se activa
+  const [excludeQcFlagged, setExcludeQcFlagged] = useState(false)
 
   const sources = Object.keys(data.analyses || {})
   const primarySource = sources[0]
@@ -129,6 +113,14 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
   console.log("[v0] Final climate data length:", climateData.length)
 
   const isHistorical = Boolean(requestInfo?.isHistorical)
+  const seasonCalendar = requestInfo?.seasonCalendar ?? DEFAULT_SEASON_CALENDAR
+  const crop = isCropId(requestInfo?.crop) ? CROP_PROFILES[requestInfo.crop] : DEFAULT_CROP
+
+  const qc = useMemo(() => qcSummary(climateData as any), [climateData])
+  const metricsData = useMemo(
+    () => (excludeQcFlagged ? climateData.filter((d) => !hasQcFlags(d)) : climateData),
+    [climateData, excludeQcFlagged],
+  )
 
   // ==========================================================
   // ✅ DASHBOARD LIVE METRICS (recalculadas desde climateData)
@@ -136,18 +128,30 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
   //   - Histórico: medias anuales (20 años)
   // ==========================================================
   const liveAllYear = useMemo(() => {
-    const all = filterDailyData(climateData as any, { year: "all" })
-    return isHistorical ? recalcHistoricalAveragesFromDaily(all as any) : recalcMetricsFromDaily(all as any)
-  }, [climateData, isHistorical])
+    const all = filterDailyData(metricsData as any, { year: "all" })
+    const opts = { calendar: seasonCalendar, crop }
+    return isHistorical ? recalcHistoricalAveragesFromDaily(all as any, opts) : recalcMetricsFromDaily(all as any, opts)
+  }, [metricsData, isHistorical, seasonCalendar, crop])
 
   const liveChillSeason = useMemo(() => {
-    // En normal: filtramos Nov-Feb
-    // En histórico: lo calculamos por año y luego media anual (aquí filtramos por meses para que sea más “legible”)
-    const chillSeasonDaily = filterDailyData(climateData as any, { year: "all", months: CHILL_SEASON_MONTHS })
+    // En normal: filtramos la ventana de frío del calendario (Nov-Feb por defecto)
+    // En histórico: lo calculamos por año y luego media anual (aquí filtramos la ventana para que sea más “legible”)
+    const chillSeasonDaily = filterDailyData(metricsData as any, { year: "all", window: seasonCalendar.windows.chill })
+    const opts = { calendar: seasonCalendar, crop }
     return isHistorical
-      ? recalcHistoricalAveragesFromDaily(chillSeasonDaily as any, { chillMonths: CHILL_SEASON_MONTHS })
-      : recalcMetricsFromDaily(chillSeasonDaily as any, { chillMonths: CHILL_SEASON_MONTHS })
-  }, [climateData, isHistorical])
+      ? recalcHistoricalAveragesFromDaily(chillSeasonDaily as any, opts)
+      : recalcMetricsFromDaily(chillSeasonDaily as any, opts)
+  }, [metricsData, isHistorical, seasonCalendar, crop])
+
+  // ✅ Procedencia por variable (solo series BLEND)
+  const provenance = useMemo(() => summarizeProvenance(climateData as any), [climateData])
+  const hasProvenance = Object.keys(provenance).length > 0
+
+  // ✅ Campaña en curso: acumulados observados y proyectados con la previsión
+  const campaign = useMemo(
+    () => ((climateData as any[]).some((d) => d?.isForecast) ? campaignTotals(climateData as any) : null),
+    [climateData],
+  )
 
   const comparisonMetrics = useMemo(() => {
     const all = liveAllYear?.summary
@@ -156,39 +160,51 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
 
     // En histórico, queremos “por año” implícito (media anual).
     // En normal, son totales del rango seleccionado.
+    // Rangos óptimos: los del cultivo (lib/crops.ts)
+    const chillMin = crop.chill.minHours
+    const chillMax = crop.chill.maxHours ?? Number.POSITIVE_INFINITY
+    const { minGdd, highGdd } = crop.heat
+    const { maxFrostDays } = crop.frost
+    const { deficitPenaltyMm } = crop.water
+
     return {
       chillHours: {
         value: clampNumber(chill.chillHours),
-        optimal: { min: 600, max: 1500 },
+        optimal: { min: chillMin, max: chillMax },
         status:
-          clampNumber(chill.chillHours) >= 600 && clampNumber(chill.chillHours) <= 1500
+          clampNumber(chill.chillHours) >= chillMin && clampNumber(chill.chillHours) <= chillMax
             ? "optimal"
-            : clampNumber(chill.chillHours) < 600
+            : clampNumber(chill.chillHours) < chillMin
               ? "low"
               : "high",
       },
       gdd: {
         value: clampNumber(all.totalGDD),
-        optimal: { min: 1500, max: 3000 },
+        optimal: { min: minGdd, max: highGdd },
         status:
-          clampNumber(all.totalGDD) >= 1500 && clampNumber(all.totalGDD) <= 3000
+          clampNumber(all.totalGDD) >= minGdd && clampNumber(all.totalGDD) <= highGdd
             ? "optimal"
-            : clampNumber(all.totalGDD) < 1500
+            : clampNumber(all.totalGDD) < minGdd
               ? "low"
               : "high",
       },
       frostDays: {
         value: clampNumber(all.frostDays),
-        optimal: { min: 0, max: 10 },
-        status: clampNumber(all.frostDays) <= 10 ? "optimal" : "high",
+        optimal: { min: 0, max: maxFrostDays },
+        status: clampNumber(all.frostDays) <= maxFrostDays ? "optimal" : "high",
+      },
+      criticalFrostDays: {
+        value: clampNumber(all.criticalFrostDays),
+        optimal: { min: 0, max: 0 },
+        status: clampNumber(all.criticalFrostDays) > 0 ? "high" : "optimal",
       },
       waterDeficit: {
         value: clampNumber(all.waterDeficit),
-        optimal: { min: 0, max: 500 },
-        status: clampNumber(all.waterDeficit) <= 500 ? "optimal" : "high",
+        optimal: { min: 0, max: deficitPenaltyMm },
+        status: clampNumber(all.waterDeficit) <= deficitPenaltyMm ? "optimal" : "high",
       },
     }
-  }, [liveAllYear, liveChillSeason])
+  }, [liveAllYear, liveChillSeason, crop])
 
   // ✅ Si es histórico, calculamos un score basado en MEDIAS anuales del dashboard.
   // Si NO es histórico, dejamos el de primaryAnalysis (tu cálculo original).
@@ -196,13 +212,14 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
     if (!isHistorical) return clampNumber(primaryAnalysis?.suitability?.suitabilityScore, 0)
     const s = liveAllYear?.summary
     if (!s) return 0
-    return calculateSuitabilityScoreFromSummary({
+    return cropSuitabilityScore(crop, {
       chillHours: clampNumber(liveChillSeason?.summary?.chillHours, 0),
       totalGDD: clampNumber(s.totalGDD, 0),
       frostDays: clampNumber(s.frostDays, 0),
+      criticalFrostDays: clampNumber(s.criticalFrostDays, 0),
       waterDeficit: clampNumber(s.waterDeficit, 0),
     })
-  }, [isHistorical, primaryAnalysis, liveAllYear, liveChillSeason])
+  }, [isHistorical, primaryAnalysis, liveAllYear, liveChillSeason, crop])
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -236,12 +253,16 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
     return Number.isFinite(n) ? n.toFixed(2) : "0.00"
   }
 
+  // "Finca en Tomelloso (Ciudad Real)" si el punto salió del mapa
+  const parcelLabel = requestInfo.parcel ? formatParcelLabel(requestInfo.parcel) : undefined
+  const reportCoordinates = { lat: requestInfo.latitude, lon: requestInfo.longitude, label: parcelLabel }
+
   const exportData = () => {
     const exportPayload = {
       requestInfo,
       analyses: data.analyses,
       generatedAt: new Date().toISOString(),
-      location: `${requestInfo.latitude}, ${requestInfo.longitude}`,
+      location: parcelLabel ?? `${requestInfo.latitude}, ${requestInfo.longitude}`,
     }
 
     const blob = new Blob([JSON.stringify(exportPayload, null, 2)], { type: "application/json" })
@@ -260,7 +281,9 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
       try {
         await navigator.share({
           title: "Análisis Climático PistachoClima",
-          text: `Análisis climático para coordenadas ${requestInfo.latitude}, ${requestInfo.longitude}`,
+          text: parcelLabel
+            ? `Análisis climático: ${parcelLabel}`
+            : `Análisis climático para coordenadas ${requestInfo.latitude}, ${requestInfo.longitude}`,
           url: window.location.href,
         })
       } catch (error) {
@@ -289,6 +312,7 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
       <VarietyRecommendationDashboard
         climateData={climateData}
         location={{ latitude: requestInfo.latitude, longitude: requestInfo.longitude }}
+        seasonCalendar={seasonCalendar}
         onBack={() => setShowVarietyRecommendation(false)}
       />
     )
@@ -312,7 +336,7 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
         <DetailedReport
           climateData={climateData}
           analysisResults={primaryAnalysis}
-          coordinates={{ lat: requestInfo.latitude, lon: requestInfo.longitude }}
+          coordinates={reportCoordinates}
           isHistorical={requestInfo.isHistorical}
         />
       </div>
@@ -323,6 +347,14 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
   const postalCode = String(requestInfo?.postalCode || "").trim()
   const municipioNombre = String(requestInfo?.municipioNombre || "").trim()
 
+  // ✅ comparación entre fuentes: necesita coordenadas y periodo (AEMET es previsión por CP);
+  // un histórico de años supera el rango de las fuentes por coordenadas y la ruta lo rechazaría
+  const canCompareSources =
+    !isAemet &&
+    !!requestInfo?.startDate &&
+    !!requestInfo?.endDate &&
+    isComparableRange(String(requestInfo.startDate).slice(0, 10), String(requestInfo.endDate).slice(0, 10))
+
   return (
     <div className="space-y-6">
       {/* Header with Actions */}
@@ -350,6 +382,12 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
                     </>
                   ) : (
                     <>
+                      {parcelLabel && (
+                        <>
+                          <span>{parcelLabel}</span>
+                          <span className="text-muted-foreground">•</span>
+                        </>
+                      )}
                       {requestInfo.latitude.toFixed(4)}, {requestInfo.longitude.toFixed(4)}
                     </>
                   )}
@@ -370,6 +408,12 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
                     Análisis Histórico 20 años (medias anuales)
                   </Badge>
                 )}
+
+                {requestInfo.campaign && (
+                  <Badge variant="secondary" className="text-xs">
+                    Campaña en curso · previsión {requestInfo.campaign.forecastSource}
+                  </Badge>
+                )}
               </div>
             </div>
 
@@ -412,7 +456,7 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
           <DownloadButtons
             climateData={climateData}
             analysisResults={primaryAnalysis}
-            coordinates={{ lat: requestInfo.latitude, lon: requestInfo.longitude }}
+            coordinates={reportCoordinates}
             isHistorical={requestInfo.isHistorical}
             onShowDetailedReport={() => setShowDetailedReport(true)}
             requestInfo={{
@@ -420,6 +464,9 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
               postalCode: (requestInfo as any)?.postalCode,
               startDate: requestInfo.startDate,
               endDate: requestInfo.endDate,
+              seasonCalendar,
+              crop: crop.id,
+              orchard: requestInfo.orchard,
             }}
           />
         </CardContent>
@@ -427,10 +474,11 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
 
       {/* Main Dashboard Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className={`grid w-full ${canCompareSources ? "grid-cols-5" : "grid-cols-4"}`}>
           <TabsTrigger value="overview">Resumen Ejecutivo</TabsTrigger>
           <TabsTrigger value="analysis">Análisis Detallado</TabsTrigger>
           <TabsTrigger value="charts">Visualizaciones</TabsTrigger>
+          {canCompareSources && <TabsTrigger value="compare">Comparar Fuentes</TabsTrigger>}
           <TabsTrigger value="recommendations">Recomendaciones</TabsTrigger>
         </TabsList>
 
@@ -441,7 +489,7 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <TrendingUp className="h-5 w-5 text-primary" />
-                Índice de Aptitud General
+                Índice de Aptitud General · {crop.label}
               </CardTitle>
               {isHistorical && (
                 <CardDescription>
@@ -469,7 +517,7 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
                   {comparisonMetrics && (
                     <div className="space-y-2">
                       <div className="flex items-center justify-between">
-                        <span className="text-sm">Horas Frío (Nov-Feb)</span>
+                        <span className="text-sm">Horas Frío ({seasonWindowLabel(seasonCalendar.windows.chill)})</span>
                         <div className="flex items-center gap-2">
                           {getStatusIcon(comparisonMetrics.chillHours.status)}
                           <span className={`text-sm ${getStatusColor(comparisonMetrics.chillHours.status)}`}>
@@ -479,7 +527,7 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
                       </div>
 
                       <div className="flex items-center justify-between">
-                        <span className="text-sm">Grados Día (Abr-Oct)</span>
+                        <span className="text-sm">Grados Día ({seasonWindowLabel(seasonCalendar.windows.gdd)})</span>
                         <div className="flex items-center gap-2">
                           {getStatusIcon(comparisonMetrics.gdd.status)}
                           <span className={`text-sm ${getStatusColor(comparisonMetrics.gdd.status)}`}>
@@ -498,6 +546,16 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
                         </div>
                       </div>
 
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm">Heladas en {crop.frost.stage}</span>
+                        <div className="flex items-center gap-2">
+                          {getStatusIcon(comparisonMetrics.criticalFrostDays.status)}
+                          <span className={`text-sm ${getStatusColor(comparisonMetrics.criticalFrostDays.status)}`}>
+                            {comparisonMetrics.criticalFrostDays.value.toFixed(isHistorical ? 1 : 0)} días
+                          </span>
+                        </div>
+                      </div>
+
                       <div className="flex items-center justify-between">
                         <span className="text-sm">Déficit Hídrico</span>
                         <div className="flex items-center gap-2">
@@ -555,6 +613,112 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
             </Card>
           </div>
 
+          {campaign && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-sm font-medium">
+                  <CloudSun className="h-4 w-4 text-primary" />
+                  Campaña en Curso
+                </CardTitle>
+                <CardDescription>
+                  Observado hasta {campaign.lastObservedDate ?? "—"} · {campaign.forecastDays} días de previsión desde{" "}
+                  {campaign.firstForecastDate ?? "—"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {(
+                    [
+                      ["Horas frío", "chillHours"],
+                      ["GDD", "gdd"],
+                      ["Horas de helada", "frostHours"],
+                    ] as const
+                  ).map(([label, k]) => (
+                    <div key={k} className="space-y-1">
+                      <div className="text-sm font-medium">{label}</div>
+                      <div className="text-2xl font-bold">{fmt2(campaign.observed[k])}</div>
+                      <p className="text-xs text-muted-foreground">
+                        {`${fmt2(campaign.projected[k])} al final de la previsión ` +
+                          `(+${fmt2(campaign.projected[k] - campaign.observed[k])})`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {qc.flaggedDays > 0 && (
+            <Card className="border-amber-200">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <CardTitle className="flex items-center gap-2 text-sm font-medium">
+                      <AlertTriangle className="h-4 w-4 text-amber-600" />
+                      Control de Calidad
+                    </CardTitle>
+                    <CardDescription>
+                      {qc.flaggedDays} de {qc.checkedDays} días con algún valor sospechoso
+                      {excludeQcFlagged ? " · excluidos de las métricas" : ""}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setExcludeQcFlagged((v) => !v)}>
+                    {excludeQcFlagged ? "Incluir días marcados" : "Excluir días marcados"}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap gap-1">
+                  {QC_TESTS.filter((t) => qc.byTest[t] > 0).map((t) => (
+                    <Badge key={t} variant="outline" className="text-xs">
+                      {QC_TEST_LABELS[t]}: {qc.byTest[t]}
+                    </Badge>
+                  ))}
+                  {Object.entries(qc.byField).map(([f, n]) => (
+                    <Badge key={f} variant="secondary" className="text-xs">
+                      {QC_FIELD_LABELS[f as keyof typeof QC_FIELD_LABELS]}: {n} días
+                    </Badge>
+                  ))}
+                </div>
+                <div className="max-h-48 overflow-y-auto rounded border text-xs">
+                  {(climateData as any[])
+                    .filter((d) => hasQcFlags(d))
+                    .map((d) => (
+                      <div key={d.date} className="flex gap-3 bg-amber-50 px-2 py-1 border-b last:border-b-0">
+                        <span className="font-mono">{d.date}</span>
+                        <span className="text-muted-foreground">{formatQcFlags(d.qc)}</span>
+                      </div>
+                    ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {hasProvenance && (
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-medium">Procedencia de los Datos</CardTitle>
+                <CardDescription>Días aportados por cada fuente en la serie combinada</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {BLEND_VARIABLES.filter((v) => provenance[v]).map((v) => (
+                    <div key={v} className="space-y-1">
+                      <div className="text-sm font-medium">{BLEND_VARIABLE_LABELS[v]}</div>
+                      <div className="flex flex-wrap gap-1">
+                        {Object.entries(provenance[v]!).map(([src, n]) => (
+                          <Badge key={src} variant="outline" className="text-xs">
+                            {src}: {n} días
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Key Alerts */}
           <Card>
             <CardHeader>
@@ -574,7 +738,9 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
                 ) : (
                   <Alert>
                     <CheckCircle className="h-4 w-4" />
-                    <AlertDescription>No se detectaron alertas críticas para el cultivo de pistacho</AlertDescription>
+                    <AlertDescription>
+                      No se detectaron alertas críticas para el cultivo de {crop.label.toLowerCase()}
+                    </AlertDescription>
                   </Alert>
                 )}
               </div>
@@ -592,33 +758,53 @@ export function ClimateDashboard({ data, requestInfo, onBackToForm }: ClimateDas
           <HistogramCharts data={data} />
         </TabsContent>
 
+        {/* Source Comparison Tab */}
+        {canCompareSources && (
+          <TabsContent value="compare">
+            <SourceComparisonPanel
+              latitude={requestInfo.latitude}
+              longitude={requestInfo.longitude}
+              startDate={requestInfo.startDate}
+              endDate={requestInfo.endDate}
+              seasonCalendar={seasonCalendar}
+              crop={crop.id}
+            />
+          </TabsContent>
+        )}
+
         {/* Recommendations Tab */}
         <TabsContent value="recommendations" className="space-y-6">
-          <Card className="border-green-200 bg-green-50">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2 text-green-700">
-                🌱 Recomendación de Variedades de Pistacho
-              </CardTitle>
-              <CardDescription>
-                Descubre qué variedades de pistacho son más adecuadas para estas condiciones climáticas
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm text-muted-foreground mb-2">
-                    Análisis basado en {climateData.length} días de datos climáticos históricos
-                  </p>
-                  <p className="text-sm text-muted-foreground">
-                    Evaluación de 6 variedades principales con requerimientos específicos
-                  </p>
+          {/* ✅ catálogo de variedades solo para pistacho (lib/pistachio-varieties.ts) */}
+          {crop.id === "pistachio" && (
+            <Card className="border-green-200 bg-green-50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-green-700">
+                  🌱 Recomendación de Variedades de Pistacho
+                </CardTitle>
+                <CardDescription>
+                  Descubre qué variedades de pistacho son más adecuadas para estas condiciones climáticas
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Análisis basado en {climateData.length} días de datos climáticos históricos
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Evaluación de 6 variedades principales con requerimientos específicos
+                    </p>
+                  </div>
+                  <Button
+                    onClick={() => setShowVarietyRecommendation(true)}
+                    className="bg-green-600 hover:bg-green-700"
+                  >
+                    Ver Recomendaciones Detalladas
+                  </Button>
                 </div>
-                <Button onClick={() => setShowVarietyRecommendation(true)} className="bg-green-600 hover:bg-green-700">
-                  Ver Recomendaciones Detalladas
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
 
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card>
@@ -4,6 +4,8 @@
 import { useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Thermometer, Snowflake, Clock, Droplets } from "lucide-react"
+import { DEFAULT_SEASON_CALENDAR, isInSeasonWindow, seasonWindowLabel } from "@/lib/season-calendar"
+import type { SeasonCalendar } from "@/lib/types"
 
 type AnyObj = Record<string, any>
 
@@ -38,6 +40,7 @@ type Props = {
     source?: string
     latitude?: number
     longitude?: number
+    seasonCalendar?: SeasonCalendar
   }
 }
 
@@ -102,14 +105,11 @@ function dayAvgTemp(d: ClimateLikeDay) {
   return NaN
 }
 
-function isInChillWindow(dateISO: string) {
-  // pistacho: Nov–Feb
-  const d = new Date(`${dateISO}T00:00:00`)
-  const m = d.getMonth() + 1
-  return m === 11 || m === 12 || m === 1 || m === 2
-}
-
 export function ClimateMetrics({ data, requestInfo }: Props) {
+  // ventana de frío del calendario de campaña de la petición
+  const chillWindow = (requestInfo?.seasonCalendar ?? DEFAULT_SEASON_CALENDAR).windows.chill
+  const chillLabel = seasonWindowLabel(chillWindow)
+
   const days = useMemo(() => {
     const arr = extractDays(data)
     return arr
@@ -154,9 +154,9 @@ export function ClimateMetrics({ data, requestInfo }: Props) {
         if (Number.isFinite(tmin) && tmin < 0) frostDays += 1
       }
 
-      // horas frío: si existe chill_hours y está en ventana Nov–Feb
+      // horas frío: si existe chill_hours y está en la ventana de frío
       const ch = safeNum(d.chill_hours, NaN)
-      if (Number.isFinite(ch) && isInChillWindow(d.date)) chillHours += Math.max(0, ch)
+      if (Number.isFinite(ch) && isInSeasonWindow(d.date, chillWindow)) chillHours += Math.max(0, ch)
 
       etoTotal += Math.max(0, safeNum(d.eto, 0))
       etcTotal += Math.max(0, safeNum(d.etc, 0))
@@ -180,7 +180,7 @@ export function ClimateMetrics({ data, requestInfo }: Props) {
       to,
       source: requestInfo?.source ?? null,
     }
-  }, [days, requestInfo?.source])
+  }, [days, requestInfo?.source, chillWindow])
 
   // “Cambio” (texto secundario) inteligente:
   // - si tenemos ETC calculada (distinto de 0) mostramos Kc/ETC
@@ -193,7 +193,7 @@ export function ClimateMetrics({ data, requestInfo }: Props) {
       const kcApprox = computed.etoTotal > 0 ? computed.etcTotal / computed.etoTotal : 0
       return {
         eto: `ET0 total · ${formatCompact(computed.etoTotal, 0)} mm`,
-        chill: `Ventana Nov–Feb · ${formatCompact(computed.chillHours, 0)} h`,
+        chill: `Ventana ${chillLabel} · ${formatCompact(computed.chillHours, 0)} h`,
         frost: `Eventos detectados · ${computed.frostDays}`,
         temp: `Periodo · ${computed.from} → ${computed.to}`,
         etc: `Kc aprox · ${formatCompact(kcApprox, 2)}`,
@@ -203,12 +203,12 @@ export function ClimateMetrics({ data, requestInfo }: Props) {
     const deficit = computed.etoTotal - computed.precipTotal
     return {
       eto: `ET0 total · ${formatCompact(computed.etoTotal, 0)} mm`,
-      chill: `Ventana Nov–Feb · ${formatCompact(computed.chillHours, 0)} h`,
+      chill: `Ventana ${chillLabel} · ${formatCompact(computed.chillHours, 0)} h`,
       frost: `Eventos detectados · ${computed.frostDays}`,
       temp: `Periodo · ${computed.from} → ${computed.to}`,
       etc: `${deficit > 0 ? "Déficit" : "Superávit"} · ${formatCompact(Math.abs(deficit), 0)} mm (ET0 - lluvia)`,
     }
-  }, [computed])
+  }, [computed, chillLabel])
 
   const metrics = useMemo(() => {
     if (!computed.hasData) {
@@ -228,7 +228,7 @@ export function ClimateMetrics({ data, requestInfo }: Props) {
           color: "text-chart-5",
         },
         {
-          title: "Horas Frío (Nov–Feb)",
+          title: `Horas Frío (${chillLabel})`,
           value: "—",
           change: "Acumuladas con umbral de frío",
           icon: Clock,
@@ -260,7 +260,7 @@ export function ClimateMetrics({ data, requestInfo }: Props) {
         color: "text-chart-5",
       },
       {
-        title: "Horas Frío (Nov–Feb)",
+        title: `Horas Frío (${chillLabel})`,
         value: `${formatCompact(computed.chillHours, 0)} h`,
         change: secondary?.chill ?? "",
         icon: Clock,
@@ -274,7 +274,7 @@ export function ClimateMetrics({ data, requestInfo }: Props) {
         color: "text-chart-2",
       },
     ]
-  }, [computed, secondary])
+  }, [computed, secondary, chillLabel])
 
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3">
@@ -1,21 +1,25 @@
 "use client"
 
 import type React from "react"
-import { useMemo, useState } from "react"
+import { useMemo, useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
-import { CalendarIcon, MapPin, Search, AlertCircle, History, TrendingUp } from "lucide-react"
+import { CalendarIcon, MapPin, Search, AlertCircle, History, TrendingUp, CloudSun } from "lucide-react"
 import { format } from "date-fns"
 import { es } from "date-fns/locale"
 import { useClimateData } from "@/hooks/use-climate-data"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { InteractiveMap } from "./interactive-map"
 import type { DataSource as UIDataSource } from "@/lib/data-sources"
-import type { DataSource as ApiDataSource } from "@/lib/types"
+import type { CropId, DataSource as ApiDataSource, OrchardInput, SeasonCalendarId } from "@/lib/types"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SEASON_CALENDARS, SEASON_CALENDAR_IDS, isSeasonCalendarId, seasonWindowLabel } from "@/lib/season-calendar"
+import { CROP_IDS, CROP_PROFILES, isCropId } from "@/lib/crops"
+import { formatParcelLabel, type ParcelInfo } from "@/lib/parcel"
 
 interface DataInputFormProps {
   onDataFetched?: (data: any, requestInfo?: any) => void
@@ -35,6 +39,12 @@ function mapUiSourceToApi(source: UIDataSource): ApiDataSource | null {
   // ✅ importantísimo: Open Meteo
   if (s === "open_meteo" || s === "open-meteo" || s === "openmeteo") return "OPEN_METEO"
 
+  // ✅ estaciones de la base local (lib/local-db.ts)
+  if (s === "local_db" || s === "local") return "LOCAL_DB"
+
+  // ✅ serie mezclada (lib/blend.ts)
+  if (s === "blend" || s === "mezcla") return "BLEND"
+
   if (s === "all") return null
   return null
 }
@@ -46,9 +56,27 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
   const [longitude, setLongitude] = useState("-4.7794")
 
   const [postalCode, setPostalCode] = useState("")
+  // altitud de la parcela (m): activa la corrección por gradiente térmico en fuentes en rejilla
+  const [elevation, setElevation] = useState("")
+  // calendario de campaña (ventanas de frío, GDD...): lib/season-calendar.ts
+  const [seasonCalendarId, setSeasonCalendarId] = useState<SeasonCalendarId>("pistachio-north")
+  // cultivo (Kc, requerimientos y reglas de aptitud): lib/crops.ts
+  const [cropId, setCropId] = useState<CropId>("pistachio")
+  // cobertura del suelo (%) o edad de los árboles (años): reducen el Kc de plantación adulta
+  const [canopyCover, setCanopyCover] = useState("")
+  const [treeAge, setTreeAge] = useState("")
+  // brotación observada en la parcela ("MM-DD"): si no, la del perfil del cultivo
+  const [budBreak, setBudBreak] = useState("")
+
+  // ✅ municipio + estaciones cercanas del último clic en el mapa (/api/geocode/parcel)
+  const [parcel, setParcel] = useState<ParcelInfo | null>(null)
+  const [parcelLoading, setParcelLoading] = useState(false)
+  const [parcelError, setParcelError] = useState<string | null>(null)
+  // petición del clic en curso: un clic nuevo (o editar a mano) la cancela y su respuesta ya no se pinta
+  const parcelAbortRef = useRef<AbortController | null>(null)
 
   const [historicalLoading, setHistoricalLoading] = useState(false)
-  const { loading, error, fetchClimateAnalysis } = useClimateData()
+  const { loading, error, job, fetchClimateAnalysis } = useClimateData()
 
   const apiSource: ApiDataSource | null = useMemo(() => {
     if (selectedDataSources.includes("all")) return null
@@ -57,16 +85,69 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
   }, [selectedDataSources])
 
   const isAemet = apiSource === "AEMET"
+
+  // sin cobertura, edad ni brotación, undefined (plantación adulta con la brotación del perfil)
+  const orchard: OrchardInput | undefined = useMemo(() => {
+    const out: OrchardInput = {}
+    const cover = Number.parseFloat(canopyCover)
+    const age = Number.parseFloat(treeAge)
+    if (canopyCover.trim() && Number.isFinite(cover)) out.canopyCover = cover
+    else if (treeAge.trim() && Number.isFinite(age)) out.treeAge = age
+    if (budBreak.trim()) out.budBreak = budBreak.trim()
+    return Object.keys(out).length ? out : undefined
+  }, [canopyCover, treeAge, budBreak])
   const isSiar = apiSource === "SIAR"
 
   const usesPostalCode = isAemet || isSiar
   const showDates = !isAemet
 
-  const handleLocationSelect = (lat: number, lng: number) => {
+  const handleLocationSelect = async (lat: number, lng: number) => {
     setLatitude(lat.toFixed(6))
     setLongitude(lng.toFixed(6))
+    setSeasonCalendarId(lat < 0 ? "pistachio-south" : "pistachio-north")
+    setParcel(null)
+    setParcelError(null)
+    setParcelLoading(true)
+
+    parcelAbortRef.current?.abort()
+    const controller = new AbortController()
+    parcelAbortRef.current = controller
+
+    try {
+      const res = await fetch("/api/geocode/parcel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ latitude: lat, longitude: lng }),
+        signal: controller.signal,
+      })
+      const payload = await res.json().catch(() => ({}))
+      if (controller.signal.aborted) return
+      if (!res.ok) throw new Error(payload?.error || "No se pudo localizar la parcela")
+      setParcel(payload.data as ParcelInfo)
+    } catch (err) {
+      if (controller.signal.aborted) return
+      setParcelError(err instanceof Error ? err.message : "No se pudo localizar la parcela")
+    } finally {
+      if (parcelAbortRef.current === controller) {
+        parcelAbortRef.current = null
+        setParcelLoading(false)
+      }
+    }
   }
 
+  // editar las coordenadas a mano invalida el municipio del clic anterior (y el que estuviera en camino)
+  const handleCoordinateChange = (setter: (v: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setter(e.target.value)
+    parcelAbortRef.current?.abort()
+    parcelAbortRef.current = null
+    setParcel(null)
+    setParcelError(null)
+    setParcelLoading(false)
+  }
+
+  // el mapa solo se usa con fuentes por coordenadas; con CP la parcela del clic no aplica
+  const currentParcel = !usesPostalCode ? parcel : null
+
   const resolveLatLonFromPostalCode = async (cp: string): Promise<{ lat: number; lon: number }> => {
     const clean = cp.trim()
     if (!/^\d{5}$/.test(clean)) throw new Error("Código postal inválido (debe tener 5 dígitos)")
@@ -115,9 +196,13 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
         latitude: latNum,
         longitude: lonNum,
         source: apiSource,
+        seasonCalendar: SEASON_CALENDARS[seasonCalendarId],
+        crop: cropId,
+        orchard,
       }
 
       if (usesPostalCode) requestInfo.postalCode = postalCode.trim()
+      if (currentParcel) requestInfo.parcel = currentParcel
 
       if (showDates) {
         requestInfo.startDate = startDate!.toISOString().split("T")[0]
@@ -130,24 +215,98 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
         longitude: lonNum,
         source: apiSource,
         parameters: ["temperature", "humidity", "precipitation", "wind", "solar_radiation"],
+        seasonCalendar: seasonCalendarId,
+        crop: cropId,
+        orchard,
       }
 
       if (usesPostalCode) payload.postalCode = postalCode.trim()
+
+      const elevationNum = Number.parseFloat(elevation)
+      if (elevation.trim() && Number.isFinite(elevationNum)) {
+        payload.elevation = elevationNum
+        payload.lapseRate = true
+        requestInfo.elevation = elevationNum
+      }
+
       if (showDates) {
         payload.startDate = requestInfo.startDate
         payload.endDate = requestInfo.endDate
       }
 
       const result = await fetchClimateAnalysis(payload)
+
+      // ✅ si vino de un job (ERA5), exportaciones reutilizan el resultado guardado
+      const jobId = apiSource ? result?.rawData?.[apiSource]?.debug?.jobId : undefined
+      if (jobId) requestInfo.jobId = jobId
+
       if (result && onDataFetched) onDataFetched(result, requestInfo)
     } catch (err) {
       console.error(err)
     }
   }
 
+  // ✅ Campaña en curso: observado desde el inicio de campaña del calendario + previsión (lib/campaign.ts)
+  const handleCampaignClick = async () => {
+    if (!apiSource) return
+
+    try {
+      let latNum: number
+      let lonNum: number
+
+      if (usesPostalCode) {
+        const r = await resolveLatLonFromPostalCode(postalCode)
+        latNum = r.lat
+        lonNum = r.lon
+        setLatitude(String(latNum))
+        setLongitude(String(lonNum))
+      } else {
+        if (!latitude || !longitude) return
+        latNum = Number.parseFloat(latitude)
+        lonNum = Number.parseFloat(longitude)
+      }
+
+      if (!Number.isFinite(latNum) || !Number.isFinite(lonNum)) return
+
+      const payload: any = {
+        latitude: latNum,
+        longitude: lonNum,
+        source: apiSource,
+        parameters: ["temperature", "humidity", "precipitation", "wind", "solar_radiation"],
+        campaign: { forecastSource: isAemet ? "AEMET" : "OPEN_METEO" },
+        seasonCalendar: seasonCalendarId,
+        crop: cropId,
+        orchard,
+      }
+      if (usesPostalCode) payload.postalCode = postalCode.trim()
+
+      const result = await fetchClimateAnalysis(payload)
+      const campaign = result?.rawData?.[apiSource]?.debug?.campaign
+      if (!result || !campaign) return
+
+      const requestInfo: any = {
+        latitude: latNum,
+        longitude: lonNum,
+        source: apiSource,
+        startDate: campaign.startDate,
+        endDate: campaign.endDate,
+        dayCount: Math.round((Date.parse(campaign.endDate) - Date.parse(campaign.startDate)) / 86400000),
+        campaign: { forecastSource: campaign.forecastSource, forecastDays: campaign.forecastDays },
+        seasonCalendar: SEASON_CALENDARS[seasonCalendarId],
+        crop: cropId,
+        orchard,
+      }
+      if (usesPostalCode) requestInfo.postalCode = postalCode.trim()
+      if (currentParcel) requestInfo.parcel = currentParcel
+
+      onDataFetched?.(result, requestInfo)
+    } catch (err) {
+      console.error(err)
+    }
+  }
+
   const handleHistoricalAnalysisClick = async () => {
     if (!apiSource) return
-    if (isAemet) return
 
     setHistoricalLoading(true)
     try {
@@ -173,13 +332,18 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
           latitude: latNum,
           longitude: lonNum,
           source: apiSource,
+          seasonCalendar: seasonCalendarId,
+          crop: cropId,
+          orchard,
         }),
       })
 
       const payload = await response.json()
       if (!response.ok) throw new Error(payload?.error || "Error al obtener análisis histórico")
 
-      onHistoricalAnalysis?.(payload)
+      onHistoricalAnalysis?.(
+        currentParcel ? { ...payload, requestInfo: { ...payload?.requestInfo, parcel: currentParcel } } : payload,
+      )
     } catch (err) {
       console.error("Historical analysis error:", err)
     } finally {
@@ -217,7 +381,8 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
                 />
                 <p className="text-[11px] text-muted-foreground">
                   {isAemet
-                    ? "Introduce un código postal de España. Se mostrará la previsión automática de los próximos 7 días."
+                    ? "Introduce un código postal de España. Se mostrará la previsión de los próximos 7 días; " +
+                      "el informe histórico usa la estación AEMET más cercana."
                     : "Introduce tu código postal en España."}
                 </p>
               </div>
@@ -232,7 +397,7 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
                     type="number"
                     step="0.000001"
                     value={latitude}
-                    onChange={(e) => setLatitude(e.target.value)}
+                    onChange={handleCoordinateChange(setLatitude)}
                     className="h-8 text-sm"
                     required
                   />
@@ -247,14 +412,146 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
                     type="number"
                     step="0.000001"
                     value={longitude}
-                    onChange={(e) => setLongitude(e.target.value)}
+                    onChange={handleCoordinateChange(setLongitude)}
                     className="h-8 text-sm"
                     required
                   />
                 </div>
+
+                {(parcelLoading || parcel || parcelError) && (
+                  <div className="col-span-2 text-[11px] text-muted-foreground space-y-0.5">
+                    {parcelLoading && <p>Localizando municipio y estaciones...</p>}
+                    {parcelError && <p className="text-destructive">{parcelError}</p>}
+                    {parcel && (
+                      <>
+                        <p className="font-medium text-foreground">
+                          {formatParcelLabel(parcel)}
+                          {parcel.postalCode ? ` · CP ${parcel.postalCode}` : ""}
+                        </p>
+                        <p>
+                          SIAR:{" "}
+                          {parcel.siarStation
+                            ? `${parcel.siarStation.name} (${parcel.siarStation.distanceKm.toFixed(1)} km)`
+                            : "sin estación cercana"}
+                          {" · "}AEMET:{" "}
+                          {parcel.aemetStation
+                            ? `${parcel.aemetStation.name} (${parcel.aemetStation.distanceKm.toFixed(1)} km)`
+                            : "sin estación cercana"}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!isAemet && (
+              <div className="space-y-1">
+                <Label htmlFor="elevation" className="text-xs font-medium">
+                  Altitud de la parcela (m)
+                </Label>
+                <Input
+                  id="elevation"
+                  type="number"
+                  step="1"
+                  value={elevation}
+                  onChange={(e) => setElevation(e.target.value)}
+                  placeholder="Opcional"
+                  className="h-8 text-sm"
+                />
+                <p className="text-[11px] text-muted-foreground">
+                  Corrige la temperatura de NASA POWER / ERA5 según la altitud media de su celda.
+                </p>
               </div>
             )}
 
+            <div className="space-y-1">
+              <Label className="text-xs font-medium">Cultivo</Label>
+              <Select value={cropId} onValueChange={(v) => isCropId(v) && setCropId(v)}>
+                <SelectTrigger className="w-full h-8 text-xs">
+                  <SelectValue placeholder="Seleccionar cultivo" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CROP_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {CROP_PROFILES[id].label} ({CROP_PROFILES[id].scientificName})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="canopyCover" className="text-xs font-medium">
+                  Cobertura (%)
+                </Label>
+                <Input
+                  id="canopyCover"
+                  type="number"
+                  min="1"
+                  max="100"
+                  step="1"
+                  value={canopyCover}
+                  onChange={(e) => setCanopyCover(e.target.value)}
+                  placeholder="Adulta"
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="treeAge" className="text-xs font-medium">
+                  Edad (años)
+                </Label>
+                <Input
+                  id="treeAge"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={treeAge}
+                  onChange={(e) => setTreeAge(e.target.value)}
+                  placeholder="Adulta"
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="col-span-2 space-y-1">
+                <Label htmlFor="budBreak" className="text-xs font-medium">
+                  Brotación (MM-DD)
+                </Label>
+                <Input
+                  id="budBreak"
+                  value={budBreak}
+                  onChange={(e) => setBudBreak(e.target.value)}
+                  placeholder={CROP_PROFILES[cropId].kc.budBreak}
+                  pattern="\d{2}-\d{2}"
+                  className="h-8 text-sm"
+                />
+              </div>
+              <p className="col-span-2 text-[11px] text-muted-foreground">
+                Ajustan el Kc de plantación adulta (FAO-56) en parcelas jóvenes o poco densas; la brotación observada
+                fija el inicio de la curva de Kc.
+              </p>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs font-medium">Calendario de campaña</Label>
+              <Select value={seasonCalendarId} onValueChange={(v) => isSeasonCalendarId(v) && setSeasonCalendarId(v)}>
+                <SelectTrigger className="w-full h-8 text-xs">
+                  <SelectValue placeholder="Seleccionar calendario" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEASON_CALENDAR_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {SEASON_CALENDARS[id].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-[11px] text-muted-foreground">
+                Frío {seasonWindowLabel(SEASON_CALENDARS[seasonCalendarId].windows.chill)} · GDD{" "}
+                {seasonWindowLabel(SEASON_CALENDARS[seasonCalendarId].windows.gdd)}
+              </p>
+            </div>
+
             {showDates && (
               <>
                 <div className="space-y-1">
@@ -332,29 +629,46 @@ export function DataInputForm({ onDataFetched, onHistoricalAnalysis, selectedDat
               {loading ? "Analizando datos..." : "Obtener Análisis Climático"}
             </Button>
 
-            {!isAemet && (
-              <div className="border-t pt-2 mt-2">
-                <div className="text-xs font-medium text-muted-foreground mb-1.5 flex items-center gap-1.5">
-                  <History className="h-3 w-3" />
-                  Análisis Histórico (20 años)
-                </div>
+            {job && (
+              <p className="text-xs text-muted-foreground">
+                Descarga en segundo plano ({job.status}, {job.percent}%){job.message ? ` · ${job.message}` : ""}
+              </p>
+            )}
 
-                <Button
-                  type="button"
-                  variant="outline"
-                  className="w-full h-8 border-orange-200 hover:bg-orange-50 text-orange-700 font-medium text-xs bg-transparent"
-                  onClick={handleHistoricalAnalysisClick}
-                  disabled={
-                    historicalLoading ||
-                    !apiSource ||
-                    (usesPostalCode ? postalCode.trim().length !== 5 : !latitude || !longitude)
-                  }
-                >
-                  <TrendingUp className="mr-2 h-3 w-3" />
-                  {historicalLoading ? "Generando informe..." : "Generar Informe Histórico 20 Años"}
-                </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full h-8 font-medium text-xs bg-transparent"
+              onClick={handleCampaignClick}
+              disabled={
+                loading || !apiSource || (usesPostalCode ? postalCode.trim().length !== 5 : !latitude || !longitude)
+              }
+            >
+              <CloudSun className="mr-2 h-3 w-3" />
+              Campaña en curso (observado + previsión {isAemet ? "AEMET" : "Open-Meteo"})
+            </Button>
+
+            <div className="border-t pt-2 mt-2">
+              <div className="text-xs font-medium text-muted-foreground mb-1.5 flex items-center gap-1.5">
+                <History className="h-3 w-3" />
+                Análisis Histórico (20 años)
               </div>
-            )}
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full h-8 border-orange-200 hover:bg-orange-50 text-orange-700 font-medium text-xs bg-transparent"
+                onClick={handleHistoricalAnalysisClick}
+                disabled={
+                  historicalLoading ||
+                  !apiSource ||
+                  (usesPostalCode ? postalCode.trim().length !== 5 : !latitude || !longitude)
+                }
+              >
+                <TrendingUp className="mr-2 h-3 w-3" />
+                {historicalLoading ? "Generando informe..." : "Generar Informe Histórico 20 Años"}
+              </Button>
+            </div>
           </CardContent>
         </Card>
       </form>
@@ -2,49 +2,10 @@
 
 import { cn } from "@/lib/utils"
 import { Badge } from "@/components/ui/badge"
-import { Database } from "lucide-react"
+import { useDataSources } from "@/hooks/use-data-sources"
+import type { DataSource } from "@/lib/types"
 
-type SourceKey = "SIAR" | "AEMET" | "NASA_POWER" | "OPEN_METEO" | "ERA5"
-
-interface SourceItem {
-  key: SourceKey
-  label: string
-  color: string
-  enabled: boolean
-}
-
-const SOURCES: SourceItem[] = [
-  {
-    key: "SIAR",
-    label: "SIAR",
-    color: "bg-blue-500",
-    enabled: false,
-  },
-  {
-    key: "AEMET",
-    label: "AEMET",
-    color: "bg-orange-500",
-    enabled: true,
-  },
-  {
-    key: "NASA_POWER",
-    label: "NASA POWER",
-    color: "bg-green-500",
-    enabled: true,
-  },
-  {
-    key: "OPEN_METEO",
-    label: "OPEN METEO",
-    color: "bg-cyan-500",
-    enabled: true,
-  },
-  {
-    key: "ERA5",
-    label: "ERA5",
-    color: "bg-purple-500",
-    enabled: false,
-  },
-]
+type SourceKey = DataSource
 
 interface Props {
   selectedSource?: SourceKey
@@ -52,20 +13,22 @@ interface Props {
 }
 
 export function SourceSelector({ selectedSource, onSelect }: Props) {
+  const { dataSources } = useDataSources()
+
   return (
     <div className="space-y-1">
       <div className="text-xs text-muted-foreground mb-2">
         Selecciona el tipo de fuente
       </div>
 
-      {SOURCES.map((source) => {
-        const isActive = selectedSource === source.key
+      {dataSources.map((source) => {
+        const isActive = selectedSource === source.id
 
         return (
           <button
-            key={source.key}
+            key={source.id}
             disabled={!source.enabled}
-            onClick={() => source.enabled && onSelect(source.key)}
+            onClick={() => source.enabled && onSelect(source.id)}
             className={cn(
               "w-full flex items-center justify-between rounded-lg px-3 py-2 text-sm transition",
               "hover:bg-muted/50",
@@ -75,7 +38,7 @@ export function SourceSelector({ selectedSource, onSelect }: Props) {
           >
             <div className="flex items-center gap-2">
               <span className={cn("h-2 w-2 rounded-full", source.color)} />
-              <span>{source.label}</span>
+              <span>{source.name}</span>
             </div>
 
             {!source.enabled ? (
@@ -9,7 +9,7 @@ import type { ClimateData } from "@/lib/types"
 interface DetailedReportProps {
   climateData: ClimateData[]
   analysisResults: any
-  coordinates: { lat: number; lon: number }
+  coordinates: { lat: number; lon: number; label?: string } // label: "Finca en X (Provincia)"
   isHistorical?: boolean
 }
 
@@ -46,7 +46,8 @@ export function DetailedReport({
               {isHistorical ? "Análisis Histórico de 20 Años" : "Análisis Climático Actual"}
             </p>
             <p className="text-sm text-muted-foreground">
-              Coordenadas: {coordinates.lat.toFixed(4)}, {coordinates.lon.toFixed(4)}
+              {coordinates.label ? `${coordinates.label} · ` : ""}Coordenadas: {coordinates.lat.toFixed(4)},{" "}
+            {coordinates.lon.toFixed(4)}
             </p>
           </CardHeader>
           <CardContent>
@@ -114,7 +115,8 @@ export function DetailedReport({
             {isHistorical ? "Análisis Histórico de 20 Años" : "Análisis Climático Actual"}
           </p>
           <p className="text-sm text-muted-foreground">
-            Coordenadas: {coordinates.lat.toFixed(4)}, {coordinates.lon.toFixed(4)}
+            {coordinates.label ? `${coordinates.label} · ` : ""}Coordenadas: {coordinates.lat.toFixed(4)},{" "}
+            {coordinates.lon.toFixed(4)}
           </p>
           <p className="text-xs text-muted-foreground">Datos procesados: {validClimateData.length} registros</p>
         </CardHeader>
@@ -3,11 +3,13 @@
 import { Button } from "@/components/ui/button"
 import { Download, FileText, History, BarChart3 } from "lucide-react"
 import { ExportService } from "@/lib/export-utils"
+import { toSeasonCalendarInput } from "@/lib/season-calendar"
+import type { CropId, OrchardInput, SeasonCalendar } from "@/lib/types"
 
 interface DownloadButtonsProps {
   climateData: any[] // daily data normalmente
   analysisResults: any
-  coordinates: { lat: number; lon: number }
+  coordinates: { lat: number; lon: number; label?: string } // label: "Finca en X (Provincia)"
   isHistorical?: boolean
   onShowDetailedReport?: () => void
 
@@ -17,6 +19,11 @@ interface DownloadButtonsProps {
     postalCode?: string
     startDate?: string
     endDate?: string
+
+    // el Excel recalcula ETc / Kc con el mismo cultivo, calendario y parcela
+    seasonCalendar?: SeasonCalendar
+    crop?: CropId
+    orchard?: OrchardInput
   }
 }
 
@@ -108,6 +115,11 @@ export function DownloadButtons({
       longitude: coordinates.lon,
       postalCode: requestInfo?.postalCode ? String(requestInfo.postalCode).trim() : undefined,
       municipio: (requestInfo as any)?.municipio ? String((requestInfo as any).municipio).trim() : undefined,
+      // ✅ resultado ya descargado por un job (ERA5): no se vuelve a pedir a CDS
+      jobId: (requestInfo as any)?.jobId,
+      seasonCalendar: requestInfo?.seasonCalendar ? toSeasonCalendarInput(requestInfo.seasonCalendar) : undefined,
+      crop: requestInfo?.crop,
+      orchard: requestInfo?.orchard,
     }
 
     try {
@@ -2,7 +2,8 @@
 "use client"
 
 import { Clock, Droplets, Settings, Info, Snowflake, Layers } from "lucide-react"
-import { DATA_SOURCES, type DataSource } from "@/lib/data-sources"
+import type { DataSource } from "@/lib/data-sources"
+import { useDataSources } from "@/hooks/use-data-sources"
 
 interface SidebarProps {
   selectedDataSources: DataSource[]
@@ -18,13 +19,7 @@ export function Sidebar({ selectedDataSources, onDataSourcesChange }: SidebarPro
     { icon: Info, label: "Ayuda", color: "text-muted-foreground", active: false },
   ]
 
-  const dataSourceColors: Record<DataSource, string> = {
-    SIAR: "bg-blue-500",
-    AEMET: "bg-orange-500",
-    NASA_POWER: "bg-green-500",
-    ERA5: "bg-purple-500",
-    OPEN_METEO: "bg-sky-500",
-  }
+  const { dataSources } = useDataSources()
 
   const toggleDataSource = (source: DataSource, enabled: boolean) => {
     if (!enabled) return
@@ -63,7 +58,7 @@ export function Sidebar({ selectedDataSources, onDataSourcesChange }: SidebarPro
         </div>
 
         <div className="mt-3 space-y-2">
-          {DATA_SOURCES.map((cfg) => {
+          {dataSources.map((cfg) => {
             const isSelected = selectedDataSources.includes(cfg.id)
 
             return (
@@ -83,7 +78,7 @@ export function Sidebar({ selectedDataSources, onDataSourcesChange }: SidebarPro
                 title={cfg.name}
               >
                 <div className="flex items-center gap-2 min-w-0">
-                  <div className={`h-2.5 w-2.5 rounded-full ${dataSourceColors[cfg.id]}`} />
+                  <div className={`h-2.5 w-2.5 rounded-full ${cfg.color}`} />
                   <span className="hidden sm:inline text-xs font-medium text-foreground/85 truncate">{cfg.name}</span>
                 </div>
 
@@ -0,0 +1,221 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, GitCompare, Loader2 } from "lucide-react"
+import {
+  COMPARE_VARIABLES,
+  COMPARE_VARIABLE_LABELS,
+  DERIVED_METRIC_LABELS,
+  type DerivedMetrics,
+  type SourceComparisonReport,
+} from "@/lib/source-comparison"
+import { toSeasonCalendarInput } from "@/lib/season-calendar"
+import type { CropId, SeasonCalendar } from "@/lib/types"
+
+interface SourceComparisonPanelProps {
+  latitude: number
+  longitude: number
+  startDate: string
+  endDate: string
+  seasonCalendar?: SeasonCalendar
+  crop?: CropId
+}
+
+const DERIVED_KEYS = Object.keys(DERIVED_METRIC_LABELS) as (keyof DerivedMetrics)[]
+
+function signed(v: number) {
+  return `${v > 0 ? "+" : ""}${v.toFixed(1)}`
+}
+
+// |r| alto y RMSE bajo = la fuente "se parece" a la referencia
+function correlationClass(r: number | null) {
+  if (r === null) return "text-muted-foreground"
+  if (r >= 0.9) return "text-green-600"
+  if (r >= 0.7) return "text-yellow-600"
+  return "text-red-600"
+}
+
+/**
+ * Panel de comparación entre fuentes (/api/compare-sources) para decidir de cuál fiarse en una finca.
+ * Se pide a demanda: consulta todas las fuentes del periodo.
+ */
+export function SourceComparisonPanel({
+  latitude,
+  longitude,
+  startDate,
+  endDate,
+  seasonCalendar,
+  crop,
+}: SourceComparisonPanelProps) {
+  const [report, setReport] = useState<SourceComparisonReport | null>(null)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const runComparison = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await fetch("/api/compare-sources", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          latitude,
+          longitude,
+          startDate,
+          endDate,
+          seasonCalendar: seasonCalendar ? toSeasonCalendarInput(seasonCalendar) : undefined,
+          crop,
+        }),
+      })
+      const payload = await res.json().catch(() => ({}))
+
+      const failed: Record<string, string> = {}
+      for (const [src, s] of Object.entries<any>(payload?.debug?.sources ?? {})) {
+        if (!s?.ok) failed[src] = s?.error || "Sin datos"
+      }
+      setErrors(failed)
+
+      if (!res.ok || !payload?.success) throw new Error(payload?.error || "No se pudo comparar las fuentes")
+      setReport(payload.data)
+    } catch (err) {
+      setReport(null)
+      setError(err instanceof Error ? err.message : "Error comparando fuentes")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GitCompare className="h-5 w-5 text-primary" />
+              Comparación entre Fuentes
+            </CardTitle>
+            <CardDescription>
+              Sesgo, RMSE y correlación frente a la fuente de referencia, sobre los días comunes a todas
+            </CardDescription>
+          </div>
+          <Button onClick={runComparison} disabled={loading} size="sm">
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitCompare className="h-4 w-4 mr-2" />}
+            {report ? "Volver a comparar" : "Comparar fuentes"}
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {Object.keys(errors).length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(errors).map(([src, msg]) => (
+              <Badge key={src} variant="outline" className="text-xs" title={msg}>
+                {src}: sin datos
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <span>Referencia:</span>
+              <Badge>{report.reference}</Badge>
+              <span>
+                • {report.commonDays} días comunes
+                {report.period && ` (${report.period.startDate} → ${report.period.endDate})`}
+              </span>
+            </div>
+
+            {/* Métricas agronómicas derivadas */}
+            <div>
+              <h4 className="text-sm font-medium mb-2">Métricas derivadas</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Métrica</TableHead>
+                    <TableHead className="text-right">{report.reference}</TableHead>
+                    {report.comparisons.map((c) => (
+                      <TableHead key={c.source} className="text-right">
+                        {c.source}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {DERIVED_KEYS.map((k) => (
+                    <TableRow key={k}>
+                      <TableCell className="font-medium">{DERIVED_METRIC_LABELS[k]}</TableCell>
+                      <TableCell className="text-right">{report.referenceDerived[k].toFixed(1)}</TableCell>
+                      {report.comparisons.map((c) => (
+                        <TableCell key={c.source} className="text-right">
+                          {c.derived[k].toFixed(1)}{" "}
+                          <span className="text-xs text-muted-foreground">({signed(c.derivedDiff[k])})</span>
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Acuerdo diario por variable */}
+            {report.comparisons.map((c) => (
+              <div key={c.source}>
+                <h4 className="text-sm font-medium mb-2">
+                  {c.source} frente a {report.reference}
+                </h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Variable</TableHead>
+                      <TableHead className="text-right">Días</TableHead>
+                      <TableHead className="text-right">Sesgo</TableHead>
+                      <TableHead className="text-right">RMSE</TableHead>
+                      <TableHead className="text-right">Correlación</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {COMPARE_VARIABLES.filter((v) => c.variables[v]).map((v) => {
+                      const a = c.variables[v]!
+                      return (
+                        <TableRow key={v}>
+                          <TableCell>{COMPARE_VARIABLE_LABELS[v]}</TableCell>
+                          <TableCell className="text-right">{a.n}</TableCell>
+                          <TableCell className="text-right">{signed(a.bias)}</TableCell>
+                          <TableCell className="text-right">{a.rmse.toFixed(2)}</TableCell>
+                          <TableCell className={`text-right ${correlationClass(a.correlation)}`}>
+                            {a.correlation === null ? "—" : a.correlation.toFixed(3)}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </>
+        )}
+
+        {!report && !loading && !error && (
+          <p className="text-sm text-muted-foreground">
+            Consulta la misma ubicación y periodo en todas las fuentes disponibles para ver en qué difieren.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -8,7 +8,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
 import { Thermometer, Droplets, Snowflake, Sun, AlertTriangle, CheckCircle, Info } from "lucide-react"
 import { VarietyRecommendationEngine, type VarietyRecommendation } from "@/lib/variety-recommendation"
-import type { ClimateData } from "@/lib/types"
+import { DEFAULT_SEASON_CALENDAR, campaignYear, isInSeasonWindow, seasonWindowLabel } from "@/lib/season-calendar"
+import type { ClimateData, SeasonCalendar, SeasonWindowId } from "@/lib/types"
 import Image from "next/image"
 
 // ✅ normalización + stats seguras
@@ -19,6 +20,7 @@ interface VarietyRecommendationDashboardProps {
   climateData: ClimateData[]
   location: { latitude: number; longitude: number }
   onBack: () => void
+  seasonCalendar?: SeasonCalendar
 }
 
 type ClimateProfileForReport = {
@@ -37,7 +39,7 @@ type ClimateProfileForReport = {
 }
 
 /** =========================
- * Ventanas / campañas
+ * Ventanas / campañas (lib/season-calendar.ts)
  * ========================= */
 function parseISODate(s: string): Date {
   const d = new Date(s)
@@ -45,44 +47,17 @@ function parseISODate(s: string): Date {
   return d
 }
 
-function month1to12(d: Date) {
-  return d.getMonth() + 1
-}
-
-// Nov/Dic 2023 -> campaña 2024, Ene/Feb 2024 -> campaña 2024
-function winterCampaignYear(d: Date): number {
-  const y = d.getFullYear()
-  const m = month1to12(d)
-  return m >= 11 ? y + 1 : y
-}
-
-function isWinterChill(d: Date): boolean {
-  const m = month1to12(d)
-  return m === 11 || m === 12 || m === 1 || m === 2
-}
-
-function isGddSeason(d: Date): boolean {
-  const m = month1to12(d)
-  // ✅ NUEVO: GDD del 1 abril al 31 octubre
-  return m >= 4 && m <= 10
-}
-
-function isSpringFrostWindow(d: Date): boolean {
-  const m = month1to12(d)
-  return m === 3 || m === 4
-}
-
-function isSummer(d: Date): boolean {
-  const m = month1to12(d)
-  return m >= 6 && m <= 8
-}
-
 function mean(values: number[]) {
   if (!values.length) return 0
   return values.reduce((a, b) => a + b, 0) / values.length
 }
 
-export function VarietyRecommendationDashboard({ climateData, location, onBack }: VarietyRecommendationDashboardProps) {
+export function VarietyRecommendationDashboard({
+  climateData,
+  location,
+  onBack,
+  seasonCalendar = DEFAULT_SEASON_CALENDAR,
+}: VarietyRecommendationDashboardProps) {
   const [recommendations, setRecommendations] = useState<VarietyRecommendation[]>([])
   const [detailedReport, setDetailedReport] = useState<any>(null)
   const [loading, setLoading] = useState(true)
@@ -91,13 +66,14 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
   // ✅ Siempre trabajamos con datos normalizados
   const normalized = useMemo(() => normalizeClimateData(climateData as any), [climateData])
   const yearCount = useMemo(() => getYearCount(normalized), [normalized])
+  const windowLabel = (id: SeasonWindowId) => seasonWindowLabel(seasonCalendar.windows[id])
 
   useEffect(() => {
     const generateRecommendations = async () => {
       setLoading(true)
 
       try {
-        const engine = new VarietyRecommendationEngine()
+        const engine = new VarietyRecommendationEngine(seasonCalendar)
 
         // ✅ Recomendaciones sobre datos normalizados
         const varietyRecommendations = engine.recommendVarieties(normalized, location)
@@ -105,13 +81,11 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
         /**
          * ✅ Perfil climático para el REPORTE (UI):
          * - Aquí devolvemos valores ANUALES (promedio por campaña/año)
-         * - y alineados con ventanas:
-         *   - Chill: Nov–Feb (campaña invierno)
-         *   - GDD: Abr–Oct (pedido)
-         *   - Frost: Mar–Abr
-         *   - Déficit: Abr–Oct
-         *   - Heat stress: Jun–Aug
-         *   - Extreme cold: Nov–Feb (campaña invierno)
+         * - y alineados con las ventanas del calendario de campaña, agrupadas por año de campaña:
+         *   - Chill y frío extremo: ventana de frío
+         *   - GDD y déficit: ventana GDD
+         *   - Frost: heladas en floración
+         *   - Heat stress: calor estival
          */
         const winterMap = new Map<number, { chill: number; extremeColdDays: number }>()
         const gddMap = new Map<number, { gdd: number; seasonEtc: number; seasonP: number }>()
@@ -120,43 +94,43 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
         const heatByYear = new Map<number, number>()
 
         for (const day of normalized) {
-          const d = parseISODate(day.date)
-          const y = d.getFullYear()
+          const y = parseISODate(day.date).getFullYear()
+          const cy = campaignYear(day.date, seasonCalendar)
+          const inWindow = (id: SeasonWindowId) => isInSeasonWindow(day.date, seasonCalendar.windows[id])
 
           // Precip anual por año natural
           precipByYear.set(y, (precipByYear.get(y) ?? 0) + (day.precipitation ?? 0))
 
           // Chill invierno por campaña
-          if (isWinterChill(d)) {
-            const cy = winterCampaignYear(d)
+          if (inWindow("chill")) {
             const prev = winterMap.get(cy) ?? { chill: 0, extremeColdDays: 0 }
             prev.chill += day.chill_hours ?? 0
             if ((day.temperature_min ?? 999) < -5) prev.extremeColdDays += 1
             winterMap.set(cy, prev)
           }
 
-          // GDD + déficit temporada (Abr–Oct) por año natural
-          if (isGddSeason(d)) {
-            const prev = gddMap.get(y) ?? { gdd: 0, seasonEtc: 0, seasonP: 0 }
+          // GDD + déficit temporada por campaña
+          if (inWindow("gdd")) {
+            const prev = gddMap.get(cy) ?? { gdd: 0, seasonEtc: 0, seasonP: 0 }
             prev.gdd += day.gdd ?? 0
             prev.seasonEtc += day.etc ?? 0
             prev.seasonP += day.precipitation ?? 0
-            gddMap.set(y, prev)
+            gddMap.set(cy, prev)
           }
 
-          // Heladas floración (Mar–Abr) por año natural
-          if (isSpringFrostWindow(d)) {
-            const prev = springMap.get(y) ?? { frostHours: 0, frostDays: 0 }
+          // Heladas floración por campaña
+          if (inWindow("springFrost")) {
+            const prev = springMap.get(cy) ?? { frostHours: 0, frostDays: 0 }
             const fh = day.frost_hours ?? 0
             prev.frostHours += fh
             if (fh > 0) prev.frostDays += 1
-            springMap.set(y, prev)
+            springMap.set(cy, prev)
           }
 
-          // Estrés térmico (Jun–Aug) por año natural
-          if (isSummer(d)) {
-            const prev = heatByYear.get(y) ?? 0
-            heatByYear.set(y, prev + ((day.temperature_max ?? -999) > 40 ? 1 : 0))
+          // Estrés térmico estival por campaña
+          if (inWindow("summerHeat")) {
+            const prev = heatByYear.get(cy) ?? 0
+            heatByYear.set(cy, prev + ((day.temperature_max ?? -999) > 40 ? 1 : 0))
           }
         }
 
@@ -204,14 +178,14 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
           totalChillHours: annualChillAvg,
           totalGDD: annualGddAvg,
 
-          // ✅ heladas floración (Mar–Abr) anual
+          // ✅ heladas floración anual
           totalFrostHours: annualSpringFrostHoursAvg,
           frostDays: annualSpringFrostDaysAvg,
 
           // ✅ precip anual media
           totalPrecipitation: annualPrecipAvg,
 
-          // ✅ déficit temporada Abr–Oct anual
+          // ✅ déficit temporada GDD anual
           waterDeficit: annualDeficitAvg,
 
           // ✅ estrés / frío extremos anuales
@@ -238,7 +212,7 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
       setSelectedVariety(null)
       setLoading(false)
     }
-  }, [normalized, location, yearCount])
+  }, [normalized, location, yearCount, seasonCalendar])
 
   const getSuitabilityColor = (score: number) => {
     if (score >= 80) return "text-green-600 bg-green-50"
@@ -478,7 +452,7 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
                       </div>
                       {/* ✅ YA es anual (no dividir otra vez) */}
                       <div className="text-2xl font-bold">{Math.round(detailedReport.climateProfile.totalChillHours)}h</div>
-                      <div className="text-xs text-muted-foreground">Promedio anual (Nov–Feb)</div>
+                      <div className="text-xs text-muted-foreground">Promedio anual ({windowLabel("chill")})</div>
                     </div>
 
                     <div className="space-y-2">
@@ -486,9 +460,9 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
                         <Sun className="h-4 w-4 text-yellow-500" />
                         <span className="text-sm font-medium">GDD</span>
                       </div>
-                      {/* ✅ YA es anual (Abr–Oct) */}
+                      {/* ✅ YA es anual (ventana GDD) */}
                       <div className="text-2xl font-bold">{Math.round(detailedReport.climateProfile.totalGDD)}</div>
-                      <div className="text-xs text-muted-foreground">Promedio anual (Abr–Oct)</div>
+                      <div className="text-xs text-muted-foreground">Promedio anual ({windowLabel("gdd")})</div>
                     </div>
 
                     <div className="space-y-2">
@@ -505,9 +479,9 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
                         <AlertTriangle className="h-4 w-4 text-orange-500" />
                         <span className="text-sm font-medium">Días de Helada</span>
                       </div>
-                      {/* ✅ heladas Mar–Abr anual */}
+                      {/* ✅ heladas en floración anual */}
                       <div className="text-2xl font-bold">{Math.round(detailedReport.climateProfile.frostDays)}</div>
-                      <div className="text-xs text-muted-foreground">Promedio anual (Mar–Abr)</div>
+                      <div className="text-xs text-muted-foreground">Promedio anual ({windowLabel("springFrost")})</div>
                     </div>
 
                     <div className="space-y-2">
@@ -515,9 +489,9 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
                         <Droplets className="h-4 w-4 text-red-500" />
                         <span className="text-sm font-medium">Déficit Hídrico</span>
                       </div>
-                      {/* ✅ déficit Abr–Oct anual */}
+                      {/* ✅ déficit en la ventana GDD anual */}
                       <div className="text-2xl font-bold">{Math.round(detailedReport.climateProfile.waterDeficit)}mm</div>
-                      <div className="text-xs text-muted-foreground">Promedio anual (Abr–Oct)</div>
+                      <div className="text-xs text-muted-foreground">Promedio anual ({windowLabel("gdd")})</div>
                     </div>
 
                     <div className="space-y-2">
@@ -526,7 +500,7 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
                         <span className="text-sm font-medium">Estrés Térmico</span>
                       </div>
                       <div className="text-2xl font-bold">{Math.round(detailedReport.climateProfile.heatStressDays)}</div>
-                      <div className="text-xs text-muted-foreground">Días &gt;40°C/año (Jun–Ago)</div>
+                      <div className="text-xs text-muted-foreground">Días &gt;40°C/año ({windowLabel("summerHeat")})</div>
                     </div>
 
                     <div className="space-y-2">
@@ -535,7 +509,7 @@ export function VarietyRecommendationDashboard({ climateData, location, onBack }
                         <span className="text-sm font-medium">Frío Extremo</span>
                       </div>
                       <div className="text-2xl font-bold">{Math.round(detailedReport.climateProfile.extremeColdDays)}</div>
-                      <div className="text-xs text-muted-foreground">Días &lt; -5°C/año (Nov–Feb)</div>
+                      <div className="text-xs text-muted-foreground">Días &lt; -5°C/año ({windowLabel("chill")})</div>
                     </div>
                   </div>
                 </CardContent>
@@ -1,8 +1,8 @@
 "use client"
 
-import { useMemo, useState } from "react"
+import { useState } from "react"
 import type { ClimateRequest, ClimateData, ApiResponse, DataSource } from "@/lib/types"
-import { ClimateCalculator } from "@/lib/climate-calculations"
+import { calculatorForRequest } from "@/lib/climate-calculations"
 
 type ClimateDataResults = Partial<Record<DataSource, ApiResponse<ClimateData[]>>>
 
@@ -184,9 +184,32 @@ function buildBreakdowns(processed: ClimateData[]) {
   return { yearly, monthly }
 }
 
-export function useClimateData() {
-  const calculator = useMemo(() => new ClimateCalculator(), [])
+// ✅ Jobs en segundo plano (ERA5/CDS): /api/climate-data responde 202 + jobId
+const JOB_POLL_MS = 3000
+const JOB_MAX_WAIT_MS = 60 * 60 * 1000
+
+async function waitForClimateJob(jobId: string, onStatus?: (job: any) => void): Promise<any> {
+  const startedAt = Date.now()
+
+  while (Date.now() - startedAt < JOB_MAX_WAIT_MS) {
+    await new Promise((r) => setTimeout(r, JOB_POLL_MS))
+
+    const res = await fetch(`/api/jobs/${jobId}`, { cache: "no-store" })
+    const job = await res.json().catch(() => ({}))
+    if (!res.ok || job?.status === "failed") throw new Error(job?.error || "El trabajo en segundo plano falló")
+
+    onStatus?.(job)
+
+    if (job?.status === "successful") {
+      const full = await fetch(`/api/jobs/${jobId}?include=result`, { cache: "no-store" })
+      return await full.json()
+    }
+  }
+
+  throw new Error("Tiempo de espera agotado para el trabajo en segundo plano")
+}
 
+export function useClimateData() {
   const [data, setData] = useState<ClimateDataResults | null>(null)
   const [analysisData, setAnalysisData] = useState<ClimateAnalysisResults | null>(null)
 
@@ -196,6 +219,9 @@ export function useClimateData() {
 
   const [error, setError] = useState<string | null>(null)
 
+  // ✅ Progreso del job en curso (solo proveedores lentos tipo ERA5)
+  const [job, setJob] = useState<{ id: string; status: string; percent: number; message?: string } | null>(null)
+
   const beginLoading = () => setLoadingCount((c) => c + 1)
   const endLoading = () => setLoadingCount((c) => Math.max(0, c - 1))
 
@@ -215,7 +241,20 @@ export function useClimateData() {
         body: JSON.stringify(request),
       })
 
-      const payload = await response.json().catch(() => ({}))
+      let payload = await response.json().catch(() => ({}))
+
+      if (response.status === 202 && payload?.jobId) {
+        const jobId = String(payload.jobId)
+        setJob({ id: jobId, status: payload.status, percent: 0 })
+        try {
+          payload = await waitForClimateJob(jobId, (j) =>
+            setJob({ id: jobId, status: j.status, percent: j.progress?.percent ?? 0, message: j.progress?.message }),
+          )
+        } finally {
+          setJob(null)
+        }
+        payload = { ...payload, debug: { ...payload?.debug, jobId } }
+      }
 
       if (!response.ok) {
         const msg =
@@ -236,6 +275,7 @@ export function useClimateData() {
         success: true,
         source: request.source,
         data: rows as ClimateData[],
+        debug: payload?.debug,
       }
 
       setData((prev) => ({
@@ -271,9 +311,11 @@ export function useClimateData() {
         throw new Error(apiResp.error || "La fuente devolvió error o no hay datos")
       }
 
+      // ventanas del calendario de campaña y reglas del cultivo de cada petición
+      const calculator = calculatorForRequest(request)
       const processed = calculator.processClimateData(apiResp.data, request.latitude)
       const summary = calculator.calculateSeasonalSummary(processed)
-      const suitability = calculator.analyzePistachioSuitability(summary)
+      const suitability = calculator.analyzeCropSuitability(summary)
 
       const breakdowns = buildBreakdowns(processed)
 
@@ -324,9 +366,10 @@ export function useClimateData() {
           if (!apiResp?.success || !apiResp.data) {
             return { source: req.source, ok: false as const, error: apiResp?.error || "Sin datos", data: [] as ClimateData[] }
           }
+          const calculator = calculatorForRequest(req)
           const processed = calculator.processClimateData(apiResp.data, req.latitude)
           const summary = calculator.calculateSeasonalSummary(processed)
-          const suitability = calculator.analyzePistachioSuitability(summary)
+          const suitability = calculator.analyzeCropSuitability(summary)
           const breakdowns = buildBreakdowns(processed)
 
           return {
@@ -386,6 +429,7 @@ export function useClimateData() {
     analysisData,
     loading,
     error,
+    job,
     fetchClimateData,
     fetchClimateAnalysis, // 1 fuente
     fetchClimateAnalysisForSource, // 1 fuente (explicit)
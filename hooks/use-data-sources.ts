@@ -0,0 +1,56 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { DataSourceConfig } from "@/lib/data-sources"
+
+// Cache a nivel de módulo: la lista de proveedores no cambia durante la sesión
+let cached: DataSourceConfig[] | null = null
+let inflight: Promise<DataSourceConfig[]> | null = null
+
+async function loadDataSources(): Promise<DataSourceConfig[]> {
+  if (cached) return cached
+  if (!inflight) {
+    inflight = fetch("/api/providers")
+      .then((res) => res.json())
+      .then((payload) => {
+        const list = Array.isArray(payload?.data) ? (payload.data as DataSourceConfig[]) : []
+        cached = list
+        return list
+      })
+      .finally(() => {
+        inflight = null
+      })
+  }
+  return inflight
+}
+
+/**
+ * Proveedores registrados en el servidor (lib/providers) con sus capacidades.
+ */
+export function useDataSources() {
+  const [dataSources, setDataSources] = useState<DataSourceConfig[]>(cached ?? [])
+  const [loading, setLoading] = useState(!cached)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (cached) return
+    let alive = true
+
+    loadDataSources()
+      .then((list) => {
+        if (alive) setDataSources(list)
+      })
+      .catch((err) => {
+        if (alive) setError(err instanceof Error ? err.message : "No se pudieron cargar las fuentes")
+      })
+      .finally(() => {
+        if (alive) setLoading(false)
+      })
+
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  return { dataSources, loading, error }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_AGRONOMY,
+  cropCoefficient,
+  dailyChillHours,
+  dailyFrostHours,
+  dailyGdd,
+  dailyThermalIndices,
+  hoursBelow,
+  kcStageOf,
+  seriesThermalIndices,
+} from "../agronomy"
+import { ClimateCalculator, calculatorForRequest } from "../climate-calculations"
+import { CROP_IDS, CROP_PROFILES, agronomyForCrop } from "../crops"
+import type { ClimateData } from "../types"
+import reference from "./fixtures/agronomy-reference.json"
+
+// Salidas fijadas del motor agronómico (lib/agronomy.ts) sobre un juego de datos de referencia.
+// Si un cambio de fórmula mueve estos valores, debe ser a propósito: regenerar el fixture y explicarlo.
+
+type WinterExpected = {
+  gdd: number
+  linear: { chill_hours: number; frost_hours: number }
+  hourly: { chill_hours: number; frost_hours: number; chill_portions: number; utah_units: number }
+}
+
+describe("fórmulas que antes divergían (agricultural-formulas vs ClimateCalculator)", () => {
+  it("GDD con base 7 °C por defecto (no 10)", () => {
+    expect(DEFAULT_AGRONOMY.gdd.baseC).toBe(7)
+    expect(dailyGdd(30, 10)).toBe(13)
+    expect(dailyGdd(30, 10, { ...DEFAULT_AGRONOMY.gdd, baseC: 10 })).toBe(10)
+    expect(dailyGdd(8, 2)).toBe(0)
+  })
+
+  it("GDD single-triangle cuando el día cruza la base", () => {
+    expect(dailyGdd(17, 3, { ...DEFAULT_AGRONOMY.gdd, method: "single-triangle" })).toBeCloseTo(100 / 28, 6)
+  })
+
+  it("horas bajo umbral repartidas en 24 h (no 12)", () => {
+    expect(hoursBelow(12, 2, 7.2)).toBeCloseTo(12.48, 6)
+    expect(hoursBelow(5, -2, 7.2)).toBe(24)
+    expect(hoursBelow(20, 8, 7.2)).toBe(0)
+    expect(dailyChillHours(12, 2)).toBeCloseTo(12.48, 6)
+    expect(dailyFrostHours(6, -2)).toBeCloseTo(6, 6)
+  })
+
+  it("Kc por fecha fenológica, no por mes del calendario", () => {
+    // dos días del mismo mes en fase de desarrollo dan Kc distintos
+    expect(cropCoefficient("2024-05-01")).not.toBeCloseTo(cropCoefficient("2024-05-31"), 3)
+    expect(cropCoefficient("2024-01-15")).toBeCloseTo(0.4, 6)
+    expect(cropCoefficient("2024-05-10")).toBeCloseTo(0.4 + (9 / 60) * 0.7, 6)
+    expect(cropCoefficient("2024-08-01")).toBeCloseTo(1.1, 6)
+    expect(cropCoefficient("2024-10-10")).toBeCloseTo(1.1 - (12 / 45) * 0.65, 6)
+  })
+})
+
+describe("brotación de la parcela (orchard.budBreak)", () => {
+  it("sustituye a la del perfil y no se desplaza en el hemisferio sur", () => {
+    const { kc } = agronomyForCrop(CROP_PROFILES.pistachio, undefined, { budBreak: "04-20" })
+    expect(kcStageOf("2024-04-19", kc).stage).toBe("off-season")
+    expect(kcStageOf("2024-04-20", kc)).toEqual({ stage: "initial", day: 0 })
+    expect(kcStageOf("2024-04-20", kc, "south")).toEqual({ stage: "initial", day: 0 })
+  })
+
+  it("rechaza fechas que no son MM-DD", () => {
+    expect(() => agronomyForCrop(CROP_PROFILES.pistachio, undefined, { budBreak: "2024-04-20" })).toThrow(/MM-DD/)
+    expect(() => agronomyForCrop(CROP_PROFILES.pistachio, undefined, { budBreak: "13-01" })).toThrow(/MM-DD/)
+  })
+})
+
+describe("juego de referencia invernal", () => {
+  const { latitude, winter } = reference
+  const expected = winter.expected as Record<string, WinterExpected>
+
+  it("GDD y horas lineales por día", () => {
+    for (const day of winter.days) {
+      const idx = dailyThermalIndices(day)
+      expect(idx.gdd).toBeCloseTo(expected[day.date].gdd, 3)
+      expect(idx.chill_hours).toBeCloseTo(expected[day.date].linear.chill_hours, 3)
+      expect(idx.frost_hours).toBeCloseTo(expected[day.date].linear.frost_hours, 3)
+    }
+  })
+
+  it("horas frío / helada, porciones y Utah desde la curva horaria", () => {
+    const series = seriesThermalIndices(winter.days, latitude)
+    for (const day of winter.days) {
+      const got = series[day.date]
+      const want = expected[day.date].hourly
+      expect(got.chill_hours).toBe(want.chill_hours)
+      expect(got.frost_hours).toBe(want.frost_hours)
+      expect(got.chill_portions).toBeCloseTo(want.chill_portions, 3)
+      expect(got.utah_units).toBeCloseTo(want.utah_units, 3)
+    }
+  })
+
+  it("un día sin Tmax o Tmin se queda sin índices y corta la serie", () => {
+    const days = winter.days.map((d, i) => (i === 3 ? { ...d, temperature_max: undefined } : d)) as ClimateData[]
+    const out = new ClimateCalculator().processClimateData(days, latitude)
+
+    expect(out[3]).toMatchObject({ gdd: undefined, chill_hours: undefined, frost_hours: undefined })
+    expect(out[3].chill_portions).toBeUndefined()
+    // lo de antes sale como si la serie acabara ahí; lo de después, como si empezara ahí (no como 0 °C)
+    const head = new ClimateCalculator().processClimateData(days.slice(0, 3), latitude)
+    const tail = new ClimateCalculator().processClimateData(days.slice(4), latitude)
+    expect(out.slice(0, 3)).toEqual(head)
+    expect(out.slice(4)).toEqual(tail)
+  })
+})
+
+describe("histórico troceado", () => {
+  it("los índices rehechos sobre la serie unida no reinician el Modelo Dinámico entre tramos", () => {
+    const { latitude, winter } = reference
+    const calc = new ClimateCalculator()
+    const days = winter.days as ClimateData[]
+    const whole = calc.processClimateData(days, latitude)
+    const chunked = [
+      ...calc.processClimateData(days.slice(0, 4), latitude),
+      ...calc.processClimateData(days.slice(4), latitude),
+    ]
+
+    const portions = (rows: ClimateData[]) => rows.map((d) => d.chill_portions)
+    expect(portions(chunked)).not.toEqual(portions(whole))
+    expect(calc.recomputeThermalIndices(chunked, latitude)).toEqual(whole)
+  })
+})
+
+describe("juego de referencia estival: ETo, Kc y ETc por cultivo", () => {
+  const { latitude, summer } = reference
+  const expected = summer.expected as Record<string, Array<{ eto: number; kc: number; etc: number }>>
+
+  it.each(CROP_IDS)("%s", (crop) => {
+    const out = calculatorForRequest({ crop }).processClimateData(summer.days as ClimateData[], latitude)
+    expect(out.map((d) => ({ eto: d.eto, kc: d.kc, etc: d.etc }))).toEqual(expected[crop])
+  })
+})
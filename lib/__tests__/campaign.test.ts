@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { campaignTotals, defaultCampaignStart, lastObservedDate, stitchCampaign } from "../campaign"
+import { SEASON_CALENDARS } from "../season-calendar"
+import type { ClimateData } from "../types"
+
+function day(date: string, extra: Partial<ClimateData> = {}): ClimateData {
+  return { date, temperature_max: 12, temperature_min: 2, temperature_avg: 7, precipitation: 1.2, ...extra }
+}
+
+const opts = { todayISO: "2025-01-15", observedSource: "SIAR", forecastSource: "OPEN_METEO" } as const
+
+describe("stitchCampaign", () => {
+  it("observado hasta ayer; la previsión cubre el resto y, si coinciden, gana lo observado", () => {
+    const observed = [day("2025-01-13"), day("2025-01-14", { temperature_max: 11 })]
+    const forecast = [day("2025-01-14", { temperature_max: 15 }), day("2025-01-15"), day("2025-01-16")]
+
+    const out = stitchCampaign(observed, forecast, opts)
+    expect(out.map((d) => [d.date, d.isForecast])).toEqual([
+      ["2025-01-13", false],
+      ["2025-01-14", false],
+      ["2025-01-15", true],
+      ["2025-01-16", true],
+    ])
+    expect(out[1].temperature_max).toBe(11)
+    expect(out[1].provenance?.temperature_max).toBe("SIAR")
+    expect(out[2].provenance?.temperature_max).toBe("OPEN_METEO")
+  })
+
+  it("un puente de Open-Meteo rellena el retraso de la fuente observada sin marcarse como previsión", () => {
+    // SIAR sin datos de los dos últimos días (o con -999 al final de la serie)
+    const observed = [day("2025-01-12"), day("2025-01-13", { temperature_max: -999 })]
+    const forecast = [day("2025-01-13"), day("2025-01-14"), day("2025-01-15")]
+
+    const out = stitchCampaign(observed, forecast, opts)
+    expect(out.find((d) => d.date === "2025-01-13")).toMatchObject({ isForecast: false, temperature_max: 12 })
+    expect(out.find((d) => d.date === "2025-01-13")?.provenance?.temperature_max).toBe("OPEN_METEO")
+    expect(out.filter((d) => d.isForecast).map((d) => d.date)).toEqual(["2025-01-15"])
+  })
+
+  it("la previsión AEMET da probabilidad de lluvia, no mm: se descarta", () => {
+    const out = stitchCampaign([], [day("2025-01-15", { precipitation: 40 })], { ...opts, forecastSource: "AEMET" })
+    expect(out[0].precipitation).toBeUndefined()
+    expect(out[0].provenance).not.toHaveProperty("precipitation")
+  })
+
+  it("la procedencia previa (relleno de huecos) se conserva", () => {
+    const observed = [day("2025-01-14", { provenance: { humidity: "NASA_POWER" }, humidity: 70 })]
+    const [d] = stitchCampaign(observed, [], opts)
+    expect(d.provenance).toMatchObject({ temperature_max: "SIAR", humidity: "NASA_POWER" })
+  })
+})
+
+describe("campaignTotals", () => {
+  it("acumulado observado y proyectado con la previsión", () => {
+    const totals = campaignTotals([
+      day("2025-01-13", { chill_hours: 10.04, gdd: 0.5, frost_hours: 2, isForecast: false }),
+      day("2025-01-14", { chill_hours: 12, gdd: 1, frost_hours: 0, isForecast: false }),
+      day("2025-01-15", { chill_hours: 8, gdd: 2.25, frost_hours: 1, isForecast: true }),
+      // valores raros (negativos / -999) no suman
+      day("2025-01-16", { chill_hours: -999, gdd: undefined, frost_hours: 3, isForecast: true }),
+    ])
+
+    expect(totals).toEqual({
+      lastObservedDate: "2025-01-14",
+      firstForecastDate: "2025-01-15",
+      observedDays: 2,
+      forecastDays: 2,
+      observed: { chillHours: 22, gdd: 1.5, frostHours: 2 },
+      projected: { chillHours: 30, gdd: 3.8, frostHours: 6 },
+    })
+  })
+
+  it("sin previsión: proyectado = observado", () => {
+    const totals = campaignTotals([day("2025-01-13", { chill_hours: 5, gdd: 1, frost_hours: 0 })])
+    expect(totals.firstForecastDate).toBeNull()
+    expect(totals.projected).toEqual(totals.observed)
+  })
+})
+
+describe("inicio y último día observado", () => {
+  it("la campaña empieza en el inicio del calendario (1 de noviembre en el norte)", () => {
+    expect(defaultCampaignStart("2025-01-15")).toBe("2024-11-01")
+    expect(defaultCampaignStart("2024-11-20")).toBe("2024-11-01")
+    expect(defaultCampaignStart("2025-01-15", SEASON_CALENDARS["pistachio-south"])).toBe("2024-05-01")
+  })
+
+  it("último día con temperaturas antes de hoy", () => {
+    const observed = [day("2025-01-12"), day("2025-01-13"), day("2025-01-14", { temperature_min: undefined })]
+    expect(lastObservedDate(observed, "2025-01-15")).toBe("2025-01-13")
+    expect(lastObservedDate([], "2025-01-15")).toBeNull()
+  })
+})
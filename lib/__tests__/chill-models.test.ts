@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import { createDynamicModel, dailyChillModelsFromHourly, positiveUtahWeight, utahWeight } from "../chill-models"
+
+// n horas seguidas desde el día dado a una temperatura fija
+function hoursAt(startDate: string, n: number, tempC: number) {
+  const t0 = Date.parse(`${startDate}T00:00:00Z`)
+  return Array.from({ length: n }, (_, i) => ({ time: new Date(t0 + i * 3600_000).toISOString(), tempC }))
+}
+
+describe("Utah", () => {
+  it("pesos por tramo (Richardson 1974) y versión positiva", () => {
+    expect([0, 2, 6, 10, 14, 17, 25].map(utahWeight)).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1])
+    expect(positiveUtahWeight(25)).toBe(0)
+    expect(positiveUtahWeight(6)).toBe(1)
+  })
+})
+
+describe("Modelo Dinámico", () => {
+  it("a 6 °C constantes cierra casi una porción al día", () => {
+    const dm = createDynamicModel()
+    let portions = 0
+    for (let h = 0; h < 24 * 10; h++) portions += dm.step(6)
+    expect(portions).toBeGreaterThan(7)
+    expect(portions).toBeLessThan(9)
+  })
+
+  it("el calor no deja fijar porciones", () => {
+    const dm = createDynamicModel()
+    let portions = 0
+    for (let h = 0; h < 24 * 10; h++) portions += dm.step(25)
+    expect(portions).toBe(0)
+  })
+})
+
+describe("serie horaria -> días", () => {
+  it("suma por día y arrastra el intermedio entre días", () => {
+    const hours = hoursAt("2024-12-01", 24 * 4, 6)
+    const whole = dailyChillModelsFromHourly(hours)
+    expect(Object.keys(whole)).toEqual(["2024-12-01", "2024-12-02", "2024-12-03", "2024-12-04"])
+    expect(whole["2024-12-01"].utah_units).toBe(24)
+
+    // el mismo periodo día a día por separado pierde las porciones a medio formar
+    const dayByDay = [0, 1, 2, 3].map((i) => dailyChillModelsFromHourly(hours.slice(i * 24, (i + 1) * 24)))
+    const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0)
+    expect(sum(dayByDay.map((d) => Object.values(d)[0].chill_portions))).toBeLessThan(
+      sum(Object.values(whole).map((d) => d.chill_portions)),
+    )
+  })
+
+  it("ordena por hora y salta las horas sin temperatura", () => {
+    const hours = [...hoursAt("2024-12-01", 24, 6)].reverse()
+    hours[3] = { ...hours[3], tempC: NaN }
+    expect(dailyChillModelsFromHourly(hours)["2024-12-01"].utah_units).toBe(23)
+  })
+})
@@ -0,0 +1,107 @@
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { afterAll, describe, expect, it, vi } from "vitest"
+import { fetchWithCache } from "../climate-cache"
+import { CANONICAL_UNITS } from "../climate-schema"
+import type { WeatherProvider } from "../providers/types"
+import type { ClimateData, ClimateRequest } from "../types"
+
+vi.mock("server-only", () => ({}))
+vi.mock("../database", () => ({ getDB: () => null }))
+
+// el directorio se lee al crear el store (primera llamada), no al importar
+const dir = mkdtempSync(path.join(tmpdir(), "climate-cache-"))
+process.env.CLIMATE_CACHE = "disk"
+process.env.CLIMATE_CACHE_DIR = dir
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }))
+
+function day(date: string): ClimateData {
+  return {
+    date,
+    temperature_max: 20,
+    temperature_min: 8,
+    temperature_avg: 14,
+    precipitation: 0,
+    humidity: 55,
+    wind_speed: 2,
+    solar_radiation: 15,
+  }
+}
+
+function dates(start: string, end: string) {
+  const out: string[] = []
+  for (let d = new Date(`${start}T00:00:00Z`); d.toISOString().slice(0, 10) <= end; d.setUTCDate(d.getUTCDate() + 1)) {
+    out.push(d.toISOString().slice(0, 10))
+  }
+  return out
+}
+
+function fakeProvider(id: string) {
+  const getClimateData = vi.fn(async (req: ClimateRequest) => ({
+    success: true,
+    source: id,
+    data: dates(req.startDate!, req.endDate!).map(day),
+    debug: { gridElevationM: 612, range: `${req.startDate}/${req.endDate}` },
+  }))
+  const provider = {
+    descriptor: { id, units: CANONICAL_UNITS, capabilities: { cacheable: true } },
+    getClimateData,
+  } as unknown as WeatherProvider
+  return { provider, getClimateData }
+}
+
+const request = (startDate: string, endDate: string) =>
+  ({ latitude: 38.98, longitude: -3.92, startDate, endDate, source: "NASA_POWER" }) as ClimateRequest
+
+describe("fetchWithCache (disco)", () => {
+  it("devuelve la altitud de la celda también cuando todo sale de caché", async () => {
+    const { provider, getClimateData } = fakeProvider("TEST_ELEV")
+
+    const first = await fetchWithCache(provider, request("2020-03-01", "2020-03-10"), { origin: "" })
+    expect(first.debug?.gridElevationM).toBe(612)
+
+    const hit = await fetchWithCache(provider, request("2020-03-02", "2020-03-05"), { origin: "" })
+    expect(getClimateData).toHaveBeenCalledTimes(1)
+    expect(hit.debug?.cache.fetchedRanges).toEqual([])
+    expect(hit.debug?.gridElevationM).toBe(612)
+    // la altitud va en debug, no en las filas
+    expect(hit.data?.[0]).not.toHaveProperty("gridElevationM")
+  })
+
+  it("dos peticiones simultáneas al mismo punto no se pisan los días al guardar", async () => {
+    const { provider, getClimateData } = fakeProvider("TEST_LOCK")
+
+    await Promise.all([
+      fetchWithCache(provider, request("2020-05-01", "2020-05-10"), { origin: "" }),
+      fetchWithCache(provider, request("2020-05-11", "2020-05-20"), { origin: "" }),
+    ])
+    expect(getClimateData).toHaveBeenCalledTimes(2)
+
+    const hit = await fetchWithCache(provider, request("2020-05-01", "2020-05-20"), { origin: "" })
+    expect(hit.debug?.cache.fetchedRanges).toEqual([])
+    expect(getClimateData).toHaveBeenCalledTimes(2)
+  })
+
+  it("junta los huecos separados por pocos días en caché y guarda el debug de cada petición", async () => {
+    const { provider, getClimateData } = fakeProvider("TEST_RANGES")
+    await fetchWithCache(provider, request("2020-07-05", "2020-07-10"), { origin: "" })
+    await fetchWithCache(provider, request("2020-08-01", "2020-09-30"), { origin: "" })
+    getClimateData.mockClear()
+
+    // faltan 07-01..07-04, 07-11..07-31 (6 días en caché entre medias) y 10-01..10-15 (61 días después)
+    const res = await fetchWithCache(provider, request("2020-07-01", "2020-10-15"), { origin: "" })
+    expect(getClimateData).toHaveBeenCalledTimes(2)
+    const fetched = (startDate: string, endDate: string) => ({
+      startDate,
+      endDate,
+      debug: { gridElevationM: 612, range: `${startDate}/${endDate}` },
+    })
+    expect(res.debug?.cache.fetchedRanges).toEqual([
+      fetched("2020-07-01", "2020-07-31"),
+      fetched("2020-10-01", "2020-10-15"),
+    ])
+    expect(res.data).toHaveLength(dates("2020-07-01", "2020-10-15").length)
+  })
+})
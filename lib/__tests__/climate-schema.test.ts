@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { CANONICAL_UNITS, applyClimateSchema, convertClimateUnits, resolveUnits } from "../climate-schema"
+import type { ClimateData } from "../types"
+
+const day = (wind_speed: number | undefined, solar_radiation?: number) =>
+  ({ date: "2024-07-01", temperature_max: 30, temperature_min: 15, temperature_avg: 22.5, wind_speed, solar_radiation }) as ClimateData
+
+describe("convertClimateUnits", () => {
+  it("pasa la previsión AEMET (km/h) a las unidades del descriptor (m/s)", () => {
+    const [d] = convertClimateUnits([day(36)], resolveUnits({ wind_speed: "km/h" }), CANONICAL_UNITS)
+    expect(d.wind_speed).toBe(10)
+  })
+
+  it("convierte entre unidades no canónicas y deja los huecos", () => {
+    const from = resolveUnits({ solar_radiation: "kWh/m2/day" })
+    const to = resolveUnits({ solar_radiation: "W/m2" })
+    const [d, empty] = convertClimateUnits([day(2, 6), day(undefined, -999)], from, to)
+    expect(d.solar_radiation).toBeCloseTo(250, 3)
+    expect(empty.wind_speed).toBeUndefined()
+    expect(empty.solar_radiation).toBe(-999)
+  })
+
+  it("con las mismas unidades devuelve las filas tal cual", () => {
+    const rows = [day(3)]
+    expect(convertClimateUnits(rows, CANONICAL_UNITS, CANONICAL_UNITS)).toBe(rows)
+  })
+})
+
+describe("applyClimateSchema", () => {
+  it("usa las units de la respuesta antes que las del descriptor", () => {
+    const res = applyClimateSchema(
+      { success: true, source: "AEMET", data: [day(36)], units: { wind_speed: "km/h" } },
+      CANONICAL_UNITS,
+    )
+    expect(res.data?.[0].wind_speed).toBe(10)
+    expect(res.units).toBeUndefined()
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest"
+import { applyLapseRateCorrection } from "../elevation"
+import type { ClimateData, ClimateRequest } from "../types"
+
+vi.mock("server-only", () => ({}))
+
+const request = {
+  source: "NASA_POWER",
+  latitude: 38.98,
+  longitude: -3.92,
+  elevation: 850,
+  lapseRate: 6.5,
+} as ClimateRequest
+
+const opts = { cellDeg: { lat: 0.5, lon: 0.625 }, providerCellElevationM: 650 }
+
+function day(date: string, extra: Partial<ClimateData> = {}): ClimateData {
+  return { date, temperature_max: 20, temperature_min: 6, temperature_avg: 13, computedChillHeat: true, ...extra }
+}
+
+describe("applyLapseRateCorrection", () => {
+  it("parcela 200 m por encima de la celda: -1.3 °C en Tmax/Tmin/Tmed", async () => {
+    const { data, correction } = await applyLapseRateCorrection(request, [day("2024-01-10")], opts)
+    expect(correction).toMatchObject({ applied: true, deltaC: -1.3, correctedDays: 1 })
+    expect(data[0]).toMatchObject({ temperature_max: 18.7, temperature_min: 4.7, temperature_avg: 11.7 })
+    expect(data[0].computedChillHeat).toBe(false)
+  })
+
+  it("no corrige lo rellenado desde la fuente secundaria (otra rejilla)", async () => {
+    const filled = day("2024-01-11", {
+      temperature_min: 3,
+      temperature_avg: 11.5,
+      gaps: { temperature_min: "secondary", temperature_avg: "derived" },
+      provenance: { temperature_min: "OPEN_METEO" },
+    })
+    const { data, correction } = await applyLapseRateCorrection(request, [day("2024-01-10"), filled], opts)
+
+    expect(data[1].temperature_max).toBe(18.7)
+    // Tmin de Open-Meteo y la Tmed derivada de ella, tal cual
+    expect(data[1].temperature_min).toBe(3)
+    expect(data[1].temperature_avg).toBe(11.5)
+    expect(correction).toMatchObject({ applied: true, correctedDays: 2, skippedSecondaryFields: 2 })
+  })
+
+  it("día entero de la secundaria: sin tocar", async () => {
+    const filled = day("2024-01-12", {
+      gaps: { temperature_max: "secondary", temperature_min: "secondary", temperature_avg: "secondary" },
+    })
+    const { data, correction } = await applyLapseRateCorrection(request, [filled], opts)
+    expect(data[0]).toBe(filled)
+    expect(correction.correctedDays).toBe(0)
+  })
+})
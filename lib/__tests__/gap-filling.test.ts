@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { detectGaps, finalizeGaps, gapCoverage, interpolateGaps, mergeGapCoverage } from "../gap-filling"
+import type { ClimateData } from "../types"
+
+function day(date: string, tmax?: number): ClimateData {
+  return {
+    date,
+    temperature_max: tmax as number,
+    temperature_min: 5,
+    temperature_avg: 10,
+    precipitation: 0,
+    humidity: 60,
+    wind_speed: 2,
+    solar_radiation: 12,
+  }
+}
+
+function coverage(raw: ClimateData[], start: string, end: string) {
+  const detected = detectGaps(raw, start, end)
+  const { data, dropped } = finalizeGaps(interpolateGaps(detected))
+  return gapCoverage(detected, data, { strategy: "interpolate", receivedDays: raw.length, dropped })
+}
+
+describe("mergeGapCoverage", () => {
+  it("dos tramos suman lo mismo que la serie entera", () => {
+    const a = [day("2024-01-01", 14), day("2024-01-02"), day("2024-01-03", 16)]
+    const b = [day("2024-01-04", 15), day("2024-01-05"), day("2024-01-06", 17)]
+
+    const merged = mergeGapCoverage([coverage(a, "2024-01-01", "2024-01-03"), coverage(b, "2024-01-04", "2024-01-06")])
+    expect(merged).toEqual(coverage([...a, ...b], "2024-01-01", "2024-01-06"))
+    expect(merged?.variables.temperature_max.missing).toBe(2)
+    expect(merged?.variables.temperature_max.coveragePct).toBe(66.7)
+  })
+
+  it("sin tramos -> undefined", () => {
+    expect(mergeGapCoverage([])).toBeUndefined()
+  })
+})
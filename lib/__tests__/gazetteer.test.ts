@@ -0,0 +1,70 @@
+import path from "path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+vi.mock("server-only", () => ({}))
+
+// GAZETTEER_PATH se lee al importar el módulo y el CSV queda en caché global: módulo nuevo en cada caso
+async function loadGazetteer(csvPath?: string) {
+  vi.resetModules()
+  delete (globalThis as any).__gazetteer_cache
+  if (csvPath) vi.stubEnv("GAZETTEER_PATH", csvPath)
+  return import("../gazetteer")
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("nomenclátor del repo (municipios IGN, sin CP)", () => {
+  it("inverso: municipio más cercano, con límite de distancia", async () => {
+    const { reverseGeocode } = await loadGazetteer()
+    const match = reverseGeocode(38.985, -3.93, { maxKm: 30 })
+    expect(match).toMatchObject({ ine: "13034", municipio: "Ciudad Real", provincia: "Ciudad Real", postalCodes: [] })
+    // en el mar, lejos de cualquier centroide
+    expect(reverseGeocode(37.5, -10.5, { maxKm: 30 })).toBeNull()
+  })
+
+  it("INE -> municipio", async () => {
+    const { lookupIne } = await loadGazetteer()
+    expect(lookupIne("13056")?.municipio).toBe("Miguelturra")
+    expect(lookupIne("99999")).toBeNull()
+  })
+
+  it("buscar por CP falla con un error claro si el CSV no trae códigos postales", async () => {
+    const { lookupPostalCode } = await loadGazetteer()
+    expect(() => lookupPostalCode("13170")).toThrowError(/no trae códigos postales/)
+    expect(() => lookupPostalCode("13170")).toThrowError(expect.objectContaining({ status: 503 }))
+  })
+})
+
+describe("nomenclátor con CP", () => {
+  const sample = path.join(__dirname, "fixtures", "gazetteer-sample.csv")
+
+  it("CP -> municipio INE y centroide", async () => {
+    const { lookupPostalCode, municipioIneForPostalCode } = await loadGazetteer(sample)
+    expect(lookupPostalCode("13170")).toMatchObject({
+      postalCode: "13170",
+      ine: "13056",
+      municipio: "Miguelturra",
+      provincia: "Ciudad Real",
+      latitude: 38.96403,
+      longitude: -3.8917,
+      altitude: 630,
+      others: [],
+    })
+    expect(municipioIneForPostalCode("13700")).toBe("13082")
+    expect(lookupPostalCode("99999")).toBeNull()
+    expect(() => municipioIneForPostalCode("99999")).toThrowError(expect.objectContaining({ status: 404 }))
+  })
+
+  it("un municipio reúne sus CP; las filas sin CP cuentan para el inverso", async () => {
+    const { lookupIne, reverseGeocode } = await loadGazetteer(sample)
+    expect(lookupIne("13034")?.postalCodes).toEqual(["13001", "13002"])
+    expect(reverseGeocode(38.937, -3.984)).toMatchObject({ ine: "13078", postalCodes: [] })
+  })
+
+  it("sin CSV: error claro, sin respaldo en línea", async () => {
+    const { reverseGeocode } = await loadGazetteer(path.join(__dirname, "fixtures", "no-existe.csv"))
+    expect(() => reverseGeocode(38.98, -3.93)).toThrowError(/No se encuentra el nomenclátor/)
+  })
+})
@@ -0,0 +1,52 @@
+import path from "path"
+import { NextRequest } from "next/server"
+import { beforeAll, describe, expect, it, vi } from "vitest"
+
+vi.mock("server-only", () => ({}))
+vi.mock("../siar-client", () => ({
+  nearestSiarStations: async () => [{ code: "CR05", name: "Ciudad Real", distanceKm: 3.2 }],
+}))
+vi.mock("../aemet-climatology", () => ({
+  nearestAemetStations: async () => {
+    throw new Error("Falta AEMET_API_KEY en el servidor")
+  },
+}))
+
+// nomenclátor de ejemplo con CP (el del repo solo trae municipios)
+beforeAll(() => {
+  vi.stubEnv("GAZETTEER_PATH", path.join(__dirname, "fixtures", "gazetteer-sample.csv"))
+  delete (globalThis as any).__gazetteer_cache
+})
+
+async function click(body: unknown) {
+  const { POST } = await import("@/app/api/geocode/parcel/route")
+  const res = await POST(
+    new NextRequest("http://localhost/api/geocode/parcel", { method: "POST", body: JSON.stringify(body) }),
+  )
+  return { status: res.status, json: await res.json() }
+}
+
+describe("POST /api/geocode/parcel", () => {
+  it("un clic resuelve municipio, provincia y código postal", async () => {
+    const { status, json } = await click({ latitude: 38.965, longitude: -3.893 })
+    expect(status).toBe(200)
+    expect(json.data).toMatchObject({
+      latitude: 38.965,
+      longitude: -3.893,
+      ine: "13056",
+      municipio: "Miguelturra",
+      provincia: "Ciudad Real",
+      postalCode: "13170",
+      postalCodes: ["13170"],
+      siarStation: { id: "CR05", name: "Ciudad Real", distanceKm: 3.2 },
+      // sin clave AEMET la estación va a null y el motivo a debug
+      aemetStation: null,
+    })
+    expect(json.debug.stations.AEMET).toMatch(/AEMET_API_KEY/)
+  })
+
+  it("lejos de cualquier municipio -> 404; sin coordenadas -> 400", async () => {
+    expect((await click({ latitude: 37.5, longitude: -10.5 })).status).toBe(404)
+    expect((await click({ latitude: "x" })).status).toBe(400)
+  })
+})
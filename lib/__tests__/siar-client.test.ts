@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest"
+import { parseSiarCoord } from "../siar-client"
+
+// el cliente es solo de servidor; en los tests basta con que el import no falle (vi.mock se eleva)
+vi.mock("server-only", () => ({}))
+
+describe("parseSiarCoord", () => {
+  it("lee los ejemplos documentados (DDMMSSsss + hemisferio)", () => {
+    expect(parseSiarCoord("375107000N")).toBeCloseTo(37 + 51 / 60 + 7 / 3600, 6)
+    expect(parseSiarCoord("044806000W")).toBeCloseTo(-(4 + 48 / 60 + 6 / 3600), 6)
+  })
+
+  it("acepta grados de tres cifras y segundos sin milésimas", () => {
+    expect(parseSiarCoord("0044806000W")).toBeCloseTo(-(4 + 48 / 60 + 6 / 3600), 6)
+    expect(parseSiarCoord("375107S")).toBeCloseTo(-(37 + 51 / 60 + 7 / 3600), 6)
+  })
+
+  it("deja pasar el formato decimal", () => {
+    expect(parseSiarCoord("37.85")).toBe(37.85)
+    expect(parseSiarCoord("-4,78")).toBe(-4.78)
+  })
+
+  it("rechaza minutos / segundos imposibles y texto", () => {
+    expect(parseSiarCoord("378070000N")).toBeNull()
+    expect(parseSiarCoord("abc")).toBeNull()
+    expect(parseSiarCoord("")).toBeNull()
+  })
+})
@@ -0,0 +1,252 @@
+// lib/aemet-climatology.ts
+import "server-only"
+import type { ClimateData } from "./types"
+import { haversineKm } from "./geo"
+
+/**
+ * Valores climatológicos diarios de AEMET OpenData (series pasadas por estación).
+ *
+ * - Inventario: /valores/climatologicos/inventarioestaciones/todasestaciones (caché 7 días)
+ * - Diarios: /valores/climatologicos/diarios/datos/fechaini/.../fechafin/.../estacion/{idema}
+ *   AEMET limita el rango por petición: se trocea en AEMET_CLIMO_CHUNK_DAYS (180 por defecto).
+ * - AEMET_MAX_KM / AEMET_MAX_STATIONS: si la estación más cercana no tiene datos en el periodo
+ *   (cerrada, de alta reciente...) se prueba con la siguiente.
+ *
+ * Los valores vienen como texto con coma decimal; "Ip" (inapreciable) en precipitación es 0
+ * y "Acum" (acumulada con días siguientes) se deja como hueco. AEMET no da radiación diaria.
+ */
+
+export type AemetStation = {
+  indicativo: string
+  nombre: string
+  provincia?: string
+  latitud: number
+  longitud: number
+  altitud?: number
+}
+
+export type NearbyAemetStation = AemetStation & { distanceKm: number }
+
+export class AemetError extends Error {
+  constructor(
+    message: string,
+    public status = 502,
+  ) {
+    super(message)
+    this.name = "AemetError"
+  }
+}
+
+const AEMET_API_KEY = process.env.AEMET_API_KEY || ""
+const AEMET_BASE = "https://opendata.aemet.es/opendata/api"
+
+const CHUNK_DAYS = Math.max(1, Number(process.env.AEMET_CLIMO_CHUNK_DAYS) || 180)
+const MAX_STATION_KM = Number(process.env.AEMET_MAX_KM) || 50
+const MAX_STATIONS = Math.max(1, Number(process.env.AEMET_MAX_STATIONS) || 3)
+
+// AEMET responde 429 si se encadenan muchas peticiones (informe de 20 años = ~40 tramos)
+const RATE_LIMIT_RETRIES = 3
+const RATE_LIMIT_WAIT_MS = 5000
+
+const STATIONS_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const stationsCache: { ts: number; data: AemetStation[] | null } =
+  (globalThis as any).__aemet_stations_cache ?? ((globalThis as any).__aemet_stations_cache = { ts: 0, data: null })
+
+// ---------- utils ----------
+function num(v: unknown): number | undefined {
+  if (v === null || v === undefined) return undefined
+  const s = String(v).trim().replace(",", ".")
+  if (!s) return undefined
+  const n = Number(s)
+  return Number.isFinite(n) ? n : undefined
+}
+
+function precip(v: unknown): number | undefined {
+  const s = String(v ?? "").trim()
+  if (s === "Ip") return 0
+  if (s === "Acum" || s === "Varias") return undefined
+  return num(s)
+}
+
+// "394924N" / "025406W" -> grados decimales
+function parseDms(s: unknown): number | undefined {
+  const m = String(s ?? "").trim().match(/^(\d{2,3})(\d{2})(\d{2})([NSEW])$/i)
+  if (!m) return undefined
+  const deg = Number(m[1]) + Number(m[2]) / 60 + Number(m[3]) / 3600
+  const hemi = m[4].toUpperCase()
+  return hemi === "S" || hemi === "W" ? -deg : deg
+}
+
+function addDaysISO(dateISO: string, days: number) {
+  const d = new Date(`${dateISO}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms))
+}
+
+function splitRange(startISO: string, endISO: string, days: number) {
+  const chunks: Array<{ start: string; end: string }> = []
+  let cursor = startISO
+  while (cursor <= endISO) {
+    const end = addDaysISO(cursor, days - 1)
+    chunks.push({ start: cursor, end: end < endISO ? end : endISO })
+    cursor = addDaysISO(end, 1)
+  }
+  return chunks
+}
+
+// ---------- AEMET (2 pasos) ----------
+/**
+ * Petición + descarga de la URL "datos". Devuelve [] cuando AEMET dice que no hay datos (404).
+ */
+async function aemetGet(path: string): Promise<any[]> {
+  if (!AEMET_API_KEY) throw new AemetError("Falta AEMET_API_KEY en el servidor", 500)
+
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(`${AEMET_BASE}${path}`, {
+      headers: { api_key: AEMET_API_KEY, accept: "application/json" },
+      cache: "no-store",
+    })
+    const json = await res.json().catch(() => null)
+    const estado = Number(json?.estado ?? res.status)
+
+    if (estado === 429 && attempt < RATE_LIMIT_RETRIES) {
+      await sleep(RATE_LIMIT_WAIT_MS * (attempt + 1))
+      continue
+    }
+    if (estado === 404) return []
+    if (!json?.datos) {
+      throw new AemetError(`AEMET: sin datos (estado=${estado}) ${json?.descripcion || ""}`.trim())
+    }
+
+    // el fichero final llega en ISO-8859-15
+    const dataRes = await fetch(String(json.datos), { cache: "no-store" })
+    if (!dataRes.ok) throw new AemetError(`AEMET download error ${dataRes.status}`)
+    const txt = new TextDecoder("iso-8859-15").decode(await dataRes.arrayBuffer())
+
+    try {
+      const list = JSON.parse(txt)
+      return Array.isArray(list) ? list : []
+    } catch {
+      throw new AemetError(`AEMET devolvió una respuesta no JSON: ${txt.slice(0, 300)}`)
+    }
+  }
+}
+
+// ---------- estaciones ----------
+export async function getAemetStations(): Promise<AemetStation[]> {
+  const now = Date.now()
+  if (stationsCache.data && now - stationsCache.ts < STATIONS_CACHE_TTL_MS) return stationsCache.data
+
+  const list = await aemetGet("/valores/climatologicos/inventarioestaciones/todasestaciones")
+
+  const data: AemetStation[] = []
+  for (const s of list) {
+    const latitud = parseDms(s?.latitud)
+    const longitud = parseDms(s?.longitud)
+    if (!s?.indicativo || latitud === undefined || longitud === undefined) continue
+    data.push({
+      indicativo: String(s.indicativo),
+      nombre: String(s.nombre ?? s.indicativo),
+      provincia: s.provincia ?? undefined,
+      latitud,
+      longitud,
+      altitud: num(s.altitud),
+    })
+  }
+  if (!data.length) throw new AemetError("AEMET: inventario de estaciones vacío")
+
+  stationsCache.data = data
+  stationsCache.ts = now
+  return data
+}
+
+export async function nearestAemetStations(
+  lat: number,
+  lon: number,
+  opts: { k?: number; maxKm?: number } = {},
+): Promise<NearbyAemetStation[]> {
+  const stations = await getAemetStations()
+  const maxKm = opts.maxKm ?? MAX_STATION_KM
+
+  return stations
+    .map((s) => ({ ...s, distanceKm: Number(haversineKm(lat, lon, s.latitud, s.longitud).toFixed(2)) }))
+    .filter((s) => s.distanceKm <= maxKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, opts.k ?? MAX_STATIONS)
+}
+
+// ---------- datos diarios ----------
+/**
+ * Fila de /valores/climatologicos/diarios -> ClimateData (huecos como undefined, ver lib/gap-filling.ts).
+ */
+export function mapAemetClimatologyDay(d: any): ClimateData {
+  const tmax = num(d?.tmax)
+  const tmin = num(d?.tmin)
+  const tavg = num(d?.tmed) ?? (tmax !== undefined && tmin !== undefined ? (tmax + tmin) / 2 : undefined)
+  const hrMax = num(d?.hrMax)
+  const hrMin = num(d?.hrMin)
+
+  return {
+    date: String(d?.fecha ?? "").slice(0, 10),
+    temperature_max: tmax as number,
+    temperature_min: tmin as number,
+    temperature_avg: tavg as number,
+    humidity: num(d?.hrMedia) ?? (hrMax !== undefined && hrMin !== undefined ? (hrMax + hrMin) / 2 : undefined),
+    precipitation: precip(d?.prec),
+    wind_speed: num(d?.velmedia), // m/s
+    solar_radiation: undefined,
+    eto: undefined,
+    etc: undefined,
+    computedChillHeat: false,
+    computedFromHourly: false,
+  }
+}
+
+async function getStationDaily(indicativo: string, startISO: string, endISO: string) {
+  const out: ClimateData[] = []
+  for (const c of splitRange(startISO, endISO, CHUNK_DAYS)) {
+    const rows = await aemetGet(
+      `/valores/climatologicos/diarios/datos/fechaini/${c.start}T00:00:00UTC/fechafin/${c.end}T23:59:59UTC/estacion/${encodeURIComponent(indicativo)}`,
+    )
+    for (const r of rows) {
+      const day = mapAemetClimatologyDay(r)
+      if (day.date >= startISO && day.date <= endISO) out.push(day)
+    }
+  }
+  return out.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Serie diaria de la estación AEMET más cercana a (lat, lon) que tenga datos en el periodo.
+ */
+export async function getAemetClimatologyData(
+  lat: number,
+  lon: number,
+  startISO: string,
+  endISO: string,
+  opts: { k?: number; maxKm?: number } = {},
+): Promise<{ station: NearbyAemetStation; tried: string[]; data: ClimateData[] }> {
+  const stations = await nearestAemetStations(lat, lon, opts)
+  if (!stations.length) {
+    throw new AemetError(
+      `No hay estaciones AEMET a menos de ${opts.maxKm ?? MAX_STATION_KM} km de (${lat}, ${lon})`,
+      404,
+    )
+  }
+
+  const tried: string[] = []
+  for (const station of stations) {
+    tried.push(station.indicativo)
+    const data = await getStationDaily(station.indicativo, startISO, endISO)
+    if (data.length) return { station, tried, data }
+  }
+
+  throw new AemetError(
+    `Las estaciones AEMET cercanas (${tried.join(", ")}) no tienen datos entre ${startISO} y ${endISO}`,
+    404,
+  )
+}
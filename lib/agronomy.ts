@@ -0,0 +1,382 @@
+// lib/agronomy.ts
+import { dailyChillModelsFromHourly, type DailyChillModels } from "./chill-models"
+import { reconstructHourlyTemperatures } from "./hourly-temperature"
+import { DEFAULT_SEASON_CALENDAR, isInSeasonWindow, windowForHemisphere } from "./season-calendar"
+import type { Hemisphere, SeasonCalendar } from "./types"
+
+/**
+ * Motor agronómico único: grados-día, horas frío, horas de helada y Kc (FAO-56, cuatro fases).
+ *
+ * Antes convivían dos versiones (lib/agricultural-formulas.ts con GDD base 10, HF ×12 y Kc por mes, y
+ * ClimateCalculator con GDD base 7, HF ×24 y Kc por día del año), y el resultado dependía del camino.
+ * El Kc sigue ahora la curva de FAO-56 desde la fecha de brotación del cultivo (no el mes del calendario).
+ * Ahora ClimateCalculator, los exports, el motor de variedades y lib/dashboard-recalc.ts llaman aquí.
+ * Los modelos de frío horarios (porciones, Utah) están en lib/chill-models.ts; con fuentes diarias las horas
+ * se reconstruyen con lib/hourly-temperature.ts (seriesThermalIndices).
+ *
+ * Cada índice tiene un método con nombre y sus parámetros (AgronomyParams). DEFAULT_AGRONOMY es el del pistacho;
+ * los demás cultivos cambian Kc y base de GDD con agronomyForCrop (lib/crops.ts).
+ * Las ventanas (frío, GDD...) salen del calendario de campaña (lib/season-calendar.ts, AgronomyParams.season).
+ *
+ * Módulo sin server-only: dashboard-recalc y los exports corren en cliente.
+ */
+
+// "average": (Tmax + Tmin) / 2 − base.
+// "single-triangle": Zalom et al. 1983 sin corte superior (los días que cruzan la base suman la parte de encima)
+export type GddMethod = "average" | "single-triangle"
+
+// "hourly-linvill": horas bajo el umbral contadas sobre la curva horaria reconstruida (Linvill, con latitud);
+// necesita la serie completa (seriesThermalIndices).
+// "linear-24h": la temperatura recorre Tmin–Tmax linealmente en 24 h (un día suelto, sin latitud)
+export type HoursBelowMethod = "hourly-linvill" | "linear-24h"
+
+// FAO-56 (cap. 6): curva de cuatro fases desde la brotación, con Kc mid / Kc end ajustados al clima
+export type KcMethod = "fao56-four-stage"
+
+export interface KcStageParams {
+  method: KcMethod
+  kcIni: number // también fuera de campaña (reposo / antes de brotar)
+  kcMid: number
+  kcEnd: number
+
+  // fecha fenológica de inicio (brotación, "MM-DD" del hemisferio norte) y duración de cada fase (días)
+  budBreak: string
+  lengths: { initial: number; development: number; mid: number; late: number }
+  // brotación observada en la parcela ("MM-DD" local, OrchardInput.budBreak): sustituye a budBreak y no se desplaza
+  orchardBudBreak?: string
+
+  // altura media de los árboles (m): ajuste climático de Kc mid/end y reducción por cobertura
+  heightM: number
+
+  // cobertura del suelo (fracción 0–1) de la plantación adulta a la que corresponden los Kc de la tabla
+  matureCover: number
+
+  // cobertura real de la parcela (fracción 0–1); sin ella, plantación adulta
+  canopyCover?: number
+}
+
+export interface AgronomyParams {
+  gdd: { method: GddMethod; baseC: number }
+  chill: { method: HoursBelowMethod; thresholdC: number }
+  frost: { method: HoursBelowMethod; thresholdC: number }
+  kc: KcStageParams
+  season: SeasonCalendar
+}
+
+export const DEFAULT_AGRONOMY: AgronomyParams = {
+  gdd: { method: "average", baseC: 7 },
+  chill: { method: "hourly-linvill", thresholdC: 7.2 },
+  frost: { method: "hourly-linvill", thresholdC: 0 },
+  kc: {
+    method: "fao56-four-stage",
+    kcIni: 0.4,
+    kcMid: 1.1,
+    kcEnd: 0.45,
+    budBreak: "04-01",
+    lengths: { initial: 30, development: 60, mid: 90, late: 45 },
+    heightM: 4,
+    matureCover: 0.6,
+  },
+  season: DEFAULT_SEASON_CALENDAR,
+}
+
+// Parámetros por defecto con otro calendario de campaña (ClimateRequest.seasonCalendar)
+export function agronomyForCalendar(season: SeasonCalendar): AgronomyParams {
+  return { ...DEFAULT_AGRONOMY, season }
+}
+
+export type DailyThermalIndices = { gdd: number; chill_hours: number; frost_hours: number }
+
+// con "hourly-linvill" también salen porciones y Utah de las horas reconstruidas
+export type SeriesThermalIndices = DailyThermalIndices & Partial<DailyChillModels>
+
+// ---------- fechas ----------
+
+const DAY_MS = 86400000
+
+// Mes (1-12) de "yyyy-mm-dd" sin pasar por la zona horaria del navegador
+export function monthOf(dateISO: string): number {
+  return Number(dateISO.slice(5, 7))
+}
+
+export function dayOfYear(dateISO: string): number {
+  const d = new Date(`${dateISO.slice(0, 10)}T00:00:00Z`)
+  return Math.floor((d.getTime() - Date.UTC(d.getUTCFullYear(), 0, 1)) / DAY_MS) + 1
+}
+
+export function isInChillWindow(dateISO: string, params: AgronomyParams = DEFAULT_AGRONOMY): boolean {
+  return isInSeasonWindow(dateISO, params.season.windows.chill)
+}
+
+export function isInGddWindow(dateISO: string, params: AgronomyParams = DEFAULT_AGRONOMY): boolean {
+  return isInSeasonWindow(dateISO, params.season.windows.gdd)
+}
+
+// ---------- índices diarios ----------
+
+function finiteOr0(n: number) {
+  return Number.isFinite(n) ? n : 0
+}
+
+export function dailyGdd(tempMax: number, tempMin: number, gdd: AgronomyParams["gdd"] = DEFAULT_AGRONOMY.gdd): number {
+  const tmax = finiteOr0(tempMax)
+  const tmin = finiteOr0(tempMin)
+  const base = gdd.baseC
+
+  if (gdd.method === "single-triangle") {
+    if (tmin >= base) return (tmax + tmin) / 2 - base
+    if (tmax <= base) return 0
+    return Math.pow(tmax - base, 2) / (2 * (tmax - tmin))
+  }
+
+  return Math.max(0, (tmax + tmin) / 2 - base)
+}
+
+/**
+ * Horas del día bajo thresholdC con el método "linear-24h". Un dato que falta (NaN) cuenta como 0 °C.
+ */
+export function hoursBelow(tempMax: number, tempMin: number, thresholdC: number): number {
+  const tmax = finiteOr0(tempMax)
+  const tmin = finiteOr0(tempMin)
+
+  if (tmax <= thresholdC) return 24
+  if (tmin >= thresholdC) return 0
+
+  const hours = (24 * (thresholdC - tmin)) / (tmax - tmin)
+  return Math.max(0, Math.min(24, hours))
+}
+
+export function dailyChillHours(
+  tempMax: number,
+  tempMin: number,
+  chill: AgronomyParams["chill"] = DEFAULT_AGRONOMY.chill,
+): number {
+  return hoursBelow(tempMax, tempMin, chill.thresholdC)
+}
+
+export function dailyFrostHours(
+  tempMax: number,
+  tempMin: number,
+  frost: AgronomyParams["frost"] = DEFAULT_AGRONOMY.frost,
+): number {
+  return hoursBelow(tempMax, tempMin, frost.thresholdC)
+}
+
+/**
+ * GDD, horas frío (0 fuera de la ventana de frío) y horas de helada de un día suelto, sin redondear.
+ * Sin serie ni latitud las horas salen siempre con "linear-24h"; para una serie, seriesThermalIndices.
+ */
+export function dailyThermalIndices(
+  day: { date: string; temperature_max: number; temperature_min: number },
+  params: AgronomyParams = DEFAULT_AGRONOMY,
+): DailyThermalIndices {
+  const { temperature_max: tmax, temperature_min: tmin } = day
+  return {
+    gdd: dailyGdd(tmax, tmin, params.gdd),
+    chill_hours: isInChillWindow(day.date, params) ? dailyChillHours(tmax, tmin, params.chill) : 0,
+    frost_hours: dailyFrostHours(tmax, tmin, params.frost),
+  }
+}
+
+/**
+ * Índices de toda una serie diaria, por fecha. Con "hourly-linvill" (chill o frost) se reconstruyen las 24 h de
+ * cada día y se cuentan las horas bajo el umbral; las porciones (Modelo Dinámico) arrastran su estado de un día
+ * al siguiente, así que la serie debe venir completa.
+ * Los días sin Tmax o Tmin no salen (sus índices quedan sin dato) y cortan la serie: la curva horaria y el
+ * Modelo Dinámico empiezan de nuevo al otro lado, igual que en un salto de fechas.
+ */
+export function seriesThermalIndices(
+  days: Array<{ date: string; temperature_max: number; temperature_min: number }>,
+  latitude: number | undefined,
+  params: AgronomyParams = DEFAULT_AGRONOMY,
+): Record<string, SeriesThermalIndices> {
+  const out: Record<string, SeriesThermalIndices> = {}
+  let segment: typeof days = []
+  const flush = () => {
+    if (segment.length) Object.assign(out, segmentThermalIndices(segment, latitude, params))
+    segment = []
+  }
+
+  for (const d of [...days].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (!Number.isFinite(d.temperature_max) || !Number.isFinite(d.temperature_min)) {
+      flush()
+      continue
+    }
+    const prev = segment[segment.length - 1]
+    if (prev && Date.parse(d.date) - Date.parse(prev.date) !== DAY_MS) flush()
+    segment.push(d)
+  }
+  flush()
+  return out
+}
+
+// un tramo de días seguidos, todos con Tmax y Tmin
+function segmentThermalIndices(
+  days: Array<{ date: string; temperature_max: number; temperature_min: number }>,
+  latitude: number | undefined,
+  params: AgronomyParams,
+): Record<string, SeriesThermalIndices> {
+  const out: Record<string, SeriesThermalIndices> = {}
+  const hourly = params.chill.method === "hourly-linvill" || params.frost.method === "hourly-linvill"
+
+  for (const d of days) out[d.date] = dailyThermalIndices(d, params)
+  if (!hourly) return out
+
+  const hours = reconstructHourlyTemperatures(
+    days.map((d) => ({ date: d.date, tmin: d.temperature_min, tmax: d.temperature_max })),
+    latitude ?? 0,
+  )
+
+  const counts: Record<string, { chill: number; frost: number }> = {}
+  for (const { date, tempC } of hours) {
+    const c = counts[date] ?? (counts[date] = { chill: 0, frost: 0 })
+    if (tempC < params.chill.thresholdC) c.chill += 1
+    if (tempC < params.frost.thresholdC) c.frost += 1
+  }
+
+  const models = dailyChillModelsFromHourly(
+    hours.map((h) => ({ time: `${h.date}T${pad2(h.hour)}:00`, tempC: h.tempC })),
+  )
+
+  for (const [date, idx] of Object.entries(out)) {
+    const c = counts[date] ?? { chill: 0, frost: 0 }
+    if (params.chill.method === "hourly-linvill") idx.chill_hours = isInChillWindow(date, params) ? c.chill : 0
+    if (params.frost.method === "hourly-linvill") idx.frost_hours = c.frost
+    Object.assign(idx, models[date])
+  }
+  return out
+}
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0")
+}
+
+// ---------- Kc ----------
+
+export type KcStage = "initial" | "development" | "mid" | "late" | "off-season"
+
+// clima medio de una fase para ajustar su Kc: viento a 2 m (m/s) y humedad relativa mínima (%)
+export type KcClimate = { u2: number; rhMin: number }
+
+export type KcOptions = {
+  hemisphere?: Hemisphere // en el sur la brotación se desplaza medio año
+  mid?: KcClimate // clima de la fase media (ajusta Kc mid)
+  late?: KcClimate // clima de la fase final (ajusta Kc end)
+}
+
+// Kc del suelo desnudo (Kc min de FAO-56): hacia él tiende el Kc con poca cobertura
+const KC_MIN = 0.15
+
+// multiplicador de la cobertura efectiva en la ec. 98 de FAO-56 (1.5–2.0)
+const CANOPY_ML = 1.5
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n))
+}
+
+/**
+ * Fase de la curva del día y días transcurridos dentro de ella. La campaña empieza en la brotación del año
+ * (o del anterior, si la fecha es previa); pasadas las cuatro fases, "off-season" hasta la siguiente brotación.
+ */
+export function kcStageOf(
+  dateISO: string,
+  kc: KcStageParams = DEFAULT_AGRONOMY.kc,
+  hemisphere: Hemisphere = "north",
+): { stage: KcStage; day: number } {
+  const budBreak = kc.orchardBudBreak ?? windowForHemisphere({ start: kc.budBreak, end: kc.budBreak }, hemisphere).start
+  const date = Date.parse(`${dateISO.slice(0, 10)}T00:00:00Z`)
+  const year = Number(dateISO.slice(0, 4))
+
+  let start = Date.parse(`${year}-${budBreak}T00:00:00Z`)
+  if (date < start) start = Date.parse(`${year - 1}-${budBreak}T00:00:00Z`)
+  let day = Math.floor((date - start) / DAY_MS)
+
+  const { initial, development, mid, late } = kc.lengths
+  for (const [stage, length] of [
+    ["initial", initial],
+    ["development", development],
+    ["mid", mid],
+    ["late", late],
+  ] as Array<[KcStage, number]>) {
+    if (day < length) return { stage, day }
+    day -= length
+  }
+  return { stage: "off-season", day }
+}
+
+/**
+ * Ajuste climático de Kc mid / Kc end (FAO-56 ec. 62 y 65):
+ * Kc + [0.04 (u2 − 2) − 0.004 (HRmin − 45)] (h/3)^0.3, con u2 en 1–6 m/s y HRmin en 20–80 %.
+ */
+export function climateAdjustedKc(kcValue: number, heightM: number, climate?: KcClimate): number {
+  if (!climate || !Number.isFinite(climate.u2) || !Number.isFinite(climate.rhMin)) return kcValue
+  const u2 = clamp(climate.u2, 1, 6)
+  const rhMin = clamp(climate.rhMin, 20, 80)
+  const h = clamp(heightM, 0.1, 10)
+  return kcValue + (0.04 * (u2 - 2) - 0.004 * (rhMin - 45)) * Math.pow(h / 3, 0.3)
+}
+
+/**
+ * Reducción por cobertura (plantación joven o poco densa) respecto a la adulta de la tabla:
+ * Kd = min(1, ML·fc, fc^(1/(1+h))) (FAO-56 ec. 98) y Kc = Kc min + Kd/Kd_adulta · (Kc − Kc min).
+ * Nunca sube el Kc por encima del de la tabla.
+ */
+export function canopyCoverFactor(kc: KcStageParams): number {
+  if (kc.canopyCover === undefined || !Number.isFinite(kc.canopyCover)) return 1
+  const kd = (fc: number) => Math.min(1, CANOPY_ML * fc, Math.pow(fc, 1 / (1 + kc.heightM)))
+  const mature = kd(clamp(kc.matureCover, 0.01, 1))
+  return clamp(kd(clamp(kc.canopyCover, 0, 1)) / mature, 0, 1)
+}
+
+/**
+ * Kc del día ("fao56-four-stage"): Kc ini en la fase inicial y fuera de campaña, lineal hasta Kc mid en el
+ * desarrollo, Kc mid en la fase media y lineal hasta Kc end en la final. Kc mid y Kc end con el ajuste
+ * climático de su fase (opts.mid / opts.late) y todo con la reducción por cobertura.
+ */
+export function cropCoefficient(
+  dateISO: string,
+  kc: KcStageParams = DEFAULT_AGRONOMY.kc,
+  opts: KcOptions = {},
+): number {
+  const { stage, day } = kcStageOf(dateISO, kc, opts.hemisphere)
+  const kcMid = climateAdjustedKc(kc.kcMid, kc.heightM, opts.mid)
+  // FAO-56: Kc end solo se ajusta si es >= 0.45
+  const kcEnd = kc.kcEnd >= 0.45 ? climateAdjustedKc(kc.kcEnd, kc.heightM, opts.late) : kc.kcEnd
+
+  let value: number
+  if (stage === "development") value = kc.kcIni + (day / kc.lengths.development) * (kcMid - kc.kcIni)
+  else if (stage === "mid") value = kcMid
+  else if (stage === "late") value = kcMid + (day / kc.lengths.late) * (kcEnd - kcMid)
+  else value = kc.kcIni
+
+  if (value <= KC_MIN) return value
+  return KC_MIN + canopyCoverFactor(kc) * (value - KC_MIN)
+}
+
+// ---------- clima para el Kc ----------
+
+// presión de vapor de saturación (kPa), FAO-56 ec. 11
+export function saturationVaporPressure(tC: number): number {
+  return 0.6108 * Math.exp((17.27 * tC) / (tC + 237.3))
+}
+
+/**
+ * Viento a 2 m desde la altura del anemómetro (perfil logarítmico, FAO-56 ec. 47).
+ */
+export function windAt2m(speed: number, heightM = 2): number {
+  if (!heightM || heightM <= 0 || heightM === 2) return speed
+  return (speed * 4.87) / Math.log(67.8 * heightM - 5.42)
+}
+
+/**
+ * HR mínima del día (%): ea / e°(Tmax). Con HR media, ea = HR · (e°(Tmax) + e°(Tmin)) / 2 (ec. 19);
+ * sin humedad, Tdew ≈ Tmin (ec. 48, FAO-56 ec. 63 para HRmin).
+ */
+export function dailyRhMin(tempMax: number, tempMin: number, humidity?: number): number {
+  const esMax = saturationVaporPressure(tempMax)
+  const esMin = saturationVaporPressure(tempMin)
+  const rh = Number(humidity)
+  const hasRh = humidity != null && Number.isFinite(rh) && rh > 0
+  const ea = hasRh ? (Math.min(100, rh) / 100) * ((esMax + esMin) / 2) : esMin
+  return clamp((100 * ea) / esMax, 0, 100)
+}
@@ -0,0 +1,392 @@
+// lib/bias-correction.ts
+import "server-only"
+import type { BiasCorrectionMethod, ClimateData, ClimateRequest, DataSource } from "./types"
+import { getProvider, type ProviderContext, type WeatherProvider } from "./providers"
+import { fetchWithCache } from "./climate-cache"
+import { isMissingValue } from "./gap-filling"
+
+/**
+ * Corrección de sesgo de fuentes en rejilla (NASA_POWER, OPEN_METEO, ERA5) frente a una estación
+ * (SIAR o LOCAL_DB) cercana.
+ *
+ * 1) Entrenamiento: últimos BIAS_TRAINING_YEARS años completos de ambas series (días con los dos valores)
+ * 2) Ajuste por variable y mes: delta (medias) o mapeo de cuantiles
+ * 3) Habilidad: error frente a la estación antes/después, validando año a año (se deja fuera el año evaluado)
+ *
+ * La radiación no se corrige aquí: sus unidades aún difieren entre fuentes y el ajuste escondería ese error.
+ */
+
+export const BIAS_CORRECTABLE_SOURCES: DataSource[] = ["NASA_POWER", "OPEN_METEO", "ERA5"]
+export const BIAS_REFERENCE_SOURCES: DataSource[] = ["SIAR", "LOCAL_DB"]
+
+export const BIAS_VARIABLES = ["temperature_max", "temperature_min", "humidity", "precipitation", "wind_speed"] as const
+export type BiasVariable = (typeof BIAS_VARIABLES)[number]
+
+// lluvia y viento se corrigen con factor (no pueden ser negativos); el resto, sumando
+const RATIO_VARIABLES: BiasVariable[] = ["precipitation", "wind_speed"]
+const RATIO_LIMITS = [0.2, 5]
+
+const TRAINING_YEARS = Math.max(1, Number(process.env.BIAS_TRAINING_YEARS) || 3)
+const MIN_PAIRS_PER_MONTH = 30
+const QUANTILES = Array.from({ length: 21 }, (_, i) => i / 20)
+
+const MODEL_TTL_MS = 24 * 60 * 60 * 1000
+const modelCache: Map<string, { ts: number; model: BiasModel }> =
+  (globalThis as any).__bias_model_cache ?? ((globalThis as any).__bias_model_cache = new Map())
+
+export type MonthCorrection = {
+  n: number
+  kind: "additive" | "ratio"
+  delta?: number // additive (delta)
+  ratio?: number // ratio (delta)
+  quantiles?: { model: number[]; reference: number[] } // quantile
+}
+
+export type ErrorStats = { n: number; bias: number; mae: number; rmse: number }
+
+export type BiasSkill = { before: ErrorStats; after: ErrorStats; validation: "leave-one-year-out" | "in-sample" }
+
+export type BiasModel = {
+  method: Exclude<BiasCorrectionMethod, "none">
+  source: DataSource
+  reference: DataSource
+  trainingPeriod: { startDate: string; endDate: string }
+  pairedDays: number
+  // meses 1..12 (null = pocos datos, ese mes no se corrige)
+  corrections: Partial<Record<BiasVariable, Record<number, MonthCorrection | null>>>
+  skill: Partial<Record<BiasVariable, BiasSkill>>
+  referenceDebug?: Record<string, any>
+}
+
+export type BiasCorrectionResult = {
+  applied: boolean
+  reason?: string
+  model?: BiasModel
+  correctedDays?: number
+}
+
+type Pair = { date: string; model: number; reference: number }
+
+// ---------- config ----------
+export function resolveBiasMethod(input?: string): BiasCorrectionMethod {
+  const s = String(input || process.env.BIAS_CORRECTION || "").trim() as BiasCorrectionMethod
+  return s === "delta" || s === "quantile" ? s : "none"
+}
+
+export function resolveBiasReference(input?: string): DataSource {
+  const s = String(input || process.env.BIAS_REFERENCE || "SIAR") as DataSource
+  return BIAS_REFERENCE_SOURCES.includes(s) ? s : "SIAR"
+}
+
+function trainingPeriod(): { startDate: string; endDate: string } {
+  const lastYear = new Date().getUTCFullYear() - 1
+  return { startDate: `${lastYear - TRAINING_YEARS + 1}-01-01`, endDate: `${lastYear}-12-31` }
+}
+
+// ---------- estadística ----------
+function monthOf(dateISO: string) {
+  return Number(dateISO.slice(5, 7))
+}
+
+function mean(xs: number[]) {
+  return xs.reduce((a, b) => a + b, 0) / xs.length
+}
+
+function quantile(sorted: number[], q: number) {
+  const pos = (sorted.length - 1) * q
+  const lo = Math.floor(pos)
+  const hi = Math.ceil(pos)
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo)
+}
+
+function round(v: number, digits = 3) {
+  return Number(v.toFixed(digits))
+}
+
+function clampVariable(variable: BiasVariable, v: number) {
+  if (variable === "humidity") return Math.max(0, Math.min(100, v))
+  if (RATIO_VARIABLES.includes(variable)) return Math.max(0, v)
+  return v
+}
+
+function pairsFor(variable: BiasVariable, model: ClimateData[], reference: ClimateData[]): Pair[] {
+  const ref = new Map(reference.map((d) => [d.date.slice(0, 10), d]))
+  const out: Pair[] = []
+  for (const m of model) {
+    const r = ref.get(m.date.slice(0, 10))
+    if (!r || isMissingValue(variable, m[variable]) || isMissingValue(variable, r[variable])) continue
+    out.push({ date: m.date.slice(0, 10), model: Number(m[variable]), reference: Number(r[variable]) })
+  }
+  return out
+}
+
+function fitMonth(
+  variable: BiasVariable,
+  pairs: Pair[],
+  method: Exclude<BiasCorrectionMethod, "none">,
+): MonthCorrection | null {
+  if (pairs.length < MIN_PAIRS_PER_MONTH) return null
+
+  const kind = RATIO_VARIABLES.includes(variable) ? "ratio" : "additive"
+
+  if (method === "quantile") {
+    const m = pairs.map((p) => p.model).sort((a, b) => a - b)
+    const r = pairs.map((p) => p.reference).sort((a, b) => a - b)
+    return {
+      n: pairs.length,
+      kind,
+      quantiles: {
+        model: QUANTILES.map((q) => round(quantile(m, q))),
+        reference: QUANTILES.map((q) => round(quantile(r, q))),
+      },
+    }
+  }
+
+  if (kind === "ratio") {
+    const sm = pairs.reduce((a, p) => a + p.model, 0)
+    const sr = pairs.reduce((a, p) => a + p.reference, 0)
+    const ratio = sm > 0 ? Math.max(RATIO_LIMITS[0], Math.min(RATIO_LIMITS[1], sr / sm)) : 1
+    return { n: pairs.length, kind, ratio: round(ratio) }
+  }
+
+  return { n: pairs.length, kind, delta: round(mean(pairs.map((p) => p.reference - p.model))) }
+}
+
+function applyMonth(variable: BiasVariable, v: number, c: MonthCorrection): number {
+  if (c.delta !== undefined) return clampVariable(variable, v + c.delta)
+  if (c.ratio !== undefined) return clampVariable(variable, v * c.ratio)
+  if (!c.quantiles) return v
+
+  // un día seco sigue seco (el mapeo de cuantiles tiende a "inventar" llovizna)
+  if (variable === "precipitation" && v <= 0) return 0
+
+  const { model: mq, reference: rq } = c.quantiles
+  const last = mq.length - 1
+
+  // fuera del rango entrenado: se extrapola la corrección del extremo
+  if (v <= mq[0] || v >= mq[last]) {
+    const i = v <= mq[0] ? 0 : last
+    if (c.kind === "ratio") return clampVariable(variable, mq[i] > 0 ? (v * rq[i]) / mq[i] : v + rq[i] - mq[i])
+    return clampVariable(variable, v + rq[i] - mq[i])
+  }
+
+  let i = 0
+  while (i < last - 1 && mq[i + 1] < v) i++
+  const span = mq[i + 1] - mq[i]
+  const t = span > 0 ? (v - mq[i]) / span : 0.5
+  return clampVariable(variable, rq[i] + t * (rq[i + 1] - rq[i]))
+}
+
+function fitVariable(variable: BiasVariable, pairs: Pair[], method: Exclude<BiasCorrectionMethod, "none">) {
+  const out: Record<number, MonthCorrection | null> = {}
+  for (let month = 1; month <= 12; month++) {
+    out[month] = fitMonth(variable, pairs.filter((p) => monthOf(p.date) === month), method)
+  }
+  return out
+}
+
+function errorStats(pairs: Array<{ model: number; reference: number }>): ErrorStats {
+  if (!pairs.length) return { n: 0, bias: 0, mae: 0, rmse: 0 }
+  const d = pairs.map((p) => p.model - p.reference)
+  return {
+    n: pairs.length,
+    bias: round(mean(d)),
+    mae: round(mean(d.map(Math.abs))),
+    rmse: round(Math.sqrt(mean(d.map((x) => x * x)))),
+  }
+}
+
+/**
+ * Error antes/después. Con 2+ años se valida dejando fuera el año evaluado al ajustar
+ * (si no, la "mejora" sería en parte sobreajuste).
+ */
+function skillFor(variable: BiasVariable, pairs: Pair[], method: Exclude<BiasCorrectionMethod, "none">) {
+  const years = [...new Set(pairs.map((p) => p.date.slice(0, 4)))]
+  const validation = years.length >= 2 ? ("leave-one-year-out" as const) : ("in-sample" as const)
+
+  const after: Array<{ model: number; reference: number }> = []
+  for (const year of validation === "in-sample" ? [null] : years) {
+    const train = year ? pairs.filter((p) => !p.date.startsWith(year)) : pairs
+    const test = year ? pairs.filter((p) => p.date.startsWith(year)) : pairs
+    const fitted = fitVariable(variable, train, method)
+
+    for (const p of test) {
+      const c = fitted[monthOf(p.date)]
+      after.push({ model: c ? applyMonth(variable, p.model, c) : p.model, reference: p.reference })
+    }
+  }
+
+  return { before: errorStats(pairs), after: errorStats(after), validation }
+}
+
+export function fitBiasModel(
+  model: ClimateData[],
+  reference: ClimateData[],
+  opts: {
+    method: Exclude<BiasCorrectionMethod, "none">
+    source: DataSource
+    reference: DataSource
+    trainingPeriod: { startDate: string; endDate: string }
+  },
+): BiasModel {
+  const corrections: BiasModel["corrections"] = {}
+  const skill: BiasModel["skill"] = {}
+  const paired = new Set<string>()
+
+  for (const variable of BIAS_VARIABLES) {
+    const pairs = pairsFor(variable, model, reference)
+    if (!pairs.length) continue
+    pairs.forEach((p) => paired.add(p.date))
+
+    corrections[variable] = fitVariable(variable, pairs, opts.method)
+    skill[variable] = skillFor(variable, pairs, opts.method)
+  }
+
+  return { ...opts, pairedDays: paired.size, corrections, skill }
+}
+
+/**
+ * Aplica el modelo. Si cambian Tmax/Tmin, los índices térmicos se recalculan (ClimateCalculator).
+ */
+export function applyBiasModel(data: ClimateData[], model: BiasModel): { data: ClimateData[]; correctedDays: number } {
+  let correctedDays = 0
+
+  const out = data.map((day) => {
+    const month = monthOf(day.date)
+    const next: ClimateData = { ...day }
+    let touched = false
+
+    for (const variable of BIAS_VARIABLES) {
+      const c = model.corrections[variable]?.[month]
+      if (!c || isMissingValue(variable, day[variable])) continue
+      ;(next as any)[variable] = round(applyMonth(variable, Number(day[variable]), c), 2)
+      touched = true
+    }
+
+    if (!touched) return day
+    correctedDays++
+
+    if (next.temperature_max !== day.temperature_max || next.temperature_min !== day.temperature_min) {
+      const shift = (next.temperature_max - day.temperature_max + (next.temperature_min - day.temperature_min)) / 2
+      if (Number.isFinite(day.temperature_avg) && Number.isFinite(shift)) {
+        next.temperature_avg = round(day.temperature_avg + shift, 2)
+      }
+      next.computedChillHeat = false
+    }
+    return next
+  })
+
+  return { data: out, correctedDays }
+}
+
+// ---------- entrenamiento (servidor) ----------
+function addDaysISO(dateISO: string, days: number) {
+  const d = new Date(`${dateISO}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+// respeta maxRangeDays del proveedor (3 años de SIAR no caben en una llamada)
+async function fetchSeries(provider: WeatherProvider, request: ClimateRequest, ctx: ProviderContext) {
+  const maxDays = provider.descriptor.capabilities.maxRangeDays
+  const data: ClimateData[] = []
+  let debug: Record<string, any> | undefined
+
+  for (let s = request.startDate!; s <= request.endDate!; s = addDaysISO(s, maxDays)) {
+    const e = addDaysISO(s, maxDays - 1)
+    const chunk = { ...request, startDate: s, endDate: e < request.endDate! ? e : request.endDate }
+    const res = await fetchWithCache(provider, chunk, ctx)
+    if (!res.success || !res.data) throw new Error(res.error || `${provider.descriptor.id}: sin datos`)
+    data.push(...res.data)
+    debug ??= res.debug
+  }
+
+  return { data, debug }
+}
+
+// celda de ~1 km para reutilizar el modelo entre parcelas vecinas
+function modelKey(
+  request: ClimateRequest,
+  method: string,
+  reference: DataSource,
+  period: { startDate: string; endDate: string },
+) {
+  const lat = Number(request.latitude).toFixed(2)
+  const lon = Number(request.longitude).toFixed(2)
+  return [request.source, reference, method, lat, lon, period.startDate, period.endDate].join("|")
+}
+
+export async function getBiasModel(request: ClimateRequest, ctx: ProviderContext): Promise<BiasModel> {
+  const method = resolveBiasMethod(request.biasCorrection)
+  if (method === "none") throw new Error("Corrección de sesgo desactivada")
+
+  const referenceId = resolveBiasReference(request.biasReference)
+  const period = trainingPeriod()
+
+  const key = modelKey(request, method, referenceId, period)
+  const hit = modelCache.get(key)
+  if (hit && Date.now() - hit.ts < MODEL_TTL_MS) return hit.model
+
+  const gridded = getProvider(request.source)
+  const reference = getProvider(referenceId)
+  if (!gridded || !reference) throw new Error(`Proveedor no disponible: ${!gridded ? request.source : referenceId}`)
+
+  const base: ClimateRequest = {
+    source: request.source,
+    latitude: request.latitude,
+    longitude: request.longitude,
+    ...period,
+  }
+
+  const [g, r] = await Promise.all([
+    fetchSeries(gridded, base, ctx),
+    fetchSeries(reference, { ...base, source: referenceId }, ctx),
+  ])
+
+  const model = fitBiasModel(g.data, r.data, {
+    method,
+    source: request.source,
+    reference: referenceId,
+    trainingPeriod: period,
+  })
+  model.referenceDebug = r.debug?.siar ?? r.debug?.localDb
+
+  modelCache.set(key, { ts: Date.now(), model })
+  return model
+}
+
+/**
+ * Punto de entrada de WeatherService: nunca rompe la petición; si no se puede corregir,
+ * devuelve la serie tal cual y el motivo.
+ */
+export async function correctBias(
+  request: ClimateRequest,
+  data: ClimateData[],
+  ctx: ProviderContext,
+): Promise<{ data: ClimateData[]; result: BiasCorrectionResult }> {
+  const method = resolveBiasMethod(request.biasCorrection)
+  if (method === "none") return { data, result: { applied: false, reason: "desactivada" } }
+
+  if (!BIAS_CORRECTABLE_SOURCES.includes(request.source)) {
+    return { data, result: { applied: false, reason: `${request.source} no es una fuente en rejilla` } }
+  }
+  if (typeof request.latitude !== "number" || typeof request.longitude !== "number") {
+    return { data, result: { applied: false, reason: "faltan coordenadas" } }
+  }
+
+  try {
+    const model = await getBiasModel(request, ctx)
+    if (!model.pairedDays) {
+      return { data, result: { applied: false, reason: "sin días comunes con la estación", model } }
+    }
+
+    const corrected = applyBiasModel(data, model)
+    return {
+      data: corrected.data,
+      result: { applied: corrected.correctedDays > 0, model, correctedDays: corrected.correctedDays },
+    }
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : "Error entrenando la corrección"
+    return { data, result: { applied: false, reason } }
+  }
+}
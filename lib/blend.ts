@@ -0,0 +1,165 @@
+// lib/blend.ts
+import type { BlendPriority, BlendVariable, ClimateData, ClimateProvenance, DataSource } from "./types"
+
+/**
+ * Serie "mezclada" (BLEND): para cada día y variable se toma el primer proveedor
+ * de la lista de prioridad que tenga un valor válido.
+ *
+ * Módulo sin server-only: la UI lo usa para resumir la procedencia.
+ */
+
+// SIAR queda fuera por defecto: necesita SIAR_API_KEY y la estación más cercana puede estar a decenas de km
+// (se puede anteponer por variable con `blend`)
+export const DEFAULT_BLEND_PRIORITY: Record<BlendVariable, DataSource[]> = {
+  temperature: ["NASA_POWER", "OPEN_METEO"],
+  humidity: ["NASA_POWER", "OPEN_METEO"],
+  precipitation: ["OPEN_METEO", "NASA_POWER"],
+  wind_speed: ["NASA_POWER", "OPEN_METEO"],
+  solar_radiation: ["NASA_POWER", "OPEN_METEO"],
+  eto: ["OPEN_METEO"],
+}
+
+export const BLEND_VARIABLES = Object.keys(DEFAULT_BLEND_PRIORITY) as BlendVariable[]
+
+// Campos de ClimateData que arrastra cada variable
+const BLEND_FIELDS: Record<BlendVariable, (keyof ClimateProvenance)[]> = {
+  temperature: [
+    "temperature_max",
+    "temperature_min",
+    "temperature_avg",
+    "frost_hours",
+    "chill_hours",
+    "gdd",
+    "chill_portions",
+    "utah_units",
+    "positive_utah_units",
+    "computedChillHeat",
+    "computedFromHourly",
+  ],
+  humidity: ["humidity"],
+  precipitation: ["precipitation"],
+  wind_speed: ["wind_speed"],
+  solar_radiation: ["solar_radiation"],
+  eto: ["eto", "etc"],
+}
+
+export const BLEND_VARIABLE_LABELS: Record<BlendVariable, string> = {
+  temperature: "Temperatura",
+  humidity: "Humedad",
+  precipitation: "Precipitación",
+  wind_speed: "Viento",
+  solar_radiation: "Radiación",
+  eto: "ETo",
+}
+
+export function resolveBlendPriority(custom?: BlendPriority): Record<BlendVariable, DataSource[]> {
+  const out = { ...DEFAULT_BLEND_PRIORITY }
+  if (!custom) return out
+
+  for (const v of BLEND_VARIABLES) {
+    const list = custom[v]
+    // BLEND no puede mezclarse consigo mismo
+    const clean = Array.isArray(list) ? list.filter((s) => s && s !== "BLEND") : []
+    if (clean.length) out[v] = clean
+  }
+  return out
+}
+
+export function blendSources(priority: Record<BlendVariable, DataSource[]>): DataSource[] {
+  const set = new Set<DataSource>()
+  for (const v of BLEND_VARIABLES) priority[v].forEach((s) => set.add(s))
+  return [...set]
+}
+
+function hasValue(variable: BlendVariable, day: ClimateData | undefined): boolean {
+  if (!day) return false
+  if (variable === "temperature") {
+    return Number.isFinite(day.temperature_max) && Number.isFinite(day.temperature_min)
+  }
+
+  const v = Number(day[variable])
+  if (day[variable] == null || !Number.isFinite(v)) return false
+
+  // Open-Meteo/NASA dejan 0 cuando no hay dato: una HR o ETo de 0 no es real
+  if (variable === "humidity" || variable === "eto") return v > 0
+  return v >= 0
+}
+
+/**
+ * Mezcla las series diarias de varios proveedores.
+ * Solo se emiten días con temperatura (el resto del motor la necesita siempre).
+ */
+export function blendClimateSeries(
+  seriesBySource: Partial<Record<DataSource, ClimateData[]>>,
+  priority: Record<BlendVariable, DataSource[]>,
+): ClimateData[] {
+  const byDate = new Map<DataSource, Map<string, ClimateData>>()
+  const dates = new Set<string>()
+
+  for (const [src, rows] of Object.entries(seriesBySource) as [DataSource, ClimateData[]][]) {
+    const m = new Map<string, ClimateData>()
+    for (const r of rows ?? []) {
+      if (!r?.date) continue
+      m.set(r.date, r)
+      dates.add(r.date)
+    }
+    byDate.set(src, m)
+  }
+
+  const out: ClimateData[] = []
+
+  for (const date of [...dates].sort()) {
+    const day: Partial<ClimateData> = { date }
+    const provenance: ClimateProvenance = {}
+
+    for (const variable of BLEND_VARIABLES) {
+      const src = priority[variable].find((s) => hasValue(variable, byDate.get(s)?.get(date)))
+      if (!src) continue
+
+      const row = byDate.get(src)!.get(date)!
+      for (const field of BLEND_FIELDS[variable]) {
+        if (row[field] === undefined) continue
+        ;(day as any)[field] = row[field]
+        provenance[field] = src
+      }
+    }
+
+    if (!provenance.temperature_max) continue
+    out.push({ ...(day as ClimateData), provenance })
+  }
+
+  return out
+}
+
+/**
+ * Cuenta, por variable, cuántos días aportó cada proveedor.
+ * Devuelve {} si la serie no es mezclada.
+ */
+export function summarizeProvenance(data: ClimateData[]): Partial<Record<BlendVariable, Record<string, number>>> {
+  const out: Partial<Record<BlendVariable, Record<string, number>>> = {}
+
+  for (const d of data ?? []) {
+    if (!d?.provenance) continue
+    for (const variable of BLEND_VARIABLES) {
+      const src = d.provenance[BLEND_FIELDS[variable][0]]
+      if (!src) continue
+      const counts = (out[variable] ??= {})
+      counts[src] = (counts[src] ?? 0) + 1
+    }
+  }
+
+  return out
+}
+
+/**
+ * Texto corto para exportaciones: "Temperatura: NASA_POWER · Precipitación: OPEN_METEO"
+ */
+export function formatProvenance(p?: ClimateProvenance): string {
+  if (!p) return ""
+  return BLEND_VARIABLES.map((v) => {
+    const src = p[BLEND_FIELDS[v][0]]
+    return src ? `${BLEND_VARIABLE_LABELS[v]}: ${src}` : null
+  })
+    .filter(Boolean)
+    .join(" · ")
+}
@@ -0,0 +1,173 @@
+// lib/campaign.ts
+import type { CampaignForecastSource, ClimateData, ClimateProvenance, DataSource, SeasonCalendar } from "./types"
+import { DEFAULT_SEASON_CALENDAR, campaignStartDate } from "./season-calendar"
+
+/**
+ * Campaña en curso: serie observada (inicio de campaña -> último día disponible)
+ * cosida con la previsión de AEMET u Open-Meteo para los próximos días.
+ *
+ * - Cada día lleva `isForecast` (true desde hoy) y `provenance` con la fuente que lo aporta.
+ * - Open-Meteo también cubre el hueco entre el último día observado y hoy
+ *   (NASA POWER / Open-Meteo Archive llegan con unos días de retraso); AEMET solo da desde hoy.
+ *
+ * Módulo sin server-only: el dashboard usa campaignTotals() sobre los mismos datos.
+ */
+
+export const CAMPAIGN_FORECAST_SOURCES: CampaignForecastSource[] = ["OPEN_METEO", "AEMET"]
+
+// días de previsión que da cada fuente (Open-Meteo hasta 16, AEMET municipal 7)
+export const CAMPAIGN_MAX_FORECAST_DAYS: Record<CampaignForecastSource, number> = { OPEN_METEO: 16, AEMET: 7 }
+export const DEFAULT_CAMPAIGN_FORECAST_DAYS = 7
+
+// Open-Meteo forecast admite past_days hasta 92: más allá no se puede rellenar el retraso
+export const MAX_BRIDGE_DAYS = 92
+
+const PROVENANCE_FIELDS = [
+  "temperature_max",
+  "temperature_min",
+  "temperature_avg",
+  "humidity",
+  "precipitation",
+  "wind_speed",
+  "solar_radiation",
+  "eto",
+] as const
+
+export type CampaignTotals = {
+  lastObservedDate: string | null
+  firstForecastDate: string | null
+  observedDays: number
+  forecastDays: number
+  observed: { chillHours: number; gdd: number; frostHours: number }
+  projected: { chillHours: number; gdd: number; frostHours: number } // observado + previsión
+}
+
+export function isCampaignForecastSource(s: unknown): s is CampaignForecastSource {
+  return CAMPAIGN_FORECAST_SOURCES.includes(s as CampaignForecastSource)
+}
+
+export function addDaysISO(dateISO: string, days: number) {
+  const d = new Date(`${dateISO}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * Inicio por defecto: el de la campaña del calendario (1 de noviembre en el norte, arranque de la acumulación
+ * de frío; ver lib/season-calendar.ts).
+ */
+export function defaultCampaignStart(todayISO: string, calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR) {
+  return campaignStartDate(todayISO, calendar)
+}
+
+// los finales de serie pueden venir vacíos o con -999 (NASA POWER)
+function hasTemperature(d: ClimateData) {
+  const tmax = Number(d.temperature_max)
+  const tmin = Number(d.temperature_min)
+  return Number.isFinite(tmax) && Number.isFinite(tmin) && tmax > -999 && tmin > -999
+}
+
+/**
+ * Último día observado con temperaturas antes de `beforeISO`.
+ */
+export function lastObservedDate(observed: ClimateData[], beforeISO: string): string | null {
+  let last: string | null = null
+  for (const d of observed) {
+    const date = d.date.slice(0, 10)
+    if (date < beforeISO && hasTemperature(d) && (!last || date > last)) last = date
+  }
+  return last
+}
+
+function withProvenance(d: ClimateData, source: DataSource): ClimateProvenance {
+  const p: ClimateProvenance = {}
+  for (const f of PROVENANCE_FIELDS) if (d[f] !== undefined && d[f] !== null) p[f] = source
+  // la procedencia previa (relleno de huecos desde otra fuente) manda
+  return { ...p, ...d.provenance }
+}
+
+/**
+ * Observado hasta ayer + previsión; si una fecha está en las dos, gana la observada.
+ */
+export function stitchCampaign(
+  observed: ClimateData[],
+  forecast: ClimateData[],
+  opts: { todayISO: string; observedSource: DataSource; forecastSource: CampaignForecastSource },
+): ClimateData[] {
+  const byDate = new Map<string, ClimateData>()
+
+  for (const d of forecast) {
+    const date = d.date.slice(0, 10)
+    const day: ClimateData = { ...d, date, isForecast: date >= opts.todayISO }
+    // en la previsión municipal de AEMET "precipitation" es probabilidad (%), no mm
+    if (opts.forecastSource === "AEMET") {
+      day.precipitation = undefined
+      if (day.qc?.precipitation) {
+        const { precipitation: _p, ...qc } = day.qc
+        day.qc = Object.keys(qc).length ? qc : undefined
+      }
+    }
+    byDate.set(date, { ...day, provenance: withProvenance(day, opts.forecastSource) })
+  }
+
+  for (const d of observed) {
+    const date = d.date.slice(0, 10)
+    if (date >= opts.todayISO || !hasTemperature(d)) continue
+    byDate.set(date, { ...d, date, isForecast: false, provenance: withProvenance(d, opts.observedSource) })
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function num(v: unknown) {
+  const n = Number(v)
+  return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+function round1(v: number) {
+  return Number(v.toFixed(1))
+}
+
+/**
+ * Horas frío / GDD / horas de helada acumulados hasta el último día observado y proyectados con la previsión.
+ */
+export function campaignTotals(data: ClimateData[]): CampaignTotals {
+  const observed = { chillHours: 0, gdd: 0, frostHours: 0 }
+  const forecast = { chillHours: 0, gdd: 0, frostHours: 0 }
+  let lastObserved: string | null = null
+  let firstForecast: string | null = null
+  let observedDays = 0
+  let forecastDays = 0
+
+  for (const d of data) {
+    const acc = d.isForecast ? forecast : observed
+    acc.chillHours += num(d.chill_hours)
+    acc.gdd += num(d.gdd)
+    acc.frostHours += num(d.frost_hours)
+
+    if (d.isForecast) {
+      forecastDays++
+      if (!firstForecast || d.date < firstForecast) firstForecast = d.date
+    } else {
+      observedDays++
+      if (!lastObserved || d.date > lastObserved) lastObserved = d.date
+    }
+  }
+
+  return {
+    lastObservedDate: lastObserved,
+    firstForecastDate: firstForecast,
+    observedDays,
+    forecastDays,
+    observed: {
+      chillHours: round1(observed.chillHours),
+      gdd: round1(observed.gdd),
+      frostHours: round1(observed.frostHours),
+    },
+    projected: {
+      chillHours: round1(observed.chillHours + forecast.chillHours),
+      gdd: round1(observed.gdd + forecast.gdd),
+      frostHours: round1(observed.frostHours + forecast.frostHours),
+    },
+  }
+}
@@ -0,0 +1,116 @@
+// lib/chill-models.ts
+
+/**
+ * Modelos de frío horarios (complementan las horas bajo 7.2°C de lib/agronomy.ts):
+ * - Modelo Dinámico (Fishman et al. 1987; Erez et al. 1990): porciones de frío (CP). Tiene memoria: el frío
+ *   forma un intermedio reversible que las horas cálidas pueden destruir, por eso se calcula sobre la serie
+ *   horaria completa y no día a día por separado.
+ * - Utah (Richardson et al. 1974): unidades de frío con pesos negativos para las horas cálidas.
+ * - Utah positivo (Linsley-Noakes et al. 1995): igual, pero las horas cálidas no restan.
+ *
+ * Se guardan por día en ClimateData (chill_portions, utah_units, positive_utah_units) y se suman por campaña
+ * como las horas frío (solo en la ventana de frío).
+ *
+ * Módulo sin server-only: solo cálculo.
+ */
+
+export type ChillModel = "hours" | "dynamic" | "utah" | "positive-utah"
+
+export const CHILL_MODEL_LABELS: Record<ChillModel, string> = {
+  hours: "Horas frío (< 7.2°C)",
+  dynamic: "Porciones de frío (Modelo Dinámico)",
+  utah: "Unidades Utah",
+  "positive-utah": "Unidades Utah positivas",
+}
+
+export type HourlyTemperature = { time: string; tempC: number } // time ISO: el día son los 10 primeros caracteres
+
+export type DailyChillModels = { chill_portions: number; utah_units: number; positive_utah_units: number }
+
+// ---------- Utah ----------
+
+// Richardson et al. 1974: límites superiores (°C) incluidos en cada tramo
+const UTAH_STEPS: Array<[number, number]> = [
+  [1.4, 0],
+  [2.4, 0.5],
+  [9.1, 1],
+  [12.4, 0.5],
+  [15.9, 0],
+  [18, -0.5],
+]
+
+export function utahWeight(tempC: number): number {
+  for (const [upper, weight] of UTAH_STEPS) {
+    if (tempC <= upper) return weight
+  }
+  return -1
+}
+
+export function positiveUtahWeight(tempC: number): number {
+  return Math.max(0, utahWeight(tempC))
+}
+
+// ---------- Modelo Dinámico ----------
+
+// Parámetros de Fishman et al. 1987 (los mismos que chillR::Dynamic_Model)
+const DM_E0 = 4153.5
+const DM_E1 = 12888.8
+const DM_A0 = 139500
+const DM_A1 = 2.567e18
+const DM_SLP = 1.6
+const DM_TETMLT = 277
+
+/**
+ * Integrador del Modelo Dinámico: step(T) recibe la temperatura de la hora siguiente (°C)
+ * y devuelve las porciones de frío completadas en esa hora (0 casi siempre; ~1 cuando se cierra una).
+ */
+export function createDynamicModel() {
+  let interE = 0 // intermedio acumulado tras la hora anterior
+  let prevXi = 0 // fracción del intermedio que se fija como porción (hora anterior)
+
+  return {
+    step(tempC: number): number {
+      const tk = tempC + 273
+      const ftmprt = (DM_SLP * DM_TETMLT * (tk - DM_TETMLT)) / tk
+      const sr = Math.exp(ftmprt)
+      const xi = sr / (1 + sr)
+      const xs = (DM_A0 / DM_A1) * Math.exp((DM_E1 - DM_E0) / tk)
+      const ak1 = DM_A1 * Math.exp(-DM_E1 / tk)
+
+      // si la hora anterior cerró una porción, esa parte sale del intermedio
+      const start = interE < 1 ? interE : interE - interE * prevXi
+      interE = xs - (xs - start) * Math.exp(-ak1)
+      prevXi = xi
+
+      return interE >= 1 ? interE * xi : 0
+    },
+  }
+}
+
+// ---------- Serie horaria -> valores diarios ----------
+
+/**
+ * Porciones, Utah y Utah positivo por día a partir de una serie horaria (se ordena por hora; las horas sin
+ * temperatura se saltan). El Modelo Dinámico arranca a cero al principio de la serie.
+ */
+export function dailyChillModelsFromHourly(hours: HourlyTemperature[]): Record<string, DailyChillModels> {
+  const out: Record<string, DailyChillModels> = {}
+  const dm = createDynamicModel()
+
+  const sorted = [...hours].filter((h) => Number.isFinite(h.tempC)).sort((a, b) => a.time.localeCompare(b.time))
+  for (const { time, tempC } of sorted) {
+    const day = time.slice(0, 10)
+    const agg = out[day] ?? (out[day] = { chill_portions: 0, utah_units: 0, positive_utah_units: 0 })
+
+    agg.chill_portions += dm.step(tempC)
+    agg.utah_units += utahWeight(tempC)
+    agg.positive_utah_units += positiveUtahWeight(tempC)
+  }
+
+  for (const agg of Object.values(out)) {
+    agg.chill_portions = Number(agg.chill_portions.toFixed(3))
+    agg.utah_units = Number(agg.utah_units.toFixed(1))
+    agg.positive_utah_units = Number(agg.positive_utah_units.toFixed(1))
+  }
+  return out
+}
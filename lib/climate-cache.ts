@@ -0,0 +1,286 @@
+// lib/climate-cache.ts
+import "server-only"
+import { promises as fs } from "fs"
+import path from "path"
+import { getDB } from "./database"
+import { applyClimateSchema, convertClimateUnits, resolveUnits } from "./climate-schema"
+import type { ApiResponse, ClimateData, ClimateRequest } from "./types"
+import type { ProviderContext, WeatherProvider } from "./providers/types"
+
+/**
+ * Caché persistente de respuestas de proveedores (datos diarios YA normalizados a ClimateData).
+ *
+ * - Clave: proveedor + coordenadas redondeadas a la rejilla (CLIMATE_CACHE_GRID_DEG) + fecha.
+ * - Se guarda la salida "cruda" del proveedor (antes del esquema, huecos y ClimateCalculator), en las unidades
+ *   de su descriptor: así un cambio en las fórmulas o en los rangos válidos no obliga a vaciar la caché.
+ * - Rangos solapados: solo se piden al proveedor los tramos de días que faltan; los tramos separados por
+ *   pocos días ya guardados (CLIMATE_CACHE_MERGE_GAP_DAYS) van en una sola petición.
+ * - Cada día guarda la altitud de la celda del proveedor (debug.gridElevationM, lib/elevation.ts) para
+ *   devolverla también cuando todo sale de caché.
+ * - Los últimos CLIMATE_CACHE_RECENT_DAYS días no se guardan (las fuentes los corrigen a posteriori).
+ *
+ * Backend con CLIMATE_CACHE:
+ * - "disk" (por defecto): un JSON por proveedor+punto en CLIMATE_CACHE_DIR (.cache/climate)
+ * - "postgres": tabla climate_cache (scripts/06-create-climate-cache.sql) en la BD PowerNasa
+ * - "off": sin caché
+ */
+
+type CacheBackend = "disk" | "postgres" | "off"
+
+type CacheKey = { provider: string; lat: number; lon: number }
+
+// día tal cual se guarda: la fila cruda + la altitud de la celda (no sale de fetchRaw)
+type CachedDay = ClimateData & { gridElevationM?: number }
+
+interface ClimateCacheStore {
+  get(key: CacheKey, startDate: string, endDate: string): Promise<CachedDay[]>
+  put(key: CacheKey, rows: CachedDay[]): Promise<void>
+}
+
+const GRID_DEG = Number(process.env.CLIMATE_CACHE_GRID_DEG) || 0.01
+const RECENT_DAYS = Number(process.env.CLIMATE_CACHE_RECENT_DAYS ?? 7)
+// días en caché entre dos tramos que faltan por debajo de los cuales compensa pedirlos de una vez
+const MERGE_GAP_DAYS = Number(process.env.CLIMATE_CACHE_MERGE_GAP_DAYS ?? 30)
+
+function resolveBackend(): CacheBackend {
+  const b = String(process.env.CLIMATE_CACHE || "disk").toLowerCase()
+  return b === "postgres" || b === "off" ? b : "disk"
+}
+
+function snap(v: number) {
+  return Number((Math.round(v / GRID_DEG) * GRID_DEG).toFixed(4))
+}
+
+function addDaysISO(dateISO: string, days: number) {
+  const d = new Date(`${dateISO}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function daysBetween(fromISO: string, toISO: string) {
+  return Math.round((Date.parse(`${toISO}T00:00:00Z`) - Date.parse(`${fromISO}T00:00:00Z`)) / 86400000)
+}
+
+function isCacheableDay(d: ClimateData, cutoffISO: string) {
+  // días recientes o sin temperatura: se vuelven a pedir la próxima vez
+  return (
+    d.date <= cutoffISO &&
+    Number.isFinite(Number(d.temperature_max)) &&
+    Number.isFinite(Number(d.temperature_min)) &&
+    Number(d.temperature_max) > -999 &&
+    Number(d.temperature_min) > -999
+  )
+}
+
+/**
+ * Tramos contiguos [start, end] del rango pedido que no están en caché.
+ * Dos tramos separados por <= mergeGapDays días en caché se juntan en uno (se vuelven a pedir esos días):
+ * una caché salteada no debe acabar en decenas de llamadas al proveedor.
+ */
+function missingRanges(startDate: string, endDate: string, have: Set<string>, mergeGapDays = MERGE_GAP_DAYS) {
+  const ranges: Array<{ startDate: string; endDate: string }> = []
+  const close = (runStart: string, runEnd: string) => {
+    const last = ranges[ranges.length - 1]
+    // días en caché entre el tramo anterior y este
+    if (last && daysBetween(last.endDate, runStart) - 1 <= mergeGapDays) last.endDate = runEnd
+    else ranges.push({ startDate: runStart, endDate: runEnd })
+  }
+
+  let runStart: string | null = null
+  let prev = ""
+
+  for (let d = startDate; d <= endDate; d = addDaysISO(d, 1)) {
+    if (!have.has(d)) {
+      if (!runStart) runStart = d
+    } else if (runStart) {
+      close(runStart, prev)
+      runStart = null
+    }
+    prev = d
+  }
+  if (runStart) close(runStart, prev)
+
+  return ranges
+}
+
+// --------------------
+// Disco
+// --------------------
+class DiskCacheStore implements ClimateCacheStore {
+  private dir = process.env.CLIMATE_CACHE_DIR || path.join(process.cwd(), ".cache", "climate")
+
+  private file(key: CacheKey) {
+    return path.join(this.dir, `${key.provider}_${key.lat}_${key.lon}.json`)
+  }
+
+  private async readAll(key: CacheKey): Promise<Record<string, CachedDay>> {
+    try {
+      return JSON.parse(await fs.readFile(this.file(key), "utf8"))
+    } catch {
+      return {}
+    }
+  }
+
+  async get(key: CacheKey, startDate: string, endDate: string) {
+    const all = await this.readAll(key)
+    return Object.values(all).filter((d) => d.date >= startDate && d.date <= endDate)
+  }
+
+  // escrituras en cola por fichero: leer-mezclar-escribir a la vez perdería los días de una de las peticiones
+  private writes = new Map<string, Promise<void>>()
+
+  async put(key: CacheKey, rows: CachedDay[]) {
+    const file = this.file(key)
+    const next = (this.writes.get(file) ?? Promise.resolve()).catch(() => {}).then(() => this.merge(key, rows))
+    this.writes.set(file, next)
+    try {
+      await next
+    } finally {
+      if (this.writes.get(file) === next) this.writes.delete(file)
+    }
+  }
+
+  private async merge(key: CacheKey, rows: CachedDay[]) {
+    const all = await this.readAll(key)
+    for (const r of rows) all[r.date] = r
+
+    await fs.mkdir(this.dir, { recursive: true })
+    // escritura atómica: tmp + rename (un lector no ve nunca un JSON a medias)
+    const tmp = `${this.file(key)}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(all))
+    await fs.rename(tmp, this.file(key))
+  }
+}
+
+// --------------------
+// Postgres
+// --------------------
+class PostgresCacheStore implements ClimateCacheStore {
+  private sql = getDB("PowerNasa")
+
+  async get(key: CacheKey, startDate: string, endDate: string) {
+    const rows = await this.sql`
+      SELECT data FROM climate_cache
+      WHERE provider = ${key.provider} AND lat = ${key.lat} AND lon = ${key.lon}
+        AND fecha BETWEEN ${startDate}::date AND ${endDate}::date
+    `
+    return rows.map((r: any) => (typeof r.data === "string" ? JSON.parse(r.data) : r.data) as CachedDay)
+  }
+
+  async put(key: CacheKey, rows: CachedDay[]) {
+    if (!rows.length) return
+    const dates = rows.map((r) => r.date)
+    const data = rows.map((r) => JSON.stringify(r))
+
+    await this.sql`
+      INSERT INTO climate_cache (provider, lat, lon, fecha, data)
+      SELECT ${key.provider}, ${key.lat}, ${key.lon}, f, d
+      FROM unnest(${dates}::date[], ${data}::jsonb[]) AS t(f, d)
+      ON CONFLICT (provider, lat, lon, fecha) DO UPDATE SET data = EXCLUDED.data, fetched_at = NOW()
+    `
+  }
+}
+
+let store: ClimateCacheStore | null | undefined
+
+function getStore(): ClimateCacheStore | null {
+  if (store !== undefined) return store
+  const backend = resolveBackend()
+  store = backend === "off" ? null : backend === "postgres" ? new PostgresCacheStore() : new DiskCacheStore()
+  return store
+}
+
+/**
+ * Igual que provider.getClimateData, pero sirviendo desde caché lo que haya
+ * y pidiendo al proveedor solo los tramos que faltan.
+ * La salida pasa por el esquema (lib/climate-schema.ts): unidades canónicas y violaciones en debug.schema.
+ *
+ * Si la caché falla (disco/BD), se registra y se va directo al proveedor: nunca rompe la petición.
+ */
+export async function fetchWithCache(
+  provider: WeatherProvider,
+  request: ClimateRequest,
+  ctx: ProviderContext,
+): Promise<ApiResponse<ClimateData[]>> {
+  return applyClimateSchema(await fetchRaw(provider, request, ctx), provider.descriptor.units)
+}
+
+async function fetchRaw(
+  provider: WeatherProvider,
+  request: ClimateRequest,
+  ctx: ProviderContext,
+): Promise<ApiResponse<ClimateData[]>> {
+  const cache = getStore()
+  const { startDate, endDate, latitude, longitude } = request
+
+  const usable =
+    cache &&
+    !request.noCache &&
+    provider.descriptor.capabilities.cacheable &&
+    typeof latitude === "number" &&
+    typeof longitude === "number" &&
+    !!startDate &&
+    !!endDate
+
+  if (!usable) return provider.getClimateData(request, ctx)
+
+  const key: CacheKey = { provider: provider.descriptor.id, lat: snap(latitude), lon: snap(longitude) }
+  const cutoff = addDaysISO(new Date().toISOString().slice(0, 10), -RECENT_DAYS)
+
+  let cached: CachedDay[] = []
+  try {
+    cached = await cache.get(key, startDate, endDate)
+  } catch (e) {
+    console.error("[climate-cache] get error:", e)
+    return provider.getClimateData(request, ctx)
+  }
+
+  let gridElevationM = cached.find((d) => d.gridElevationM !== undefined)?.gridElevationM
+  const byDate = new Map<string, ClimateData>(cached.map(({ gridElevationM: _g, ...d }) => [d.date, d]))
+  const ranges = missingRanges(startDate, endDate, new Set(byDate.keys()))
+
+  // debug del proveedor de cada tramo pedido (en debug.cache.fetchedRanges); el último sigue arriba del todo
+  const fetched: Array<{ startDate: string; endDate: string; debug?: Record<string, any> }> = []
+  for (const r of ranges) {
+    const res = await provider.getClimateData({ ...request, ...r }, ctx)
+    if (!res.success || !res.data) return res
+
+    // la respuesta puede traer sus propias `units` (previsión AEMET en km/h): la respuesta mezclada solo lleva
+    // las del descriptor, así que se pasan a esas antes de juntarlas con la caché
+    const descriptorUnits = resolveUnits(provider.descriptor.units)
+    const rows = res.units
+      ? convertClimateUnits(res.data, resolveUnits(descriptorUnits, res.units), descriptorUnits)
+      : res.data
+
+    fetched.push({ ...r, debug: res.debug })
+    if (Number.isFinite(res.debug?.gridElevationM)) gridElevationM = res.debug!.gridElevationM
+    for (const d of rows) byDate.set(d.date, d)
+
+    const toStore: CachedDay[] = rows
+      .filter((d) => isCacheableDay(d, cutoff))
+      .map((d) => (gridElevationM !== undefined ? { ...d, gridElevationM } : d))
+    try {
+      await cache.put(key, toStore)
+    } catch (e) {
+      console.error("[climate-cache] put error:", e)
+    }
+  }
+
+  const data = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+
+  return {
+    success: true,
+    source: provider.descriptor.id,
+    data,
+    debug: {
+      ...fetched[fetched.length - 1]?.debug,
+      ...(gridElevationM !== undefined ? { gridElevationM } : {}),
+      cache: {
+        backend: resolveBackend(),
+        key,
+        cachedDays: cached.length,
+        fetchedRanges: fetched,
+      },
+    },
+  }
+}
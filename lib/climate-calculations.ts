@@ -1,42 +1,36 @@
-import type { ClimateData } from "./types"
-
-export interface PistachioParameters {
-  // Crop coefficients for different growth stages
-  kcInitial: number
-  kcDevelopment: number
-  kcMid: number
-  kcLate: number
-
-  // Temperature thresholds
-  baseTemperature: number // Base temperature for GDD (legacy)
-  frostThreshold: number // 0°C
-  chillThreshold: number // 7.2°C (simple model)
-
-  // Growth stages dates (day of year)
-  budBreak: number
-  flowering: number
-  fruitDevelopment: number
-  harvest: number
-}
-
-export const DEFAULT_PISTACHIO_PARAMS: PistachioParameters = {
-  kcInitial: 0.45,
-  kcDevelopment: 0.75,
-  kcMid: 1.1,
-  kcLate: 0.85,
-
-  // ⚠️ Mantenemos este campo para compatibilidad,
-  // pero en esta app vamos a usar base 7°C para consistencia con ERA5/NASA.
-  baseTemperature: 10,
-
-  frostThreshold: 0,
-  chillThreshold: 7.2,
-
-  budBreak: 90,
-  flowering: 120,
-  fruitDevelopment: 180,
-  harvest: 270,
-}
+import type { ClimateData, EtoMethod } from "./types"
+import {
+  DEFAULT_AGRONOMY,
+  cropCoefficient,
+  dailyChillHours,
+  dailyFrostHours,
+  dailyGdd,
+  dailyRhMin,
+  dayOfYear,
+  isInChillWindow,
+  isInGddWindow,
+  kcStageOf,
+  saturationVaporPressure,
+  seriesThermalIndices,
+  windAt2m,
+  type AgronomyParams,
+  type KcOptions,
+  type SeriesThermalIndices,
+} from "./agronomy"
+import {
+  DEFAULT_CROP,
+  agronomyForCrop,
+  cropFrostWindow,
+  cropSuitabilityNotes,
+  cropSuitabilityScore,
+  resolveCrop,
+  type CropProfile,
+} from "./crops"
+import { campaignYear, isInSeasonWindow, resolveSeasonCalendar } from "./season-calendar"
+import type { ClimateRequest, SeasonCalendar, SeasonWindow } from "./types"
+
+// clima de las fases media y final de la curva del Kc (ajuste de Kc mid / Kc end)
+type KcClimate = Pick<KcOptions, "mid" | "late">
 
 type SeasonalSummary = {
   totalDays: number
@@ -45,6 +39,7 @@ type SeasonalSummary = {
   totalChillHours: number
   totalFrostHours: number
   frostDays: number
+  criticalFrostDays: number // días con Tmin <= la temperatura crítica del cultivo en su fase sensible
   totalETO: number
   totalETC: number
   totalPrecipitation: number
@@ -59,14 +54,23 @@ type SeasonalSummary = {
   isAnnualized?: boolean
 }
 
+// Índices térmicos y Kc: lib/agronomy.ts (el mismo motor que usan exports, variedades y dashboard-recalc)
+// Reglas de aptitud del cultivo: lib/crops.ts (params debería salir de agronomyForCrop con el mismo cultivo)
 export class ClimateCalculator {
-  private params: PistachioParameters
+  private params: AgronomyParams
+  private crop: CropProfile
 
-  // ✅ Consistencia con el resto del proyecto (tu motor usa base 7)
-  private readonly gddBaseC = 7
-
-  constructor(params: PistachioParameters = DEFAULT_PISTACHIO_PARAMS) {
+  constructor(params: AgronomyParams = DEFAULT_AGRONOMY, crop: CropProfile = DEFAULT_CROP) {
     this.params = params
+    this.crop = crop
+  }
+
+  get seasonCalendar(): SeasonCalendar {
+    return this.params.season
+  }
+
+  get cropProfile(): CropProfile {
+    return this.crop
   }
 
   // ----------------------------
@@ -74,61 +78,175 @@ export class ClimateCalculator {
   // ----------------------------
 
   /**
-   * Reference Evapotranspiration (ETO) - Hargreaves-Samani (simplified)
-   * ETO = 0.0023 * (Tmean + 17.8) * sqrt(Tmax - Tmin) * Ra
+   * Reference Evapotranspiration (ETO):
+   * - FAO-56 Penman-Monteith si hay HR, viento y radiación (valores undefined/NaN o HR/Rs <= 0 = sin dato)
+   * - si no, Hargreaves-Samani con solo temperaturas
+   *
+   * opts.elevation (m) ajusta la presión y Rso; opts.windHeightM lleva el viento a 2 m.
    */
   calculateETO(
     tempMax: number,
     tempMin: number,
-    _humidity: number,
-    _windSpeed: number,
-    _solarRadiation: number,
+    humidity: number | undefined,
+    windSpeed: number | undefined,
+    solarRadiation: number | undefined,
     latitude: number,
     dayOfYear: number,
-  ): number {
+    opts: { elevation?: number; windHeightM?: number } = {},
+  ): { eto: number; method: Exclude<EtoMethod, "provider"> } {
+    const rh = Number(humidity)
+    const uz = Number(windSpeed)
+    const rs = Number(solarRadiation)
+    const hasPmInputs =
+      humidity != null &&
+      windSpeed != null &&
+      solarRadiation != null &&
+      Number.isFinite(rh) &&
+      rh > 0 &&
+      Number.isFinite(uz) &&
+      uz >= 0 &&
+      Number.isFinite(rs) &&
+      rs > 0
+
+    if (!hasPmInputs) {
+      return { eto: this.calculateETOHargreaves(tempMax, tempMin, latitude, dayOfYear), method: "hargreaves" }
+    }
+
+    const eto = this.calculateETOPenmanMonteith({
+      tempMax,
+      tempMin,
+      humidity: Math.min(100, rh),
+      windSpeed: uz,
+      solarRadiation: rs,
+      latitude,
+      dayOfYear,
+      elevation: opts.elevation,
+      windHeightM: opts.windHeightM,
+    })
+    return { eto, method: "penman-monteith" }
+  }
+
+  /**
+   * Hargreaves-Samani: ETO = 0.0023 * (Tmean + 17.8) * sqrt(Tmax - Tmin) * Ra
+   * (Ra en MJ/m²/día -> se pasa a mm/día con 0.408)
+   */
+  calculateETOHargreaves(tempMax: number, tempMin: number, latitude: number, dayOfYear: number): number {
     const tempMean = (tempMax + tempMin) / 2
     const ra = this.calculateExtraterrestrialRadiation(latitude, dayOfYear)
-    const eto = 0.0023 * (tempMean + 17.8) * Math.sqrt(Math.abs(tempMax - tempMin)) * ra
+    const eto = 0.0023 * (tempMean + 17.8) * Math.sqrt(Math.abs(tempMax - tempMin)) * ra * 0.408
     return Math.max(0, eto)
   }
 
   /**
-   * Crop Evapotranspiration (ETC) = ETO * Kc
+   * FAO-56 Penman-Monteith diario (Allen et al. 1998, ec. 6), con G = 0:
+   * ETo = [0.408 Δ (Rn − G) + γ 900/(T+273) u2 (es − ea)] / [Δ + γ (1 + 0.34 u2)]
+   *
+   * - humidity: HR media (%) -> ea = HR/100 · es (ec. 19)
+   * - windSpeed: m/s a windHeightM (por defecto 2 m), llevado a 2 m con el perfil logarítmico (ec. 47)
+   * - solarRadiation: Rs en MJ/m²/día (unidad canónica, lib/climate-schema.ts)
+   * - elevation: m; presión (ec. 7) y Rso (ec. 37). Sin ella, nivel del mar
    */
-  calculateETC(eto: number, dayOfYear: number): number {
-    const kc = this.getCropCoefficient(dayOfYear)
-    return eto * kc
+  calculateETOPenmanMonteith(input: {
+    tempMax: number
+    tempMin: number
+    humidity: number
+    windSpeed: number
+    solarRadiation: number
+    latitude: number
+    dayOfYear: number
+    elevation?: number
+    windHeightM?: number
+  }): number {
+    const { tempMax, tempMin, humidity, solarRadiation: rs, latitude, dayOfYear } = input
+    const z = Number.isFinite(input.elevation) ? Math.max(0, input.elevation!) : 0
+    const windHeight = input.windHeightM && input.windHeightM > 0 ? input.windHeightM : 2
+
+    const tMean = (tempMax + tempMin) / 2
+
+    // presión atmosférica (kPa) y constante psicrométrica (kPa/°C)
+    const pressure = 101.3 * Math.pow((293 - 0.0065 * z) / 293, 5.26)
+    const gamma = 0.000665 * pressure
+
+    // presión de vapor de saturación (kPa) y pendiente de la curva (kPa/°C)
+    const svp = saturationVaporPressure
+    const es = (svp(tempMax) + svp(tempMin)) / 2
+    const ea = (humidity / 100) * es
+    const delta = (4098 * svp(tMean)) / Math.pow(tMean + 237.3, 2)
+
+    // viento a 2 m (FAO recomienda un mínimo de 0.5 m/s)
+    const u2 = Math.max(0.5, windAt2m(input.windSpeed, windHeight))
+
+    // radiación neta (MJ/m²/día)
+    const ra = this.calculateExtraterrestrialRadiation(latitude, dayOfYear)
+    const rso = (0.75 + 2e-5 * z) * ra
+    const rns = (1 - 0.23) * rs
+    const relativeRs = rso > 0 ? Math.min(1, rs / rso) : 1
+    const sigma = 4.903e-9
+    const rnl =
+      sigma *
+      ((Math.pow(tempMax + 273.16, 4) + Math.pow(tempMin + 273.16, 4)) / 2) *
+      (0.34 - 0.14 * Math.sqrt(Math.max(0, ea))) *
+      (1.35 * relativeRs - 0.35)
+    const rn = rns - rnl
+
+    const eto =
+      (0.408 * delta * rn + gamma * (900 / (tMean + 273)) * u2 * (es - ea)) / (delta + gamma * (1 + 0.34 * u2))
+
+    return Math.max(0, eto)
   }
 
-  private getCropCoefficient(dayOfYear: number): number {
-    if (dayOfYear < this.params.budBreak) return this.params.kcInitial
+  /**
+   * Crop Evapotranspiration (ETC) = ETO * Kc (curva FAO-56 del cultivo; kcClimate ajusta Kc mid / Kc end)
+   */
+  calculateETC(eto: number, dateISO: string, kcClimate: KcClimate = {}): number {
+    return eto * this.cropCoefficient(dateISO, kcClimate)
+  }
 
-    if (dayOfYear < this.params.flowering) {
-      const progress = (dayOfYear - this.params.budBreak) / (this.params.flowering - this.params.budBreak)
-      return this.params.kcInitial + progress * (this.params.kcDevelopment - this.params.kcInitial)
-    }
+  // Kc del día (en el hemisferio sur la brotación se desplaza medio año)
+  cropCoefficient(dateISO: string, kcClimate: KcClimate = {}): number {
+    return cropCoefficient(dateISO, this.params.kc, { ...kcClimate, hemisphere: this.params.season.hemisphere })
+  }
 
-    if (dayOfYear < this.params.fruitDevelopment) {
-      const progress = (dayOfYear - this.params.flowering) / (this.params.fruitDevelopment - this.params.flowering)
-      return this.params.kcDevelopment + progress * (this.params.kcMid - this.params.kcDevelopment)
-    }
+  /**
+   * Viento a 2 m y HR mínima medios de los días de la serie en la fase media y en la final del Kc.
+   * Un día sin viento cuenta 2 m/s (FAO-56: el ajuste queda solo por humedad); sin HR, HRmin con Tdew ≈ Tmin.
+   * Una fase sin días en la serie no se ajusta.
+   */
+  kcClimate(data: ClimateData[], opts: { windHeightM?: number } = {}): KcClimate {
+    const acc = { mid: { n: 0, u2: 0, rhMin: 0 }, late: { n: 0, u2: 0, rhMin: 0 } }
 
-    if (dayOfYear < this.params.harvest) {
-      const progress = (dayOfYear - this.params.fruitDevelopment) / (this.params.harvest - this.params.fruitDevelopment)
-      return this.params.kcMid + progress * (this.params.kcLate - this.params.kcMid)
+    for (const day of data) {
+      const { stage } = kcStageOf(day.date, this.params.kc, this.params.season.hemisphere)
+      if (stage !== "mid" && stage !== "late") continue
+
+      const tmax = this.safeNum(day.temperature_max, NaN)
+      const tmin = this.safeNum(day.temperature_min, NaN)
+      if (!Number.isFinite(tmax) || !Number.isFinite(tmin)) continue
+
+      const wind = this.safeNum(day.wind_speed, NaN)
+      const a = acc[stage]
+      a.n += 1
+      a.u2 += Number.isFinite(wind) && wind >= 0 ? windAt2m(wind, opts.windHeightM) : 2
+      a.rhMin += dailyRhMin(tmax, tmin, day.humidity)
     }
 
-    return this.params.kcLate
+    const mean = (a: { n: number; u2: number; rhMin: number }) =>
+      a.n ? { u2: a.u2 / a.n, rhMin: a.rhMin / a.n } : undefined
+    return { mid: mean(acc.mid), late: mean(acc.late) }
   }
 
+  // Ra (MJ/m²/día), FAO-56 ec. 21
   private calculateExtraterrestrialRadiation(latitude: number, dayOfYear: number): number {
     const latRad = (latitude * Math.PI) / 180
+    const inverseDistance = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365)
     const solarDeclination = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39)
-    const sunsetHourAngle = Math.acos(-Math.tan(latRad) * Math.tan(solarDeclination))
+    // acotado para latitudes polares (día o noche de 24 h)
+    const sunsetHourAngle = Math.acos(Math.max(-1, Math.min(1, -Math.tan(latRad) * Math.tan(solarDeclination))))
 
     const ra =
       ((24 * 60) / Math.PI) *
       0.082 *
+      inverseDistance *
       (sunsetHourAngle * Math.sin(latRad) * Math.sin(solarDeclination) +
         Math.cos(latRad) * Math.cos(solarDeclination) * Math.sin(sunsetHourAngle))
 
@@ -136,51 +254,24 @@ export class ClimateCalculator {
   }
 
   /**
-   * GDD simple (base 7°C para consistencia con el resto de la app)
+   * GDD del día (método y base en params.gdd; por defecto media − 7°C)
    */
   calculateGDD(tempMax: number, tempMin: number): number {
-    const tempMean = (tempMax + tempMin) / 2
-    return Math.max(0, tempMean - this.gddBaseC)
+    return dailyGdd(tempMax, tempMin, this.params.gdd)
   }
 
   /**
-   * Chill hours simple (lineal bajo umbral 7.2°C)
+   * Horas frío del día (lineal bajo 7.2°C por defecto)
    */
   calculateChillHours(tempMax: number, tempMin: number): number {
-    const tmax = Number.isFinite(tempMax) ? tempMax : 0
-    const tmin = Number.isFinite(tempMin) ? tempMin : 0
-
-    if (tmax <= this.params.chillThreshold) return 24
-    if (tmin >= this.params.chillThreshold) return 0
-
-    const denom = tmax - tmin
-    if (denom === 0) return tmax < this.params.chillThreshold ? 24 : 0
-
-    const hoursBelow = (24 * (this.params.chillThreshold - tmin)) / denom
-    return Math.max(0, Math.min(24, hoursBelow))
+    return dailyChillHours(tempMax, tempMin, this.params.chill)
   }
 
   /**
-   * Frost hours simple (lineal bajo 0°C)
+   * Horas de helada del día (lineal bajo 0°C por defecto)
    */
   calculateFrostHours(tempMax: number, tempMin: number): number {
-    const tmax = Number.isFinite(tempMax) ? tempMax : 0
-    const tmin = Number.isFinite(tempMin) ? tempMin : 0
-
-    if (tmax <= this.params.frostThreshold) return 24
-    if (tmin >= this.params.frostThreshold) return 0
-
-    const denom = tmax - tmin
-    if (denom === 0) return tmax < this.params.frostThreshold ? 24 : 0
-
-    const hoursBelow = (24 * (this.params.frostThreshold - tmin)) / denom
-    return Math.max(0, Math.min(24, hoursBelow))
-  }
-
-  private getDayOfYear(dateISO: string): number {
-    const date = new Date(`${dateISO}T00:00:00`)
-    const start = new Date(date.getFullYear(), 0, 0)
-    return Math.floor((date.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
+    return dailyFrostHours(tempMax, tempMin, this.params.frost)
   }
 
   private safeNum(n: unknown, fallback = 0): number {
@@ -188,41 +279,34 @@ export class ClimateCalculator {
     return Number.isFinite(x) ? x : fallback
   }
 
-  private getMonthDay(dateISO: string): { month: number; day: number } {
-    const d = new Date(`${dateISO}T00:00:00`)
-    return { month: d.getMonth() + 1, day: d.getDate() }
+  // null / "" no son 0 °C
+  private temperatureOrNaN(n: unknown): number {
+    return n === null || n === undefined || n === "" ? NaN : this.safeNum(n, NaN)
   }
 
-  /**
-   * Ventana de Horas Frío pistacho:
-   * - desde 1 Nov hasta 1 Mar (1 Mar NO incluido)
-   * => Nov, Dic, Ene, Feb
-   */
+  // Ventanas del calendario de campaña (por defecto frío Nov–Feb y GDD Abr–Oct, inclusive)
   private isInChillWindow(dateISO: string): boolean {
-    const { month } = this.getMonthDay(dateISO)
-    return month === 11 || month === 12 || month === 1 || month === 2
+    return isInChillWindow(dateISO, this.params)
   }
 
-  /**
-   * ✅ NUEVO: Ventana GDD pistacho:
-   * - desde 1 Abr hasta 31 Oct (inclusive)
-   * => Abr, May, Jun, Jul, Ago, Sep, Oct
-   */
   private isInGddWindow(dateISO: string): boolean {
-    const { month } = this.getMonthDay(dateISO)
-    return month >= 4 && month <= 10
+    return isInGddWindow(dateISO, this.params)
   }
 
   /**
-   * ✅ NUEVO: Año de campaña para invierno (Nov–Feb)
+   * Año de campaña (lib/season-calendar.ts): con el calendario por defecto
    * - Nov/Dic 2023 → campaña 2024
-   * - Ene/Feb 2024 → campaña 2024
+   * - Ene–Oct 2024 → campaña 2024
    */
-  private winterCampaignYear(dateISO: string): number {
-    const d = new Date(`${dateISO}T00:00:00`)
-    const y = d.getFullYear()
-    const m = d.getMonth() + 1
-    return m >= 11 ? y + 1 : y
+  private campaignYear(dateISO: string): number {
+    return campaignYear(dateISO, this.params.season)
+  }
+
+  // Día de helada en la fase crítica del cultivo (ventana llevada al hemisferio del calendario)
+  private isCriticalFrostDay(day: ClimateData, frostWindow: SeasonWindow): boolean {
+    if (!isInSeasonWindow(day.date, frostWindow)) return false
+    const tmin = this.safeNum(day.temperature_min, NaN)
+    return Number.isFinite(tmin) && tmin <= this.crop.frost.criticalTempC
   }
 
   private clamp0(n: number): number {
@@ -240,69 +324,140 @@ export class ClimateCalculator {
   }
 
   /**
-   * Procesa data diaria y añade ETO/ETC siempre que falten.
+   * Procesa data diaria y añade ETO/ETC siempre que falten (day.etoMethod = cómo salió la ETo, day.kc el Kc).
+   * opts: altitud (m) y altura del viento (m) para Penman-Monteith (ver calculateETO) y el ajuste del Kc.
    *
    * ✅ HF:
-   * - Fuera de Nov–Feb => chill_hours = 0
+   * - Fuera de la ventana de frío del calendario (Nov–Feb por defecto) => chill_hours = 0
    */
-  processClimateData(data: ClimateData[], latitude?: number): ClimateData[] {
+  processClimateData(
+    data: ClimateData[],
+    latitude?: number,
+    opts: { elevation?: number; windHeightM?: number } = {},
+  ): ClimateData[] {
+    // índices horarios (horas frío/helada, porciones, Utah) de toda la serie: el Modelo Dinámico necesita continuidad
+    const series = this.seriesIndices(data, latitude)
+
+    // Kc mid / Kc end ajustados con el clima de la propia serie
+    const kcClimate = this.kcClimate(data, opts)
+
     return data.map((day) => {
-      const dayOfYear = this.getDayOfYear(day.date)
+      const doy = dayOfYear(day.date)
 
       const tmax = this.safeNum(day.temperature_max)
       const tmin = this.safeNum(day.temperature_min)
-      const hum = this.safeNum(day.humidity)
-      const ws = this.safeNum(day.wind_speed)
-      const sr = this.safeNum(day.solar_radiation)
 
       const latSafe = typeof latitude === "number" && Number.isFinite(latitude) ? latitude : 0
 
       const incomingEto = this.sanitizeDailyET(this.safeNum((day as any).eto, 0))
       const incomingEtc = this.sanitizeDailyET(this.safeNum((day as any).etc, 0))
 
-      const etoComputed = this.sanitizeDailyET(this.calculateETO(tmax, tmin, hum, ws, sr, latSafe, dayOfYear))
-      const etcComputed = this.sanitizeDailyET(this.calculateETC(etoComputed, dayOfYear))
+      const computed = this.calculateETO(
+        tmax,
+        tmin,
+        day.humidity,
+        day.wind_speed,
+        day.solar_radiation,
+        latSafe,
+        doy,
+        opts,
+      )
+      const etoComputed = this.sanitizeDailyET(computed.eto)
 
       const eto = incomingEto > 0 ? incomingEto : etoComputed
-      const etc = incomingEtc > 0 ? incomingEtc : etcComputed
+      const kcComputed = this.cropCoefficient(day.date, kcClimate)
+      const etc = incomingEtc > 0 ? incomingEtc : this.sanitizeDailyET(eto * kcComputed)
+      // si la ETc ya venía (reproceso en cliente), el Kc con que se calculó
+      const kc = incomingEtc > 0 ? (day.kc ?? (eto > 0 ? etc / eto : kcComputed)) : kcComputed
+      // al reprocesar en cliente la ETo ya viene: se conserva el método con que se calculó en servidor
+      const etoMethod: EtoMethod = incomingEto > 0 ? (day.etoMethod ?? "provider") : computed.method
 
       const inChillWindow = this.isInChillWindow(day.date)
 
-      // 2) Si ya viene calculado (ERA5/NASA), NO recalcular índices térmicos
+      // 2) Si ya viene calculado (ERA5 horario), NO recalcular índices térmicos
+      //    (salvo los GDD si el cultivo usa otra base: el proveedor los da con la base por defecto)
       if ((day as any).computedChillHeat) {
         const incomingChill = this.clamp0(this.safeNum((day as any).chill_hours))
         const incomingFrost = this.clamp0(this.safeNum((day as any).frost_hours))
-        const incomingGdd = this.clamp0(this.safeNum((day as any).gdd))
+        const incomingGdd =
+          this.params.gdd.baseC === DEFAULT_AGRONOMY.gdd.baseC
+            ? this.clamp0(this.safeNum((day as any).gdd))
+            : this.calculateGDD(tmax, tmin)
 
         return {
           ...day,
           eto: Number.parseFloat(eto.toFixed(2)),
           etc: Number.parseFloat(etc.toFixed(2)),
+          kc: Number.parseFloat(kc.toFixed(2)),
+          etoMethod,
           gdd: Number.parseFloat(incomingGdd.toFixed(1)),
           chill_hours: Number.parseFloat((inChillWindow ? incomingChill : 0).toFixed(1)),
           frost_hours: Number.parseFloat(incomingFrost.toFixed(1)),
         }
       }
 
-      // 3) Caso fuentes sin cálculo
-      const gdd = this.calculateGDD(tmax, tmin)
-
-      const chillRaw = this.calculateChillHours(tmax, tmin)
-      const chill = inChillWindow ? chillRaw : 0
-
-      const frost = this.calculateFrostHours(tmax, tmin)
-
+      // 3) Caso fuentes diarias o temperaturas cambiadas (huecos, sesgo, altitud): curva horaria reconstruida
+      //    (chill ya sale a 0 fuera de la ventana de frío)
       return {
         ...day,
         eto: Number.parseFloat(this.clamp0(eto).toFixed(2)),
         etc: Number.parseFloat(this.clamp0(etc).toFixed(2)),
-        gdd: Number.parseFloat(this.clamp0(gdd).toFixed(1)),
-        chill_hours: Number.parseFloat(this.clamp0(chill).toFixed(1)),
-        frost_hours: Number.parseFloat(this.clamp0(frost).toFixed(1)),
+        kc: Number.parseFloat(kc.toFixed(2)),
+        etoMethod,
+        ...this.thermalFields(day, series),
       }
     })
   }
 
+  /**
+   * Vuelve a calcular los índices térmicos (GDD, horas frío/helada, porciones, Utah) sobre la serie completa.
+   * Para históricos troceados: processClimateData va tramo a tramo y el Modelo Dinámico empezaría de cero
+   * en cada tramo. Los días con índices del proveedor (computedChillHeat) se dejan como están.
+   */
+  recomputeThermalIndices(data: ClimateData[], latitude?: number): ClimateData[] {
+    const series = this.seriesIndices(data, latitude)
+    return data.map((day) => ((day as any).computedChillHeat ? day : { ...day, ...this.thermalFields(day, series) }))
+  }
+
+  // sin Tmax o Tmin el día queda fuera de la serie (NaN): sin índices y la serie se corta ahí
+  private seriesIndices(data: ClimateData[], latitude?: number): Record<string, SeriesThermalIndices> {
+    if (!data.some((d) => !(d as any).computedChillHeat)) return {}
+    return seriesThermalIndices(
+      data.map((d) => ({
+        date: d.date,
+        temperature_max: this.temperatureOrNaN(d.temperature_max),
+        temperature_min: this.temperatureOrNaN(d.temperature_min),
+      })),
+      latitude,
+      this.params,
+    )
+  }
+
+  private thermalFields(day: ClimateData, series: Record<string, SeriesThermalIndices>) {
+    const idx = series[day.date]
+    // día sin Tmax o Tmin: sin índices (no 0, que sumaría como un día cálido o sin frío)
+    if (!idx) {
+      return {
+        gdd: undefined,
+        chill_hours: undefined,
+        frost_hours: undefined,
+        chill_portions: undefined,
+        utah_units: undefined,
+        positive_utah_units: undefined,
+      }
+    }
+
+    return {
+      gdd: Number.parseFloat(this.clamp0(idx.gdd).toFixed(1)),
+      chill_hours: Number.parseFloat(this.clamp0(idx.chill_hours).toFixed(1)),
+      frost_hours: Number.parseFloat(this.clamp0(idx.frost_hours).toFixed(1)),
+      // sin método horario no hay porciones / Utah (y las que trajera el día ya no valen)
+      chill_portions: idx.chill_portions,
+      utah_units: idx.utah_units,
+      positive_utah_units: idx.positive_utah_units,
+    }
+  }
+
   // ----------------------------
   // Summaries & suitability
   // ----------------------------
@@ -310,8 +465,9 @@ export class ClimateCalculator {
   /**
    * ✅ CAMBIO CLAVE:
    * - Si el dataset tiene >1 año, anualiza automáticamente:
-   *   - GDD: media anual SOLO Abr–Oct
-   *   - Chill: media por campaña de invierno (Nov–Feb)
+   *   - GDD: media por campaña SOLO en la ventana GDD (Abr–Oct por defecto)
+   *   - Chill: media por campaña SOLO en la ventana de frío (Nov–Feb por defecto)
+   *   - Heladas en la fase crítica del cultivo: media por campaña
    *   - FrostDays / FrostHours / ETO / ETC / Precip / Deficit: media anual calendario
    *
    * Así el suitabilityScore deja de "reventar" por acumulación de 20 años.
@@ -319,6 +475,7 @@ export class ClimateCalculator {
   calculateSeasonalSummary(data: ClimateData[]): SeasonalSummary {
     const safe = Array.isArray(data) ? data : []
     const totalDays = safe.length || 1
+    const frostWindow = cropFrostWindow(this.crop, this.params.season)
 
     // Detecta años calendario presentes
     const calendarYears = new Set<number>()
@@ -329,7 +486,7 @@ export class ClimateCalculator {
     const yearsCount = Math.max(1, calendarYears.size)
 
     // Si es 1 año (o menos), mantenemos un resumen "normal", pero:
-    // ✅ GDD SOLO Abr–Oct
+    // ✅ GDD y horas frío SOLO en sus ventanas
     if (yearsCount <= 1) {
       const totalGDD = safe.reduce((sum, day) => {
         if (!this.isInGddWindow(day.date)) return sum
@@ -350,6 +507,7 @@ export class ClimateCalculator {
       )
 
       const frostDays = safe.filter((day) => this.clamp0(this.safeNum((day as any).frost_hours)) > 0).length
+      const criticalFrostDays = safe.filter((day) => this.isCriticalFrostDay(day, frostWindow)).length
       const avgTemperature = safe.reduce((sum, day) => sum + this.safeNum((day as any).temperature_avg), 0) / totalDays
 
       const deficit = Math.max(0, totalETC - totalPrecipitation)
@@ -361,6 +519,7 @@ export class ClimateCalculator {
         totalChillHours: Number.parseFloat(totalChillHours.toFixed(1)),
         totalFrostHours: Number.parseFloat(totalFrostHours.toFixed(1)),
         frostDays,
+        criticalFrostDays,
         totalETO: Number.parseFloat(totalETO.toFixed(1)),
         totalETC: Number.parseFloat(totalETC.toFixed(1)),
         totalPrecipitation: Number.parseFloat(totalPrecipitation.toFixed(1)),
@@ -380,7 +539,6 @@ export class ClimateCalculator {
       {
         days: number
         tempSum: number
-        gddSeason: number
         frostHours: number
         frostDays: number
         eto: number
@@ -392,16 +550,18 @@ export class ClimateCalculator {
     const ensureYear = (y: number) => {
       const existing = yearAgg.get(y)
       if (existing) return existing
-      const init = { days: 0, tempSum: 0, gddSeason: 0, frostHours: 0, frostDays: 0, eto: 0, etc: 0, precip: 0 }
+      const init = { days: 0, tempSum: 0, frostHours: 0, frostDays: 0, eto: 0, etc: 0, precip: 0 }
       yearAgg.set(y, init)
       return init
     }
 
-    // Agg por campaña de invierno (Nov–Feb)
+    // Agg por campaña: horas frío en su ventana y GDD en la suya (en el hemisferio sur la ventana GDD cruza el año)
     const winterAgg = new Map<number, number>() // campaignYear -> chillHoursSum
+    const gddAgg = new Map<number, number>() // campaignYear -> gddSum
+    const criticalFrostAgg = new Map<number, number>() // campaignYear -> días de helada en la fase crítica
 
-    const addWinter = (campaignYear: number, chill: number) => {
-      winterAgg.set(campaignYear, (winterAgg.get(campaignYear) ?? 0) + chill)
+    const addTo = (agg: Map<number, number>, campaignYear: number, value: number) => {
+      agg.set(campaignYear, (agg.get(campaignYear) ?? 0) + value)
     }
 
     for (const day of safe) {
@@ -415,9 +575,9 @@ export class ClimateCalculator {
       a.days += 1
       a.tempSum += tavg
 
-      // ✅ GDD SOLO Abr–Oct (y por año calendario)
+      // ✅ GDD SOLO en la ventana GDD, por campaña
       if (this.isInGddWindow(day.date)) {
-        a.gddSeason += this.clamp0(this.safeNum((day as any).gdd))
+        addTo(gddAgg, this.campaignYear(day.date), this.clamp0(this.safeNum((day as any).gdd)))
       }
 
       const frostH = this.clamp0(this.safeNum((day as any).frost_hours))
@@ -428,16 +588,20 @@ export class ClimateCalculator {
       a.etc += this.clamp0(this.safeNum((day as any).etc))
       a.precip += this.clamp0(this.safeNum((day as any).precipitation))
 
-      // ✅ Chill SOLO Nov–Feb y anualizado por campaña invierno
+      // ✅ Chill SOLO en la ventana de frío y anualizado por campaña
       if (this.isInChillWindow(day.date)) {
-        const campaignY = this.winterCampaignYear(day.date)
-        const chill = this.clamp0(this.safeNum((day as any).chill_hours))
-        addWinter(campaignY, chill)
+        addTo(winterAgg, this.campaignYear(day.date), this.clamp0(this.safeNum((day as any).chill_hours)))
+      }
+
+      // ✅ Heladas en la fase crítica, por campaña (también las campañas sin ninguna)
+      if (isInSeasonWindow(day.date, frostWindow)) {
+        addTo(criticalFrostAgg, this.campaignYear(day.date), this.isCriticalFrostDay(day, frostWindow) ? 1 : 0)
       }
     }
 
     const years = [...yearAgg.keys()].sort((a, b) => a - b)
     const winterYears = [...winterAgg.keys()].sort((a, b) => a - b)
+    const gddYears = [...gddAgg.keys()].sort((a, b) => a - b)
 
     const mean = (arr: number[]) => {
       if (!arr.length) return 0
@@ -449,7 +613,7 @@ export class ClimateCalculator {
       return a.days ? a.tempSum / a.days : 0
     })
 
-    const yearlyGddSeason = years.map((yy) => yearAgg.get(yy)!.gddSeason)
+    const yearlyGddSeason = gddYears.map((gy) => gddAgg.get(gy) ?? 0)
     const yearlyFrostHours = years.map((yy) => yearAgg.get(yy)!.frostHours)
     const yearlyFrostDays = years.map((yy) => yearAgg.get(yy)!.frostDays)
     const yearlyETO = years.map((yy) => yearAgg.get(yy)!.eto)
@@ -458,12 +622,14 @@ export class ClimateCalculator {
     const yearlyDeficit = years.map((yy) => Math.max(0, yearAgg.get(yy)!.etc - yearAgg.get(yy)!.precip))
 
     const yearlyChill = winterYears.map((wy) => winterAgg.get(wy) ?? 0)
+    const yearlyCriticalFrost = [...criticalFrostAgg.values()]
 
     const avgTemperature = mean(yearlyAvgTemps)
     const totalGDD = mean(yearlyGddSeason)
     const totalChillHours = mean(yearlyChill)
     const totalFrostHours = mean(yearlyFrostHours)
     const frostDays = mean(yearlyFrostDays)
+    const criticalFrostDays = mean(yearlyCriticalFrost)
     const totalETO = mean(yearlyETO)
     const totalETC = mean(yearlyETC)
     const totalPrecipitation = mean(yearlyPrecip)
@@ -476,6 +642,7 @@ export class ClimateCalculator {
       totalChillHours: Number.parseFloat(totalChillHours.toFixed(1)),
       totalFrostHours: Number.parseFloat(totalFrostHours.toFixed(1)),
       frostDays: Number.parseFloat(frostDays.toFixed(1)) as any, // (en UI lo usas como number; aquí queda ok)
+      criticalFrostDays: Number.parseFloat(criticalFrostDays.toFixed(1)),
       totalETO: Number.parseFloat(totalETO.toFixed(1)),
       totalETC: Number.parseFloat(totalETC.toFixed(1)),
       totalPrecipitation: Number.parseFloat(totalPrecipitation.toFixed(1)),
@@ -485,37 +652,16 @@ export class ClimateCalculator {
     }
   }
 
-  analyzePistachioSuitability(seasonalSummary: SeasonalSummary) {
-    const recommendations: string[] = []
-    const warnings: string[] = []
-
-    // Chill hours (pistachio: ~600-1500)
-    if (seasonalSummary.totalChillHours < 600) {
-      warnings.push("Insuficientes horas frío para una buena producción de pistacho")
-    } else if (seasonalSummary.totalChillHours > 1500) {
-      warnings.push("Exceso de horas frío puede retrasar la brotación")
-    } else {
-      recommendations.push("Horas frío adecuadas para el cultivo de pistacho")
-    }
-
-    // Heat units / GDD (✅ ahora es Abr–Oct, y anualizado si histórico)
-    if (seasonalSummary.totalGDD < 1500) {
-      warnings.push("Insuficientes grados día (Abr–Oct) para completar el ciclo del pistacho")
-    } else if (seasonalSummary.totalGDD > 3200) {
-      warnings.push("Calor acumulado alto (Abr–Oct): vigilar estrés térmico y riego en verano")
-    } else {
-      recommendations.push("Acumulación térmica adecuada (Abr–Oct)")
-    }
-
-    // Frost risk
-    if (seasonalSummary.frostDays > 10) {
-      warnings.push(`${seasonalSummary.frostDays.toFixed?.(0) ?? seasonalSummary.frostDays} días de helada pueden dañar la floración`)
-    }
-
-    // Water deficit
-    if (seasonalSummary.waterDeficit > 300) {
-      recommendations.push(`Déficit hídrico de ${seasonalSummary.waterDeficit}mm: requiere riego suplementario`)
+  // Aptitud del cultivo del calculador (reglas en lib/crops.ts)
+  analyzeCropSuitability(seasonalSummary: SeasonalSummary) {
+    const input = {
+      chillHours: seasonalSummary.totalChillHours,
+      totalGDD: seasonalSummary.totalGDD,
+      frostDays: seasonalSummary.frostDays,
+      criticalFrostDays: seasonalSummary.criticalFrostDays,
+      waterDeficit: seasonalSummary.waterDeficit,
     }
+    const { recommendations, warnings } = cropSuitabilityNotes(this.crop, input, this.params.season)
 
     // ✅ Transparencia si es histórico
     if (seasonalSummary.isAnnualized) {
@@ -523,30 +669,13 @@ export class ClimateCalculator {
     }
 
     return {
-      suitabilityScore: this.calculateSuitabilityScore(seasonalSummary),
+      crop: this.crop.id,
+      suitabilityScore: cropSuitabilityScore(this.crop, input),
       recommendations,
       warnings,
     }
   }
 
-  private calculateSuitabilityScore(summary: SeasonalSummary): number {
-    let score = 100
-
-    if (summary.totalChillHours < 600 || summary.totalChillHours > 1500) score -= 30
-    if (summary.totalGDD < 1500) score -= 25
-
-    // ✅ no penalizar fuerte por "exceso de GDD"
-    if (summary.totalGDD > 3400) score -= 8
-
-    // frostDays aquí ya es anual medio si histórico
-    if (summary.frostDays > 10) score -= summary.frostDays * 2
-
-    // waterDeficit aquí ya es anual medio si histórico
-    if (summary.waterDeficit > 500) score -= Math.min(25, (summary.waterDeficit - 500) / 40)
-
-    return Math.max(0, Math.min(100, Math.round(score)))
-  }
-
   // ----------------------------
   // Historical trends
   // ----------------------------
@@ -686,7 +815,8 @@ export class ClimateCalculator {
 
     if (historicalTrends.chillHoursTrend < -10) {
       warnings.push(`Reducción de horas frío (${historicalTrends.chillHoursTrend} horas/año): Puede afectar la floración`)
-      recommendations.push("Considerar variedades de pistacho con menores requerimientos de frío")
+      const crop = this.crop.label.toLowerCase()
+      recommendations.push(`Considerar variedades de ${crop} con menores requerimientos de frío`)
     }
 
     if (historicalTrends.climateStability.stabilityScore < 60) {
@@ -742,3 +872,15 @@ export class ClimateCalculator {
     return schedule
   }
 }
+
+/**
+ * Calculador con el calendario, el cultivo y la parcela de la petición.
+ * Lanza SeasonCalendarError / CropError si alguno no es válido.
+ */
+export function calculatorForRequest(
+  request: Pick<ClimateRequest, "seasonCalendar" | "crop" | "orchard">,
+): ClimateCalculator {
+  const crop = resolveCrop(request.crop)
+  const season = resolveSeasonCalendar(request.seasonCalendar)
+  return new ClimateCalculator(agronomyForCrop(crop, season, request.orchard), crop)
+}
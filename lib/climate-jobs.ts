@@ -0,0 +1,205 @@
+// lib/climate-jobs.ts
+import "server-only"
+import { promises as fs } from "fs"
+import path from "path"
+import { randomUUID } from "crypto"
+import { WeatherService, mergeChunkDebug } from "./weather-apis"
+import { calculatorForRequest } from "./climate-calculations"
+import type { ClimateData, ClimateRequest } from "./types"
+import type { ProviderProgress } from "./providers/types"
+
+/**
+ * Trabajos en segundo plano para descargas largas (CDS/ERA5).
+ *
+ * - POST /api/climate-data con un proveedor `asyncJobs` -> 202 + jobId (no bloquea la petición)
+ * - GET /api/jobs/[id] -> estado y progreso; ?include=result -> datos
+ * - El resultado se guarda en disco (CLIMATE_JOBS_DIR, por defecto .cache/jobs)
+ *   para que dashboard y exportaciones lo reutilicen sin volver a pedirlo a CDS.
+ *
+ * Se ejecuta en el mismo proceso Node (runtime "nodejs"); si el servidor se reinicia
+ * con un job en curso, ese job queda como "failed".
+ */
+
+export type ClimateJobStatus = "queued" | "running" | "successful" | "failed"
+
+export type ClimateJob = {
+  id: string
+  status: ClimateJobStatus
+  source: string
+  createdAt: string
+  updatedAt: string
+
+  // tramos (chunks) del rango pedido
+  requests: ClimateRequest[]
+  progress: {
+    chunk: number
+    chunks: number
+    percent: number
+    message?: string
+    remoteStatus?: string // estado del job en CDS
+  }
+
+  requestInfo?: Record<string, any>
+  error?: string
+  result?: { data: ClimateData[]; debug?: Record<string, any> }
+}
+
+const JOBS_DIR = process.env.CLIMATE_JOBS_DIR || path.join(process.cwd(), ".cache", "jobs")
+
+// jobs de este proceso (los terminados también se leen de disco)
+const running = new Map<string, ClimateJob>()
+
+function jobFile(id: string) {
+  return path.join(JOBS_DIR, `${id}.json`)
+}
+
+async function save(job: ClimateJob) {
+  job.updatedAt = new Date().toISOString()
+  await fs.mkdir(JOBS_DIR, { recursive: true })
+  const tmp = `${jobFile(job.id)}.${process.pid}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(job))
+  await fs.rename(tmp, jobFile(job.id))
+}
+
+export async function getJob(id: string): Promise<ClimateJob | null> {
+  // ids generados con randomUUID: no dejamos pasar rutas raras
+  if (!/^[0-9a-f-]{36}$/i.test(id)) return null
+
+  const live = running.get(id)
+  if (live) return live
+
+  try {
+    const job = JSON.parse(await fs.readFile(jobFile(id), "utf8")) as ClimateJob
+    // quedó a medias en un proceso anterior
+    if (job.status === "queued" || job.status === "running") {
+      job.status = "failed"
+      job.error = "El servidor se reinició antes de terminar el trabajo"
+    }
+    return job
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Vista pública del job (sin datos salvo que se pidan).
+ */
+export function jobSummary(job: ClimateJob, includeResult = false) {
+  const { result, requests, ...rest } = job
+  return {
+    ...rest,
+    days: result?.data?.length ?? 0,
+    ...(includeResult && result ? { data: result.data, debug: result.debug } : {}),
+  }
+}
+
+/**
+ * ¿El job cubre exactamente esta petición (fuente, punto y periodo)? Si no, hay que volver a pedir los datos:
+ * un jobId viejo o de otra parcela no puede colarse en una exportación.
+ */
+export function jobMatchesRequest(job: ClimateJob, request: ClimateRequest): boolean {
+  const first = job.requests[0]
+  const last = job.requests[job.requests.length - 1]
+  if (!first || !last) return false
+
+  const samePoint = (a?: number, b?: number) =>
+    Number.isFinite(a) && Number.isFinite(b) && Math.abs(Number(a) - Number(b)) < 1e-6
+
+  return (
+    String(job.source).toUpperCase() === String(request.source).toUpperCase() &&
+    samePoint(first.latitude, request.latitude) &&
+    samePoint(first.longitude, request.longitude) &&
+    first.startDate === request.startDate &&
+    last.endDate === request.endDate
+  )
+}
+
+function sortAndDedupeByDate(rows: ClimateData[]) {
+  const map = new Map<string, ClimateData>()
+  for (const r of rows) if (r?.date) map.set(r.date.slice(0, 10), r)
+  return [...map.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// se lanza sin await: nada puede escapar como rechazo sin capturar (el job acaba "failed" y se intenta guardar)
+async function run(job: ClimateJob, origin: string) {
+  const merged: ClimateData[] = []
+  const chunkDebug: Array<{ start: string; end: string; debug?: Record<string, any> }> = []
+
+  try {
+    job.status = "running"
+    await save(job)
+
+    for (let i = 0; i < job.requests.length; i++) {
+      job.progress = { ...job.progress, chunk: i + 1, message: `Tramo ${i + 1}/${job.requests.length}` }
+
+      const onProgress = (p: ProviderProgress) => {
+        job.progress = {
+          ...job.progress,
+          remoteStatus: p.status,
+          message: p.message ?? job.progress.message,
+        }
+      }
+
+      const service = new WeatherService(origin, { onProgress })
+      const r = await service.getClimateDataBySource(job.requests[i])
+      if (!r.success) throw new Error(r.error || `Error en el tramo ${i + 1}`)
+
+      if (Array.isArray(r.data)) merged.push(...r.data)
+      chunkDebug.push({ start: job.requests[i].startDate ?? "", end: job.requests[i].endDate ?? "", debug: r.debug })
+
+      job.progress = { ...job.progress, percent: Math.round(((i + 1) / job.requests.length) * 100) }
+      await save(job)
+    }
+
+    // un solo tramo: el debug tal cual; varios: sumado / por tramo como en la ruta
+    const debug = chunkDebug.length === 1 ? chunkDebug[0].debug : mergeChunkDebug(chunkDebug)
+    // índices térmicos sobre la serie completa: el Modelo Dinámico no se reinicia entre tramos
+    const data = calculatorForRequest(job.requests[0]).recomputeThermalIndices(
+      sortAndDedupeByDate(merged),
+      job.requests[0].latitude,
+    )
+    job.result = { data, debug }
+    job.status = "successful"
+    job.progress = { ...job.progress, percent: 100, message: "Completado" }
+  } catch (e) {
+    job.status = "failed"
+    job.error = e instanceof Error ? e.message : "Unknown error"
+  }
+
+  try {
+    await save(job)
+  } catch (e) {
+    console.error("[climate-jobs] save error:", e)
+  } finally {
+    running.delete(job.id)
+  }
+}
+
+/**
+ * Crea el job y lo lanza sin esperar. `requests` = tramos ya troceados por la ruta.
+ */
+export async function startClimateJob(
+  origin: string,
+  requests: ClimateRequest[],
+  requestInfo?: Record<string, any>,
+): Promise<ClimateJob> {
+  const now = new Date().toISOString()
+  const id = randomUUID()
+
+  const job: ClimateJob = {
+    id,
+    status: "queued",
+    source: String(requests[0]?.source ?? ""),
+    createdAt: now,
+    updatedAt: now,
+    requests,
+    progress: { chunk: 0, chunks: requests.length, percent: 0 },
+    requestInfo: { ...requestInfo, jobId: id },
+  }
+
+  running.set(id, job)
+  await save(job)
+
+  void run(job, origin)
+  return job
+}
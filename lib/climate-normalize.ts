@@ -5,6 +5,13 @@ function toNum(v: any, fallback = 0): number {
   return Number.isFinite(n) ? n : fallback
 }
 
+// campos que solo traen algunas fuentes: sin dato se quedan undefined (no 0)
+function toOptNum(v: any): number | undefined {
+  if (v === null || v === undefined || v === "") return undefined
+  const n = typeof v === "number" ? v : Number(v)
+  return Number.isFinite(n) ? n : undefined
+}
+
 /**
  * Normaliza ClimateData en runtime para evitar NaN/undefined/string/null.
  * - Convierte todo a number seguro
@@ -30,10 +37,19 @@ export function normalizeClimateData(raw: any[]): ClimateData[] {
 
         eto: toNum(d?.eto),
         etc: toNum(d?.etc),
+        kc: toOptNum(d?.kc),
 
         frost_hours: toNum(d?.frost_hours),
         chill_hours: toNum(d?.chill_hours),
         gdd: toNum(d?.gdd),
+
+        chill_portions: toOptNum(d?.chill_portions),
+        utah_units: toOptNum(d?.utah_units),
+        positive_utah_units: toOptNum(d?.positive_utah_units),
+
+        // el motor de variedades recalcula los índices si no vienen calculados
+        computedChillHeat: d?.computedChillHeat === true,
+        computedFromHourly: d?.computedFromHourly === true,
       } satisfies ClimateData
     })
     // opcional: filtrar fechas inválidas
@@ -0,0 +1,205 @@
+// lib/climate-schema.ts
+import { GAP_FIELDS, isMissingValue } from "./gap-filling"
+import type { ApiResponse, ClimateData, ClimateUnits, GapField, SolarRadiationUnit, WindSpeedUnit } from "./types"
+
+/**
+ * Esquema de ClimateData en runtime. Toda salida de proveedor pasa por aquí (fetchWithCache, lib/climate-cache.ts):
+ * - viento y radiación se convierten a las unidades canónicas según `descriptor.units` del proveedor
+ *   (o `units` de la respuesta, si la trae)
+ * - valores imposibles (fuera de FIELD_SCHEMA) se descartan: el campo queda undefined y
+ *   lib/gap-filling.ts lo marca como hueco y lo rellena
+ * - días sin fecha ISO válida se quitan
+ * - todo lo anterior se devuelve en debug.schema
+ *
+ * Ausentes "normales" (undefined, -999 de NASA, HR 0...) no son violaciones: ya los trata gap-filling.
+ */
+
+export const CANONICAL_UNITS: ClimateUnits = { wind_speed: "m/s", solar_radiation: "MJ/m2/day" }
+
+const WIND_TO_MS: Record<WindSpeedUnit, number> = { "m/s": 1, "km/h": 1 / 3.6 }
+
+// W/m² medio del día * 86400 s = J/m²/día
+const RADIATION_TO_MJ: Record<SolarRadiationUnit, number> = { "MJ/m2/day": 1, "kWh/m2/day": 3.6, "W/m2": 0.0864 }
+
+type SchemaField = Exclude<
+  {
+    [K in keyof ClimateData]-?: NonNullable<ClimateData[K]> extends number ? K : never
+  }[keyof ClimateData],
+  undefined
+>
+
+// rangos físicamente posibles para un valor diario en unidades canónicas (no son umbrales agronómicos)
+export const FIELD_SCHEMA: Record<SchemaField, { unit: string; min: number; max: number }> = {
+  temperature_max: { unit: "°C", min: -50, max: 60 },
+  temperature_min: { unit: "°C", min: -50, max: 60 },
+  temperature_avg: { unit: "°C", min: -50, max: 60 },
+  humidity: { unit: "%", min: 0, max: 100 },
+  precipitation: { unit: "mm/día", min: 0, max: 1000 },
+  wind_speed: { unit: "m/s", min: 0, max: 60 },
+  solar_radiation: { unit: "MJ/m²/día", min: 0, max: 45 },
+  soil_temperature: { unit: "°C", min: -30, max: 70 },
+  soil_moisture: { unit: "%", min: 0, max: 100 },
+  eto: { unit: "mm/día", min: 0, max: 20 },
+  etc: { unit: "mm/día", min: 0, max: 25 },
+  kc: { unit: "", min: 0, max: 2 },
+  frost_hours: { unit: "h", min: 0, max: 24 },
+  chill_hours: { unit: "h", min: 0, max: 24 },
+  gdd: { unit: "°C·día", min: 0, max: 50 },
+  chill_portions: { unit: "CP", min: 0, max: 5 },
+  utah_units: { unit: "UF", min: -24, max: 24 },
+  positive_utah_units: { unit: "UF", min: 0, max: 24 },
+}
+
+const SCHEMA_FIELDS = Object.keys(FIELD_SCHEMA) as SchemaField[]
+
+// Tmin puede superar a Tmax por redondeos entre fuentes; más que esto es un dato corrupto
+const TMIN_TMAX_TOLERANCE_C = 0.5
+
+// en debug solo van las primeras (el total siempre)
+const MAX_REPORTED_VIOLATIONS = 50
+
+export type SchemaViolation = {
+  date: string
+  field: SchemaField | "date" | "temperature_min>temperature_max"
+  value: unknown
+  reason: string
+}
+
+export type SchemaReport = {
+  units: ClimateUnits // unidades de origen
+  converted: Array<keyof ClimateUnits> // campos convertidos a canónicas
+  days: number
+  droppedDays: number
+  violationCount: number
+  violations: SchemaViolation[]
+}
+
+export function resolveUnits(...sources: Array<Partial<ClimateUnits> | undefined>): ClimateUnits {
+  return Object.assign({ ...CANONICAL_UNITS }, ...sources.filter(Boolean))
+}
+
+function isMissing(field: SchemaField, v: unknown) {
+  if ((GAP_FIELDS as string[]).includes(field)) return isMissingValue(field as GapField, v)
+  if (v === undefined || v === null || v === "") return true
+  const n = Number(v)
+  return Number.isFinite(n) && n <= -999
+}
+
+function toCanonical(field: SchemaField, n: number, units: ClimateUnits) {
+  if (field === "wind_speed") return n * WIND_TO_MS[units.wind_speed]
+  if (field === "solar_radiation") return n * RADIATION_TO_MJ[units.solar_radiation]
+  return n
+}
+
+/**
+ * Convierte a unidades canónicas y descarta lo imposible. No toca los campos que no son numéricos (flags, gaps...).
+ */
+export function validateClimateData(
+  rows: unknown[],
+  units: ClimateUnits = CANONICAL_UNITS,
+): { data: ClimateData[]; report: SchemaReport } {
+  const converted = (Object.keys(CANONICAL_UNITS) as Array<keyof ClimateUnits>).filter(
+    (k) => units[k] !== CANONICAL_UNITS[k],
+  )
+  const violations: SchemaViolation[] = []
+  const data: ClimateData[] = []
+  let droppedDays = 0
+
+  for (const row of Array.isArray(rows) ? rows : []) {
+    const src = (row ?? {}) as Record<string, unknown>
+    const date = typeof src.date === "string" ? src.date.slice(0, 10) : ""
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(Date.parse(date))) {
+      violations.push({ date, field: "date", value: src.date, reason: "fecha no ISO (yyyy-mm-dd)" })
+      droppedDays++
+      continue
+    }
+
+    const day: Record<string, unknown> = { ...src, date }
+
+    for (const f of SCHEMA_FIELDS) {
+      if (!(f in src)) continue
+      const v = src[f]
+
+      if (isMissing(f, v)) {
+        day[f] = undefined
+        continue
+      }
+
+      const n = Number(v)
+      if (!Number.isFinite(n)) {
+        violations.push({ date, field: f, value: v, reason: "no numérico" })
+        day[f] = undefined
+        continue
+      }
+
+      const c = toCanonical(f, n, units)
+      const rule = FIELD_SCHEMA[f]
+      if (c < rule.min || c > rule.max) {
+        violations.push({ date, field: f, value: v, reason: `fuera de [${rule.min}, ${rule.max}] ${rule.unit}` })
+        day[f] = undefined
+        continue
+      }
+
+      day[f] = converted.includes(f as keyof ClimateUnits) ? Number(c.toFixed(3)) : c
+    }
+
+    const tmax = day.temperature_max as number | undefined
+    const tmin = day.temperature_min as number | undefined
+    if (tmax !== undefined && tmin !== undefined && tmin - tmax > TMIN_TMAX_TOLERANCE_C) {
+      violations.push({ date, field: "temperature_min>temperature_max", value: { tmin, tmax }, reason: "Tmin > Tmax" })
+      day.temperature_max = undefined
+      day.temperature_min = undefined
+    }
+
+    data.push(day as unknown as ClimateData)
+  }
+
+  return {
+    data,
+    report: {
+      units,
+      converted,
+      days: data.length,
+      droppedDays,
+      violationCount: violations.length,
+      violations: violations.slice(0, MAX_REPORTED_VIOLATIONS),
+    },
+  }
+}
+
+/**
+ * Viento y radiación de las unidades `from` a `to`, sin validar nada más. Sirve para mezclar con la caché
+ * (guardada en las unidades del descriptor) una respuesta que declara las suyas (previsión AEMET en km/h).
+ */
+export function convertClimateUnits(rows: ClimateData[], from: ClimateUnits, to: ClimateUnits): ClimateData[] {
+  const fields = (Object.keys(CANONICAL_UNITS) as Array<keyof ClimateUnits>).filter((k) => from[k] !== to[k])
+  if (!fields.length) return rows
+
+  return rows.map((row) => {
+    const day = { ...row }
+    for (const f of fields) {
+      const v = day[f]
+      if (v == null || isMissing(f, v) || !Number.isFinite(Number(v))) continue
+      const canonical = toCanonical(f, Number(v), from)
+      const factor = f === "wind_speed" ? WIND_TO_MS[to.wind_speed] : RADIATION_TO_MJ[to.solar_radiation]
+      day[f] = Number((canonical / factor).toFixed(3))
+    }
+    return day
+  })
+}
+
+/**
+ * Pasa una respuesta de proveedor por el esquema. Las respuestas con error se devuelven tal cual.
+ * La salida ya está en unidades canónicas, así que no conserva `units`.
+ */
+export function applyClimateSchema(
+  res: ApiResponse<ClimateData[]>,
+  providerUnits?: Partial<ClimateUnits>,
+): ApiResponse<ClimateData[]> {
+  if (!res.success || !Array.isArray(res.data)) return res
+
+  const { units, ...rest } = res
+  const { data, report } = validateClimateData(res.data, resolveUnits(providerUnits, units))
+  return { ...rest, data, debug: { ...res.debug, schema: report } }
+}
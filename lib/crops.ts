@@ -0,0 +1,305 @@
+// lib/crops.ts
+import { DEFAULT_AGRONOMY, type AgronomyParams, type KcStageParams } from "./agronomy"
+import { DEFAULT_SEASON_CALENDAR, isMonthDay, seasonWindowLabel, windowForHemisphere } from "./season-calendar"
+import type { CropId, OrchardInput, SeasonCalendar, SeasonWindow } from "./types"
+
+/**
+ * Perfiles de cultivo: todo lo que antes estaba fijado para el pistacho (Kc, horas frío 600–1500, GDD base 7,
+ * heladas en floración y el índice de aptitud) por cultivo. ClimateCalculator, dashboard-recalc y el dashboard
+ * leen las reglas de aquí; el calendario de campaña (ventanas de frío y GDD) sigue siendo aparte.
+ *
+ * Valores orientativos de bibliografía (FAO-56 tablas 11 y 12 para Kc y duración de las fases; requerimientos
+ * de frío y temperaturas críticas de las guías de cada cultivo). Todas las fechas van en "MM-DD" del hemisferio
+ * norte.
+ *
+ * Módulo sin server-only: el formulario y el dashboard usan los perfiles.
+ */
+
+export class CropError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "CropError"
+  }
+}
+
+export interface CropProfile {
+  id: CropId
+  label: string
+  scientificName: string
+
+  // curva FAO-56 de plantación adulta (desde la brotación; en el sur se desplaza medio año)
+  kc: KcStageParams
+
+  // años hasta alcanzar la cobertura adulta (kc.matureCover): estima la cobertura por la edad
+  canopy: { yearsToMature: number }
+
+  // horas < 7.2°C en la ventana de frío (media por campaña)
+  chill: { minHours: number; maxHours?: number }
+
+  // GDD en la ventana GDD: por debajo de minGdd no completa el ciclo, por encima de highGdd aviso de calor
+  // y por encima de excessGdd penaliza la aptitud
+  heat: { gddBaseC: number; minGdd: number; highGdd: number; excessGdd: number }
+
+  // fase más sensible a la helada: días con Tmin <= criticalTempC dentro de `window`
+  frost: { stage: string; window: SeasonWindow; criticalTempC: number; maxFrostDays: number }
+
+  // déficit hídrico (ETc − lluvia, mm/año): aviso de riego y umbral a partir del que resta aptitud
+  water: { deficitWarningMm: number; deficitPenaltyMm: number }
+}
+
+export const CROP_PROFILES: Record<CropId, CropProfile> = {
+  pistachio: {
+    id: "pistachio",
+    label: "Pistacho",
+    scientificName: "Pistacia vera",
+    kc: DEFAULT_AGRONOMY.kc,
+    canopy: { yearsToMature: 10 },
+    chill: { minHours: 600, maxHours: 1500 },
+    heat: { gddBaseC: DEFAULT_AGRONOMY.gdd.baseC, minGdd: 1500, highGdd: 3200, excessGdd: 3400 },
+    frost: { stage: "floración", window: { start: "04-01", end: "04-30" }, criticalTempC: -1.5, maxFrostDays: 10 },
+    water: { deficitWarningMm: 300, deficitPenaltyMm: 500 },
+  },
+  almond: {
+    id: "almond",
+    label: "Almendro",
+    scientificName: "Prunus dulcis",
+    kc: {
+      method: "fao56-four-stage",
+      kcIni: 0.4,
+      kcMid: 0.9,
+      kcEnd: 0.65,
+      budBreak: "03-01",
+      lengths: { initial: 20, development: 70, mid: 120, late: 60 },
+      heightM: 5,
+      matureCover: 0.65,
+    },
+    canopy: { yearsToMature: 7 },
+    chill: { minHours: 300 },
+    heat: { gddBaseC: 7, minGdd: 1300, highGdd: 3000, excessGdd: 3300 },
+    frost: {
+      stage: "floración y cuajado",
+      window: { start: "02-01", end: "03-31" },
+      criticalTempC: -2,
+      maxFrostDays: 15,
+    },
+    water: { deficitWarningMm: 300, deficitPenaltyMm: 550 },
+  },
+  olive: {
+    id: "olive",
+    label: "Olivo",
+    scientificName: "Olea europaea",
+    kc: {
+      method: "fao56-four-stage",
+      kcIni: 0.65,
+      kcMid: 0.7,
+      kcEnd: 0.7,
+      budBreak: "03-01",
+      lengths: { initial: 30, development: 90, mid: 60, late: 90 },
+      heightM: 4,
+      matureCover: 0.5,
+    },
+    canopy: { yearsToMature: 10 },
+    chill: { minHours: 200 },
+    heat: { gddBaseC: 10, minGdd: 1200, highGdd: 2800, excessGdd: 3200 },
+    frost: {
+      stage: "reposo invernal (madera y hojas)",
+      window: { start: "12-01", end: "02-29" },
+      criticalTempC: -7,
+      maxFrostDays: 30,
+    },
+    water: { deficitWarningMm: 350, deficitPenaltyMm: 650 },
+  },
+  walnut: {
+    id: "walnut",
+    label: "Nogal",
+    scientificName: "Juglans regia",
+    kc: {
+      method: "fao56-four-stage",
+      kcIni: 0.5,
+      kcMid: 1.1,
+      kcEnd: 0.65,
+      budBreak: "04-10",
+      lengths: { initial: 20, development: 10, mid: 130, late: 30 },
+      heightM: 5,
+      matureCover: 0.75,
+    },
+    canopy: { yearsToMature: 12 },
+    chill: { minHours: 700, maxHours: 1800 },
+    heat: { gddBaseC: 10, minGdd: 1400, highGdd: 2600, excessGdd: 3000 },
+    frost: { stage: "brotación", window: { start: "04-01", end: "05-15" }, criticalTempC: -1.5, maxFrostDays: 10 },
+    water: { deficitWarningMm: 250, deficitPenaltyMm: 400 },
+  },
+  vine: {
+    id: "vine",
+    label: "Vid",
+    scientificName: "Vitis vinifera",
+    kc: {
+      method: "fao56-four-stage",
+      kcIni: 0.3,
+      kcMid: 0.7,
+      kcEnd: 0.45,
+      budBreak: "04-05",
+      lengths: { initial: 30, development: 60, mid: 40, late: 80 },
+      heightM: 1.7,
+      matureCover: 0.5,
+    },
+    canopy: { yearsToMature: 4 },
+    chill: { minHours: 150 },
+    // Winkler (base 10): región I < ~1390, región V > ~2220
+    heat: { gddBaseC: 10, minGdd: 1000, highGdd: 2300, excessGdd: 2700 },
+    frost: { stage: "brotación", window: { start: "04-01", end: "05-15" }, criticalTempC: -1, maxFrostDays: 15 },
+    water: { deficitWarningMm: 200, deficitPenaltyMm: 450 },
+  },
+}
+
+export const CROP_IDS = Object.keys(CROP_PROFILES) as CropId[]
+
+export const DEFAULT_CROP = CROP_PROFILES.pistachio
+
+export function isCropId(s: unknown): s is CropId {
+  return CROP_IDS.includes(s as CropId)
+}
+
+/**
+ * Cultivo de la petición. Sin nada, DEFAULT_CROP; un id desconocido: CropError.
+ */
+export function resolveCrop(input?: unknown): CropProfile {
+  if (input == null || input === "") return DEFAULT_CROP
+  if (!isCropId(input)) throw new CropError(`crop desconocido: ${String(input)}`)
+  return CROP_PROFILES[input]
+}
+
+/**
+ * Cobertura de la parcela (fracción 0–1): la indicada en %, o la estimada por la edad (crece lineal hasta
+ * kc.matureCover en canopy.yearsToMature). Sin ninguna, undefined (plantación adulta). Fuera de rango: CropError.
+ */
+export function orchardCanopyCover(crop: CropProfile, orchard?: OrchardInput | null): number | undefined {
+  if (orchard == null) return undefined
+  if (typeof orchard !== "object") throw new CropError("orchard inválido")
+
+  const { canopyCover, treeAge } = orchard
+  if (canopyCover != null) {
+    if (typeof canopyCover !== "number" || !(canopyCover > 0 && canopyCover <= 100)) {
+      throw new CropError("orchard.canopyCover debe ser un porcentaje entre 0 y 100")
+    }
+    return canopyCover / 100
+  }
+  if (treeAge != null) {
+    if (typeof treeAge !== "number" || !(treeAge >= 0)) throw new CropError("orchard.treeAge debe ser >= 0 años")
+    return crop.kc.matureCover * Math.min(1, treeAge / crop.canopy.yearsToMature)
+  }
+  return undefined
+}
+
+/**
+ * Brotación observada en la parcela ("MM-DD", ya en su hemisferio). Sin ella, undefined (la del perfil).
+ */
+export function orchardBudBreak(orchard?: OrchardInput | null): string | undefined {
+  if (orchard == null || orchard.budBreak == null) return undefined
+  if (!isMonthDay(orchard.budBreak)) throw new CropError("orchard.budBreak debe ser MM-DD")
+  return orchard.budBreak
+}
+
+// Parámetros del motor agronómico para un cultivo, un calendario y una parcela (Kc y base de GDD del cultivo)
+export function agronomyForCrop(
+  crop: CropProfile = DEFAULT_CROP,
+  season: SeasonCalendar = DEFAULT_SEASON_CALENDAR,
+  orchard?: OrchardInput | null,
+): AgronomyParams {
+  const kc = {
+    ...crop.kc,
+    canopyCover: orchardCanopyCover(crop, orchard),
+    orchardBudBreak: orchardBudBreak(orchard),
+  }
+  return { ...DEFAULT_AGRONOMY, gdd: { ...DEFAULT_AGRONOMY.gdd, baseC: crop.heat.gddBaseC }, kc, season }
+}
+
+// Fase crítica de helada en el hemisferio del calendario
+export function cropFrostWindow(crop: CropProfile, calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR): SeasonWindow {
+  return windowForHemisphere(crop.frost.window, calendar.hemisphere)
+}
+
+// ---------- aptitud ----------
+
+// Índices anuales (medias por campaña si es histórico) sobre los que se aplican las reglas
+export type CropSuitabilityInput = {
+  chillHours: number
+  totalGDD: number
+  frostDays: number
+  criticalFrostDays?: number
+  waterDeficit: number
+}
+
+/**
+ * Índice de aptitud 0–100 (el que antes calculaban por separado ClimateCalculator y el dashboard para pistacho).
+ */
+export function cropSuitabilityScore(crop: CropProfile, s: CropSuitabilityInput): number {
+  let score = 100
+
+  const { minHours, maxHours } = crop.chill
+  if (s.chillHours < minHours || (maxHours !== undefined && s.chillHours > maxHours)) score -= 30
+
+  if (s.totalGDD < crop.heat.minGdd) score -= 25
+  // ✅ no penalizar fuerte por "exceso de GDD"
+  if (s.totalGDD > crop.heat.excessGdd) score -= 8
+
+  if (s.frostDays > crop.frost.maxFrostDays) score -= s.frostDays * 2
+  if ((s.criticalFrostDays ?? 0) > 0) score -= Math.min(30, s.criticalFrostDays! * 10)
+
+  const { deficitPenaltyMm } = crop.water
+  if (s.waterDeficit > deficitPenaltyMm) score -= Math.min(25, (s.waterDeficit - deficitPenaltyMm) / 40)
+
+  return Math.max(0, Math.min(100, Math.round(score)))
+}
+
+/**
+ * Avisos y recomendaciones del cultivo (las ventanas de los textos salen del calendario).
+ */
+export function cropSuitabilityNotes(
+  crop: CropProfile,
+  s: CropSuitabilityInput,
+  calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR,
+): { recommendations: string[]; warnings: string[] } {
+  const recommendations: string[] = []
+  const warnings: string[] = []
+  const name = crop.label.toLowerCase()
+  const gddWindow = seasonWindowLabel(calendar.windows.gdd)
+
+  const { minHours, maxHours } = crop.chill
+  if (s.chillHours < minHours) {
+    warnings.push(`Insuficientes horas frío para una buena producción de ${name} (mínimo ~${minHours} h)`)
+  } else if (maxHours !== undefined && s.chillHours > maxHours) {
+    warnings.push("Exceso de horas frío puede retrasar la brotación")
+  } else {
+    recommendations.push(`Horas frío adecuadas para el cultivo de ${name}`)
+  }
+
+  if (s.totalGDD < crop.heat.minGdd) {
+    warnings.push(`Insuficientes grados día (${gddWindow}) para completar el ciclo del cultivo (${name})`)
+  } else if (s.totalGDD > crop.heat.highGdd) {
+    warnings.push(`Calor acumulado alto (${gddWindow}): vigilar estrés térmico y riego en verano`)
+  } else {
+    recommendations.push(`Acumulación térmica adecuada (${gddWindow})`)
+  }
+
+  if (s.frostDays > crop.frost.maxFrostDays) {
+    const days = s.frostDays.toFixed?.(0) ?? s.frostDays
+    warnings.push(`${days} días de helada al año: riesgo para el cultivo (${name})`)
+  }
+
+  const critical = s.criticalFrostDays ?? 0
+  if (critical > 0) {
+    const { stage, criticalTempC } = crop.frost
+    const window = seasonWindowLabel(cropFrostWindow(crop, calendar))
+    warnings.push(`${critical.toFixed(1)} días/año bajo ${criticalTempC}°C en ${stage} (${window}), fase crítica`)
+  }
+
+  if (s.waterDeficit > crop.water.deficitWarningMm) {
+    recommendations.push(`Déficit hídrico de ${s.waterDeficit}mm: requiere riego suplementario`)
+  }
+
+  return { recommendations, warnings }
+}
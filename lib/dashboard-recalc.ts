@@ -1,19 +1,7 @@
-import type { ClimateData } from "./types"
-
-// Meses de campaña de frío (Nov-Feb): 11, 12, 1, 2
-// OJO: lo dejamos como number[] (NO readonly) para que TS no proteste.
-export const CHILL_SEASON_MONTHS: number[] = [11, 12, 1, 2]
-
-// ✅ Ventana GDD pistacho (Abr-Oct): 4..10
-export const GDD_SEASON_MONTHS: number[] = [4, 5, 6, 7, 8, 9, 10]
-
-// Ajusta estos thresholds a vuestro criterio
-const CHILL_OPT_MIN = 600
-const CHILL_OPT_MAX = 1500
-
-function getMonth1to12(dateISO: string): number {
-  return new Date(dateISO).getMonth() + 1
-}
+import type { ClimateData, SeasonCalendar, SeasonWindow } from "./types"
+import { dailyGdd, monthOf } from "./agronomy"
+import { DEFAULT_CROP, cropFrostWindow, type CropProfile } from "./crops"
+import { DEFAULT_SEASON_CALENDAR, isInSeasonWindow } from "./season-calendar"
 
 function groupByYear(data: ClimateData[]): Record<number, ClimateData[]> {
   const grouped: Record<number, ClimateData[]> = {}
@@ -28,7 +16,7 @@ function groupByYear(data: ClimateData[]): Record<number, ClimateData[]> {
 
 export function filterDailyData(
   data: ClimateData[],
-  opts: { year?: number | "all"; months?: number[] } = {},
+  opts: { year?: number | "all"; months?: number[]; window?: SeasonWindow } = {},
 ) {
   let out = Array.isArray(data) ? [...data] : []
 
@@ -40,7 +28,13 @@ export function filterDailyData(
   // filtrar por meses (1-12)
   if (opts.months && opts.months.length) {
     const set = new Set(opts.months)
-    out = out.filter((d) => set.has(new Date(d.date).getMonth() + 1))
+    out = out.filter((d) => set.has(monthOf(d.date)))
+  }
+
+  // filtrar por ventana del calendario de campaña (lib/season-calendar.ts)
+  if (opts.window) {
+    const w = opts.window
+    out = out.filter((d) => isInSeasonWindow(d.date, w))
   }
 
   return out
@@ -55,27 +49,28 @@ export function filterDailyData(
  * - summary.waterDeficit
  * - summary.frostHours / chillHours
  * - summary.totalGDD / frostDays
+ * - summary.criticalFrostDays (Tmin <= temperatura crítica del cultivo en su fase sensible)
  * - warnings (array)
  *
  * ✅ Cambios:
- * - GDD se suma SOLO en Abr-Oct
- * - ChillHours se suma SOLO en Nov-Feb (blindado aquí)
+ * - GDD se suma SOLO en la ventana GDD del calendario (Abr-Oct por defecto)
+ * - ChillHours se suma SOLO en la ventana de frío (Nov-Feb por defecto, blindado aquí)
+ * - Umbrales de los avisos y base de GDD: los del cultivo (lib/crops.ts)
  */
 export function recalcMetricsFromDaily(
   data: ClimateData[],
   opts?: {
-    gddMonths?: number[] // default Abr-Oct
-    chillMonths?: number[] // default Nov-Feb
+    calendar?: SeasonCalendar // default DEFAULT_SEASON_CALENDAR
+    crop?: CropProfile // default DEFAULT_CROP
   },
 ) {
   const safe = Array.isArray(data) ? data : []
   const dayCount = safe.length
 
-  const gddMonths = opts?.gddMonths?.length ? opts.gddMonths : GDD_SEASON_MONTHS
-  const chillMonths = opts?.chillMonths?.length ? opts.chillMonths : CHILL_SEASON_MONTHS
-
-  const gddSet = new Set(gddMonths)
-  const chillSet = new Set(chillMonths)
+  const calendar = opts?.calendar ?? DEFAULT_SEASON_CALENDAR
+  const crop = opts?.crop ?? DEFAULT_CROP
+  const { chill: chillWindow, gdd: gddWindow } = calendar.windows
+  const frostWindow = cropFrostWindow(crop, calendar)
 
   // para medias: evitar división por 0
   const n = Math.max(1, dayCount)
@@ -86,10 +81,9 @@ export function recalcMetricsFromDaily(
   const totalETO = safe.reduce((s, d) => s + (d.eto ?? 0), 0)
   const totalETC = safe.reduce((s, d) => s + (d.etc ?? 0), 0)
 
-  // ✅ ChillHours SOLO Nov-Feb
+  // ✅ ChillHours SOLO en la ventana de frío
   const chillHours = safe.reduce((s, d) => {
-    const m = getMonth1to12(d.date)
-    if (!chillSet.has(m)) return s
+    if (!isInSeasonWindow(d.date, chillWindow)) return s
     return s + (d.chill_hours ?? 0)
   }, 0)
 
@@ -98,24 +92,36 @@ export function recalcMetricsFromDaily(
   // Días de helada: días con frost_hours > 0
   const frostDays = safe.filter((d) => (d.frost_hours ?? 0) > 0).length
 
-  // ✅ GDD SOLO Abr-Oct
+  // Heladas en la fase crítica del cultivo
+  const criticalFrostDays = safe.filter(
+    (d) =>
+      isInSeasonWindow(d.date, frostWindow) &&
+      Number.isFinite(d.temperature_min) &&
+      d.temperature_min <= crop.frost.criticalTempC,
+  ).length
+
+  // ✅ GDD SOLO en la ventana GDD
   const hasDailyGdd = safe.some((d) => typeof d.gdd === "number")
   const totalGDD = safe.reduce((s, d) => {
-    const m = getMonth1to12(d.date)
-    if (!gddSet.has(m)) return s
+    if (!isInSeasonWindow(d.date, gddWindow)) return s
 
     if (hasDailyGdd) return s + (d.gdd ?? 0)
 
-    const tavg = d.temperature_avg ?? 0
-    return s + Math.max(0, tavg - 7)
+    return s + dailyGdd(d.temperature_max, d.temperature_min, { method: "average", baseC: crop.heat.gddBaseC })
   }, 0)
 
   const waterDeficit = Math.max(0, totalETC - totalPrecipitation)
 
+  const { minHours, maxHours } = crop.chill
   const warnings: string[] = []
-  if (chillHours < CHILL_OPT_MIN) warnings.push("Falta de horas frío: puede haber mala brotación.")
-  if (chillHours > CHILL_OPT_MAX) warnings.push("Exceso de horas frío puede retrasar la brotación.")
+  if (chillHours < minHours) warnings.push("Falta de horas frío: puede haber mala brotación.")
+  if (maxHours !== undefined && chillHours > maxHours) {
+    warnings.push("Exceso de horas frío puede retrasar la brotación.")
+  }
   if (frostDays > 30) warnings.push(`${frostDays} días de helada pueden dañar floración.`)
+  if (criticalFrostDays > 0) {
+    warnings.push(`${criticalFrostDays} días bajo ${crop.frost.criticalTempC}°C en ${crop.frost.stage}.`)
+  }
   if (waterDeficit > 200) warnings.push("Déficit hídrico elevado: requiere riego suplementario.")
 
   return {
@@ -130,6 +136,7 @@ export function recalcMetricsFromDaily(
       chillHours,
       totalGDD,
       frostDays,
+      criticalFrostDays,
     },
     warnings,
   }
@@ -146,8 +153,8 @@ export function recalcMetricsFromDaily(
 export function recalcHistoricalAveragesFromDaily(
   data: ClimateData[],
   opts?: {
-    gddMonths?: number[]
-    chillMonths?: number[]
+    calendar?: SeasonCalendar
+    crop?: CropProfile
   },
 ) {
   const safe = Array.isArray(data) ? data : []
@@ -188,13 +195,22 @@ export function recalcHistoricalAveragesFromDaily(
     chillHours: avg((x) => x.summary.chillHours),
     totalGDD: avg((x) => x.summary.totalGDD),
     frostDays: avg((x) => x.summary.frostDays),
+    criticalFrostDays: avg((x) => x.summary.criticalFrostDays),
   }
 
   // warnings en base a medias anuales
+  const crop = opts?.crop ?? DEFAULT_CROP
+  const { minHours, maxHours } = crop.chill
   const warnings: string[] = []
-  if (summary.chillHours < CHILL_OPT_MIN) warnings.push("Falta de horas frío (media anual): puede haber mala brotación.")
-  if (summary.chillHours > CHILL_OPT_MAX) warnings.push("Exceso de horas frío (media anual) puede retrasar la brotación.")
+  if (summary.chillHours < minHours) warnings.push("Falta de horas frío (media anual): puede haber mala brotación.")
+  if (maxHours !== undefined && summary.chillHours > maxHours) {
+    warnings.push("Exceso de horas frío (media anual) puede retrasar la brotación.")
+  }
   if (summary.frostDays > 30) warnings.push(`${summary.frostDays.toFixed(0)} días/año de helada pueden dañar floración.`)
+  if (summary.criticalFrostDays > 0) {
+    const { stage, criticalTempC } = crop.frost
+    warnings.push(`${summary.criticalFrostDays.toFixed(1)} días/año bajo ${criticalTempC}°C en ${stage}.`)
+  }
   if (summary.waterDeficit > 200) warnings.push("Déficit hídrico medio anual elevado: requiere riego suplementario.")
 
   return {
@@ -1,11 +1,17 @@
 import jsPDF from "jspdf"
 import type { ClimateData } from "./types"
 
+// "Finca en Tomelloso (Ciudad Real) · 39.1578, -3.0245" si la ubicación salió del mapa
+function locationLine(c: { lat: number; lon: number; label?: string }) {
+  const coords = `${c.lat.toFixed(4)}, ${c.lon.toFixed(4)}`
+  return c.label ? `${c.label} · ${coords}` : `Coordenadas: ${coords}`
+}
+
 export class DetailedExportService {
   static async exportDetailedReport(
     data: ClimateData[],
     analysisResults: any,
-    coordinates: { lat: number; lon: number },
+    coordinates: { lat: number; lon: number; label?: string },
     filename = "informe-detallado-pistacho.pdf",
     isHistorical = false,
   ) {
@@ -29,7 +35,7 @@ export class DetailedExportService {
       doc.text("Informe Agroclimatico Detallado", 20, 60)
 
       doc.setFontSize(12)
-      doc.text(`Coordenadas: ${coordinates.lat.toFixed(4)}, ${coordinates.lon.toFixed(4)}`, 20, 75)
+      doc.text(locationLine(coordinates), 20, 75)
       doc.text(`Período: ${data[0]?.date} - ${data[data.length - 1]?.date}`, 20, 85)
       doc.text(`Tipo de análisis: ${isHistorical ? "Histórico 20 años" : "Actual"}`, 20, 95)
       doc.text(`Fecha del informe: ${new Date().toLocaleDateString("es-ES")}`, 20, 105)
@@ -172,7 +178,7 @@ export class DetailedExportService {
   private static generateSimplePDF(
     data: ClimateData[],
     analysisResults: any,
-    coordinates: { lat: number; lon: number },
+    coordinates: { lat: number; lon: number; label?: string },
     filename: string,
     isHistorical: boolean,
   ) {
@@ -182,7 +188,7 @@ export class DetailedExportService {
     doc.text("Informe Agroclimatico - Agroptimum", 20, 30)
 
     doc.setFontSize(12)
-    doc.text(`Coordenadas: ${coordinates.lat.toFixed(4)}, ${coordinates.lon.toFixed(4)}`, 20, 50)
+    doc.text(locationLine(coordinates), 20, 50)
     doc.text(`Período: ${data[0]?.date} - ${data[data.length - 1]?.date}`, 20, 60)
     doc.text(`Tipo: ${isHistorical ? "Análisis Histórico 20 años" : "Análisis Actual"}`, 20, 70)
 
@@ -0,0 +1,281 @@
+// lib/elevation.ts
+import "server-only"
+import fs from "node:fs/promises"
+import type { ClimateData, ClimateRequest } from "./types"
+
+/**
+ * Corrección de temperatura por altitud (gradiente térmico vertical) para fuentes en rejilla.
+ *
+ * NASA POWER (~0.5° × 0.625°) y ERA5 (0.25°) dan la temperatura de la altitud MEDIA de la celda:
+ * una parcela en ladera puede estar cientos de metros por encima o por debajo, y eso mueve
+ * las horas frío y el riesgo de helada. Corregimos:
+ *
+ *   ΔT = -lapse · (z_parcela - z_celda) / 1000
+ *
+ * - z_parcela: request.elevation (dato del usuario) o el MDT local en el punto
+ * - z_celda: media del MDT local dentro de la celda del proveedor, o la que informe el proveedor
+ * - lapse: request.lapseRate (°C/km) o LAPSE_RATE_C_PER_KM (6.5 por defecto, atmósfera estándar)
+ *
+ * MDT local: DEM_TILE_PATH apunta a un raster ESRI ASCII Grid (.asc) en grados (WGS84).
+ * Es opcional: sin él solo se corrige si hay altitud del usuario y el proveedor informa la de la celda.
+ */
+
+const DEFAULT_LAPSE_RATE = Number(process.env.LAPSE_RATE_C_PER_KM) || 6.5
+const DEM_TILE_PATH = process.env.DEM_TILE_PATH || ""
+
+// por debajo de esto la corrección es ruido frente al error propio del modelo
+const MIN_ELEVATION_DIFF_M = 20
+
+// muestreo máximo por eje al promediar la celda (un MDT de 1" tiene miles de píxeles por celda)
+const MAX_SAMPLES_PER_AXIS = 200
+
+export type LapseRateCorrection = {
+  applied: boolean
+  reason?: string
+  lapseRateCPerKm?: number
+  siteElevationM?: number
+  siteElevationSource?: "user" | "dem"
+  cellElevationM?: number
+  cellElevationSource?: "dem" | "provider"
+  deltaC?: number
+  correctedDays?: number
+  // días/campos que vienen de la fuente secundaria (otra rejilla, otra altitud): se dejan como están
+  skippedSecondaryFields?: number
+}
+
+type DemTile = {
+  ncols: number
+  nrows: number
+  xll: number
+  yll: number
+  cellsize: number
+  nodata: number
+  values: Float32Array
+}
+
+const demCache: { path: string; tile: DemTile | null } =
+  (globalThis as any).__dem_tile_cache ?? ((globalThis as any).__dem_tile_cache = { path: "", tile: null })
+
+// ---------- MDT (ESRI ASCII Grid) ----------
+export function parseAsciiGrid(text: string): DemTile {
+  const lines = text.split(/\r?\n/)
+  const header: Record<string, number> = {}
+
+  let i = 0
+  for (; i < lines.length; i++) {
+    const m = lines[i].trim().match(/^([a-z_]+)\s+(-?[\d.eE+-]+)$/i)
+    if (!m) break
+    header[m[1].toLowerCase()] = Number(m[2])
+  }
+
+  const ncols = header.ncols
+  const nrows = header.nrows
+  const cellsize = header.cellsize
+  if (!ncols || !nrows || !cellsize) throw new Error("MDT: cabecera ESRI ASCII incompleta (ncols/nrows/cellsize)")
+
+  // xllcenter/yllcenter -> esquina
+  const xll = header.xllcorner ?? header.xllcenter - cellsize / 2
+  const yll = header.yllcorner ?? header.yllcenter - cellsize / 2
+  if (!Number.isFinite(xll) || !Number.isFinite(yll)) throw new Error("MDT: falta xllcorner/yllcorner")
+
+  const values = new Float32Array(ncols * nrows)
+  let n = 0
+  for (; i < lines.length && n < values.length; i++) {
+    for (const tok of lines[i].trim().split(/\s+/)) {
+      if (!tok) continue
+      values[n++] = Number(tok)
+    }
+  }
+  if (n < values.length) throw new Error(`MDT: faltan valores (${n} de ${values.length})`)
+
+  return { ncols, nrows, xll, yll, cellsize, nodata: header.nodata_value ?? -9999, values }
+}
+
+async function getDemTile(): Promise<DemTile | null> {
+  if (!DEM_TILE_PATH) return null
+
+  if (demCache.path === DEM_TILE_PATH) return demCache.tile
+
+  // un fallo de lectura se recuerda también (no reintentamos en cada petición)
+  let tile: DemTile | null = null
+  try {
+    tile = parseAsciiGrid(await fs.readFile(DEM_TILE_PATH, "utf8"))
+  } catch (e) {
+    console.error("[elevation] no se pudo leer DEM_TILE_PATH:", e)
+  }
+  demCache.path = DEM_TILE_PATH
+  demCache.tile = tile
+  return tile
+}
+
+function demValue(tile: DemTile, row: number, col: number): number | undefined {
+  if (row < 0 || col < 0 || row >= tile.nrows || col >= tile.ncols) return undefined
+  const v = tile.values[row * tile.ncols + col]
+  return Number.isFinite(v) && v !== tile.nodata ? v : undefined
+}
+
+// fila 0 = norte (convención ESRI)
+function rowOf(tile: DemTile, lat: number) {
+  return Math.floor((tile.yll + tile.nrows * tile.cellsize - lat) / tile.cellsize)
+}
+function colOf(tile: DemTile, lon: number) {
+  return Math.floor((lon - tile.xll) / tile.cellsize)
+}
+
+export async function demElevationAt(lat: number, lon: number): Promise<number | undefined> {
+  const tile = await getDemTile()
+  if (!tile) return undefined
+  return demValue(tile, rowOf(tile, lat), colOf(tile, lon))
+}
+
+/**
+ * Altitud media del MDT dentro de la celda de rejilla (centrada en múltiplos de la resolución).
+ * Devuelve undefined si el MDT no cubre al menos la mitad de la celda.
+ */
+export async function demCellMeanElevation(
+  lat: number,
+  lon: number,
+  cellDeg: { lat: number; lon: number },
+): Promise<number | undefined> {
+  const tile = await getDemTile()
+  if (!tile) return undefined
+
+  const cLat = Math.round(lat / cellDeg.lat) * cellDeg.lat
+  const cLon = Math.round(lon / cellDeg.lon) * cellDeg.lon
+
+  const r0 = rowOf(tile, cLat + cellDeg.lat / 2)
+  const r1 = rowOf(tile, cLat - cellDeg.lat / 2)
+  const c0 = colOf(tile, cLon - cellDeg.lon / 2)
+  const c1 = colOf(tile, cLon + cellDeg.lon / 2)
+
+  const rStep = Math.max(1, Math.ceil((r1 - r0) / MAX_SAMPLES_PER_AXIS))
+  const cStep = Math.max(1, Math.ceil((c1 - c0) / MAX_SAMPLES_PER_AXIS))
+
+  let sum = 0
+  let count = 0
+  let total = 0
+  for (let r = r0; r <= r1; r += rStep) {
+    for (let c = c0; c <= c1; c += cStep) {
+      total++
+      const v = demValue(tile, r, c)
+      if (v === undefined) continue
+      sum += v
+      count++
+    }
+  }
+
+  return total > 0 && count / total >= 0.5 ? sum / count : undefined
+}
+
+// ---------- corrección ----------
+export function resolveLapseRate(lapseRate: ClimateRequest["lapseRate"]): number | null {
+  if (lapseRate === undefined || lapseRate === false) {
+    return process.env.ELEVATION_CORRECTION === "on" ? DEFAULT_LAPSE_RATE : null
+  }
+  if (lapseRate === true) return DEFAULT_LAPSE_RATE
+  const n = Number(lapseRate)
+  return Number.isFinite(n) && n > 0 ? n : null
+}
+
+const TEMP_FIELDS = ["temperature_max", "temperature_min", "temperature_avg"] as const
+type TempField = (typeof TEMP_FIELDS)[number]
+
+function shift(v: number | undefined, delta: number) {
+  return typeof v === "number" && Number.isFinite(v) ? Number((v + delta).toFixed(2)) : v
+}
+
+/**
+ * Aplica la corrección a Tmax/Tmin/Tmed.
+ * Los días corregidos pierden computedChillHeat: horas frío, helada y GDD se recalculan
+ * (ClimateCalculator) con las temperaturas ya corregidas.
+ * Los campos rellenados desde la fuente secundaria (gaps "secondary" o provenance de otra fuente) se dejan
+ * como están: vienen de otra rejilla, con otra altitud de celda.
+ */
+export async function applyLapseRateCorrection(
+  request: ClimateRequest,
+  data: ClimateData[],
+  opts: { cellDeg?: { lat: number; lon: number }; providerCellElevationM?: number },
+): Promise<{ data: ClimateData[]; correction: LapseRateCorrection }> {
+  const lapse = resolveLapseRate(request.lapseRate)
+  if (lapse === null) return { data, correction: { applied: false, reason: "desactivada" } }
+
+  if (!opts.cellDeg) {
+    return { data, correction: { applied: false, reason: `${request.source} no es una fuente en rejilla` } }
+  }
+  if (typeof request.latitude !== "number" || typeof request.longitude !== "number") {
+    return { data, correction: { applied: false, reason: "faltan coordenadas" } }
+  }
+
+  const userElevation = Number(request.elevation)
+  const hasUserElevation = request.elevation != null && Number.isFinite(userElevation)
+  const siteElevationM = hasUserElevation ? userElevation : await demElevationAt(request.latitude, request.longitude)
+  if (siteElevationM === undefined) {
+    return { data, correction: { applied: false, reason: "sin altitud de parcela (ni del usuario ni del MDT)" } }
+  }
+
+  const demCell = await demCellMeanElevation(request.latitude, request.longitude, opts.cellDeg)
+  const cellElevationM = demCell ?? opts.providerCellElevationM
+  if (cellElevationM === undefined) {
+    return {
+      data,
+      correction: { applied: false, reason: "sin altitud de celda (configura DEM_TILE_PATH)", siteElevationM },
+    }
+  }
+
+  const base: LapseRateCorrection = {
+    applied: false,
+    lapseRateCPerKm: lapse,
+    siteElevationM: Number(siteElevationM.toFixed(1)),
+    siteElevationSource: hasUserElevation ? "user" : "dem",
+    cellElevationM: Number(cellElevationM.toFixed(1)),
+    cellElevationSource: demCell !== undefined ? "dem" : "provider",
+  }
+
+  const diff = siteElevationM - cellElevationM
+  if (Math.abs(diff) < MIN_ELEVATION_DIFF_M) {
+    return { data, correction: { ...base, reason: `diferencia de altitud < ${MIN_ELEVATION_DIFF_M} m` } }
+  }
+
+  const deltaC = Number(((-lapse * diff) / 1000).toFixed(2))
+
+  let correctedDays = 0
+  let skippedSecondaryFields = 0
+  const corrected = data.map((d) => {
+    const fromOther = (f: TempField) =>
+      d.gaps?.[f] === "secondary" || (!!d.provenance?.[f] && d.provenance[f] !== request.source)
+    const foreign = {
+      temperature_max: fromOther("temperature_max"),
+      temperature_min: fromOther("temperature_min"),
+      // Tmed derivada de una Tmax/Tmin ajena tampoco está a la altitud de esta celda
+      temperature_avg:
+        fromOther("temperature_avg") ||
+        (d.gaps?.temperature_avg === "derived" && (fromOther("temperature_max") || fromOther("temperature_min"))),
+    }
+
+    const out = { ...d }
+    let touched = false
+    for (const f of TEMP_FIELDS) {
+      if (foreign[f]) {
+        if (Number.isFinite(d[f])) skippedSecondaryFields++
+        continue
+      }
+      out[f] = shift(d[f], deltaC) as number
+      touched ||= Number.isFinite(d[f])
+    }
+    if (!touched) return d
+
+    correctedDays++
+    return { ...out, computedChillHeat: false }
+  })
+
+  return {
+    data: corrected,
+    correction: {
+      ...base,
+      applied: true,
+      deltaC,
+      correctedDays,
+      ...(skippedSecondaryFields ? { skippedSecondaryFields } : {}),
+    },
+  }
+}
@@ -1,7 +1,32 @@
 import * as XLSX from "xlsx"
 import jsPDF from "jspdf"
 import type { ClimateData } from "./types"
-import { processClimateData, validateClimateData } from "./agricultural-formulas"
+import { ClimateCalculator } from "./climate-calculations"
+
+// Día listo para exportar: índices, ETo/ETc y Kc del día del motor común (lib/agronomy.ts vía ClimateCalculator).
+// La ETc y el Kc que ya traen los datos (calculados con el cultivo y la parcela de la consulta) se conservan.
+// HR, viento y radiación que falten quedan en NaN y salen como "N/A" (no se inventan).
+type ExportRow = ClimateData &
+  Required<Pick<ClimateData, "precipitation" | "eto" | "etc" | "frost_hours" | "chill_hours" | "gdd">> & {
+    humidity: number
+    wind_speed: number
+    solar_radiation: number
+    kc: number
+  }
+
+function toNumberOrNaN(v: unknown) {
+  const n = typeof v === "number" ? v : Number(v)
+  return v === null || v === undefined || v === "" ? Number.NaN : n
+}
+
+function fixedOrNA(v: number, digits: number) {
+  return Number.isFinite(v) ? v.toFixed(digits) : "N/A"
+}
+
+function meanFinite(values: number[]) {
+  const ok = values.filter((v) => Number.isFinite(v))
+  return ok.length ? ok.reduce((s, v) => s + v, 0) / ok.length : Number.NaN
+}
 
 export class ExportService {
   // ============================================================
@@ -72,9 +97,8 @@ export class ExportService {
       throw new Error("No hay datos válidos para generar el PDF")
     }
 
-    // ✅ Reutilizamos tu pipeline para que los KPI sean coherentes con tu app
-    const validated = validateClimateData(rawData)
-    const data = processClimateData(validated)
+    // ✅ Mismo motor que la app para que los KPI sean coherentes
+    const data = ExportService.prepareRows(rawData, coordinates.lat)
 
     if (!data.length) throw new Error("No hay datos procesados para generar el PDF")
 
@@ -113,7 +137,7 @@ export class ExportService {
       })
       const frostMarMay = sum(frostWindow.map((d) => d.frost_hours))
 
-      const humSummer = mean(rows.filter((d) => [6, 7, 8].includes(monthOf(d.date))).map((d) => d.humidity))
+      const humSummer = meanFinite(rows.filter((d) => [6, 7, 8].includes(monthOf(d.date))).map((d) => d.humidity))
 
       return { year: y, chill, frostMarMay, humSummer }
     })
@@ -122,7 +146,7 @@ export class ExportService {
       const m = monthOf(d.date)
       return m >= 6 && m <= 8
     })
-    const avgSummerHumidity = mean(summerAll.map((d) => d.humidity))
+    const avgSummerHumidity = meanFinite(summerAll.map((d) => d.humidity))
 
     const recommendations: string[] =
       analysisResults?.suitability?.recommendations?.length > 0
@@ -187,6 +211,48 @@ export class ExportService {
   // ============================================================
   // Helpers shared downloads
   // ============================================================
+  private static calculator = new ClimateCalculator()
+
+  /**
+   * Días con fecha y Tmax/Tmin válidas, pasados por ClimateCalculator: la ETo/ETc que ya traen se respeta,
+   * lo que falte (y los índices de días sin computedChillHeat) sale del motor común.
+   */
+  private static prepareRows(rawData: any[], latitude?: number): ExportRow[] {
+    const valid: ClimateData[] = (Array.isArray(rawData) ? rawData : [])
+      .filter(
+        (item) =>
+          item &&
+          typeof item.date === "string" &&
+          Number.isFinite(Number(item.temperature_max)) &&
+          Number.isFinite(Number(item.temperature_min)),
+      )
+      .map((item) => {
+        const tmax = Number(item.temperature_max)
+        const tmin = Number(item.temperature_min)
+        const tavg = Number(item.temperature_avg)
+        return {
+          ...item,
+          temperature_max: tmax,
+          temperature_min: tmin,
+          temperature_avg: Number.isFinite(tavg) ? tavg : (tmax + tmin) / 2,
+        }
+      })
+
+    return ExportService.calculator.processClimateData(valid, latitude).map((d) => ({
+      ...d,
+      humidity: toNumberOrNaN(d.humidity),
+      wind_speed: toNumberOrNaN(d.wind_speed),
+      solar_radiation: toNumberOrNaN(d.solar_radiation),
+      precipitation: Number(d.precipitation) || 0,
+      eto: d.eto ?? 0,
+      etc: d.etc ?? 0,
+      frost_hours: d.frost_hours ?? 0,
+      chill_hours: d.chill_hours ?? 0,
+      gdd: d.gdd ?? 0,
+      kc: d.kc ?? 0,
+    }))
+  }
+
   private static extractFilenameFromContentDisposition(contentDisposition: string | null) {
     if (!contentDisposition) return null
     const match = contentDisposition.match(/filename="([^"]+)"/i)
@@ -233,11 +299,10 @@ export class ExportService {
   static exportToExcel(rawData: any[], filename = "datos-climaticos.xlsx") {
     console.log("[v0] ExportService.exportToExcel called with data:", rawData?.length, "items")
 
-    let processedData: ClimateData[] = []
+    let processedData: ExportRow[] = []
 
     if (Array.isArray(rawData) && rawData.length > 0) {
-      const validatedData = validateClimateData(rawData)
-      processedData = processClimateData(validatedData)
+      processedData = ExportService.prepareRows(rawData)
     } else {
       console.error("[v0] Invalid data provided to exportToExcel")
       return
@@ -255,13 +320,13 @@ export class ExportService {
         "Temperatura Media (°C)": item.temperature_avg.toFixed(2),
         "Temperatura Máxima (°C)": item.temperature_max.toFixed(2),
         "Temperatura Mínima (°C)": item.temperature_min.toFixed(2),
-        "Humedad Relativa (%)": item.humidity.toFixed(2),
-        "Radiación Solar (MJ/m²)": item.solar_radiation.toFixed(2),
+        "Humedad Relativa (%)": fixedOrNA(item.humidity, 2),
+        "Radiación Solar (MJ/m²)": fixedOrNA(item.solar_radiation, 2),
         "Precipitación (mm)": item.precipitation.toFixed(2),
-        "Velocidad Viento (m/s)": item.wind_speed.toFixed(2),
+        "Velocidad Viento (m/s)": fixedOrNA(item.wind_speed, 2),
         "ETO (mm)": item.eto.toFixed(2),
         "ETC (mm)": item.etc.toFixed(2),
-        "Coeficiente Cultivo (Kc)": item.kc?.toFixed(2) || "N/A",
+        "Coeficiente Cultivo (Kc)": item.kc.toFixed(2),
         "Horas Frío": item.chill_hours.toFixed(0),
         "Horas Helada": item.frost_hours.toFixed(0),
         "Grados Día (GDD)": item.gdd.toFixed(2),
@@ -293,8 +358,8 @@ export class ExportService {
     }
   }
 
-  private static calculateMonthlySummary(data: ClimateData[]) {
-    const monthlyData: { [key: string]: ClimateData[] } = {}
+  private static calculateMonthlySummary(data: ExportRow[]) {
+    const monthlyData: { [key: string]: ExportRow[] } = {}
 
     data.forEach((item) => {
       const month = item.date.substring(0, 7) // YYYY-MM
@@ -316,9 +381,7 @@ export class ExportService {
       "Horas Frío": monthData.reduce((sum, d) => sum + d.chill_hours, 0).toFixed(0),
       "Horas Helada": monthData.reduce((sum, d) => sum + d.frost_hours, 0).toFixed(0),
       "GDD Total": monthData.reduce((sum, d) => sum + d.gdd, 0).toFixed(2),
-      "Radiación Promedio (MJ/m²)": (
-        monthData.reduce((sum, d) => sum + d.solar_radiation, 0) / monthData.length
-      ).toFixed(2),
+      "Radiación Promedio (MJ/m²)": fixedOrNA(meanFinite(monthData.map((d) => d.solar_radiation)), 2),
       "Déficit Hídrico (mm)": Math.max(
         0,
         monthData.reduce((sum, d) => sum + d.eto, 0) - monthData.reduce((sum, d) => sum + d.precipitation, 0),
@@ -330,7 +393,7 @@ export class ExportService {
     }))
   }
 
-  private static calculateAnnualSummary(data: ClimateData[]) {
+  private static calculateAnnualSummary(data: ExportRow[]) {
     const totalDays = data.length
     const avgTemp = data.reduce((sum, d) => sum + d.temperature_avg, 0) / totalDays
     const maxTemp = Math.max(...data.map((d) => d.temperature_max))
@@ -341,8 +404,8 @@ export class ExportService {
     const totalChillHours = data.reduce((sum, d) => sum + d.chill_hours, 0)
     const totalFrostHours = data.reduce((sum, d) => sum + d.frost_hours, 0)
     const totalGDD = data.reduce((sum, d) => sum + d.gdd, 0)
-    const avgSolarRadiation = data.reduce((sum, d) => sum + d.solar_radiation, 0) / totalDays
-    const avgHumidity = data.reduce((sum, d) => sum + d.humidity, 0) / totalDays
+    const avgSolarRadiation = meanFinite(data.map((d) => d.solar_radiation))
+    const avgHumidity = meanFinite(data.map((d) => d.humidity))
 
     return {
       Período: `${data[0]?.date} - ${data[data.length - 1]?.date}`,
@@ -358,13 +421,13 @@ export class ExportService {
       "Horas Frío Totales": totalChillHours.toFixed(0),
       "Horas Helada Totales": totalFrostHours.toFixed(0),
       "GDD Total": totalGDD.toFixed(2),
-      "Radiación Solar Media (MJ/m²)": avgSolarRadiation.toFixed(2),
-      "Humedad Relativa Media (%)": avgHumidity.toFixed(2),
+      "Radiación Solar Media (MJ/m²)": fixedOrNA(avgSolarRadiation, 2),
+      "Humedad Relativa Media (%)": fixedOrNA(avgHumidity, 2),
       "Eficiencia Riego Requerida (%)": ((totalETC / (totalETC + totalPrecip)) * 100).toFixed(1),
     }
   }
 
-  private static generateIrrigationCalendar(data: ClimateData[]) {
+  private static generateIrrigationCalendar(data: ExportRow[]) {
     const calendar: any[] = []
 
     const irrigationSchedule = [
@@ -398,7 +461,7 @@ export class ExportService {
     return calendar
   }
 
-  private static getMonthlyObservations(month: string, data: ClimateData[]): string {
+  private static getMonthlyObservations(month: string, data: ExportRow[]): string {
     const monthNum =
       [
         "Enero",
@@ -447,10 +510,9 @@ export class ExportService {
   ) {
     console.log("[v0] ExportService.exportIrrigationRecommendationsToPDF called")
 
-    let data: ClimateData[] = []
+    let data: ExportRow[] = []
     if (Array.isArray(rawData) && rawData.length > 0) {
-      const validatedData = validateClimateData(rawData)
-      data = processClimateData(validatedData)
+      data = ExportService.prepareRows(rawData, coordinates.lat)
     } else {
       console.error("[v0] Invalid data provided to exportIrrigationRecommendationsToPDF")
       return
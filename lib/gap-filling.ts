@@ -0,0 +1,295 @@
+// lib/gap-filling.ts
+import type { ClimateData, DataSource, GapField, GapFillMethod, GapFillStrategy } from "./types"
+
+/**
+ * Detección y relleno de huecos en series diarias.
+ *
+ * Regla: un valor que falta NUNCA se escribe como 0 (eso falsea ETo y déficit).
+ * Se deja `undefined`, se marca en `day.gaps` y luego se rellena según la estrategia.
+ */
+
+export const GAP_FIELDS: GapField[] = [
+  "temperature_max",
+  "temperature_min",
+  "temperature_avg",
+  "humidity",
+  "precipitation",
+  "wind_speed",
+  "solar_radiation",
+]
+
+// La lluvia no se interpola (un día sin dato no es "la media de sus vecinos");
+// Tmed tampoco: se deriva de Tmax/Tmin en finalizeGaps
+const NON_INTERPOLABLE: GapField[] = ["precipitation", "temperature_avg"]
+
+// Huecos más largos que esto no se interpolan
+export const MAX_INTERPOLATION_GAP_DAYS = 3
+
+const STRATEGIES: GapFillStrategy[] = ["none", "interpolate", "secondary", "secondary+interpolate"]
+
+export function resolveGapFillStrategy(input?: string): GapFillStrategy {
+  const s = String(input || process.env.GAP_FILL_STRATEGY || "").trim() as GapFillStrategy
+  return STRATEGIES.includes(s) ? s : "interpolate"
+}
+
+export function usesSecondary(strategy: GapFillStrategy) {
+  return strategy === "secondary" || strategy === "secondary+interpolate"
+}
+
+export function usesInterpolation(strategy: GapFillStrategy) {
+  return strategy === "interpolate" || strategy === "secondary+interpolate"
+}
+
+export function defaultSecondarySource(primary: DataSource | string): DataSource {
+  const env = process.env.GAP_FILL_SOURCE as DataSource | undefined
+  if (env && env !== primary) return env
+  return primary === "OPEN_METEO" ? "NASA_POWER" : "OPEN_METEO"
+}
+
+/**
+ * Valor ausente: undefined/null/NaN, fill value de NASA (-999) o HR <= 0 (algunas fuentes ponen 0).
+ */
+export function isMissingValue(field: GapField, v: unknown): boolean {
+  if (v === undefined || v === null || v === "") return true
+  const n = Number(v)
+  if (!Number.isFinite(n) || n <= -999) return true
+  if (field === "humidity") return n <= 0
+  return false
+}
+
+function addDaysISO(dateISO: string, days: number) {
+  const d = new Date(`${dateISO}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function dateRange(startISO: string, endISO: string): string[] {
+  const out: string[] = []
+  for (let d = startISO; d <= endISO; d = addDaysISO(d, 1)) out.push(d)
+  return out
+}
+
+/**
+ * 1) Detección: normaliza ausentes a undefined, marca `gaps` y crea días vacíos
+ *    para las fechas del rango que la fuente no devolvió.
+ */
+export function detectGaps(data: ClimateData[], startDate?: string, endDate?: string): ClimateData[] {
+  const byDate = new Map<string, ClimateData>()
+  for (const d of data) if (d?.date) byDate.set(d.date.slice(0, 10), d)
+
+  const dates =
+    startDate && endDate && /^\d{4}-\d{2}-\d{2}$/.test(startDate) && /^\d{4}-\d{2}-\d{2}$/.test(endDate)
+      ? dateRange(startDate, endDate)
+      : [...byDate.keys()].sort()
+
+  return dates.map((date) => {
+    const src = byDate.get(date)
+    const day: ClimateData = src ? { ...src, date } : ({ date, computedChillHeat: false } as ClimateData)
+
+    const gaps: Partial<Record<GapField, GapFillMethod>> = {}
+    for (const f of GAP_FIELDS) {
+      if (!isMissingValue(f, day[f])) continue
+      ;(day as any)[f] = undefined
+      gaps[f] = "missing"
+    }
+
+    if (Object.keys(gaps).length) day.gaps = gaps
+    return day
+  })
+}
+
+export function hasGaps(data: ClimateData[]) {
+  return data.some((d) => d.gaps && Object.values(d.gaps).includes("missing"))
+}
+
+/**
+ * Rango [min, max] de fechas con algún hueco pendiente (para pedir solo eso al secundario).
+ */
+export function gapDateRange(data: ClimateData[]): { startDate: string; endDate: string } | null {
+  const dates = data.filter((d) => d.gaps && Object.values(d.gaps).includes("missing")).map((d) => d.date)
+  if (!dates.length) return null
+  return { startDate: dates[0], endDate: dates[dates.length - 1] }
+}
+
+/**
+ * 2a) Relleno desde un proveedor secundario (misma fecha, mismo campo).
+ */
+export function fillFromSecondary(data: ClimateData[], secondary: ClimateData[], source: DataSource): ClimateData[] {
+  const byDate = new Map(secondary.map((d) => [d.date.slice(0, 10), d]))
+
+  return data.map((day) => {
+    if (!day.gaps) return day
+    const other = byDate.get(day.date)
+    if (!other) return day
+
+    const out: ClimateData = { ...day, gaps: { ...day.gaps }, provenance: { ...day.provenance } }
+    for (const f of GAP_FIELDS) {
+      if (out.gaps![f] !== "missing" || isMissingValue(f, other[f])) continue
+      ;(out as any)[f] = Number(other[f])
+      out.gaps![f] = "secondary"
+      out.provenance![f] = source
+    }
+
+    // Si se rellenó temperatura, los índices térmicos hay que recalcularlos
+    if (out.gaps!.temperature_max === "secondary" || out.gaps!.temperature_min === "secondary") {
+      out.computedChillHeat = false
+    }
+    return out
+  })
+}
+
+/**
+ * 2b) Interpolación lineal entre el día válido anterior y el siguiente
+ *     (solo huecos de hasta `maxGapDays` días; no en los extremos de la serie).
+ */
+export function interpolateGaps(data: ClimateData[], maxGapDays = MAX_INTERPOLATION_GAP_DAYS): ClimateData[] {
+  const out = data.map((d) => (d.gaps ? { ...d, gaps: { ...d.gaps } } : d))
+
+  for (const f of GAP_FIELDS) {
+    if (NON_INTERPOLABLE.includes(f)) continue
+
+    let i = 0
+    while (i < out.length) {
+      if (out[i].gaps?.[f] !== "missing") {
+        i++
+        continue
+      }
+
+      let j = i
+      while (j < out.length && out[j].gaps?.[f] === "missing") j++
+
+      const prev = i - 1
+      const next = j
+      const len = j - i
+
+      if (prev >= 0 && next < out.length && len <= maxGapDays) {
+        const a = Number(out[prev][f])
+        const b = Number(out[next][f])
+        for (let k = i; k < j; k++) {
+          const t = (k - prev) / (next - prev)
+          ;(out[k] as any)[f] = Number((a + (b - a) * t).toFixed(2))
+          out[k].gaps![f] = "interpolated"
+          if (f === "temperature_max" || f === "temperature_min") out[k].computedChillHeat = false
+        }
+      }
+
+      i = j
+    }
+  }
+
+  return out
+}
+
+/**
+ * 3) Cierre: Tmed derivada de Tmax/Tmin si falta, y se descartan los días
+ *    que siguen sin Tmax/Tmin (el motor no puede trabajar sin ellas).
+ */
+export function finalizeGaps(data: ClimateData[]): { data: ClimateData[]; dropped: string[] } {
+  const dropped: string[] = []
+  const out: ClimateData[] = []
+
+  for (const d of data) {
+    if (isMissingValue("temperature_max", d.temperature_max) || isMissingValue("temperature_min", d.temperature_min)) {
+      dropped.push(d.date)
+      continue
+    }
+
+    if (d.gaps?.temperature_avg === "missing") {
+      out.push({
+        ...d,
+        temperature_avg: Number(((d.temperature_max + d.temperature_min) / 2).toFixed(2)),
+        gaps: { ...d.gaps, temperature_avg: "derived" },
+      })
+      continue
+    }
+
+    out.push(d)
+  }
+
+  return { data: out, dropped }
+}
+
+export type GapCoverage = {
+  strategy: GapFillStrategy
+  secondarySource?: DataSource
+  secondaryError?: string
+  expectedDays: number
+  receivedDays: number
+  returnedDays: number
+  droppedDays: string[]
+  variables: Record<GapField, { missing: number; secondary: number; interpolated: number; derived: number; unfilled: number; coveragePct: number }>
+}
+
+/**
+ * Estadísticas de cobertura para ApiResponse.debug.gaps.
+ * `coveragePct` = % de días con dato original (antes de rellenar).
+ */
+export function gapCoverage(
+  detected: ClimateData[],
+  filled: ClimateData[],
+  opts: { strategy: GapFillStrategy; receivedDays: number; dropped: string[]; secondarySource?: DataSource; secondaryError?: string },
+): GapCoverage {
+  const expected = detected.length
+  const variables = {} as GapCoverage["variables"]
+
+  for (const f of GAP_FIELDS) {
+    const missing = detected.filter((d) => d.gaps?.[f] === "missing").length
+    const count = (m: GapFillMethod) => filled.filter((d) => d.gaps?.[f] === m).length
+
+    variables[f] = {
+      missing,
+      secondary: count("secondary"),
+      interpolated: count("interpolated"),
+      derived: count("derived"),
+      unfilled: count("missing"),
+      coveragePct: expected ? Number((((expected - missing) / expected) * 100).toFixed(1)) : 0,
+    }
+  }
+
+  return {
+    strategy: opts.strategy,
+    secondarySource: opts.secondarySource,
+    secondaryError: opts.secondaryError,
+    expectedDays: expected,
+    receivedDays: opts.receivedDays,
+    returnedDays: filled.length,
+    droppedDays: opts.dropped,
+    variables,
+  }
+}
+
+/**
+ * Cobertura de varios tramos (histórico troceado) como si fuese una sola petición.
+ */
+export function mergeGapCoverage(list: GapCoverage[]): GapCoverage | undefined {
+  if (!list.length) return undefined
+  const [first] = list
+  const expected = list.reduce((acc, c) => acc + c.expectedDays, 0)
+  const variables = {} as GapCoverage["variables"]
+
+  for (const f of GAP_FIELDS) {
+    const sum = (k: Exclude<keyof GapCoverage["variables"][GapField], "coveragePct">) =>
+      list.reduce((acc, c) => acc + (c.variables[f]?.[k] ?? 0), 0)
+    const missing = sum("missing")
+
+    variables[f] = {
+      missing,
+      secondary: sum("secondary"),
+      interpolated: sum("interpolated"),
+      derived: sum("derived"),
+      unfilled: sum("unfilled"),
+      coveragePct: expected ? Number((((expected - missing) / expected) * 100).toFixed(1)) : 0,
+    }
+  }
+
+  return {
+    strategy: first.strategy,
+    secondarySource: list.find((c) => c.secondarySource)?.secondarySource,
+    secondaryError: list.find((c) => c.secondaryError)?.secondaryError,
+    expectedDays: expected,
+    receivedDays: list.reduce((acc, c) => acc + c.receivedDays, 0),
+    returnedDays: list.reduce((acc, c) => acc + c.returnedDays, 0),
+    droppedDays: list.flatMap((c) => c.droppedDays),
+    variables,
+  }
+}
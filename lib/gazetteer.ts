@@ -0,0 +1,180 @@
+// lib/gazetteer.ts
+import "server-only"
+import { readFileSync } from "fs"
+import path from "path"
+import { haversineKm } from "./geo"
+
+/**
+ * Nomenclátor offline de España: código postal -> municipio INE, centroide, provincia y altitud.
+ *
+ * Un CSV (separador ";") en GAZETTEER_PATH o data/gazetteer/es-postal-codes.csv, con cabecera:
+ *   postal_code;ine;municipio;provincia;latitude;longitude;altitude
+ * Una fila por par CP–municipio (un CP puede repartirse entre varios municipios y al revés);
+ * postal_code vacío = municipio sin CP (generado sin --postal): vale para el inverso y el INE.
+ * latitude/longitude/altitude son los del municipio (centroide IGN).
+ * Se genera con scripts/build-gazetteer.mjs (pnpm build:gazetteer).
+ *
+ * Sirve el geocoding por CP, el inverso (clic en el mapa) y el municipio AEMET, sin red.
+ * Sin CSV (o sin CP en él) falla con GazetteerError: no hay respaldo en línea.
+ */
+
+export type GazetteerMunicipio = {
+  ine: string // 5 dígitos (provincia + municipio)
+  municipio: string
+  provincia: string
+  latitude: number
+  longitude: number
+  altitude?: number
+  postalCodes: string[]
+}
+
+export type PostalCodeMatch = GazetteerMunicipio & {
+  postalCode: string
+  // otros municipios que comparten el CP (el primero es el principal)
+  others: Array<{ ine: string; municipio: string }>
+}
+
+export type ReverseMatch = GazetteerMunicipio & { distanceKm: number }
+
+export class GazetteerError extends Error {
+  constructor(
+    message: string,
+    public status = 500,
+  ) {
+    super(message)
+    this.name = "GazetteerError"
+  }
+}
+
+type Gazetteer = {
+  byPostalCode: Map<string, GazetteerMunicipio[]>
+  byIne: Map<string, GazetteerMunicipio>
+  municipios: GazetteerMunicipio[]
+}
+
+const GAZETTEER_PATH = process.env.GAZETTEER_PATH || path.join(process.cwd(), "data/gazetteer/es-postal-codes.csv")
+
+const gazetteerCache: { data: Gazetteer | null } =
+  (globalThis as any).__gazetteer_cache ?? ((globalThis as any).__gazetteer_cache = { data: null })
+
+// ---------- carga ----------
+function parseGazetteer(csv: string): Gazetteer {
+  const lines = csv.split(/\r?\n/).filter((l) => l.trim())
+  const header = (lines.shift() ?? "").split(";").map((h) => h.trim().toLowerCase())
+  const col = (name: string) => {
+    const i = header.indexOf(name)
+    if (i < 0) throw new GazetteerError(`Nomenclátor sin columna "${name}" (${GAZETTEER_PATH})`)
+    return i
+  }
+  const iCp = col("postal_code")
+  const iIne = col("ine")
+  const iMuni = col("municipio")
+  const iProv = col("provincia")
+  const iLat = col("latitude")
+  const iLon = col("longitude")
+  const iAlt = col("altitude")
+
+  const byPostalCode = new Map<string, GazetteerMunicipio[]>()
+  const byIne = new Map<string, GazetteerMunicipio>()
+
+  for (const line of lines) {
+    const f = line.split(";").map((x) => x.trim())
+    const cp = f[iCp]
+    const ine = f[iIne]
+    const latitude = Number(f[iLat])
+    const longitude = Number(f[iLon])
+    // postal_code vacío vale (municipio sin CP); uno mal formado, no
+    if (cp && !/^\d{5}$/.test(cp)) continue
+    if (!/^\d{5}$/.test(ine) || !Number.isFinite(latitude) || !Number.isFinite(longitude)) continue
+
+    let m = byIne.get(ine)
+    if (!m) {
+      const alt = f[iAlt] ? Number(f[iAlt]) : NaN
+      m = {
+        ine,
+        municipio: f[iMuni],
+        provincia: f[iProv],
+        latitude,
+        longitude,
+        altitude: Number.isFinite(alt) ? alt : undefined,
+        postalCodes: [],
+      }
+      byIne.set(ine, m)
+    }
+    if (!cp) continue
+    if (!m.postalCodes.includes(cp)) m.postalCodes.push(cp)
+
+    const list = byPostalCode.get(cp) ?? []
+    if (!list.includes(m)) list.push(m)
+    byPostalCode.set(cp, list)
+  }
+
+  return { byPostalCode, byIne, municipios: [...byIne.values()] }
+}
+
+function getGazetteer(): Gazetteer {
+  if (gazetteerCache.data) return gazetteerCache.data
+
+  let csv: string
+  try {
+    csv = readFileSync(GAZETTEER_PATH, "utf8")
+  } catch {
+    throw new GazetteerError(`No se encuentra el nomenclátor (${GAZETTEER_PATH}): genera uno con pnpm build:gazetteer`)
+  }
+
+  const data = parseGazetteer(csv)
+  if (!data.municipios.length) {
+    throw new GazetteerError(`El nomenclátor está vacío (${GAZETTEER_PATH}): genera uno con pnpm build:gazetteer`)
+  }
+
+  gazetteerCache.data = data
+  return data
+}
+
+// ---------- consultas ----------
+/**
+ * CP -> municipio principal (y los demás que comparten el CP). null si el CP no existe.
+ */
+export function lookupPostalCode(postalCode: string): PostalCodeMatch | null {
+  const cp = String(postalCode || "").trim()
+  const { byPostalCode } = getGazetteer()
+  if (!byPostalCode.size) {
+    throw new GazetteerError(
+      `El nomenclátor no trae códigos postales (${GAZETTEER_PATH}): ` +
+        "genéralo con pnpm build:gazetteer --postal ES.txt",
+      503,
+    )
+  }
+
+  const list = byPostalCode.get(cp)
+  if (!list?.length) return null
+
+  const [main, ...rest] = list
+  return { ...main, postalCode: cp, others: rest.map((m) => ({ ine: m.ine, municipio: m.municipio })) }
+}
+
+export function lookupIne(ine: string): GazetteerMunicipio | null {
+  return getGazetteer().byIne.get(String(ine || "").trim()) ?? null
+}
+
+/**
+ * (lat, lon) -> municipio con el centroide más cercano (sin polígonos: en lindes puede dar el vecino).
+ */
+export function reverseGeocode(lat: number, lon: number, opts: { maxKm?: number } = {}): ReverseMatch | null {
+  let best: ReverseMatch | null = null
+  for (const m of getGazetteer().municipios) {
+    const d = haversineKm(lat, lon, m.latitude, m.longitude)
+    if (!best || d < best.distanceKm) best = { ...m, distanceKm: d }
+  }
+  if (!best || (opts.maxKm !== undefined && best.distanceKm > opts.maxKm)) return null
+  return { ...best, distanceKm: Number(best.distanceKm.toFixed(2)) }
+}
+
+/**
+ * Código INE del municipio para la predicción AEMET (/prediccion/especifica/municipio/...).
+ */
+export function municipioIneForPostalCode(postalCode: string): string {
+  const match = lookupPostalCode(postalCode)
+  if (!match) throw new GazetteerError(`Código postal ${postalCode} no encontrado en el nomenclátor`, 404)
+  return match.ine
+}
@@ -1,4 +1,4 @@
-import type { ClimateData, ClimateRequest, ApiResponse } from "./types"
+import type { ClimateData, ClimateRequest, ApiResponse, DataSource } from "./types"
 
 export interface HourlyClimateData {
   datetime: string // ISO format with hour (YYYY-MM-DDTHH:mm:ss)
@@ -9,6 +9,9 @@ export interface HourlyClimateData {
   solar_radiation: number
   pressure?: number
   dew_point?: number
+
+  // Proveedor real de la hora (OPEN_METEO, NASA_POWER, ERA5)
+  provenance?: DataSource
 }
 
 export interface HourlyClimateRequest extends ClimateRequest {
@@ -36,6 +39,7 @@ export class HourlyDataService {
     startDate: string,
     endDate: string,
     maxHours?: number,
+    source: DataSource = "OPEN_METEO",
   ): Promise<ApiResponse<HourlyClimateData[]>> {
     try {
       const start = new Date(startDate)
@@ -63,15 +67,17 @@ export class HourlyDataService {
           longitude,
           startDate,
           endDate,
+          source,
           resolution: "hourly",
+          maxHours: requestLimit,
         }),
       })
 
+      const result = await response.json().catch(() => null)
       if (!response.ok) {
-        throw new Error(`Hourly API error: ${response.status}`)
+        throw new Error(result?.error || `Hourly API error: ${response.status}`)
       }
 
-      const result = await response.json()
       return result
     } catch (error) {
       return {
@@ -0,0 +1,233 @@
+// lib/hourly-providers.ts
+import "server-only"
+import type { ClimateRequest, DataSource } from "./types"
+import type { HourlyClimateData } from "./hourly-data-service"
+import { Era5Service } from "./weather-apis"
+
+/**
+ * Adaptadores horarios reales para /api/weather/hourly (sin datos simulados).
+ *
+ * Todos devuelven horas en UTC y las mismas unidades:
+ * - temperature / dew_point: °C
+ * - humidity: %
+ * - wind_speed: m/s (10 m en Open-Meteo/ERA5, 2 m en NASA POWER)
+ * - precipitation: mm en la hora
+ * - solar_radiation: W/m² (media de la hora)
+ * - pressure: hPa
+ *
+ * Un valor que el proveedor no da queda undefined (no 0), igual que en las series diarias.
+ */
+
+export const HOURLY_SOURCES = ["OPEN_METEO", "NASA_POWER", "ERA5"] as const
+export type HourlySource = (typeof HOURLY_SOURCES)[number]
+
+export function isHourlySource(s: unknown): s is HourlySource {
+  return HOURLY_SOURCES.includes(s as HourlySource)
+}
+
+type HourlyParams = {
+  latitude: number
+  longitude: number
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+}
+
+// ---------- utils ----------
+function finite(v: unknown, fillValue?: number): number | undefined {
+  if (v === null || v === undefined || v === "") return undefined
+  const n = Number(v)
+  if (!Number.isFinite(n)) return undefined
+  if (fillValue !== undefined && n === fillValue) return undefined
+  return n
+}
+
+function round(v: number | undefined, digits = 1): number | undefined {
+  return v === undefined ? undefined : Number(v.toFixed(digits))
+}
+
+function rhFromT_Td(Tc: number, Tdc: number) {
+  const es = 6.112 * Math.exp((17.67 * Tc) / (Tc + 243.5))
+  const e = 6.112 * Math.exp((17.67 * Tdc) / (Tdc + 243.5))
+  return Math.max(0, Math.min(100, (100 * e) / es))
+}
+
+function hourRow(
+  source: DataSource,
+  datetime: string,
+  v: Partial<Omit<HourlyClimateData, "datetime" | "provenance">>,
+): HourlyClimateData | null {
+  // sin temperatura la hora no sirve (horas frío, GDD, helada...)
+  if (v.temperature === undefined) return null
+
+  return {
+    datetime,
+    temperature: round(v.temperature)!,
+    humidity: round(v.humidity) as number,
+    wind_speed: round(v.wind_speed) as number,
+    precipitation: round(v.precipitation, 2) as number,
+    solar_radiation: round(v.solar_radiation) as number,
+    pressure: round(v.pressure),
+    dew_point: round(v.dew_point),
+    provenance: source,
+  }
+}
+
+// ---------- Open-Meteo ----------
+async function getOpenMeteoHourly(p: HourlyParams): Promise<HourlyClimateData[]> {
+  // mismo criterio que /api/weather/open-meteo: archive para pasado, forecast si el rango llega al futuro
+  const todayISO = new Date().toISOString().slice(0, 10)
+  const baseUrl =
+    p.endDate > todayISO ? "https://api.open-meteo.com/v1/forecast" : "https://archive-api.open-meteo.com/v1/archive"
+
+  const vars = [
+    "temperature_2m",
+    "relative_humidity_2m",
+    "dew_point_2m",
+    "precipitation",
+    "wind_speed_10m",
+    "shortwave_radiation",
+    "surface_pressure",
+  ]
+
+  const q = new URLSearchParams({
+    latitude: String(p.latitude),
+    longitude: String(p.longitude),
+    start_date: p.startDate,
+    end_date: p.endDate,
+    hourly: vars.join(","),
+    wind_speed_unit: "ms",
+    timezone: "UTC",
+  })
+
+  const res = await fetch(`${baseUrl}?${q}`, { cache: "no-store" })
+  const txt = await res.text().catch(() => "")
+  if (!res.ok) throw new Error(`Open-Meteo hourly error ${res.status}: ${txt.slice(0, 300)}`)
+
+  const h = (txt ? JSON.parse(txt) : {})?.hourly ?? {}
+  const time: string[] = Array.isArray(h.time) ? h.time : []
+
+  const out: HourlyClimateData[] = []
+  for (let i = 0; i < time.length; i++) {
+    const row = hourRow("OPEN_METEO", `${time[i]}:00Z`, {
+      temperature: finite(h.temperature_2m?.[i]),
+      humidity: finite(h.relative_humidity_2m?.[i]),
+      dew_point: finite(h.dew_point_2m?.[i]),
+      precipitation: finite(h.precipitation?.[i]),
+      wind_speed: finite(h.wind_speed_10m?.[i]),
+      solar_radiation: finite(h.shortwave_radiation?.[i]),
+      pressure: finite(h.surface_pressure?.[i]),
+    })
+    if (row) out.push(row)
+  }
+  return out
+}
+
+// ---------- NASA POWER ----------
+const NASA_HOURLY_EXPORT_PARAMS = ["T2M", "RH2M", "WS2M", "ALLSKY_SFC_SW_DWN"]
+
+/**
+ * Petición cruda a NASA POWER hourly (también la usa /api/export-hourly).
+ * Por defecto NASA devuelve hora solar local (LST); el endpoint horario pide UTC.
+ */
+export async function fetchNasaPowerHourly(params: {
+  latitude: number
+  longitude: number
+  startYYYYMMDD: string
+  endYYYYMMDD: string
+  parameters?: string[]
+  timeStandard?: "LST" | "UTC"
+}) {
+  const { latitude, longitude, startYYYYMMDD, endYYYYMMDD } = params
+
+  const url =
+    "https://power.larc.nasa.gov/api/temporal/hourly/point" +
+    `?parameters=${(params.parameters ?? NASA_HOURLY_EXPORT_PARAMS).join(",")}` +
+    `&community=AG` +
+    `&latitude=${encodeURIComponent(String(latitude))}` +
+    `&longitude=${encodeURIComponent(String(longitude))}` +
+    `&start=${encodeURIComponent(startYYYYMMDD)}` +
+    `&end=${encodeURIComponent(endYYYYMMDD)}` +
+    (params.timeStandard ? `&time-standard=${params.timeStandard}` : "") +
+    `&format=JSON`
+
+  const res = await fetch(url, { cache: "no-store" })
+  if (!res.ok) {
+    const txt = await res.text().catch(() => "")
+    throw new Error(`NASA POWER hourly error ${res.status}: ${txt}`)
+  }
+  return await res.json()
+}
+
+async function getNasaPowerHourly(p: HourlyParams): Promise<HourlyClimateData[]> {
+  const json = await fetchNasaPowerHourly({
+    latitude: p.latitude,
+    longitude: p.longitude,
+    startYYYYMMDD: p.startDate.replaceAll("-", ""),
+    endYYYYMMDD: p.endDate.replaceAll("-", ""),
+    parameters: ["T2M", "T2MDEW", "RH2M", "WS2M", "PRECTOTCORR", "ALLSKY_SFC_SW_DWN", "PS"],
+    timeStandard: "UTC",
+  })
+
+  const feature = Array.isArray(json?.features) ? json.features[0] : json
+  const fill = Number(json?.header?.fill_value ?? -999)
+  const P = feature?.properties?.parameter ?? {}
+
+  const out: HourlyClimateData[] = []
+  // claves "YYYYMMDDHH"
+  for (const k of Object.keys(P.T2M ?? {}).sort()) {
+    const datetime = `${k.slice(0, 4)}-${k.slice(4, 6)}-${k.slice(6, 8)}T${k.slice(8, 10)}:00:00Z`
+    const ps = finite(P.PS?.[k], fill)
+
+    const row = hourRow("NASA_POWER", datetime, {
+      temperature: finite(P.T2M?.[k], fill),
+      dew_point: finite(P.T2MDEW?.[k], fill),
+      humidity: finite(P.RH2M?.[k], fill),
+      wind_speed: finite(P.WS2M?.[k], fill),
+      precipitation: finite(P.PRECTOTCORR?.[k], fill), // mm/h
+      solar_radiation: finite(P.ALLSKY_SFC_SW_DWN?.[k], fill), // Wh/m² en la hora = W/m² medio
+      pressure: ps === undefined ? undefined : ps * 10, // kPa -> hPa
+    })
+    if (row) out.push(row)
+  }
+  return out
+}
+
+// ---------- ERA5 ----------
+async function getEra5Hourly(p: HourlyParams): Promise<HourlyClimateData[]> {
+  const request: ClimateRequest = { ...p, source: "ERA5" }
+  const rows = await new Era5Service().getHourlyRows(request)
+
+  const out: HourlyClimateData[] = []
+  for (const r of rows) {
+    const hasTd = Number.isFinite(r.Tdc)
+    const ws = Number.isFinite(r.u10) && Number.isFinite(r.v10) ? Math.hypot(r.u10, r.v10) : undefined
+
+    const row = hourRow("ERA5", r.time.endsWith("Z") ? r.time : `${r.time}Z`, {
+      temperature: r.Tc,
+      dew_point: hasTd ? r.Tdc : undefined,
+      humidity: hasTd ? rhFromT_Td(r.Tc, r.Tdc) : undefined,
+      wind_speed: ws,
+      precipitation: Number.isFinite(r.tpM) ? Math.max(0, r.tpM * 1000) : undefined, // m -> mm
+      solar_radiation: Number.isFinite(r.ssrdJ) ? Math.max(0, r.ssrdJ / 3600) : undefined, // J/m² en 1 h -> W/m²
+    })
+    if (row) out.push(row)
+  }
+
+  // ERA5 no siempre respeta el rango exacto (single-levels pide meses completos)
+  return out.filter((h) => {
+    const d = h.datetime.slice(0, 10)
+    return d >= p.startDate && d <= p.endDate
+  })
+}
+
+// ---------- API ----------
+export async function getHourlyClimateData(source: HourlySource, p: HourlyParams): Promise<HourlyClimateData[]> {
+  switch (source) {
+    case "OPEN_METEO":
+      return getOpenMeteoHourly(p)
+    case "NASA_POWER":
+      return getNasaPowerHourly(p)
+    case "ERA5":
+      return getEra5Hourly(p)
+  }
+}
@@ -0,0 +1,92 @@
+// lib/hourly-temperature.ts
+
+/**
+ * Reconstrucción de 24 temperaturas horarias a partir de Tmin/Tmax diarias (Linvill 1990, como chillR):
+ * - de la salida a la puesta del sol, media onda senoidal de Tmin a Tmax
+ * - de la puesta a la siguiente salida, caída logarítmica hasta la Tmin del día siguiente
+ * La salida y la puesta del sol dependen de la latitud y el día del año.
+ *
+ * Sirve para calcular con las fuentes diarias (NASA POWER, AEMET, SIAR, LOCAL_DB, ERA5 daily) los mismos
+ * índices horarios que con ERA5 horario / Open-Meteo: horas frío, horas de helada y modelos de frío.
+ *
+ * Módulo sin server-only: solo cálculo.
+ */
+
+export type DailyTemperature = { date: string; tmin: number; tmax: number } // date yyyy-mm-dd
+
+export type SunTimes = { sunrise: number; sunset: number; daylength: number } // horas solares
+
+// con la noche polar / el sol de medianoche la curva no tiene sentido: se acota la duración del día
+const MIN_DAYLENGTH_H = 1
+const MAX_DAYLENGTH_H = 23
+
+const DAY_MS = 86400000
+
+function dayOfYear(dateISO: string) {
+  const d = new Date(`${dateISO}T00:00:00Z`)
+  return Math.floor((d.getTime() - Date.UTC(d.getUTCFullYear(), 0, 1)) / DAY_MS) + 1
+}
+
+/**
+ * Salida / puesta del sol en hora solar (declinación con la aproximación de coseno, ±23.44°).
+ */
+export function sunTimes(latitude: number, doy: number): SunTimes {
+  const declination = -23.44 * Math.cos(((2 * Math.PI) / 365) * (doy + 10))
+  const rad = Math.PI / 180
+  const cosH = -Math.tan(latitude * rad) * Math.tan(declination * rad)
+  const halfDay = Math.acos(Math.max(-1, Math.min(1, cosH))) / rad / 15
+
+  const daylength = Math.max(MIN_DAYLENGTH_H, Math.min(MAX_DAYLENGTH_H, 2 * halfDay))
+  return { sunrise: 12 - daylength / 2, sunset: 12 + daylength / 2, daylength }
+}
+
+// temperatura a la puesta del sol (final de la onda diurna)
+function sunsetTemp(d: DailyTemperature, sun: SunTimes) {
+  return d.tmin + (d.tmax - d.tmin) * Math.sin((Math.PI * sun.daylength) / (sun.daylength + 4))
+}
+
+/**
+ * 24 valores por día (horas 0..23). La serie se ordena por fecha; si falta el día anterior o el siguiente
+ * (extremos o saltos de fechas) se usa el propio día.
+ */
+export function reconstructHourlyTemperatures(
+  days: DailyTemperature[],
+  latitude: number,
+): Array<{ date: string; hour: number; tempC: number }> {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date))
+  const lat = Number.isFinite(latitude) ? latitude : 0
+  const suns = sorted.map((d) => sunTimes(lat, dayOfYear(d.date)))
+  const isNextDay = (a: string, b: string) => Date.parse(b) - Date.parse(a) === DAY_MS
+
+  const out: Array<{ date: string; hour: number; tempC: number }> = []
+
+  sorted.forEach((d, i) => {
+    const sun = suns[i]
+    const hasPrev = i > 0 && isNextDay(sorted[i - 1].date, d.date)
+    const hasNext = i < sorted.length - 1 && isNextDay(d.date, sorted[i + 1].date)
+
+    const prev = hasPrev ? sorted[i - 1] : d
+    const prevSun = hasPrev ? suns[i - 1] : sun
+    const nextTmin = hasNext ? sorted[i + 1].tmin : d.tmin
+
+    const prevSunsetT = sunsetTemp(prev, prevSun)
+    const sunsetT = sunsetTemp(d, sun)
+
+    for (let h = 0; h < 24; h++) {
+      let t: number
+      if (h < sun.sunrise) {
+        // madrugada: sigue la caída nocturna que empezó en la puesta de ayer
+        const nightLen = 24 - prevSun.daylength
+        t = prevSunsetT - ((prevSunsetT - d.tmin) / Math.log(nightLen + 1)) * Math.log(h + 24 - prevSun.sunset + 1)
+      } else if (h <= sun.sunset) {
+        t = d.tmin + (d.tmax - d.tmin) * Math.sin((Math.PI * (h - sun.sunrise)) / (sun.daylength + 4))
+      } else {
+        const nightLen = 24 - sun.daylength
+        t = sunsetT - ((sunsetT - nextTmin) / Math.log(nightLen + 1)) * Math.log(h - sun.sunset + 1)
+      }
+      out.push({ date: d.date, hour: h, tempC: Number(t.toFixed(2)) })
+    }
+  })
+
+  return out
+}
@@ -0,0 +1,230 @@
+// lib/local-db.ts
+import "server-only"
+import type { ClimateData } from "./types"
+import { getDB, type DatoDiario, type Estacion } from "./database"
+import { haversineKm } from "./geo"
+
+/**
+ * Series diarias desde las bases locales (tablas `estaciones` / `diarios`, lib/database.ts).
+ *
+ * - LOCAL_DB_DATABASE: PowerNasa | era5 | siar (por defecto siar, que son estaciones reales)
+ * - LOCAL_DB_STATIONS: k estaciones más cercanas (1 = la más cercana, sin interpolar)
+ * - LOCAL_DB_MAX_KM: descarta estaciones más lejanas
+ *
+ * Con k > 1 cada variable se interpola por distancia inversa (IDW, potencia 2)
+ * usando solo las estaciones que tienen ese dato ese día.
+ */
+
+export type LocalDbName = "PowerNasa" | "era5" | "siar"
+
+export type LocalStation = Estacion & { distanceKm: number }
+
+export class LocalDbError extends Error {
+  constructor(
+    message: string,
+    public status = 502,
+  ) {
+    super(message)
+    this.name = "LocalDbError"
+  }
+}
+
+const LOCAL_DB_NAMES: LocalDbName[] = ["PowerNasa", "era5", "siar"]
+
+const DEFAULT_DB: LocalDbName = LOCAL_DB_NAMES.includes(process.env.LOCAL_DB_DATABASE as LocalDbName)
+  ? (process.env.LOCAL_DB_DATABASE as LocalDbName)
+  : "siar"
+const DEFAULT_STATIONS = Math.max(1, Number(process.env.LOCAL_DB_STATIONS) || 1)
+const MAX_STATION_KM = Number(process.env.LOCAL_DB_MAX_KM) || 50
+
+// una estación "encima" del punto se usa tal cual (evita pesos infinitos)
+const SAME_POINT_KM = 0.05
+const IDW_POWER = 2
+
+const STATIONS_CACHE_TTL_MS = 60 * 60 * 1000
+const stationsCache: Record<string, { ts: number; data: Estacion[] }> =
+  (globalThis as any).__local_db_stations_cache ?? ((globalThis as any).__local_db_stations_cache = {})
+
+// ---------- utils ----------
+function num(v: unknown): number | undefined {
+  if (v === null || v === undefined || v === "") return undefined
+  const n = Number(v)
+  return Number.isFinite(n) ? n : undefined
+}
+
+function isoDate(v: unknown): string {
+  // neon devuelve DATE como string "YYYY-MM-DD" o como Date
+  if (v instanceof Date) return v.toISOString().slice(0, 10)
+  return String(v ?? "").slice(0, 10)
+}
+
+// ---------- estaciones ----------
+export async function getLocalStations(db: LocalDbName = DEFAULT_DB): Promise<Estacion[]> {
+  const now = Date.now()
+  const hit = stationsCache[db]
+  if (hit && now - hit.ts < STATIONS_CACHE_TTL_MS) return hit.data
+
+  const sql = getDB(db)
+  const rows = await sql`
+    SELECT id, nombre, latitud, longitud, altitud, provincia, fuente
+    FROM estaciones
+    WHERE latitud IS NOT NULL AND longitud IS NOT NULL
+  `
+
+  const data: Estacion[] = rows
+    .map((r: any) => ({
+      id: Number(r.id),
+      nombre: String(r.nombre ?? r.id),
+      latitud: Number(r.latitud),
+      longitud: Number(r.longitud),
+      altitud: num(r.altitud),
+      provincia: r.provincia ?? undefined,
+      fuente: r.fuente ?? undefined,
+    }))
+    .filter((s: Estacion) => Number.isFinite(s.latitud) && Number.isFinite(s.longitud))
+
+  stationsCache[db] = { ts: now, data }
+  return data
+}
+
+export async function nearestLocalStations(
+  lat: number,
+  lon: number,
+  opts: { db?: LocalDbName; k?: number; maxKm?: number } = {},
+): Promise<LocalStation[]> {
+  const stations = await getLocalStations(opts.db)
+  const maxKm = opts.maxKm ?? MAX_STATION_KM
+
+  return stations
+    .map((s) => ({ ...s, distanceKm: Number(haversineKm(lat, lon, s.latitud, s.longitud).toFixed(2)) }))
+    .filter((s) => s.distanceKm <= maxKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, opts.k ?? DEFAULT_STATIONS)
+}
+
+// ---------- datos diarios ----------
+async function getDiarios(db: LocalDbName, stationIds: number[], startISO: string, endISO: string) {
+  const sql = getDB(db)
+  const rows = await sql`
+    SELECT estacion_id, fecha, temp_media, temp_maxima, temp_minima, precipitacion,
+           humedad_media, radiacion_solar, eto, viento_velocidad
+    FROM diarios
+    WHERE estacion_id = ANY(${stationIds}::int[])
+      AND fecha BETWEEN ${startISO}::date AND ${endISO}::date
+    ORDER BY fecha
+  `
+  return rows as DatoDiario[]
+}
+
+/**
+ * DatoDiario -> ClimateData (huecos como undefined, ver lib/gap-filling.ts).
+ * radiacion_solar se deja en las unidades de la tabla (MJ/m²/día en las cargas de SIAR).
+ */
+export function mapDatoDiario(d: DatoDiario): ClimateData {
+  const tmax = num(d.temp_maxima)
+  const tmin = num(d.temp_minima)
+  const tavg = num(d.temp_media) ?? (tmax !== undefined && tmin !== undefined ? (tmax + tmin) / 2 : undefined)
+
+  return {
+    date: isoDate(d.fecha),
+    temperature_max: tmax as number,
+    temperature_min: tmin as number,
+    temperature_avg: tavg as number,
+    humidity: num(d.humedad_media),
+    precipitation: num(d.precipitacion),
+    wind_speed: num(d.viento_velocidad),
+    solar_radiation: num(d.radiacion_solar),
+    eto: num(d.eto),
+    etc: undefined,
+    computedChillHeat: false,
+    computedFromHourly: false,
+  }
+}
+
+const IDW_FIELDS = [
+  "temperature_max",
+  "temperature_min",
+  "temperature_avg",
+  "humidity",
+  "precipitation",
+  "wind_speed",
+  "solar_radiation",
+  "eto",
+] as const
+
+function idwDay(date: string, samples: Array<{ day: ClimateData; distanceKm: number }>): ClimateData {
+  const out = { date, etc: undefined, computedChillHeat: false, computedFromHourly: false } as ClimateData
+
+  for (const field of IDW_FIELDS) {
+    let wSum = 0
+    let vSum = 0
+    for (const { day, distanceKm } of samples) {
+      const v = day[field]
+      if (v === undefined || !Number.isFinite(v)) continue
+      if (distanceKm <= SAME_POINT_KM) {
+        wSum = 1
+        vSum = v
+        break
+      }
+      const w = 1 / Math.pow(distanceKm, IDW_POWER)
+      wSum += w
+      vSum += w * v
+    }
+    ;(out as any)[field] = wSum > 0 ? Number((vSum / wSum).toFixed(2)) : undefined
+  }
+
+  return out
+}
+
+/**
+ * Serie diaria en (lat, lon): estación más cercana, o IDW de las k más cercanas.
+ */
+export async function getLocalDbClimateData(
+  lat: number,
+  lon: number,
+  startISO: string,
+  endISO: string,
+  opts: { db?: LocalDbName; k?: number; maxKm?: number } = {},
+): Promise<{ db: LocalDbName; stations: LocalStation[]; method: "nearest" | "idw"; data: ClimateData[] }> {
+  const db = opts.db ?? DEFAULT_DB
+  const stations = await nearestLocalStations(lat, lon, { ...opts, db })
+  if (!stations.length) {
+    throw new LocalDbError(
+      `No hay estaciones en la base local "${db}" a menos de ${opts.maxKm ?? MAX_STATION_KM} km de (${lat}, ${lon})`,
+      404,
+    )
+  }
+
+  const rows = await getDiarios(db, stations.map((s) => s.id), startISO, endISO)
+
+  const byStation = new Map<number, ClimateData[]>()
+  for (const r of rows) {
+    const id = Number(r.estacion_id)
+    if (!byStation.has(id)) byStation.set(id, [])
+    byStation.get(id)!.push(mapDatoDiario(r))
+  }
+
+  // solo cuentan las estaciones con datos en el rango
+  const used = stations.filter((s) => byStation.get(s.id)?.length)
+  if (!used.length) {
+    throw new LocalDbError(
+      `Las estaciones locales cercanas (${stations.map((s) => s.nombre).join(", ")}) no tienen datos en ${startISO} → ${endISO}`,
+      404,
+    )
+  }
+
+  if (used.length === 1) {
+    return { db, stations: used, method: "nearest", data: byStation.get(used[0].id)! }
+  }
+
+  const byDate = new Map<string, Array<{ day: ClimateData; distanceKm: number }>>()
+  for (const s of used) {
+    for (const day of byStation.get(s.id)!) {
+      if (!byDate.has(day.date)) byDate.set(day.date, [])
+      byDate.get(day.date)!.push({ day, distanceKm: s.distanceKm })
+    }
+  }
+
+  const data = [...byDate.keys()].sort().map((date) => idwDay(date, byDate.get(date)!))
+  return { db, stations: used, method: "idw", data }
+}
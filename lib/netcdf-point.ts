@@ -0,0 +1,141 @@
+// lib/netcdf-point.ts
+import { NetCDFReader } from "netcdfjs"
+
+/**
+ * Lectura de series temporales de UN punto desde un NetCDF (classic / 64-bit offset).
+ * Pensado para las descargas de CDS (ERA5): variables [time, lat, lon] (+ dims extra de tamaño 1).
+ *
+ * Ojo: netcdfjs NO lee NetCDF4/HDF5. Para eso hay que pedir a CDS "netcdf_legacy" o CSV.
+ */
+
+export type PointSeries = {
+  times: Date[]
+  values: Record<string, Array<number | null>>
+  gridLat?: number
+  gridLon?: number
+}
+
+const TIME_NAMES = ["valid_time", "time", "date"]
+const LAT_NAMES = ["latitude", "lat"]
+const LON_NAMES = ["longitude", "lon"]
+
+const UNIT_MS: Record<string, number> = {
+  seconds: 1000,
+  second: 1000,
+  minutes: 60000,
+  minute: 60000,
+  hours: 3600000,
+  hour: 3600000,
+  days: 86400000,
+  day: 86400000,
+}
+
+export function isNetcdfClassic(buf: Uint8Array) {
+  // "CDF" + versión 1 (classic) o 2 (64-bit offset)
+  return buf.length > 4 && buf[0] === 0x43 && buf[1] === 0x44 && buf[2] === 0x46 && (buf[3] === 1 || buf[3] === 2)
+}
+
+export function isHdf5(buf: Uint8Array) {
+  return buf.length > 4 && buf[0] === 0x89 && buf[1] === 0x48 && buf[2] === 0x44 && buf[3] === 0x46
+}
+
+function attr(variable: any, name: string): any {
+  return (variable?.attributes as any[])?.find((a) => a?.name === name)?.value
+}
+
+function flat(data: any[]): number[] {
+  return (data as any[]).flat(Infinity).map(Number)
+}
+
+function decodeTimes(raw: number[], units: string): Date[] {
+  // "hours since 1900-01-01 00:00:00.0" / "seconds since 1970-01-01"
+  const m = /^\s*(\w+)\s+since\s+(.+)$/i.exec(String(units || ""))
+  if (!m) throw new Error(`NetCDF: unidades de tiempo no reconocidas (${units})`)
+
+  const step = UNIT_MS[m[1].toLowerCase()]
+  if (!step) throw new Error(`NetCDF: unidad de tiempo no soportada (${m[1]})`)
+
+  const ref = m[2].trim().replace(" ", "T").replace(/\.0+$/, "")
+  const base = Date.parse(/[zZ]|[+-]\d\d:?\d\d$/.test(ref) ? ref : `${ref}Z`)
+  if (!Number.isFinite(base)) throw new Error(`NetCDF: fecha de referencia inválida (${m[2]})`)
+
+  return raw.map((v) => new Date(base + v * step))
+}
+
+function nearestIndex(axis: number[], target: number) {
+  let best = 0
+  for (let i = 1; i < axis.length; i++) {
+    if (Math.abs(axis[i] - target) < Math.abs(axis[best] - target)) best = i
+  }
+  return best
+}
+
+/**
+ * Extrae las variables pedidas en la celda más cercana a (lat, lon).
+ * Aplica scale_factor/add_offset y convierte _FillValue/missing_value a null.
+ */
+export function readNetcdfPointSeries(
+  data: ArrayBuffer | Uint8Array,
+  lat: number,
+  lon: number,
+  variableNames: string[],
+): PointSeries {
+  const reader = new NetCDFReader(data as any)
+  const dims = reader.dimensions
+  const vars = reader.variables as any[]
+
+  const findVar = (names: string[]) => vars.find((v) => names.includes(String(v.name).toLowerCase()))
+
+  const timeVar = findVar(TIME_NAMES)
+  if (!timeVar) throw new Error("NetCDF: no hay variable de tiempo")
+  const times = decodeTimes(flat(reader.getDataVariable(timeVar)), attr(timeVar, "units"))
+
+  const latVar = findVar(LAT_NAMES)
+  const lonVar = findVar(LON_NAMES)
+  const lats = latVar ? flat(reader.getDataVariable(latVar)) : []
+  const lons = lonVar ? flat(reader.getDataVariable(lonVar)) : []
+
+  // ERA5 puede venir en 0..360
+  const lonTarget = lons.some((x) => x > 180) && lon < 0 ? lon + 360 : lon
+  const iLat = lats.length ? nearestIndex(lats, lat) : 0
+  const iLon = lons.length ? nearestIndex(lons, lonTarget) : 0
+
+  const values: PointSeries["values"] = {}
+
+  for (const name of variableNames) {
+    const v = vars.find((x) => x.name === name)
+    if (!v) continue
+
+    const dimNames: string[] = v.dimensions.map((d: number) => String(dims[d]?.name).toLowerCase())
+    const sizes: number[] = v.dimensions.map((d: number) => dims[d]?.size ?? 1)
+    const tPos = dimNames.findIndex((d) => TIME_NAMES.includes(d))
+    const latPos = dimNames.findIndex((d) => LAT_NAMES.includes(d))
+    const lonPos = dimNames.findIndex((d) => LON_NAMES.includes(d))
+
+    // En variables "record" la dimensión de tiempo tiene tamaño 0 en la cabecera
+    if (tPos >= 0 && sizes[tPos] === 0) sizes[tPos] = times.length
+
+    // strides row-major
+    const strides = sizes.map((_, i) => sizes.slice(i + 1).reduce((a, b) => a * b, 1))
+
+    const raw = flat(reader.getDataVariable(v))
+    const scale = Number(attr(v, "scale_factor") ?? 1)
+    const offset = Number(attr(v, "add_offset") ?? 0)
+    const fill = attr(v, "_FillValue")
+    const missing = attr(v, "missing_value")
+
+    const fixedOffset =
+      (latPos >= 0 ? iLat * strides[latPos] : 0) + (lonPos >= 0 ? iLon * strides[lonPos] : 0)
+
+    values[name] = times.map((_, t) => {
+      const idx = fixedOffset + (tPos >= 0 ? t * strides[tPos] : 0)
+      const x = raw[idx]
+      if (!Number.isFinite(x) || (fill != null && x === Number(fill)) || (missing != null && x === Number(missing))) {
+        return null
+      }
+      return x * scale + offset
+    })
+  }
+
+  return { times, values, gridLat: lats[iLat], gridLon: lons[iLon] }
+}
@@ -0,0 +1,37 @@
+// lib/parcel.ts
+
+/**
+ * Datos de la finca a partir de un clic en el mapa (/api/geocode/parcel):
+ * municipio/provincia/CP del nomenclátor (lib/gazetteer.ts) y estaciones SIAR / AEMET más cercanas.
+ *
+ * Módulo sin server-only: el formulario y los informes usan el tipo y la etiqueta.
+ */
+
+export type ParcelStation = { id: string; name: string; distanceKm: number }
+
+export type ParcelInfo = {
+  latitude: number
+  longitude: number
+  ine: string
+  municipio: string
+  provincia: string
+  postalCode?: string // el primero del municipio (las ciudades grandes tienen varios)
+  postalCodes: string[]
+  altitude?: number // del núcleo principal, no de la parcela
+  siarStation: ParcelStation | null
+  aemetStation: ParcelStation | null
+}
+
+/**
+ * "Finca en Tomelloso (Ciudad Real)"; sin municipio, las coordenadas.
+ */
+export function formatParcelLabel(
+  parcel: Pick<ParcelInfo, "municipio" | "provincia"> | null | undefined,
+  coords?: { lat: number; lon: number },
+): string {
+  if (parcel?.municipio) {
+    const prov = parcel.provincia && parcel.provincia !== parcel.municipio ? ` (${parcel.provincia})` : ""
+    return `Finca en ${parcel.municipio}${prov}`
+  }
+  return coords ? `${coords.lat.toFixed(4)}, ${coords.lon.toFixed(4)}` : ""
+}
@@ -8,6 +8,10 @@ export interface PistachioVariety {
   // Requerimientos climáticos
   chillHoursMin: number
   chillHoursMax: number
+  // Mismo requerimiento en porciones de frío (Modelo Dinámico), orientativo.
+  // El motor lo usa en lugar de las horas cuando la serie trae temperaturas horarias.
+  chillPortionsMin?: number
+  chillPortionsMax?: number
   heatTolerance: number // 1-10 scale
   droughtTolerance: number // 1-10 scale
   frostTolerance: number // 1-10 scale
@@ -58,6 +62,8 @@ export const PISTACHIO_VARIETIES: PistachioVariety[] = [
     type: "female",
     chillHoursMin: 800,
     chillHoursMax: 1200,
+    chillPortionsMin: 55,
+    chillPortionsMax: 75,
     heatTolerance: 8,
     droughtTolerance: 9,
     frostTolerance: 6,
@@ -97,6 +103,8 @@ export const PISTACHIO_VARIETIES: PistachioVariety[] = [
     type: "male",
     chillHoursMin: 700,
     chillHoursMax: 1100,
+    chillPortionsMin: 50,
+    chillPortionsMax: 70,
     heatTolerance: 8,
     droughtTolerance: 8,
     frostTolerance: 7,
@@ -136,6 +144,8 @@ export const PISTACHIO_VARIETIES: PistachioVariety[] = [
     type: "female",
     chillHoursMin: 600,
     chillHoursMax: 1000,
+    chillPortionsMin: 45,
+    chillPortionsMax: 65,
     heatTolerance: 9,
     droughtTolerance: 8,
     frostTolerance: 5,
@@ -175,6 +185,8 @@ export const PISTACHIO_VARIETIES: PistachioVariety[] = [
     type: "female",
     chillHoursMin: 500,
     chillHoursMax: 900,
+    chillPortionsMin: 38,
+    chillPortionsMax: 58,
     heatTolerance: 9,
     droughtTolerance: 9,
     frostTolerance: 4,
@@ -214,6 +226,8 @@ export const PISTACHIO_VARIETIES: PistachioVariety[] = [
     type: "female",
     chillHoursMin: 700,
     chillHoursMax: 1100,
+    chillPortionsMin: 50,
+    chillPortionsMax: 70,
     heatTolerance: 7,
     droughtTolerance: 8,
     frostTolerance: 7,
@@ -253,6 +267,8 @@ export const PISTACHIO_VARIETIES: PistachioVariety[] = [
     type: "male",
     chillHoursMin: 750,
     chillHoursMax: 1150,
+    chillPortionsMin: 52,
+    chillPortionsMax: 72,
     heatTolerance: 8,
     droughtTolerance: 8,
     frostTolerance: 8,
@@ -0,0 +1,92 @@
+// lib/providers/aemet.ts
+import { AemetService } from "../weather-apis"
+import { AemetError, getAemetClimatologyData } from "../aemet-climatology"
+import { lookupPostalCode } from "../gazetteer"
+import type { ClimateRequest } from "../types"
+import type { WeatherProvider } from "./types"
+
+/**
+ * Fechas pasadas: valores climatológicos diarios de la estación más cercana (lib/aemet-climatology.ts).
+ */
+async function getClimatology(request: ClimateRequest) {
+  let lat = request.latitude
+  let lon = request.longitude
+  if (typeof lat !== "number" || typeof lon !== "number") {
+    const cp = String(request.postalCode || "").trim()
+    if (!/^\d{5}$/.test(cp)) throw new AemetError("Faltan coordenadas o código postal (5 dígitos)", 400)
+    const match = lookupPostalCode(cp)
+    if (!match) throw new AemetError(`Código postal ${cp} no encontrado en el nomenclátor`, 404)
+    lat = match.latitude
+    lon = match.longitude
+  }
+
+  const { station, tried, data } = await getAemetClimatologyData(lat, lon, request.startDate!, request.endDate!)
+
+  return {
+    success: true,
+    source: "AEMET" as const,
+    data,
+    debug: {
+      aemet: {
+        mode: "climatologia",
+        station: {
+          indicativo: station.indicativo,
+          nombre: station.nombre,
+          provincia: station.provincia,
+          altitud: station.altitud,
+          distanceKm: station.distanceKm,
+        },
+        tried,
+        days: data.length,
+      },
+    },
+  }
+}
+
+export const aemetProvider: WeatherProvider = {
+  descriptor: {
+    id: "AEMET",
+    name: "AEMET",
+    description: "Agencia Estatal de Meteorología de España (previsión y series climatológicas)",
+    database: "aemet",
+    features: ["Temperatura", "Precipitación", "Viento", "Humedad"],
+    resolution: "Diaria (estación)",
+    coverage: "España",
+    enabled: true,
+    color: "bg-orange-500",
+    capabilities: {
+      coordinates: true,
+      postalCode: true,
+      daily: true,
+      hourly: false,
+      // la climatología se trocea dentro de lib/aemet-climatology.ts
+      maxRangeDays: 366 * 25,
+      historic20y: true,
+      // solo se guardan días pasados (la previsión cae dentro de CLIMATE_CACHE_RECENT_DAYS)
+      cacheable: true,
+      asyncJobs: false,
+      windHeightM: 10, // velmedia de las estaciones (anemómetro a 10 m)
+      forecastDays: 7,
+    },
+    units: { wind_speed: "m/s", solar_radiation: "MJ/m2/day" }, // la previsión declara km/h en su respuesta
+  },
+  getClimateData: async (request, ctx) => {
+    const today = new Date().toISOString().slice(0, 10)
+
+    // ✅ desde hoy: previsión por municipio (/api/weather/aemet)
+    if (!request.startDate || request.startDate >= today) return new AemetService(ctx.origin).getClimateData(request)
+
+    try {
+      // la climatología llega como mucho hasta ayer (y con unos días de retraso): se recorta el final
+      const yesterday = new Date(Date.now() - 86400000).toISOString().slice(0, 10)
+      const endDate = request.endDate && request.endDate < today ? request.endDate : yesterday
+      return await getClimatology({ ...request, endDate })
+    } catch (error) {
+      return {
+        success: false,
+        source: "AEMET",
+        error: error instanceof Error ? error.message : "Error consultando la climatología de AEMET",
+      }
+    }
+  },
+}
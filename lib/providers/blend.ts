@@ -0,0 +1,71 @@
+// lib/providers/blend.ts
+import type { ApiResponse, ClimateData, DataSource } from "../types"
+import { blendClimateSeries, blendSources, resolveBlendPriority } from "../blend"
+import type { WeatherProvider } from "./types"
+import { getProvider } from "./index"
+import { fetchWithCache } from "../climate-cache"
+
+export const blendProvider: WeatherProvider = {
+  descriptor: {
+    id: "BLEND",
+    name: "MEZCLA",
+    description: "Serie combinada: cada variable sale del proveedor prioritario con dato válido ese día.",
+    database: "blend",
+    features: ["Prioridad por variable", "Procedencia por campo", "Sin huecos entre fuentes"],
+    resolution: "Diaria",
+    coverage: "Según fuentes combinadas",
+    enabled: true,
+    color: "bg-violet-500",
+    capabilities: {
+      coordinates: true,
+      postalCode: false,
+      daily: true,
+      hourly: false,
+      maxRangeDays: 730,
+      historic20y: true,
+      cacheable: false,
+      asyncJobs: false,
+    },
+    units: { wind_speed: "m/s", solar_radiation: "MJ/m2/day" }, // mezcla salidas ya canónicas
+  },
+
+  getClimateData: async (request, ctx) => {
+    const priority = resolveBlendPriority(request.blend)
+
+    // Solo proveedores por coordenadas (AEMET entra con su serie climatológica si se pide)
+    const sources = blendSources(priority).filter((s) => getProvider(s)?.descriptor.capabilities.coordinates)
+
+    // Cada proveedor se consulta UNA vez aunque aparezca en varias variables
+    const results = await Promise.all(
+      sources.map(async (s): Promise<{ source: DataSource; res: ApiResponse<ClimateData[]> }> => {
+        try {
+          const res = await fetchWithCache(getProvider(s)!, { ...request, source: s }, ctx)
+          return { source: s, res }
+        } catch (e: any) {
+          return { source: s, res: { success: false, source: s, error: e?.message ?? "Unknown error" } }
+        }
+      }),
+    )
+
+    const series: Partial<Record<DataSource, ClimateData[]>> = {}
+    const perSource: Record<string, { ok: boolean; days: number; error?: string }> = {}
+
+    for (const { source, res } of results) {
+      const rows = res.success && Array.isArray(res.data) ? (res.data as ClimateData[]) : []
+      if (rows.length) series[source] = rows
+      perSource[source] = { ok: !!res.success, days: rows.length, error: res.success ? undefined : res.error }
+    }
+
+    const data = blendClimateSeries(series, priority)
+    if (!data.length) {
+      return {
+        success: false,
+        source: "BLEND",
+        error: "Ninguna fuente devolvió temperatura para el rango solicitado",
+        debug: { blend: { priority, sources: perSource } },
+      }
+    }
+
+    return { success: true, source: "BLEND", data, debug: { blend: { priority, sources: perSource } } }
+  },
+}
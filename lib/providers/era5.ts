@@ -0,0 +1,32 @@
+// lib/providers/era5.ts
+import { Era5Service } from "../weather-apis"
+import type { WeatherProvider } from "./types"
+
+export const era5Provider: WeatherProvider = {
+  descriptor: {
+    id: "ERA5",
+    name: "ERA5",
+    description: "Reanálisis Copernicus (alta resolución)",
+    database: "era5",
+    features: ["Temperatura", "Presión", "Humedad", "Viento", "Radiación"],
+    resolution: "Horaria",
+    coverage: "Global",
+    enabled: false,
+    color: "bg-purple-500",
+    capabilities: {
+      coordinates: true,
+      postalCode: false,
+      daily: true,
+      hourly: true,
+      // con CDS_ERA5_DAILY_DATASET, Era5Service pasa a "daily statistics" por encima de 730 días
+      maxRangeDays: process.env.CDS_ERA5_DAILY_DATASET ? 366 * 25 : 730,
+      historic20y: true,
+      cacheable: true,
+      asyncJobs: true,
+      gridCellDeg: { lat: 0.25, lon: 0.25 },
+      windHeightM: 10, // u10/v10
+    },
+    units: { wind_speed: "m/s", solar_radiation: "kWh/m2/day" },
+  },
+  getClimateData: (request, ctx) => new Era5Service({ onProgress: ctx.onProgress }).getClimateData(request),
+}
@@ -0,0 +1,57 @@
+// lib/providers/index.ts
+import "server-only"
+import type { DataSource } from "../types"
+import type { ProviderDescriptor, WeatherProvider } from "./types"
+import { siarProvider } from "./siar"
+import { aemetProvider } from "./aemet"
+import { nasaPowerProvider } from "./nasa-power"
+import { openMeteoProvider } from "./open-meteo"
+import { era5Provider } from "./era5"
+import { localDbProvider } from "./local-db"
+import { blendProvider } from "./blend"
+
+export type {
+  ProviderCapabilities,
+  ProviderContext,
+  ProviderDescriptor,
+  ProviderProgress,
+  WeatherProvider,
+} from "./types"
+
+// Orden = orden en el que se muestran en la UI
+const PROVIDERS: WeatherProvider[] = [
+  siarProvider,
+  aemetProvider,
+  nasaPowerProvider,
+  openMeteoProvider,
+  era5Provider,
+  localDbProvider,
+  blendProvider,
+]
+
+const registry = new Map<string, WeatherProvider>(PROVIDERS.map((p) => [p.descriptor.id, p]))
+
+/**
+ * Permite añadir proveedores en runtime (tests, integraciones opcionales).
+ * Si el id ya existe, lo sustituye.
+ */
+export function registerProvider(provider: WeatherProvider) {
+  registry.set(provider.descriptor.id, provider)
+}
+
+export function getProvider(id: DataSource | string | undefined): WeatherProvider | undefined {
+  if (!id) return undefined
+  return registry.get(String(id))
+}
+
+export function listProviders(): WeatherProvider[] {
+  return [...registry.values()]
+}
+
+export function listProviderDescriptors(): ProviderDescriptor[] {
+  return listProviders().map((p) => p.descriptor)
+}
+
+export function getEnabledProviders(): WeatherProvider[] {
+  return listProviders().filter((p) => p.descriptor.enabled)
+}
@@ -0,0 +1,64 @@
+// lib/providers/local-db.ts
+import { getLocalDbClimateData, LocalDbError } from "../local-db"
+import type { WeatherProvider } from "./types"
+
+export const localDbProvider: WeatherProvider = {
+  descriptor: {
+    id: "LOCAL_DB",
+    name: "Estaciones (BD local)",
+    description: "Estaciones de la base de datos local (más cercana o IDW)",
+    database: process.env.LOCAL_DB_DATABASE || "siar",
+    features: ["Temperatura", "Humedad", "Precipitación", "Radiación", "ETo"],
+    resolution: "Diaria (estación)",
+    coverage: "Estaciones cargadas",
+    enabled: true,
+    color: "bg-slate-500",
+    capabilities: {
+      coordinates: true,
+      postalCode: false,
+      daily: true,
+      hourly: false,
+      maxRangeDays: 366 * 25,
+      historic20y: true,
+      // ya es local: no tiene sentido duplicarla en lib/climate-cache.ts
+      cacheable: false,
+      asyncJobs: false,
+    },
+    units: { wind_speed: "m/s", solar_radiation: "MJ/m2/day" }, // cargas de SIAR
+  },
+  getClimateData: async (request) => {
+    try {
+      if (typeof request.latitude !== "number" || typeof request.longitude !== "number") {
+        throw new LocalDbError("Faltan coordenadas (latitude/longitude)", 400)
+      }
+
+      const { db, stations, method, data } = await getLocalDbClimateData(
+        request.latitude,
+        request.longitude,
+        request.startDate!,
+        request.endDate!,
+        { k: request.stations },
+      )
+
+      return {
+        success: true,
+        source: "LOCAL_DB",
+        data,
+        debug: {
+          localDb: {
+            database: db,
+            method,
+            stations: stations.map((s) => ({ id: s.id, nombre: s.nombre, distanceKm: s.distanceKm })),
+            days: data.length,
+          },
+        },
+      }
+    } catch (error) {
+      return {
+        success: false,
+        source: "LOCAL_DB",
+        error: error instanceof Error ? error.message : "Error consultando la base de datos local",
+      }
+    }
+  },
+}
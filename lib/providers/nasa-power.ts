@@ -0,0 +1,30 @@
+// lib/providers/nasa-power.ts
+import { NasaPowerService } from "../weather-apis"
+import type { WeatherProvider } from "./types"
+
+export const nasaPowerProvider: WeatherProvider = {
+  descriptor: {
+    id: "NASA_POWER",
+    name: "NASA POWER",
+    description: "Datos globales de NASA",
+    database: "PowerNasa",
+    features: ["Temperatura", "Radiación Solar", "Precipitación", "Viento", "Evapotranspiración"],
+    resolution: "Diaria",
+    coverage: "Global",
+    enabled: true,
+    color: "bg-green-500",
+    capabilities: {
+      coordinates: true,
+      postalCode: false,
+      daily: true,
+      hourly: false,
+      maxRangeDays: 730,
+      historic20y: true,
+      cacheable: true,
+      asyncJobs: false,
+      gridCellDeg: { lat: 0.5, lon: 0.625 },
+    },
+    units: { wind_speed: "m/s", solar_radiation: "MJ/m2/day" }, // community=AG
+  },
+  getClimateData: (request) => new NasaPowerService().getClimateData(request),
+}
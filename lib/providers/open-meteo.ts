@@ -0,0 +1,30 @@
+// lib/providers/open-meteo.ts
+import { OpenMeteoService } from "../weather-apis"
+import type { WeatherProvider } from "./types"
+
+export const openMeteoProvider: WeatherProvider = {
+  descriptor: {
+    id: "OPEN_METEO",
+    name: "OPEN METEO",
+    description: "Open-Meteo Archive (histórico global). Similar a NASA POWER.",
+    database: "open_meteo",
+    features: ["Temperatura", "Precipitación", "ETo FAO-56"],
+    resolution: "Diaria / Horaria",
+    coverage: "Global",
+    enabled: true,
+    color: "bg-cyan-500",
+    capabilities: {
+      coordinates: true,
+      postalCode: false,
+      daily: true,
+      hourly: true,
+      maxRangeDays: 730,
+      historic20y: true,
+      cacheable: true,
+      asyncJobs: false,
+      windHeightM: 10, // wind_speed_10m_mean
+    },
+    units: { wind_speed: "km/h", solar_radiation: "MJ/m2/day" }, // unidades por defecto de la API diaria
+  },
+  getClimateData: (request, ctx) => new OpenMeteoService(ctx.origin).getClimateData(request),
+}
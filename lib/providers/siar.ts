@@ -0,0 +1,29 @@
+// lib/providers/siar.ts
+import { SiarService } from "../weather-apis"
+import type { WeatherProvider } from "./types"
+
+export const siarProvider: WeatherProvider = {
+  descriptor: {
+    id: "SIAR",
+    name: "SIAR",
+    description: "Red de estaciones agrometeorológicas de España",
+    database: "siar",
+    features: ["Temperatura", "Humedad", "ETo", "Humedad del Suelo", "Temperatura del Suelo"],
+    resolution: "Diaria (estación)",
+    coverage: "España",
+    enabled: true,
+    color: "bg-blue-500",
+    capabilities: {
+      coordinates: true,
+      postalCode: false,
+      daily: true,
+      hourly: true,
+      maxRangeDays: 730,
+      historic20y: false,
+      cacheable: true,
+      asyncJobs: false,
+    },
+    units: { wind_speed: "m/s", solar_radiation: "MJ/m2/day" },
+  },
+  getClimateData: (request, ctx) => new SiarService(ctx.origin).getClimateData(request),
+}
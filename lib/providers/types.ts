@@ -0,0 +1,60 @@
+// lib/providers/types.ts
+import type { ApiResponse, ClimateData, ClimateRequest, ClimateUnits, DataSource } from "../types"
+
+/**
+ * Capacidades que declara cada proveedor.
+ * Las rutas (/api/climate-data, exports...) y la UI deciden con esto,
+ * en vez de preguntar por `source === "AEMET"` en cada sitio.
+ */
+export interface ProviderCapabilities {
+  coordinates: boolean // acepta latitude/longitude
+  postalCode: boolean // acepta CP (España)
+  daily: boolean
+  hourly: boolean
+  maxRangeDays: number // máximo de días por llamada (las rutas trocean por encima)
+  historic20y: boolean // apto para el informe histórico de 20 años
+  cacheable: boolean // sus días (pasados) se pueden guardar en lib/climate-cache.ts
+  asyncJobs: boolean // descargas lentas: /api/climate-data responde con un job (lib/climate-jobs.ts)
+  gridCellDeg?: { lat: number; lon: number } // tamaño de celda si es rejilla (corrección por altitud, lib/elevation.ts)
+  windHeightM?: number // altura del viento (m); Penman-Monteith lo lleva a 2 m. Por defecto 2
+  forecastDays?: number // además sirve previsión (desde hoy, máx N días); solo AEMET por CP
+}
+
+/**
+ * Metadatos públicos (sin código de servidor): es lo que ve la UI vía /api/providers.
+ */
+export interface ProviderDescriptor {
+  id: DataSource
+  name: string
+  description: string
+  database: string
+  features: string[]
+  resolution: string
+  coverage: string
+  enabled: boolean
+  color: string // clase tailwind del punto de color en selectores
+  capabilities: ProviderCapabilities
+  units: ClimateUnits // unidades en que getClimateData devuelve viento y radiación (lib/climate-schema.ts)
+}
+
+export interface ProviderProgress {
+  status: string // estado remoto (p.ej. "accepted" / "running" en CDS)
+  message?: string
+}
+
+export interface ProviderContext {
+  // base URL interna para proveedores que van vía proxy (/api/weather/*)
+  origin: string
+
+  // solo lo usan proveedores lentos (ERA5) cuando corren dentro de un job
+  onProgress?: (progress: ProviderProgress) => void
+}
+
+/**
+ * Un proveedor = un módulo en lib/providers/ que exporta esto
+ * y se añade a la lista de lib/providers/index.ts.
+ */
+export interface WeatherProvider {
+  descriptor: ProviderDescriptor
+  getClimateData(request: ClimateRequest, ctx: ProviderContext): Promise<ApiResponse<ClimateData[]>>
+}
@@ -0,0 +1,236 @@
+// lib/quality-control.ts
+import type { ClimateData, GapField, QcTest } from "./types"
+
+/**
+ * Control de calidad de series diarias (a partir de las pruebas de Estévez et al. 2011 para estaciones
+ * agrometeorológicas de Andalucía):
+ * - range: límites plausibles para la Península (más estrictos que lib/climate-schema.ts, que quita lo imposible)
+ * - step: salto respecto al día anterior
+ * - persistence: mismo valor QC_PERSISTENCE_DAYS días o más (sensor bloqueado)
+ * - consistency: Tmin <= Tmed <= Tmax y Rs <= radiación de cielo despejado
+ *
+ * No cambia ningún valor: marca `day.qc[campo] = prueba` (la primera que falla) y el dashboard / exports deciden.
+ * Los valores rellenados (day.gaps) no se revisan: no son medidas.
+ *
+ * Módulo sin server-only: el dashboard usa las etiquetas y qcSummary.
+ */
+
+export const QC_FIELDS: GapField[] = [
+  "temperature_max",
+  "temperature_min",
+  "temperature_avg",
+  "humidity",
+  "precipitation",
+  "wind_speed",
+  "solar_radiation",
+]
+
+export const QC_TESTS: QcTest[] = ["range", "step", "persistence", "consistency"]
+
+export const QC_TEST_LABELS: Record<QcTest, string> = {
+  range: "fuera de rango",
+  step: "salto brusco",
+  persistence: "valor repetido",
+  consistency: "incoherente",
+}
+
+export const QC_FIELD_LABELS: Record<GapField, string> = {
+  temperature_max: "Tmáx",
+  temperature_min: "Tmín",
+  temperature_avg: "Tmed",
+  humidity: "HR",
+  precipitation: "Lluvia",
+  wind_speed: "Viento",
+  solar_radiation: "Radiación",
+}
+
+const QC_RANGE: Record<GapField, { min: number; max: number }> = {
+  temperature_max: { min: -15, max: 48 },
+  temperature_min: { min: -25, max: 35 },
+  temperature_avg: { min: -20, max: 40 },
+  humidity: { min: 5, max: 100 },
+  precipitation: { min: 0, max: 300 },
+  wind_speed: { min: 0, max: 20 }, // media diaria (Open-Meteo da la máxima: sigue cabiendo)
+  solar_radiation: { min: 0, max: 35 }, // MJ/m²/día
+}
+
+// lluvia y radiación cambian de un día a otro sin límite útil
+const QC_STEP: Partial<Record<GapField, number>> = {
+  temperature_max: 15,
+  temperature_min: 15,
+  temperature_avg: 12,
+  humidity: 50,
+  wind_speed: 10,
+}
+
+export const QC_PERSISTENCE_DAYS = 4
+
+// Tmin/Tmed/Tmax y Rs/Rso toleran redondeos y el sesgo de las series en rejilla
+const TEMP_ORDER_TOLERANCE_C = 0.5
+const RSO_TOLERANCE = 1.1
+
+export type QcSummary = {
+  checkedDays: number
+  flaggedDays: number
+  byTest: Record<QcTest, number>
+  byField: Partial<Record<GapField, number>>
+}
+
+function value(day: ClimateData, f: GapField): number | undefined {
+  if (day.gaps?.[f]) return undefined
+  const v = day[f]
+  return typeof v === "number" && Number.isFinite(v) ? v : undefined
+}
+
+function dayOfYear(dateISO: string) {
+  const d = new Date(`${dateISO}T00:00:00Z`)
+  return Math.floor((d.getTime() - Date.UTC(d.getUTCFullYear(), 0, 1)) / 86400000) + 1
+}
+
+// FAO-56 ec. 21 (Ra) y 37 (Rso, sin corregir por altitud), MJ/m²/día
+function clearSkyRadiation(latDeg: number, doy: number) {
+  const phi = (latDeg * Math.PI) / 180
+  const dr = 1 + 0.033 * Math.cos((2 * Math.PI * doy) / 365)
+  const delta = 0.409 * Math.sin((2 * Math.PI * doy) / 365 - 1.39)
+  const ws = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta))))
+  const ra =
+    ((24 * 60) / Math.PI) *
+    0.082 *
+    dr *
+    (ws * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(ws))
+  return 0.75 * ra
+}
+
+function flag(qc: Map<number, Partial<Record<GapField, QcTest>>>, i: number, f: GapField, test: QcTest) {
+  const q = qc.get(i) ?? {}
+  if (!q[f]) q[f] = test // se queda la primera prueba que falla
+  qc.set(i, q)
+}
+
+/**
+ * Ejecuta las pruebas sobre la serie (ordenada por fecha) y devuelve los días con `qc` cuando algo falla.
+ * latitude es opcional: sin ella no se comprueba la radiación frente a cielo despejado.
+ */
+export function runQualityControl(
+  data: ClimateData[],
+  opts: { latitude?: number } = {},
+): { data: ClimateData[]; summary: QcSummary } {
+  const days = [...data].sort((a, b) => a.date.localeCompare(b.date))
+  const qc = new Map<number, Partial<Record<GapField, QcTest>>>()
+
+  // 1) rango
+  days.forEach((d, i) => {
+    for (const f of QC_FIELDS) {
+      const v = value(d, f)
+      if (v !== undefined && (v < QC_RANGE[f].min || v > QC_RANGE[f].max)) flag(qc, i, f, "range")
+    }
+  })
+
+  // 2) salto: solo entre días consecutivos
+  for (let i = 1; i < days.length; i++) {
+    if (Date.parse(days[i].date) - Date.parse(days[i - 1].date) !== 86400000) continue
+    for (const [f, maxStep] of Object.entries(QC_STEP) as Array<[GapField, number]>) {
+      const prev = value(days[i - 1], f)
+      const cur = value(days[i], f)
+      if (prev !== undefined && cur !== undefined && Math.abs(cur - prev) > maxStep) flag(qc, i, f, "step")
+    }
+  }
+
+  // 3) persistencia: rachas de valores idénticos (la lluvia solo si no es 0: las rachas secas son normales)
+  for (const f of QC_FIELDS) {
+    let runStart = 0
+    for (let i = 1; i <= days.length; i++) {
+      const prev = value(days[i - 1], f)
+      const cur = i < days.length ? value(days[i], f) : undefined
+      if (cur !== undefined && cur === prev) continue
+
+      const run = i - runStart
+      if (run >= QC_PERSISTENCE_DAYS && prev !== undefined && !(f === "precipitation" && prev === 0)) {
+        for (let k = runStart; k < i; k++) flag(qc, k, f, "persistence")
+      }
+      runStart = i
+    }
+  }
+
+  // 4) coherencia interna
+  const lat = opts.latitude
+  days.forEach((d, i) => {
+    const tmax = value(d, "temperature_max")
+    const tmin = value(d, "temperature_min")
+    const tavg = value(d, "temperature_avg")
+
+    if (tmax !== undefined && tmin !== undefined && tmin > tmax + TEMP_ORDER_TOLERANCE_C) {
+      flag(qc, i, "temperature_max", "consistency")
+      flag(qc, i, "temperature_min", "consistency")
+    }
+    if (tavg !== undefined && tmax !== undefined && tavg > tmax + TEMP_ORDER_TOLERANCE_C) {
+      flag(qc, i, "temperature_avg", "consistency")
+    }
+    if (tavg !== undefined && tmin !== undefined && tavg < tmin - TEMP_ORDER_TOLERANCE_C) {
+      flag(qc, i, "temperature_avg", "consistency")
+    }
+
+    const rs = value(d, "solar_radiation")
+    const hasLat = typeof lat === "number" && Number.isFinite(lat)
+    if (rs !== undefined && hasLat && rs > clearSkyRadiation(lat, dayOfYear(d.date)) * RSO_TOLERANCE) {
+      flag(qc, i, "solar_radiation", "consistency")
+    }
+  })
+
+  const out = days.map((d, i) => {
+    const { qc: _prev, ...rest } = d
+    const q = qc.get(i)
+    return q ? { ...rest, qc: q } : rest
+  })
+
+  return { data: out, summary: qcSummary(out) }
+}
+
+export function hasQcFlags(day: ClimateData) {
+  return !!day.qc && Object.keys(day.qc).length > 0
+}
+
+export function qcSummary(data: ClimateData[]): QcSummary {
+  const byTest = Object.fromEntries(QC_TESTS.map((t) => [t, 0])) as Record<QcTest, number>
+  const byField: Partial<Record<GapField, number>> = {}
+  let flaggedDays = 0
+
+  for (const d of data) {
+    if (!hasQcFlags(d)) continue
+    flaggedDays++
+    for (const [f, t] of Object.entries(d.qc!) as Array<[GapField, QcTest]>) {
+      byTest[t]++
+      byField[f] = (byField[f] ?? 0) + 1
+    }
+  }
+
+  return { checkedDays: data.length, flaggedDays, byTest, byField }
+}
+
+export function mergeQcSummaries(list: QcSummary[]): QcSummary | undefined {
+  if (!list.length) return undefined
+  const byTest = Object.fromEntries(QC_TESTS.map((t) => [t, 0])) as Record<QcTest, number>
+  const byField: Partial<Record<GapField, number>> = {}
+
+  for (const s of list) {
+    for (const t of QC_TESTS) byTest[t] += s.byTest[t] ?? 0
+    for (const [f, n] of Object.entries(s.byField) as Array<[GapField, number]>) byField[f] = (byField[f] ?? 0) + n
+  }
+
+  return {
+    checkedDays: list.reduce((acc, s) => acc + s.checkedDays, 0),
+    flaggedDays: list.reduce((acc, s) => acc + s.flaggedDays, 0),
+    byTest,
+    byField,
+  }
+}
+
+/**
+ * "Tmáx: salto brusco · HR: valor repetido" (exports).
+ */
+export function formatQcFlags(qc?: ClimateData["qc"]): string {
+  if (!qc) return ""
+  return QC_FIELDS.filter((f) => qc[f])
+    .map((f) => `${QC_FIELD_LABELS[f]}: ${QC_TEST_LABELS[qc[f]!]}`)
+    .join(" · ")
+}
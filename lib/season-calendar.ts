@@ -0,0 +1,202 @@
+// lib/season-calendar.ts
+import type {
+  Hemisphere,
+  SeasonCalendar,
+  SeasonCalendarId,
+  SeasonCalendarInput,
+  SeasonWindow,
+  SeasonWindowId,
+} from "./types"
+
+/**
+ * Calendarios de campaña: las ventanas fenológicas (frío, GDD, heladas en floración, calor estival) con fecha de
+ * inicio y fin, en vez de los meses fijos Nov–Feb / Abr–Oct repartidos por ClimateCalculator, dashboard-recalc
+ * y el motor de variedades. Todos leen de aquí a través de AgronomyParams.season (lib/agronomy.ts).
+ *
+ * Se elige por petición (ClimateRequest.seasonCalendar): un id predefinido o un calendario propio sobre uno base.
+ * El hemisferio sur desplaza las ventanas medio año (y la brotación de la curva del Kc, lib/agronomy.ts).
+ *
+ * Módulo sin server-only: el dashboard y el formulario usan los calendarios y las etiquetas.
+ */
+
+export class SeasonCalendarError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "SeasonCalendarError"
+  }
+}
+
+export const SEASON_WINDOW_IDS: SeasonWindowId[] = ["chill", "gdd", "springFrost", "summerHeat"]
+
+export const SEASON_WINDOW_LABELS: Record<SeasonWindowId, string> = {
+  chill: "Acumulación de frío",
+  gdd: "Periodo vegetativo (GDD)",
+  springFrost: "Heladas en floración",
+  summerHeat: "Estrés térmico estival",
+}
+
+// fin "02-29": incluye el 28 de febrero los años no bisiestos (se compara "MM-DD" como texto)
+export const SEASON_CALENDARS: Record<SeasonCalendarId, SeasonCalendar> = {
+  "pistachio-north": {
+    id: "pistachio-north",
+    label: "Hemisferio norte (campaña Nov–Oct)",
+    hemisphere: "north",
+    campaignStart: "11-01",
+    windows: {
+      chill: { start: "11-01", end: "02-29" },
+      gdd: { start: "04-01", end: "10-31" },
+      springFrost: { start: "03-01", end: "04-30" },
+      summerHeat: { start: "06-01", end: "08-31" },
+    },
+  },
+  "pistachio-south": {
+    id: "pistachio-south",
+    label: "Hemisferio sur (campaña May–Abr)",
+    hemisphere: "south",
+    campaignStart: "05-01",
+    windows: {
+      chill: { start: "05-01", end: "08-31" },
+      gdd: { start: "10-01", end: "04-30" },
+      springFrost: { start: "09-01", end: "10-31" },
+      summerHeat: { start: "12-01", end: "02-29" },
+    },
+  },
+}
+
+export const SEASON_CALENDAR_IDS = Object.keys(SEASON_CALENDARS) as SeasonCalendarId[]
+
+export const DEFAULT_SEASON_CALENDAR = SEASON_CALENDARS["pistachio-north"]
+
+const MONTH_LABELS = ["Ene", "Feb", "Mar", "Abr", "May", "Jun", "Jul", "Ago", "Sep", "Oct", "Nov", "Dic"]
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31]
+
+export function isSeasonCalendarId(s: unknown): s is SeasonCalendarId {
+  return SEASON_CALENDAR_IDS.includes(s as SeasonCalendarId)
+}
+
+export function isMonthDay(s: unknown): s is string {
+  if (typeof s !== "string" || !/^\d{2}-\d{2}$/.test(s)) return false
+  const m = Number(s.slice(0, 2))
+  const d = Number(s.slice(3, 5))
+  return m >= 1 && m <= 12 && d >= 1 && d <= DAYS_IN_MONTH[m - 1]
+}
+
+/**
+ * Calendario de la petición. Sin nada, DEFAULT_SEASON_CALENDAR. Un calendario propio parte de `base`
+ * (o del predefinido de su hemisferio) y cambia lo que traiga. Fechas mal escritas: SeasonCalendarError.
+ */
+export function resolveSeasonCalendar(input?: SeasonCalendarInput | null): SeasonCalendar {
+  if (input == null || (input as unknown) === "") return DEFAULT_SEASON_CALENDAR
+  if (typeof input === "string") {
+    if (!isSeasonCalendarId(input)) throw new SeasonCalendarError(`seasonCalendar desconocido: ${input}`)
+    return SEASON_CALENDARS[input]
+  }
+  if (typeof input !== "object") throw new SeasonCalendarError("seasonCalendar inválido")
+
+  if (input.base !== undefined && !isSeasonCalendarId(input.base)) {
+    throw new SeasonCalendarError(`seasonCalendar.base desconocido: ${String(input.base)}`)
+  }
+  if (input.hemisphere !== undefined && input.hemisphere !== "north" && input.hemisphere !== "south") {
+    throw new SeasonCalendarError(`seasonCalendar.hemisphere inválido: ${String(input.hemisphere)}`)
+  }
+
+  const hemisphere: Hemisphere | undefined = input.hemisphere
+  const base = input.base
+    ? SEASON_CALENDARS[input.base]
+    : hemisphere === "south"
+      ? SEASON_CALENDARS["pistachio-south"]
+      : DEFAULT_SEASON_CALENDAR
+
+  const campaignStart = input.campaignStart ?? base.campaignStart
+  if (!isMonthDay(campaignStart)) throw new SeasonCalendarError("seasonCalendar.campaignStart debe ser MM-DD")
+
+  const windows = { ...base.windows }
+  for (const [id, w] of Object.entries(input.windows ?? {}) as Array<[SeasonWindowId, SeasonWindow]>) {
+    if (!SEASON_WINDOW_IDS.includes(id)) throw new SeasonCalendarError(`Ventana desconocida: ${id}`)
+    if (!isMonthDay(w?.start) || !isMonthDay(w?.end)) {
+      throw new SeasonCalendarError(`Ventana ${id}: start y end deben ser MM-DD`)
+    }
+    windows[id] = { start: w.start, end: w.end }
+  }
+
+  return {
+    id: "custom",
+    label: input.label?.trim() || `Personalizado (${base.label})`,
+    hemisphere: hemisphere ?? base.hemisphere,
+    campaignStart,
+    windows,
+  }
+}
+
+/**
+ * Lo que hay que mandar en una petición para volver a obtener `calendar` (el id si es predefinido).
+ */
+export function toSeasonCalendarInput(calendar: SeasonCalendar): SeasonCalendarInput {
+  if (calendar.id !== "custom") return calendar.id
+  const { label, hemisphere, campaignStart, windows } = calendar
+  return { label, hemisphere, campaignStart, windows }
+}
+
+// ---------- fechas ----------
+
+function monthDayOf(dateISO: string) {
+  return dateISO.slice(5, 10)
+}
+
+export function isInSeasonWindow(dateISO: string, window: SeasonWindow): boolean {
+  const md = monthDayOf(dateISO)
+  return window.start <= window.end
+    ? md >= window.start && md <= window.end
+    : md >= window.start || md <= window.end
+}
+
+/**
+ * Año de campaña: el año en que termina. Con inicio 1 Nov, Nov/Dic 2023 y Ene–Oct 2024 son la campaña 2024
+ * (el invierno se asigna al "año de febrero" y el periodo vegetativo siguiente, a la misma campaña).
+ */
+export function campaignYear(dateISO: string, calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR): number {
+  const y = Number(dateISO.slice(0, 4))
+  if (calendar.campaignStart === "01-01") return y
+  return monthDayOf(dateISO) >= calendar.campaignStart ? y + 1 : y
+}
+
+/**
+ * Primer día de la campaña en curso (la que contiene todayISO).
+ */
+export function campaignStartDate(todayISO: string, calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR): string {
+  const y = Number(todayISO.slice(0, 4))
+  return `${monthDayOf(todayISO) >= calendar.campaignStart ? y : y - 1}-${calendar.campaignStart}`
+}
+
+/**
+ * Una ventana fijada para el hemisferio norte, llevada al hemisferio del calendario (medio año después en el sur).
+ * El día se acota al mes de destino ("08-31" -> "02-29").
+ */
+export function windowForHemisphere(window: SeasonWindow, hemisphere: Hemisphere): SeasonWindow {
+  if (hemisphere === "north") return window
+  const shift = (md: string) => {
+    const m = ((Number(md.slice(0, 2)) + 5) % 12) + 1
+    const d = Math.min(Number(md.slice(3, 5)), DAYS_IN_MONTH[m - 1])
+    return `${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`
+  }
+  return { start: shift(window.start), end: shift(window.end) }
+}
+
+// ---------- etiquetas ----------
+
+function monthDayLabel(md: string, edge: "start" | "end") {
+  const m = Number(md.slice(0, 2))
+  const d = Number(md.slice(3, 5))
+  const wholeMonth = edge === "start" ? d === 1 : d >= (m === 2 ? 28 : DAYS_IN_MONTH[m - 1])
+  return wholeMonth ? MONTH_LABELS[m - 1] : `${d} ${MONTH_LABELS[m - 1]}`
+}
+
+/**
+ * "Nov–Feb" si la ventana va de principio a fin de mes; si no, "15 Nov–28 Feb".
+ */
+export function seasonWindowLabel(window: SeasonWindow): string {
+  return `${monthDayLabel(window.start, "start")}–${monthDayLabel(window.end, "end")}`
+}
@@ -0,0 +1,233 @@
+// lib/siar-client.ts
+import "server-only"
+import type { ClimateData } from "./types"
+import { haversineKm } from "./geo"
+
+/**
+ * Cliente de la API SIAR (Ministerio de Agricultura, red de estaciones agroclimáticas).
+ *
+ * - Clave en SIAR_API_KEY (nunca en el código)
+ * - Estación: la más cercana por haversine (si no tiene datos en el rango, prueba las siguientes)
+ * - Paginación: la API limita el rango por petición -> se pide en ventanas de SIAR_MAX_DAYS_PER_REQUEST
+ * - Sin datos simulados: cualquier fallo se devuelve como error
+ */
+
+const SIAR_BASE = process.env.SIAR_BASE_URL || "https://servicio.mapa.gob.es/APISIAR/API/V1"
+const SIAR_API_KEY = process.env.SIAR_API_KEY || ""
+
+const MAX_DAYS_PER_REQUEST = Number(process.env.SIAR_MAX_DAYS_PER_REQUEST) || 365
+const MAX_STATION_KM = Number(process.env.SIAR_MAX_STATION_KM) || 50
+const MAX_STATION_TRIES = 3
+
+export type SiarStation = {
+  code: string
+  name: string
+  province?: string
+  latitude: number
+  longitude: number
+  altitude?: number
+  distanceKm?: number
+}
+
+export class SiarError extends Error {
+  constructor(
+    message: string,
+    public status = 502,
+  ) {
+    super(message)
+    this.name = "SiarError"
+  }
+}
+
+const STATIONS_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const stationsCache: { ts: number; data: SiarStation[] | null } =
+  (globalThis as any).__siar_stations_cache ?? ((globalThis as any).__siar_stations_cache = { ts: 0, data: null })
+
+// ---------- utils ----------
+function num(v: unknown): number | undefined {
+  if (v === null || v === undefined || v === "") return undefined
+  const n = Number(String(v).replace(",", "."))
+  return Number.isFinite(n) ? n : undefined
+}
+
+function pick(item: any, keys: string[]): number | undefined {
+  for (const k of keys) {
+    const v = num(item?.[k])
+    if (v !== undefined) return v
+  }
+  return undefined
+}
+
+/**
+ * SIAR da coordenadas como decimal ("37.85") o como grados, minutos, segundos y milésimas + hemisferio
+ * ("375107000N" = 37° 51' 07.000", "044806000W" = 4° 48' 06.000"). Minutos, segundos y milésimas son de
+ * ancho fijo (2, 2 y 3) y los grados lo que quede (2 o 3 cifras): una lectura voraz de los grados tomaba
+ * "375107000N" por 375° 10' 70".
+ */
+export function parseSiarCoord(raw: unknown): number | null {
+  const s = String(raw ?? "").trim()
+  if (!s) return null
+
+  const dec = Number(s.replace(",", "."))
+  if (Number.isFinite(dec)) return dec
+
+  const m = s.match(/^(\d{2,3}?)(\d{2})(\d{2})(\d{3})?([NSEW])$/i)
+  if (!m) return null
+
+  const deg = Number(m[1])
+  const min = Number(m[2])
+  const sec = Number(`${m[3]}.${m[4] || "0"}`)
+  if (min >= 60 || sec >= 60) return null
+
+  const value = deg + min / 60 + sec / 3600
+  if (value > (/[NS]/i.test(m[5]) ? 90 : 180)) return null
+  return /[SW]/i.test(m[5]) ? -value : value
+}
+
+function addDaysISO(dateISO: string, days: number) {
+  const d = new Date(`${dateISO}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function windows(startISO: string, endISO: string, maxDays: number) {
+  const out: Array<{ start: string; end: string }> = []
+  for (let s = startISO; s <= endISO; s = addDaysISO(s, maxDays)) {
+    const e = addDaysISO(s, maxDays - 1)
+    out.push({ start: s, end: e < endISO ? e : endISO })
+  }
+  return out
+}
+
+async function siarGet(pathAndQuery: string): Promise<any[]> {
+  if (!SIAR_API_KEY) throw new SiarError("Falta SIAR_API_KEY en el servidor", 500)
+
+  const sep = pathAndQuery.includes("?") ? "&" : "?"
+  const url = `${SIAR_BASE}${pathAndQuery}${sep}ClaveAPI=${encodeURIComponent(SIAR_API_KEY)}`
+
+  const res = await fetch(url, { headers: { Accept: "application/json" }, cache: "no-store" })
+  const txt = await res.text().catch(() => "")
+  if (!res.ok) throw new SiarError(`SIAR error ${res.status}: ${txt.slice(0, 300)}`)
+
+  let body: any
+  try {
+    body = txt ? JSON.parse(txt) : {}
+  } catch {
+    throw new SiarError(`SIAR devolvió una respuesta no JSON: ${txt.slice(0, 300)}`)
+  }
+
+  // { Datos: [...], MensajeRespuesta: "..." }
+  if (Array.isArray(body)) return body
+  if (Array.isArray(body?.Datos)) return body.Datos
+  if (body?.MensajeRespuesta) throw new SiarError(`SIAR: ${body.MensajeRespuesta}`)
+  return []
+}
+
+// ---------- estaciones ----------
+export async function getSiarStations(): Promise<SiarStation[]> {
+  const now = Date.now()
+  if (stationsCache.data && now - stationsCache.ts < STATIONS_CACHE_TTL_MS) return stationsCache.data
+
+  const list = await siarGet("/Info/Estaciones")
+
+  const stations: SiarStation[] = []
+  for (const s of list) {
+    const latitude = parseSiarCoord(s?.Latitud ?? s?.latitud)
+    const longitude = parseSiarCoord(s?.Longitud ?? s?.longitud)
+    const code = String(s?.Codigo ?? s?.codigo ?? "").trim()
+    if (!code || latitude === null || longitude === null) continue
+
+    stations.push({
+      code,
+      name: String(s?.Estacion ?? s?.Nombre ?? s?.nombre ?? code),
+      province: s?.Provincia ?? s?.provincia,
+      latitude,
+      longitude,
+      altitude: num(s?.Altitud ?? s?.altitud),
+    })
+  }
+
+  if (!stations.length) throw new SiarError("SIAR: la lista de estaciones está vacía")
+
+  stationsCache.data = stations
+  stationsCache.ts = now
+  return stations
+}
+
+export async function nearestSiarStations(lat: number, lon: number, limit = MAX_STATION_TRIES): Promise<SiarStation[]> {
+  const stations = await getSiarStations()
+  return stations
+    .map((s) => ({ ...s, distanceKm: Number(haversineKm(lat, lon, s.latitude, s.longitude).toFixed(2)) }))
+    .filter((s) => s.distanceKm <= MAX_STATION_KM)
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit)
+}
+
+// ---------- datos diarios ----------
+function mapSiarDaily(item: any): ClimateData | null {
+  const date = String(item?.Fecha ?? item?.fecha ?? "").slice(0, 10)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null
+
+  const tmax = pick(item, ["TempMax", "temperaturaMaxima"])
+  const tmin = pick(item, ["TempMin", "temperaturaMinima"])
+  const tavg = pick(item, ["TempMedia", "temperaturaMedia"])
+
+  return {
+    date,
+    // los huecos quedan undefined (lib/gap-filling.ts)
+    temperature_max: tmax as number,
+    temperature_min: tmin as number,
+    temperature_avg: (tavg ?? (tmax !== undefined && tmin !== undefined ? (tmax + tmin) / 2 : undefined)) as number,
+    humidity: pick(item, ["HumedadMedia", "humedadRelativa"]),
+    precipitation: pick(item, ["Precipitacion", "precipitacion"]),
+    wind_speed: pick(item, ["VelViento", "velocidadViento"]),
+    solar_radiation: pick(item, ["Radiacion", "radiacionSolar"]), // MJ/m²/día
+    soil_temperature: pick(item, ["TempSuelo1", "TempSuelo", "TemperaturaSuelo"]),
+    soil_moisture: pick(item, ["HumedadSuelo1", "HumedadSuelo", "humedadSuelo"]),
+
+    // ETo Penman-Monteith calculada por SIAR en la estación
+    eto: pick(item, ["EtPMon", "EtPenMon", "Eto", "EtoPM"]),
+    etc: undefined,
+    computedChillHeat: false,
+    computedFromHourly: false,
+  }
+}
+
+async function getSiarDaily(code: string, startISO: string, endISO: string): Promise<ClimateData[]> {
+  const out: ClimateData[] = []
+
+  for (const w of windows(startISO, endISO, MAX_DAYS_PER_REQUEST)) {
+    const q = new URLSearchParams({ Id: code, FechaInicial: w.start, FechaFinal: w.end })
+    const rows = await siarGet(`/Datos/Diarios/Estacion?${q}`)
+    for (const r of rows) {
+      const d = mapSiarDaily(r)
+      if (d) out.push(d)
+    }
+  }
+
+  return out.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Datos diarios de la estación SIAR más cercana con datos en el rango.
+ */
+export async function getSiarClimateData(
+  lat: number,
+  lon: number,
+  startISO: string,
+  endISO: string,
+): Promise<{ station: SiarStation; data: ClimateData[]; tried: string[] }> {
+  const candidates = await nearestSiarStations(lat, lon)
+  if (!candidates.length) {
+    throw new SiarError(`No hay estaciones SIAR a menos de ${MAX_STATION_KM} km de (${lat}, ${lon})`, 404)
+  }
+
+  const tried: string[] = []
+  for (const station of candidates) {
+    tried.push(station.code)
+    const data = await getSiarDaily(station.code, startISO, endISO)
+    if (data.length) return { station, data, tried }
+  }
+
+  throw new SiarError(`Las estaciones SIAR cercanas (${tried.join(", ")}) no tienen datos en ${startISO} → ${endISO}`, 404)
+}
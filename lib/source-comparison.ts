@@ -0,0 +1,191 @@
+// lib/source-comparison.ts
+import type { ClimateData, DataSource, SeasonCalendar } from "./types"
+import { recalcMetricsFromDaily } from "./dashboard-recalc"
+import { isMissingValue } from "./gap-filling"
+
+/**
+ * Comparación entre fuentes para una misma parcela y periodo (/api/compare-sources).
+ *
+ * Todo se calcula sobre los días que tienen TODAS las fuentes: si una fuente trae menos días,
+ * las diferencias de acumulados (horas frío, GDD...) no deben salir de ahí.
+ *
+ * Módulo sin server-only: la UI usa los tipos y las etiquetas.
+ */
+
+// rango máximo de /api/compare-sources: el menor maxRangeDays de las fuentes por coordenadas (NASA POWER,
+// Open-Meteo, SIAR: 730). La ruta lo comprueba contra los descriptores; la UI lo usa para no ofrecerla.
+export const COMPARE_MAX_RANGE_DAYS = 730
+
+export function isComparableRange(startDate: string, endDate: string): boolean {
+  const days = (Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 86400000 + 1
+  return Number.isFinite(days) && days >= 1 && days <= COMPARE_MAX_RANGE_DAYS
+}
+
+export const COMPARE_VARIABLES = [
+  "temperature_max",
+  "temperature_min",
+  "temperature_avg",
+  "humidity",
+  "precipitation",
+  "wind_speed",
+  "solar_radiation",
+  "eto",
+] as const
+export type CompareVariable = (typeof COMPARE_VARIABLES)[number]
+
+export const COMPARE_VARIABLE_LABELS: Record<CompareVariable, string> = {
+  temperature_max: "T. máxima (°C)",
+  temperature_min: "T. mínima (°C)",
+  temperature_avg: "T. media (°C)",
+  humidity: "Humedad (%)",
+  precipitation: "Precipitación (mm)",
+  wind_speed: "Viento (m/s)",
+  solar_radiation: "Radiación",
+  eto: "ETo (mm)",
+}
+
+export type DerivedMetrics = {
+  chillHours: number // Nov-Feb
+  totalGDD: number // Abr-Oct
+  frostDays: number
+  totalPrecipitation: number
+  totalETO: number
+  etoDeficit: number // max(0, ETo - P)
+}
+
+export const DERIVED_METRIC_LABELS: Record<keyof DerivedMetrics, string> = {
+  chillHours: "Horas frío",
+  totalGDD: "GDD",
+  frostDays: "Días de helada",
+  totalPrecipitation: "Precipitación (mm)",
+  totalETO: "ETo (mm)",
+  etoDeficit: "Déficit ETo - P (mm)",
+}
+
+export type VariableAgreement = {
+  n: number
+  bias: number // media(fuente - referencia)
+  rmse: number
+  correlation: number | null // Pearson (null si alguna serie es constante)
+}
+
+export type SourceComparison = {
+  source: DataSource
+  variables: Partial<Record<CompareVariable, VariableAgreement>>
+  derived: DerivedMetrics
+  derivedDiff: DerivedMetrics // fuente - referencia
+}
+
+export type SourceComparisonReport = {
+  reference: DataSource
+  commonDays: number
+  period: { startDate: string; endDate: string } | null
+  referenceDerived: DerivedMetrics
+  comparisons: SourceComparison[]
+}
+
+function round(v: number, digits = 2) {
+  return Number(v.toFixed(digits))
+}
+
+function mean(xs: number[]) {
+  return xs.reduce((a, b) => a + b, 0) / xs.length
+}
+
+function pearson(a: number[], b: number[]): number | null {
+  const ma = mean(a)
+  const mb = mean(b)
+  let cov = 0
+  let va = 0
+  let vb = 0
+  for (let i = 0; i < a.length; i++) {
+    cov += (a[i] - ma) * (b[i] - mb)
+    va += (a[i] - ma) ** 2
+    vb += (b[i] - mb) ** 2
+  }
+  return va > 0 && vb > 0 ? round(cov / Math.sqrt(va * vb), 3) : null
+}
+
+function agreement(variable: CompareVariable, source: ClimateData[], reference: ClimateData[]): VariableAgreement | null {
+  const s: number[] = []
+  const r: number[] = []
+  for (let i = 0; i < source.length; i++) {
+    const a = source[i][variable]
+    const b = reference[i][variable]
+    // eto no es GapField, pero la regla de "ausente" es la misma que para la lluvia
+    const field = variable === "eto" ? "precipitation" : variable
+    if (isMissingValue(field, a) || isMissingValue(field, b)) continue
+    s.push(Number(a))
+    r.push(Number(b))
+  }
+  if (!s.length) return null
+
+  const d = s.map((v, i) => v - r[i])
+  return {
+    n: s.length,
+    bias: round(mean(d)),
+    rmse: round(Math.sqrt(mean(d.map((x) => x * x)))),
+    correlation: pearson(s, r),
+  }
+}
+
+export function derivedMetrics(data: ClimateData[], calendar?: SeasonCalendar): DerivedMetrics {
+  const { summary } = recalcMetricsFromDaily(data, { calendar })
+  return {
+    chillHours: round(summary.chillHours, 1),
+    totalGDD: round(summary.totalGDD, 1),
+    frostDays: summary.frostDays,
+    totalPrecipitation: round(summary.totalPrecipitation, 1),
+    totalETO: round(summary.totalETO, 1),
+    etoDeficit: round(Math.max(0, summary.totalETO - summary.totalPrecipitation), 1),
+  }
+}
+
+function diffMetrics(a: DerivedMetrics, b: DerivedMetrics): DerivedMetrics {
+  const out = {} as DerivedMetrics
+  for (const k of Object.keys(a) as (keyof DerivedMetrics)[]) out[k] = round(a[k] - b[k], 1)
+  return out
+}
+
+/**
+ * Compara cada fuente con la de referencia sobre los días comunes a todas.
+ * Horas frío y GDD se suman en las ventanas del calendario (por defecto, el del norte).
+ */
+export function compareSources(
+  seriesBySource: Partial<Record<DataSource, ClimateData[]>>,
+  reference: DataSource,
+  calendar?: SeasonCalendar,
+): SourceComparisonReport {
+  const entries = Object.entries(seriesBySource) as [DataSource, ClimateData[]][]
+  const byDate = new Map(entries.map(([src, rows]) => [src, new Map(rows.map((d) => [d.date.slice(0, 10), d]))]))
+
+  const common = [...(byDate.get(reference)?.keys() ?? [])]
+    .filter((date) => entries.every(([src]) => byDate.get(src)!.has(date)))
+    .sort()
+
+  const aligned = (src: DataSource) => common.map((date) => byDate.get(src)!.get(date)!)
+
+  const ref = aligned(reference)
+  const referenceDerived = derivedMetrics(ref, calendar)
+
+  const comparisons: SourceComparison[] = entries
+    .filter(([src]) => src !== reference)
+    .map(([src]) => {
+      const rows = aligned(src)
+      const variables: SourceComparison["variables"] = {}
+      for (const v of COMPARE_VARIABLES) {
+        const a = agreement(v, rows, ref)
+        if (a) variables[v] = a
+      }
+      const derived = derivedMetrics(rows, calendar)
+      return { source: src, variables, derived, derivedDiff: diffMetrics(derived, referenceDerived) }
+    })
+
+  return {
+    reference,
+    commonDays: common.length,
+    period: common.length ? { startDate: common[0], endDate: common[common.length - 1] } : null,
+    referenceDerived,
+    comparisons,
+  }
+}
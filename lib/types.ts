@@ -3,7 +3,137 @@
 /**
  * Fuentes soportadas
  */
-export type DataSource = "SIAR" | "AEMET" | "NASA_POWER" | "ERA5" | "OPEN_METEO"
+export type DataSource = "SIAR" | "AEMET" | "NASA_POWER" | "ERA5" | "OPEN_METEO" | "LOCAL_DB" | "BLEND"
+
+/**
+ * Variables que se pueden mezclar entre fuentes (modo BLEND).
+ * "temperature" arrastra max/min/avg y los índices derivados (frío, heladas, GDD).
+ */
+export type BlendVariable = "temperature" | "humidity" | "precipitation" | "wind_speed" | "solar_radiation" | "eto"
+
+/**
+ * Prioridad por variable: se toma el primer proveedor de la lista que tenga un valor válido ese día.
+ * Las variables que no aparezcan usan la prioridad por defecto (lib/blend.ts).
+ */
+export type BlendPriority = Partial<Record<BlendVariable, DataSource[]>>
+
+/**
+ * Procedencia por campo (qué proveedor aportó cada valor de un día).
+ */
+/**
+ * Relleno de huecos (lib/gap-filling.ts):
+ * - none: solo se marcan los huecos
+ * - interpolate: interpolación lineal entre días válidos cercanos
+ * - secondary: se piden los días/variables que faltan a otro proveedor
+ * - secondary+interpolate: primero proveedor secundario y lo que quede, interpolado
+ */
+export type GapFillStrategy = "none" | "interpolate" | "secondary" | "secondary+interpolate"
+
+/**
+ * Corrección de sesgo frente a estaciones (lib/bias-correction.ts):
+ * - none: sin corregir
+ * - delta: desplazamiento (T, HR) o factor (lluvia, viento) medio por mes
+ * - quantile: mapeo de cuantiles empírico por mes
+ */
+export type BiasCorrectionMethod = "none" | "delta" | "quantile"
+
+/**
+ * Fuentes de previsión para la campaña en curso (lib/campaign.ts).
+ */
+export type CampaignForecastSource = "OPEN_METEO" | "AEMET"
+
+/**
+ * Calendario de campaña (lib/season-calendar.ts): ventanas fenológicas con nombre.
+ * - chill: acumulación de frío
+ * - gdd: periodo vegetativo (grados-día, déficit hídrico)
+ * - springFrost: heladas en floración
+ * - summerHeat: estrés térmico estival
+ */
+export type SeasonCalendarId = "pistachio-north" | "pistachio-south"
+export type SeasonWindowId = "chill" | "gdd" | "springFrost" | "summerHeat"
+export type Hemisphere = "north" | "south"
+
+// "MM-DD", inicio y fin incluidos; si start > end la ventana cruza el 1 de enero
+export type SeasonWindow = { start: string; end: string }
+
+export interface SeasonCalendar {
+  id: SeasonCalendarId | "custom"
+  label: string
+  hemisphere: Hemisphere
+  campaignStart: string // "MM-DD": la campaña se numera por el año en que termina
+  windows: Record<SeasonWindowId, SeasonWindow>
+}
+
+// En la petición: un calendario predefinido o uno propio que cambia ventanas de un calendario base
+export type SeasonCalendarInput =
+  | SeasonCalendarId
+  | {
+      base?: SeasonCalendarId
+      label?: string
+      hemisphere?: Hemisphere
+      campaignStart?: string
+      windows?: Partial<Record<SeasonWindowId, SeasonWindow>>
+    }
+
+/**
+ * Cultivos con perfil propio (lib/crops.ts): Kc, requerimientos de frío y calor, fase crítica de helada
+ * y reglas de aptitud.
+ */
+export type CropId = "pistachio" | "almond" | "olive" | "walnut" | "vine"
+
+/**
+ * Parcela concreta: los Kc de los perfiles son de plantación adulta. Con la cobertura del suelo (%, sombra a
+ * mediodía) o la edad de los árboles (años) se reducen para plantaciones jóvenes o poco densas.
+ * Si vienen las dos, manda la cobertura.
+ */
+export type OrchardInput = {
+  canopyCover?: number
+  treeAge?: number
+  budBreak?: string // "MM-DD" observado en la parcela (si no, el del perfil del cultivo)
+}
+
+/**
+ * Unidades de las variables que cada fuente da en unidades distintas.
+ * lib/climate-schema.ts convierte a las canónicas (m/s y MJ/m²/día) según lo que declare el proveedor.
+ */
+export type WindSpeedUnit = "m/s" | "km/h"
+export type SolarRadiationUnit = "MJ/m2/day" | "kWh/m2/day" | "W/m2" // W/m2 = media diaria
+
+export interface ClimateUnits {
+  wind_speed: WindSpeedUnit
+  solar_radiation: SolarRadiationUnit
+}
+
+export type GapField =
+  | "temperature_max"
+  | "temperature_min"
+  | "temperature_avg"
+  | "humidity"
+  | "precipitation"
+  | "wind_speed"
+  | "solar_radiation"
+
+// "missing" = sigue sin dato; el resto indica cómo se rellenó
+export type GapFillMethod = "missing" | "secondary" | "interpolated" | "derived"
+
+/**
+ * Control de calidad (lib/quality-control.ts): prueba que no pasó un valor medido.
+ * - range: fuera del rango plausible para la zona
+ * - step: salto excesivo respecto al día anterior
+ * - persistence: mismo valor varios días seguidos (sensor bloqueado)
+ * - consistency: incoherente con otras variables del día (Tmin > Tmed, Rs > radiación de cielo despejado...)
+ */
+export type QcTest = "range" | "step" | "persistence" | "consistency"
+
+/**
+ * Cómo se obtuvo la ETo de un día (ClimateCalculator):
+ * - penman-monteith: FAO-56 completo (hay HR, viento y radiación)
+ * - hargreaves: solo temperaturas (falta alguna de las anteriores)
+ * - provider: la da la fuente (Open-Meteo, SIAR...)
+ */
+export type EtoMethod = "penman-monteith" | "hargreaves" | "provider"
+
+export type ClimateProvenance = Partial<Record<Exclude<keyof ClimateData, "date" | "provenance" | "gaps" | "qc" | "etoMethod">, DataSource>>
 
 export interface ClimateRequest {
   source: DataSource
@@ -20,6 +150,40 @@ export interface ClimateRequest {
 
   // Otros
   parameters?: string[]
+
+  // Solo para source = "BLEND"
+  blend?: BlendPriority
+
+  // Corrección por altitud (lib/elevation.ts): altitud de la parcela (m) y gradiente
+  // (true = LAPSE_RATE_C_PER_KM, número = °C/km, false = sin corregir)
+  elevation?: number
+  lapseRate?: boolean | number
+
+  // Corrección de sesgo de fuentes en rejilla frente a estación (SIAR o LOCAL_DB)
+  biasCorrection?: BiasCorrectionMethod
+  biasReference?: DataSource
+
+  // Solo para source = "LOCAL_DB": k estaciones más cercanas (1 = la más cercana, >1 = IDW)
+  stations?: number
+
+  // Relleno de huecos (por defecto GAP_FILL_STRATEGY o "interpolate")
+  gapFill?: GapFillStrategy
+  gapFillSource?: DataSource
+
+  // true = saltar la caché de proveedores (lib/climate-cache.ts)
+  noCache?: boolean
+
+  // Campaña en curso (lib/campaign.ts): `source` es la fuente observada y esta la previsión
+  campaign?: { forecastSource?: CampaignForecastSource; forecastDays?: number }
+
+  // Ventanas de frío / GDD / heladas / calor (por defecto DEFAULT_SEASON_CALENDAR, pistacho hemisferio norte)
+  seasonCalendar?: SeasonCalendarInput
+
+  // Cultivo (Kc, base de GDD y reglas de aptitud); por defecto "pistachio"
+  crop?: CropId
+
+  // Cobertura / edad de la plantación para el Kc (por defecto, plantación adulta)
+  orchard?: OrchardInput
 }
 
 /**
@@ -27,18 +191,21 @@ export interface ClimateRequest {
  *
  * Importante:
  * - Mantén SIEMPRE `date` en ISO (yyyy-mm-dd) para agrupar por campañas/ventanas.
- * - Si alguna fuente no trae un campo, ponlo como `undefined` y el motor lo tratará como 0 con `|| 0`.
- * - Unidades esperadas (recomendado):
+ * - Si alguna fuente no trae un campo, ponlo como `undefined` (NUNCA 0): lib/gap-filling.ts lo marca en `gaps` y lo rellena.
+ * - Unidades canónicas (lib/climate-schema.ts convierte y descarta valores imposibles al salir del proveedor):
  *   - temperature_*: °C
  *   - humidity: % (0-100)
  *   - precipitation: mm/día
- *   - wind_speed: m/s (o km/h, pero entonces documentarlo y unificarlo)
- *   - solar_radiation: MJ/m²/día o W/m² (pero unificar en toda la app)
+ *   - wind_speed: m/s (los proveedores que den km/h lo declaran en descriptor.units)
+ *   - solar_radiation: MJ/m²/día (ídem para kWh/m²/día o W/m²)
  *   - eto: mm/día (ETo referencia)
  *   - etc: mm/día (ETc cultivo) -> si no aplicas Kc, puedes dejar etc = eto
+ *   - kc: adimensional (ETc / ETo del día)
  *   - frost_hours: horas/día con T < 0°C (o el umbral que uses)
- *   - chill_hours: horas/día bajo el umbral de frío (modelo simple) o equivalente
+ *   - chill_hours: horas/día bajo el umbral de frío (horas reales o reconstruidas desde Tmin/Tmax)
  *   - gdd: grados-día/día (base definida, ej. 7°C)
+ *   - chill_portions / utah_units / positive_utah_units: por día, desde temperaturas horarias
+ *   - soil_temperature: °C / soil_moisture: % volumétrico (solo estaciones SIAR)
  */
 export interface ClimateData {
   date: string
@@ -54,18 +221,33 @@ export interface ClimateData {
   wind_speed?: number
   solar_radiation?: number
 
+  // Suelo (solo estaciones que lo miden, p.ej. SIAR)
+  soil_temperature?: number // °C
+  soil_moisture?: number // % volumétrico
+
   // Evapotranspiración
   eto?: number
   etc?: number
+  kc?: number // Kc del día con que salió etc (curva FAO-56 del cultivo)
+  etoMethod?: EtoMethod // lo rellena ClimateCalculator.processClimateData
 
   // Índices/agregados (pueden venir calculados o computados)
   frost_hours?: number
   chill_hours?: number
   gdd?: number
 
+  // Modelos de frío horarios (lib/chill-models.ts): solo con temperaturas horarias
+  chill_portions?: number // porciones del Modelo Dinámico completadas en el día
+  utah_units?: number // unidades Utah del día (pueden ser negativas)
+  positive_utah_units?: number
+
   // Flags de trazabilidad
   computedChillHeat?: boolean // true si chill/gdd/frost se calcularon en tu app
   computedFromHourly?: boolean // true si proviene de agregación horaria (ERA5/Open-Meteo)
+  provenance?: ClimateProvenance // solo en series mezcladas (BLEND), con relleno desde otra fuente o de campaña
+  isForecast?: boolean // solo en series de campaña (lib/campaign.ts): día de previsión, no observado
+  gaps?: Partial<Record<GapField, GapFillMethod>> // solo si el día tenía huecos
+  qc?: Partial<Record<GapField, QcTest>> // solo si algún valor no pasó el control de calidad
 }
 
 /**
@@ -78,6 +260,9 @@ export interface ApiResponse<T> {
   data?: T
   error?: string
 
+  // unidades de `data` si no son las que declara el proveedor (p.ej. previsión AEMET con viento en km/h)
+  units?: Partial<ClimateUnits>
+
   // debug libre (ideal para inspeccionar unidades / cobertura)
   debug?: Record<string, any>
 }
@@ -1,6 +1,8 @@
-import type { ClimateData } from "./types"
+import type { ClimateData, SeasonCalendar, SeasonWindowId } from "./types"
 import { PISTACHIO_VARIETIES, type PistachioVariety } from "./pistachio-varieties"
 import { ClimateCalculator } from "./climate-calculations"
+import { agronomyForCalendar } from "./agronomy"
+import { DEFAULT_SEASON_CALENDAR, campaignYear, isInSeasonWindow, seasonWindowLabel } from "./season-calendar"
 
 export interface VarietyRecommendation {
   variety: PistachioVariety
@@ -17,22 +19,26 @@ export interface ClimateProfile {
   minTemperature: number
   maxTemperature: number
 
-  // Para scoring: valores conservadores por campaña
-  totalChillHours: number // P10 de horas frío (Nov–Feb)
-  totalFrostHours: number // P90 de frost_hours (Mar–Abr) sumados
-  frostDays: number // P90 de días con helada (Mar–Abr)
+  // Para scoring: valores conservadores por campaña (ventanas del calendario; entre paréntesis, las del norte)
+  totalChillHours: number // P10 de horas frío (chill: Nov–Feb)
+  // P10 de porciones (Modelo Dinámico) y unidades Utah (chill): solo si la serie trae temperaturas horarias
+  totalChillPortions?: number
+  totalUtahUnits?: number
+  totalFrostHours: number // P90 de frost_hours (springFrost: Mar–Abr) sumados
+  frostDays: number // P90 de días con helada (springFrost: Mar–Abr)
 
   totalPrecipitation: number // Mediana anual (todas las fechas disponibles)
-  waterDeficit: number // P90 de déficit hídrico en temporada (Abr–Oct)
-  totalGDD: number // P10 de GDD (Abr–Oct)
+  waterDeficit: number // P90 de déficit hídrico en temporada (gdd: Abr–Oct)
+  totalGDD: number // P10 de GDD (gdd: Abr–Oct)
 
-  heatStressDays: number // P90 de días >40°C (Jun–Aug)
-  extremeColdDays: number // P90 de días < -5°C (Nov–Feb)
+  heatStressDays: number // P90 de días >40°C (summerHeat: Jun–Ago)
+  extremeColdDays: number // P90 de días < -5°C (chill: Nov–Feb)
 
   // Debug / transparencia para UI o logs
   campaigns?: {
     years: number[]
     chillWinterByYear: Record<number, number>
+    chillPortionsWinterByYear?: Record<number, number>
     gddSeasonByYear: Record<number, number>
     springFrostDaysByYear: Record<number, number>
     summerHeatStressDaysByYear: Record<number, number>
@@ -41,24 +47,32 @@ export interface ClimateProfile {
   }
 }
 
+// Por año de campaña (lib/season-calendar.ts): el invierno va al “año de febrero” con el calendario del norte
 type CampaignAgg = {
-  // Winter chill: Nov–Feb (asignado al “año de febrero”)
+  // Winter chill: ventana chill
   winterChillHours: number
   winterExtremeColdDays: number
+  winterDays: number
+  winterChillModelDays: number // días con porciones / Utah (temperaturas horarias)
+  winterChillPortions: number
+  winterUtahUnits: number
 
-  // Spring frost risk: Mar–Abr
+  // Spring frost risk: ventana springFrost
   springFrostDays: number
   springFrostHours: number
 
-  // Growing season heat: Abr–Oct
+  // Growing season heat: ventana gdd
   seasonGDD: number
   seasonPrecip: number
   seasonETC: number
 
-  // Summer heat stress: Jun–Aug
+  // Summer heat stress: ventana summerHeat
   summerHeatStressDays: number
 }
 
+// fracción mínima de días de invierno con porciones para usar el Modelo Dinámico en esa campaña
+const MIN_CHILL_MODEL_COVERAGE = 0.9
+
 function parseISODate(s: string): Date {
   const d = new Date(s)
   if (Number.isNaN(d.getTime())) throw new Error(`Invalid date in ClimateData: ${s}`)
@@ -76,45 +90,21 @@ function percentile(values: number[], p: number): number {
   return sorted[lo] * (1 - w) + sorted[hi] * w
 }
 
-/**
- * Define el “año de campaña” para el invierno:
- * - Nov/Dic 2023 pertenecen a campaña 2024 (porque el invierno termina en Feb 2024)
- * - Ene/Feb 2024 pertenecen a campaña 2024
- */
-function winterCampaignYear(d: Date): number {
-  const y = d.getFullYear()
-  const m = d.getMonth() + 1
-  return m >= 11 ? y + 1 : y
-}
-
-function isWinter(d: Date): boolean {
-  const m = d.getMonth() + 1
-  return m === 11 || m === 12 || m === 1 || m === 2
-}
-
-/**
- * ✅ NUEVA REGLA: GDD temporada de cultivo
- * 1 abril -> 31 octubre
- * => Abr, May, Jun, Jul, Ago, Sep, Oct
- */
-function isGrowingSeason(d: Date): boolean {
-  const m = d.getMonth() + 1
-  return m >= 4 && m <= 10
-}
+export class VarietyRecommendationEngine {
+  // Completa GDD / horas frío / helada con el motor común (lib/agronomy.ts) si faltan
+  private calculator: ClimateCalculator
 
-function isSpringFrostWindow(d: Date): boolean {
-  const m = d.getMonth() + 1
-  return m === 3 || m === 4
-}
+  constructor(private calendar: SeasonCalendar = DEFAULT_SEASON_CALENDAR) {
+    this.calculator = new ClimateCalculator(agronomyForCalendar(calendar))
+  }
 
-function isSummer(d: Date): boolean {
-  const m = d.getMonth() + 1
-  return m >= 6 && m <= 8
-}
+  private inWindow(dateISO: string, id: SeasonWindowId) {
+    return isInSeasonWindow(dateISO, this.calendar.windows[id])
+  }
 
-export class VarietyRecommendationEngine {
-  // (No se usa directamente ahora, pero lo dejo por si lo quieres para extensiones futuras)
-  private calculator = new ClimateCalculator()
+  private windowLabel(id: SeasonWindowId) {
+    return seasonWindowLabel(this.calendar.windows[id])
+  }
 
   /**
    * Analiza datos climáticos y recomienda variedades de pistacho
@@ -137,7 +127,7 @@ export class VarietyRecommendationEngine {
         .sort((a, b) => b.suitabilityScore - a.suitabilityScore)
     }
 
-    const climateProfile = this.createClimateProfile(climateData)
+    const climateProfile = this.createClimateProfile(this.calculator.processClimateData(climateData, location.latitude))
 
     const recommendations = PISTACHIO_VARIETIES.filter((variety) => variety.type === "female")
       .map((variety) => this.evaluateVariety(variety, climateProfile, location))
@@ -166,6 +156,10 @@ export class VarietyRecommendationEngine {
       const init: CampaignAgg = {
         winterChillHours: 0,
         winterExtremeColdDays: 0,
+        winterDays: 0,
+        winterChillModelDays: 0,
+        winterChillPortions: 0,
+        winterUtahUnits: 0,
         springFrostDays: 0,
         springFrostHours: 0,
         seasonGDD: 0,
@@ -178,37 +172,36 @@ export class VarietyRecommendationEngine {
     }
 
     for (const day of climateData) {
-      const d = parseISODate(day.date)
+      parseISODate(day.date) // lanza con fechas inválidas
+      const agg = ensure(campaignYear(day.date, this.calendar))
 
-      // Winter chill (Nov–Feb) -> campaña de Febrero
-      if (isWinter(d)) {
-        const y = winterCampaignYear(d)
-        const agg = ensure(y)
+      // Winter chill
+      if (this.inWindow(day.date, "chill")) {
         agg.winterChillHours += day.chill_hours || 0
+        agg.winterDays += 1
+        if (typeof day.chill_portions === "number") {
+          agg.winterChillModelDays += 1
+          agg.winterChillPortions += day.chill_portions
+          agg.winterUtahUnits += day.utah_units ?? 0
+        }
         if ((day.temperature_min ?? 999) < -5) agg.winterExtremeColdDays += 1
       }
 
-      // Growing season (Abr–Oct) -> campaña del año natural
-      if (isGrowingSeason(d)) {
-        const y = d.getFullYear()
-        const agg = ensure(y)
+      // Growing season
+      if (this.inWindow(day.date, "gdd")) {
         agg.seasonGDD += day.gdd || 0
         agg.seasonPrecip += day.precipitation || 0
         agg.seasonETC += day.etc || 0
       }
 
-      // Spring frost risk (Mar–Abr)
-      if (isSpringFrostWindow(d)) {
-        const y = d.getFullYear()
-        const agg = ensure(y)
+      // Spring frost risk
+      if (this.inWindow(day.date, "springFrost")) {
         agg.springFrostHours += day.frost_hours || 0
         if ((day.frost_hours || 0) > 0) agg.springFrostDays += 1
       }
 
-      // Summer heat stress (Jun–Aug)
-      if (isSummer(d)) {
-        const y = d.getFullYear()
-        const agg = ensure(y)
+      // Summer heat stress
+      if (this.inWindow(day.date, "summerHeat")) {
         if ((day.temperature_max ?? -999) > 40) agg.summerHeatStressDays += 1
       }
     }
@@ -217,9 +210,17 @@ export class VarietyRecommendationEngine {
 
     // Si no tenemos al menos 1 invierno y 1 temporada, bajar fiabilidad
     const winterChill = years.map((y) => byYear.get(y)!.winterChillHours).filter((v) => v > 0)
+
+    // Porciones / Utah: solo inviernos casi completos con datos horarios (si no, el P10 saldría bajo por falta de días)
+    const modelYears = years.filter((y) => {
+      const a = byYear.get(y)!
+      return a.winterDays > 0 && a.winterChillModelDays / a.winterDays >= MIN_CHILL_MODEL_COVERAGE
+    })
+    const winterPortions = modelYears.map((y) => byYear.get(y)!.winterChillPortions)
+    const winterUtah = modelYears.map((y) => byYear.get(y)!.winterUtahUnits)
     const seasonGDD = years.map((y) => byYear.get(y)!.seasonGDD).filter((v) => v > 0)
 
-    // Water deficit por campaña (Abr–Oct)
+    // Water deficit por campaña (ventana gdd)
     const waterDeficitSeason = years.map((y) => {
       const a = byYear.get(y)!
       return Math.max(0, a.seasonETC - a.seasonPrecip)
@@ -247,6 +248,9 @@ export class VarietyRecommendationEngine {
     const campaigns: ClimateProfile["campaigns"] = {
       years,
       chillWinterByYear: Object.fromEntries(years.map((y) => [y, Math.round(byYear.get(y)!.winterChillHours)])),
+      chillPortionsWinterByYear: modelYears.length
+        ? Object.fromEntries(modelYears.map((y) => [y, Number(byYear.get(y)!.winterChillPortions.toFixed(1))]))
+        : undefined,
       gddSeasonByYear: Object.fromEntries(years.map((y) => [y, Math.round(byYear.get(y)!.seasonGDD)])),
       springFrostDaysByYear: Object.fromEntries(years.map((y) => [y, byYear.get(y)!.springFrostDays])),
       summerHeatStressDaysByYear: Object.fromEntries(years.map((y) => [y, byYear.get(y)!.summerHeatStressDays])),
@@ -263,6 +267,8 @@ export class VarietyRecommendationEngine {
 
       // ✅ métricas anuales conservadoras por campaña
       totalChillHours: Math.round(chillP10),
+      totalChillPortions: modelYears.length ? Number(percentile(winterPortions, 0.1).toFixed(1)) : undefined,
+      totalUtahUnits: modelYears.length ? Math.round(percentile(winterUtah, 0.1)) : undefined,
       totalGDD: Math.round(gddP10),
 
       frostDays: Math.round(frostDaysP90),
@@ -291,7 +297,7 @@ export class VarietyRecommendationEngine {
     const concerns: string[] = []
     const recommendations: string[] = []
 
-    // Horas frío (25%)
+    // Frío invernal (25%): porciones si hay datos horarios, si no horas frío
     const chillScore = this.evaluateChillHours(variety, climate, matchingFactors, concerns)
     score = score * 0.75 + chillScore * 0.25
 
@@ -324,10 +330,13 @@ export class VarietyRecommendationEngine {
 
     // ✅ Validación simple de polinizadores: si ninguno cumple frío mínimo, penaliza y avisa
     if (pollinizers.length) {
-      const viablePollinizers = pollinizers.filter((p) => climate.totalChillHours >= p.chillHoursMin)
+      const viablePollinizers = pollinizers.filter((p) => {
+        const chill = this.chillRequirement(p, climate)
+        return chill.value >= chill.min
+      })
       if (!viablePollinizers.length) {
         concerns.push(
-          "Polinización en riesgo: los polinizadores sugeridos no alcanzan el mínimo de horas frío en un año desfavorable.",
+          "Polinización en riesgo: los polinizadores sugeridos no alcanzan su mínimo de frío en un año desfavorable.",
         )
         score = score - 15
       }
@@ -343,25 +352,43 @@ export class VarietyRecommendationEngine {
     }
   }
 
+  /**
+   * Frío del perfil frente al requerimiento de la variedad: en porciones (Modelo Dinámico) si el perfil las tiene
+   * y la variedad las define; si no, en horas bajo 7.2°C.
+   */
+  private chillRequirement(variety: PistachioVariety, climate: ClimateProfile) {
+    const { chillPortionsMin: min, chillPortionsMax: max } = variety
+    if (climate.totalChillPortions !== undefined && min !== undefined && max !== undefined) {
+      return { value: climate.totalChillPortions, min, max, label: "porciones de frío", unit: "CP" }
+    }
+    return {
+      value: climate.totalChillHours,
+      min: variety.chillHoursMin,
+      max: variety.chillHoursMax,
+      label: "horas frío",
+      unit: "h",
+    }
+  }
+
   private evaluateChillHours(
     variety: PistachioVariety,
     climate: ClimateProfile,
     matching: string[],
     concerns: string[],
   ): number {
-    const annualChillHours = climate.totalChillHours
+    const { value, min, max, label, unit } = this.chillRequirement(variety, climate)
 
-    if (annualChillHours >= variety.chillHoursMin && annualChillHours <= variety.chillHoursMax) {
-      matching.push(`Horas frío adecuadas (P10 invierno: ${annualChillHours.toFixed(0)} h)`)
+    if (value >= min && value <= max) {
+      matching.push(`${label[0].toUpperCase()}${label.slice(1)} adecuadas (P10 invierno: ${value.toFixed(0)} ${unit})`)
       return 100
-    } else if (annualChillHours < variety.chillHoursMin) {
-      const deficit = variety.chillHoursMin - annualChillHours
-      concerns.push(`Déficit de horas frío (año desfavorable): ${deficit.toFixed(0)} h por debajo del mínimo`)
-      return Math.max(0, 100 - (deficit / variety.chillHoursMin) * 100)
+    } else if (value < min) {
+      const deficit = min - value
+      concerns.push(`Déficit de ${label} (año desfavorable): ${deficit.toFixed(0)} ${unit} por debajo del mínimo`)
+      return Math.max(0, 100 - (deficit / min) * 100)
     } else {
-      const excess = annualChillHours - variety.chillHoursMax
-      concerns.push(`Exceso de horas frío: ${excess.toFixed(0)} h por encima del máximo`)
-      return Math.max(50, 100 - (excess / variety.chillHoursMax) * 50)
+      const excess = value - max
+      concerns.push(`Exceso de ${label}: ${excess.toFixed(0)} ${unit} por encima del máximo`)
+      return Math.max(50, 100 - (excess / max) * 50)
     }
   }
 
@@ -457,18 +484,19 @@ export class VarietyRecommendationEngine {
   ): number {
     let riskScore = 100
 
-    // Heladas en floración (Mar–Abr) P90
+    // Heladas en floración (ventana springFrost) P90
+    const frostWindow = this.windowLabel("springFrost")
     if (climate.frostDays > 15) {
-      concerns.push(`Alto riesgo de heladas en floración (P90: ${climate.frostDays} días Mar–Abr)`)
+      concerns.push(`Alto riesgo de heladas en floración (P90: ${climate.frostDays} días ${frostWindow})`)
       riskScore -= 30
     } else if (climate.frostDays > 5) {
-      concerns.push(`Riesgo moderado de heladas en floración (P90: ${climate.frostDays} días Mar–Abr)`)
+      concerns.push(`Riesgo moderado de heladas en floración (P90: ${climate.frostDays} días ${frostWindow})`)
       riskScore -= 15
     } else {
-      matching.push(`Riesgo bajo de heladas en floración (P90: ${climate.frostDays} días Mar–Abr)`)
+      matching.push(`Riesgo bajo de heladas en floración (P90: ${climate.frostDays} días ${frostWindow})`)
     }
 
-    // Estrés térmico P90 (Jun–Ago)
+    // Estrés térmico P90 (ventana summerHeat)
     if (climate.heatStressDays > 30) {
       concerns.push(`Alto estrés térmico (P90: ${climate.heatStressDays} días >40°C en verano)`)
       riskScore -= 25
@@ -586,7 +614,7 @@ export class VarietyRecommendationEngine {
 
     if (climate.frostDays > 15) {
       riskScore += 25
-      factors.push("Alto riesgo de heladas en floración (Mar–Abr)")
+      factors.push(`Alto riesgo de heladas en floración (${this.windowLabel("springFrost")})`)
       mitigation.push("Sistema de protección contra heladas")
     }
 
@@ -598,13 +626,13 @@ export class VarietyRecommendationEngine {
 
     if (climate.waterDeficit > 500) {
       riskScore += 20
-      factors.push("Alto déficit hídrico en temporada (Abr–Oct)")
+      factors.push(`Alto déficit hídrico en temporada (${this.windowLabel("gdd")})`)
       mitigation.push("Sistema de riego eficiente")
     }
 
     if (climate.extremeColdDays > 5) {
       riskScore += 15
-      factors.push("Riesgo de frío extremo en invierno (Nov–Feb)")
+      factors.push(`Riesgo de frío extremo en invierno (${this.windowLabel("chill")})`)
       mitigation.push("Selección de portainjertos resistentes")
     }
 
@@ -1,18 +1,38 @@
 import "server-only"
-import type { ClimateData, ClimateRequest, ApiResponse } from "./types"
-import { ClimateCalculator } from "./climate-calculations"
+import type { ClimateData, ClimateRequest, ApiResponse, DataSource } from "./types"
+import { ClimateCalculator, calculatorForRequest } from "./climate-calculations"
+import { DEFAULT_AGRONOMY } from "./agronomy"
+import { dailyChillModelsFromHourly } from "./chill-models"
+import { getProvider, type ProviderContext, type ProviderProgress } from "./providers"
+import { fetchWithCache } from "./climate-cache"
+import { applyLapseRateCorrection } from "./elevation"
+import { correctBias } from "./bias-correction"
+import { mergeQcSummaries, runQualityControl } from "./quality-control"
+import { isHdf5, isNetcdfClassic, readNetcdfPointSeries } from "./netcdf-point"
+import JSZip from "jszip"
+import {
+  detectGaps,
+  defaultSecondarySource,
+  fillFromSecondary,
+  finalizeGaps,
+  gapCoverage,
+  gapDateRange,
+  hasGaps,
+  interpolateGaps,
+  mergeGapCoverage,
+  resolveGapFillStrategy,
+  usesInterpolation,
+  usesSecondary,
+} from "./gap-filling"
 
 // --------------------
-// Helpers: base GDD + chill/frost (horas) + Utah (opcional)
+// Helpers: GDD + chill/frost (horas). Umbrales y fórmulas diarias: lib/agronomy.ts
 // --------------------
-const DYNAMIC_BASE_C = 7
-const CHILL_THRESHOLD_C = 7.2
-const FROST_THRESHOLD_C = 0
-
-function dynamicHeatDailyDD(tavg: number, base = DYNAMIC_BASE_C): number {
-  return Math.max(0, tavg - base)
-}
+const DYNAMIC_BASE_C = DEFAULT_AGRONOMY.gdd.baseC
+const CHILL_THRESHOLD_C = DEFAULT_AGRONOMY.chill.thresholdC
+const FROST_THRESHOLD_C = DEFAULT_AGRONOMY.frost.thresholdC
 
+// con datos horarios se integra hora a hora (grados-hora / 24 = grados-día)
 function dynamicHeatHourlyDH(Tc: number, base = DYNAMIC_BASE_C): number {
   return Math.max(0, Tc - base)
 }
@@ -28,6 +48,20 @@ function rhFromT_Td(Tc: number, Tdc: number) {
   return Math.max(0, Math.min(100, rh))
 }
 
+// Fila horaria ERA5 (temperaturas ya en °C; acumulados tal cual vienen de CDS)
+export type Era5HourlyRow = {
+  time: string // ISO (UTC)
+  Tc: number
+  Tdc: number
+  tpM: number // precipitación (m)
+  ssrdJ: number // radiación (J/m² en la hora)
+  u10: number
+  v10: number
+}
+
+// Nombres cortos de ERA5 en NetCDF/CSV (mismo orden que las variables largas del job "daily_mean")
+const ERA5_DAILY_SHORT_NAMES = ["t2m", "d2m", "tp", "ssrd", "u10", "v10"]
+
 function uniqSorted<T>(arr: T[]) {
   return Array.from(new Set(arr)).sort() as T[]
 }
@@ -36,29 +70,14 @@ function pad2(n: number) {
   return String(n).padStart(2, "0")
 }
 
-/**
- * Estimación diaria de "horas por debajo de umbral" usando Tmin/Tmax.
- * Aproximación lineal (útil cuando solo tienes datos diarios).
- *
- * - Si Tmax <= thr => 24h
- * - Si Tmin >= thr => 0h
- * - Si cruza => proporción lineal
- */
-function hoursBelowThresholdFromMinMax(tmin: number, tmax: number, thr: number): number {
-  if (!Number.isFinite(tmin) || !Number.isFinite(tmax)) return 0
-  if (tmax <= thr) return 24
-  if (tmin >= thr) return 0
-
-  // Interpolación lineal simple
-  const span = tmax - tmin
-  if (span <= 0) return tmin < thr ? 24 : 0
-
-  // Fracción del día bajo el umbral
-  const frac = (thr - tmin) / span
-  return Math.max(0, Math.min(24, frac * 24))
+// CSV parser robusto (soporta comillas y líneas con #)
+// NASA POWER devuelve -999 (fill value) cuando no hay dato
+function nasaNum(v: unknown): number | undefined {
+  const n = Number(v)
+  if (v === null || v === undefined || !Number.isFinite(n) || n <= -999) return undefined
+  return n
 }
 
-// CSV parser robusto (soporta comillas y líneas con #)
 function parseCsv(csv: string): { header: string[]; rows: string[][] } {
   const lines = csv.replace(/\r/g, "").split("\n").filter((l) => l.trim().length > 0)
 
@@ -162,45 +181,43 @@ export class NasaPowerService {
       const climateData: ClimateData[] = dates.map((date: string) => {
         const formattedDate = `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`
 
-        const tmax = Number.isFinite(Number(tmaxMap[date])) ? Number(tmaxMap[date]) : 0
-        const tmin = Number.isFinite(Number(tminMap[date])) ? Number(tminMap[date]) : 0
-
-        const t2m = param?.T2M?.[date]
-        const tavg = Number.isFinite(Number(t2m)) ? Number(t2m) : (tmax + tmin) / 2
+        // ✅ NASA usa -999 como "sin dato": se deja undefined (lib/gap-filling.ts lo marca y rellena)
+        const tmax = nasaNum(tmaxMap[date])
+        const tmin = nasaNum(tminMap[date])
+        const hasT = tmax !== undefined && tmin !== undefined
 
-        // ✅ Chill/Frost en HORAS (aprox diaria con Tmin/Tmax)
-        const chillH = hoursBelowThresholdFromMinMax(tmin, tmax, CHILL_THRESHOLD_C)
-        const frostH = hoursBelowThresholdFromMinMax(tmin, tmax, FROST_THRESHOLD_C)
-
-        // ✅ GDD diario base 7°C
-        const heatDD = dynamicHeatDailyDD(tavg, DYNAMIC_BASE_C)
+        const tavg = nasaNum(param?.T2M?.[date]) ?? (hasT ? (tmax + tmin) / 2 : undefined)
 
         return {
           date: formattedDate,
-          temperature_max: tmax,
-          temperature_min: tmin,
-          temperature_avg: tavg,
-          humidity: Number.isFinite(Number(param?.RH2M?.[date])) ? Number(param.RH2M[date]) : 0,
-          precipitation: Number.isFinite(Number(param?.PRECTOTCORR?.[date])) ? Number(param.PRECTOTCORR[date]) : 0,
-          wind_speed: Number.isFinite(Number(param?.WS2M?.[date])) ? Number(param.WS2M[date]) : 0,
-          solar_radiation: Number.isFinite(Number(param?.ALLSKY_SFC_SW_DWN?.[date]))
-            ? Number(param.ALLSKY_SFC_SW_DWN[date])
-            : 0,
-
-          // NASA POWER no da ET0/ETc aquí en tu set actual -> 0 (luego puedes calcularlo aparte)
-          eto: 0,
-          etc: 0,
-
-          frost_hours: Number(frostH.toFixed(2)),
-          chill_hours: Number(chillH.toFixed(2)),
-          gdd: Number(heatDD.toFixed(2)),
-
-          computedChillHeat: true,
+          temperature_max: tmax as number,
+          temperature_min: tmin as number,
+          temperature_avg: tavg as number,
+          humidity: nasaNum(param?.RH2M?.[date]),
+          precipitation: nasaNum(param?.PRECTOTCORR?.[date]),
+          wind_speed: nasaNum(param?.WS2M?.[date]),
+          solar_radiation: nasaNum(param?.ALLSKY_SFC_SW_DWN?.[date]),
+
+          // NASA POWER no da ET0/ETc en este set -> los calcula ClimateCalculator
+          eto: undefined,
+          etc: undefined,
+
+          // chill/frost/GDD (y porciones / Utah) los calcula ClimateCalculator sobre la serie completa,
+          // con las horas reconstruidas a partir de Tmin/Tmax (lib/hourly-temperature.ts)
+          computedChillHeat: false,
           computedFromHourly: false,
         }
       })
 
-      return { success: true, data: climateData, source: "NASA_POWER" }
+      // geometry.coordinates = [lon, lat, altitud media de la celda MERRA-2]
+      const gridElevationM = Number(data?.geometry?.coordinates?.[2])
+
+      return {
+        success: true,
+        data: climateData,
+        source: "NASA_POWER",
+        debug: Number.isFinite(gridElevationM) ? { gridElevationM } : undefined,
+      }
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : "Unknown error", source: "NASA_POWER" }
     }
@@ -310,6 +327,12 @@ export class Era5Service {
 
   private apiKey = process.env.COPERNICUS_API_KEY || ""
 
+  // sondeo de jobs CDS (configurable para el mock local: scripts/mock-cds-server.mjs)
+  private pollMs = Number(process.env.CDS_POLL_INTERVAL_MS) || 2000
+  private maxPolls = Number(process.env.CDS_MAX_POLLS) || 240
+
+  constructor(private opts: { onProgress?: (p: ProviderProgress) => void } = {}) {}
+
   private cdsHeaders(): Record<string, string> {
     if (!this.apiKey) return {}
     return {
@@ -372,7 +395,7 @@ export class Era5Service {
     return jobId
   }
 
-  private async pollJob(jobId: string, maxPolls = 240, sleepMs = 2000): Promise<string> {
+  private async pollJob(jobId: string, maxPolls = this.maxPolls, sleepMs = this.pollMs): Promise<string> {
     const url = `${this.cdsBaseUrl}/retrieve/v1/jobs/${jobId}`
 
     for (let i = 0; i < maxPolls; i++) {
@@ -390,6 +413,8 @@ export class Era5Service {
         body?.result?.href ||
         body?.links?.find?.((l: any) => l?.rel === "results")?.href
 
+      this.opts.onProgress?.({ status: status || "unknown", message: `CDS job ${jobId}: ${status || "?"}` })
+
       if (status === "successful" || status === "completed") {
         if (!href) throw new Error(`CDS job successful pero sin href de descarga: ${txt}`)
         return href
@@ -428,7 +453,16 @@ export class Era5Service {
     return txt
   }
 
-  private async getClimateDataHourly(request: ClimateRequest): Promise<ApiResponse<ClimateData[]>> {
+  /**
+   * Filas horarias ERA5 (CSV timeseries, o single-levels como fallback) ya en unidades "de app".
+   * La usan el agregado diario y /api/weather/hourly.
+   */
+  async getHourlyRows(request: ClimateRequest): Promise<Era5HourlyRow[]> {
+    if (!this.apiKey) throw new Error("Falta COPERNICUS_API_KEY (token CDS) en el servidor")
+    if (typeof request.latitude !== "number" || typeof request.longitude !== "number") {
+      throw new Error("Faltan coordenadas (latitude/longitude)")
+    }
+
     const start = new Date(request.startDate!)
     const end = new Date(request.endDate!)
 
@@ -521,6 +555,34 @@ export class Era5Service {
       throw new Error(`ERA5 CSV columnas inesperadas: ${header.join(", ")}`)
     }
 
+    const out: Era5HourlyRow[] = []
+
+    for (const cols of rows) {
+      const tStr = cols[iTime]
+      if (!tStr) continue
+
+      const Tk = Number(cols[iT])
+      if (!Number.isFinite(Tk)) continue
+
+      const TdK = iTd >= 0 ? Number(cols[iTd]) : NaN
+
+      out.push({
+        time: String(tStr).trim().replace(" ", "T"),
+        Tc: kToC(Tk),
+        Tdc: Number.isFinite(TdK) ? kToC(TdK) : NaN,
+        tpM: iTP >= 0 ? Number(cols[iTP]) : NaN,
+        ssrdJ: iSSRD >= 0 ? Number(cols[iSSRD]) : NaN,
+        u10: iU10 >= 0 ? Number(cols[iU10]) : NaN,
+        v10: iV10 >= 0 ? Number(cols[iV10]) : NaN,
+      })
+    }
+
+    return out
+  }
+
+  private async getClimateDataHourly(request: ClimateRequest): Promise<ApiResponse<ClimateData[]>> {
+    const hourlyRows = await this.getHourlyRows(request)
+
     type Agg = {
       tmax: number
       tmin: number
@@ -539,22 +601,8 @@ export class Era5Service {
 
     const daily: Record<string, Agg> = {}
 
-    for (const cols of rows) {
-      const tStr = cols[iTime]
-      if (!tStr) continue
-      const dayKey = String(tStr).slice(0, 10)
-
-      const Tk = Number(cols[iT])
-      if (!Number.isFinite(Tk)) continue
-      const Tc = kToC(Tk)
-
-      const TdK = iTd >= 0 ? Number(cols[iTd]) : NaN
-      const Tdc = Number.isFinite(TdK) ? kToC(TdK) : NaN
-
-      const tpM = iTP >= 0 ? Number(cols[iTP]) : NaN
-      const ssrdJ = iSSRD >= 0 ? Number(cols[iSSRD]) : NaN
-      const u10 = iU10 >= 0 ? Number(cols[iU10]) : NaN
-      const v10 = iV10 >= 0 ? Number(cols[iV10]) : NaN
+    for (const { time, Tc, Tdc, tpM, ssrdJ, u10, v10 } of hourlyRows) {
+      const dayKey = time.slice(0, 10)
 
       if (!daily[dayKey]) {
         daily[dayKey] = {
@@ -603,13 +651,17 @@ export class Era5Service {
       a.heatDH += dynamicHeatHourlyDH(Tc, DYNAMIC_BASE_C)
     }
 
+    // ✅ Porciones (Modelo Dinámico) y Utah: necesitan la serie horaria continua
+    const chillModels = dailyChillModelsFromHourly(hourlyRows.map((r) => ({ time: r.time, tempC: r.Tc })))
+
     const out: ClimateData[] = Object.keys(daily)
       .sort()
       .map((d) => {
         const a = daily[d]
         const tavg = a.n ? a.tsum / a.n : 0
-        const rh = a.rhN ? a.rhSum / a.rhN : 0
-        const ws = a.wsN ? a.wsSum / a.wsN : 0
+        // sin muestras -> undefined (hueco), nunca 0
+        const rh = a.rhN ? a.rhSum / a.rhN : undefined
+        const ws = a.wsN ? a.wsSum / a.wsN : undefined
 
         // ✅ Convertimos DH -> DD por día
         const heatDD = a.heatDH / 24
@@ -619,15 +671,16 @@ export class Era5Service {
           temperature_max: Number(a.tmax.toFixed(2)),
           temperature_min: Number(a.tmin.toFixed(2)),
           temperature_avg: Number(tavg.toFixed(2)),
-          humidity: Number(rh.toFixed(2)),
+          humidity: rh !== undefined ? Number(rh.toFixed(2)) : undefined,
           precipitation: Number(a.tpMM.toFixed(2)),
-          wind_speed: Number(ws.toFixed(2)),
+          wind_speed: ws !== undefined ? Number(ws.toFixed(2)) : undefined,
           solar_radiation: Number(a.ssrdKWh.toFixed(3)),
           eto: 0,
           etc: 0,
           frost_hours: a.frostH,
           chill_hours: a.chillH,
           gdd: Number(heatDD.toFixed(2)),
+          ...chillModels[d],
           computedChillHeat: true,
           computedFromHourly: true,
         }
@@ -636,7 +689,100 @@ export class Era5Service {
     return { success: true, data: out, source: "ERA5" }
   }
 
-  private async getClimateDataDaily(_request: ClimateRequest): Promise<ApiResponse<ClimateData[]>> {
+  private async downloadBinary(url: string): Promise<Uint8Array> {
+    const res = await fetch(url, { headers: { ...this.cdsHeaders() } })
+    if (!res.ok) {
+      const txt = await res.text().catch(() => "")
+      throw new Error(`CDS download error ${res.status}: ${txt}`)
+    }
+    return new Uint8Array(await res.arrayBuffer())
+  }
+
+  /**
+   * Un job de "daily statistics" (un año, un estadístico) -> { yyyy-mm-dd: { t2m, tp, ... } }
+   * Acepta NetCDF classic, ZIP con varios NetCDF (uno por variable) o CSV.
+   */
+  private async downloadDailyStatistic(
+    request: ClimateRequest,
+    year: string,
+    months: string[],
+    statistic: "daily_mean" | "daily_maximum" | "daily_minimum",
+    variables: string[],
+  ): Promise<Record<string, Record<string, number | null>>> {
+    const lat = request.latitude as number
+    const lon = request.longitude as number
+    const pad = 0.125
+
+    const inputs = {
+      product_type: "reanalysis",
+      variable: variables,
+      year,
+      month: months,
+      day: Array.from({ length: 31 }, (_, i) => pad2(i + 1)),
+      daily_statistic: statistic,
+      time_zone: "utc+00:00",
+      frequency: "1_hourly",
+      area: [lat + pad, lon - pad, lat - pad, lon + pad], // N, W, S, E
+    }
+
+    const jobId = await this.submitJob(this.dailyDataset, inputs)
+    const dlUrl = await this.pollJob(jobId)
+    const bytes = await this.downloadBinary(dlUrl)
+
+    const out: Record<string, Record<string, number | null>> = {}
+    const addSeries = (nc: Uint8Array) => {
+      if (isHdf5(nc)) {
+        throw new Error("ERA5 daily: CDS devolvió NetCDF4/HDF5 (no soportado). Usa un dataset con NetCDF classic o CSV.")
+      }
+      const series = readNetcdfPointSeries(nc, lat, lon, ERA5_DAILY_SHORT_NAMES)
+      series.times.forEach((t, i) => {
+        const key = t.toISOString().slice(0, 10)
+        out[key] ??= {}
+        for (const [name, vals] of Object.entries(series.values)) out[key][name] = vals[i]
+      })
+    }
+
+    // ZIP ("PK")
+    if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+      const zip = await JSZip.loadAsync(bytes)
+      for (const f of Object.values(zip.files)) {
+        if (f.dir || !/\.nc$/i.test(f.name)) continue
+        addSeries(await f.async("uint8array"))
+      }
+      return out
+    }
+
+    if (isNetcdfClassic(bytes) || isHdf5(bytes)) {
+      addSeries(bytes)
+      return out
+    }
+
+    // CSV
+    const { header, rows } = parseCsv(new TextDecoder().decode(bytes))
+    const iTime = idxOf(header, ["valid_time", "time", "date"])
+    if (iTime < 0) throw new Error(`ERA5 daily: formato de descarga no reconocido. Columnas: ${header.join(", ")}`)
+
+    const cols = ERA5_DAILY_SHORT_NAMES.map((n, k) => [n, idxOf(header, [n, variables[k] ?? n])] as const)
+    for (const r of rows) {
+      const key = String(r[iTime] || "").slice(0, 10)
+      if (!key) continue
+      out[key] ??= {}
+      for (const [name, i] of cols) {
+        if (i < 0) continue
+        const v = Number(r[i])
+        out[key][name] = Number.isFinite(v) ? v : null
+      }
+    }
+    return out
+  }
+
+  /**
+   * ERA5 "daily statistics" (CDS_ERA5_DAILY_DATASET, p.ej. derived-era5-single-levels-daily-statistics).
+   * Por año: 3 jobs (media de todas las variables + máx/mín de temperatura).
+   * No hay horas reales: chill/frost, porciones y Utah los calcula ClimateCalculator reconstruyendo la curva
+   * horaria desde Tmin/Tmax (lib/hourly-temperature.ts).
+   */
+  private async getClimateDataDaily(request: ClimateRequest): Promise<ApiResponse<ClimateData[]>> {
     if (!this.dailyDataset) {
       return {
         success: false,
@@ -645,51 +791,228 @@ export class Era5Service {
           "Para ERA5 histórico (>2 años) configura CDS_ERA5_DAILY_DATASET (daily statistics). Por ahora usa rangos <= 2 años.",
       }
     }
-    return { success: false, source: "ERA5", error: "DAILY no implementado aún." }
+
+    const startISO = request.startDate!.slice(0, 10)
+    const endISO = request.endDate!.slice(0, 10)
+
+    const byYear = new Map<string, Set<string>>()
+    for (let d = new Date(`${startISO}T00:00:00Z`); d.toISOString().slice(0, 10) <= endISO; d.setUTCDate(d.getUTCDate() + 1)) {
+      const y = String(d.getUTCFullYear())
+      if (!byYear.has(y)) byYear.set(y, new Set())
+      byYear.get(y)!.add(pad2(d.getUTCMonth() + 1))
+    }
+
+    const meanVars = [
+      "2m_temperature",
+      "2m_dewpoint_temperature",
+      "total_precipitation",
+      "surface_solar_radiation_downwards",
+      "10m_u_component_of_wind",
+      "10m_v_component_of_wind",
+    ]
+
+    const days: Record<string, { mean: Record<string, number | null>; tmax?: number | null; tmin?: number | null }> = {}
+
+    for (const [year, monthSet] of byYear) {
+      const months = uniqSorted([...monthSet])
+
+      const [mean, max, min] = await Promise.all([
+        this.downloadDailyStatistic(request, year, months, "daily_mean", meanVars),
+        this.downloadDailyStatistic(request, year, months, "daily_maximum", ["2m_temperature"]),
+        this.downloadDailyStatistic(request, year, months, "daily_minimum", ["2m_temperature"]),
+      ])
+
+      for (const [d, v] of Object.entries(mean)) (days[d] ??= { mean: {} }).mean = v
+      for (const [d, v] of Object.entries(max)) (days[d] ??= { mean: {} }).tmax = v.t2m
+      for (const [d, v] of Object.entries(min)) (days[d] ??= { mean: {} }).tmin = v.t2m
+    }
+
+    const num = (v: number | null | undefined) => (v == null || !Number.isFinite(v) ? undefined : v)
+
+    const out: ClimateData[] = Object.keys(days)
+      .filter((d) => d >= startISO && d <= endISO)
+      .sort()
+      .map((d) => {
+        const a = days[d]
+        const tK = num(a.mean.t2m)
+        const tdK = num(a.mean.d2m)
+        const tmaxK = num(a.tmax)
+        const tminK = num(a.tmin)
+
+        const tavg = tK !== undefined ? kToC(tK) : undefined
+        const tmax = tmaxK !== undefined ? kToC(tmaxK) : undefined
+        const tmin = tminK !== undefined ? kToC(tminK) : undefined
+
+        // Media diaria de acumulados horarios -> total del día (x24)
+        const tp = num(a.mean.tp)
+        const ssrd = num(a.mean.ssrd)
+        const u10 = num(a.mean.u10)
+        const v10 = num(a.mean.v10)
+
+        const rh = tavg !== undefined && tdK !== undefined ? rhFromT_Td(tavg, kToC(tdK)) : undefined
+        // aprox: módulo del viento medio (subestima algo frente a la media de módulos horarios)
+        const ws = u10 !== undefined && v10 !== undefined ? Math.sqrt(u10 * u10 + v10 * v10) : undefined
+
+        return {
+          date: d,
+          temperature_max: tmax !== undefined ? Number(tmax.toFixed(2)) : (undefined as unknown as number),
+          temperature_min: tmin !== undefined ? Number(tmin.toFixed(2)) : (undefined as unknown as number),
+          temperature_avg: tavg !== undefined ? Number(tavg.toFixed(2)) : (undefined as unknown as number),
+          humidity: rh !== undefined ? Number(rh.toFixed(2)) : undefined,
+          precipitation: tp !== undefined ? Number(Math.max(0, tp * 24 * 1000).toFixed(2)) : undefined,
+          wind_speed: ws !== undefined ? Number(ws.toFixed(2)) : undefined,
+          solar_radiation: ssrd !== undefined ? Number(((ssrd * 24) / 3.6e6).toFixed(3)) : undefined, // kWh/m²/día
+          eto: undefined,
+          etc: undefined,
+          // índices térmicos: ClimateCalculator, con horas reconstruidas (como NASA POWER)
+          computedChillHeat: false,
+          computedFromHourly: false,
+        }
+      })
+
+    if (!out.length) return { success: false, source: "ERA5", error: "ERA5 daily: sin datos en el rango" }
+
+    return { success: true, data: out, source: "ERA5", debug: { era5: { dataset: this.dailyDataset, mode: "daily" } } }
   }
 }
 
 // --------------------
 // Main Weather Service
 // --------------------
+// El despacho por fuente vive en lib/providers (registro); aquí solo
+// resolvemos el proveedor y pasamos el resultado por ClimateCalculator.
 export class WeatherService {
-  private nasaPower = new NasaPowerService()
-  private era5 = new Era5Service()
-  private aemet: AemetService
-  private siar: SiarService
-  private openMeteo: OpenMeteoService
-  private calculator = new ClimateCalculator()
-
-  constructor(origin: string) {
-    const internalBase = process.env.INTERNAL_BASE_URL || process.env.NEXT_INTERNAL_BASE_URL || origin
+  private ctx: ProviderContext
 
-    this.aemet = new AemetService(internalBase)
-    this.siar = new SiarService(internalBase)
-    this.openMeteo = new OpenMeteoService(internalBase)
+  constructor(origin: string, opts: { onProgress?: (p: ProviderProgress) => void } = {}) {
+    const internalBase = process.env.INTERNAL_BASE_URL || process.env.NEXT_INTERNAL_BASE_URL || origin
+    this.ctx = { origin: internalBase, onProgress: opts.onProgress }
   }
 
   async getClimateDataBySource(request: ClimateRequest): Promise<ApiResponse<ClimateData[]>> {
-    const processData = (response: ApiResponse<ClimateData[]>) => {
-      if (response.success && response.data) {
-        // latitude puede ser undefined en fuentes tipo AEMET CP; lo pasamos seguro
-        return { ...response, data: this.calculator.processClimateData(response.data, request.latitude) }
+    const provider = getProvider(request.source)
+    if (!provider) {
+      return { success: false, error: `Invalid source: ${String(request.source)}`, source: "API" }
+    }
+
+    // ventanas de frío / GDD del calendario (lib/season-calendar.ts), Kc / base GDD del cultivo (lib/crops.ts)
+    // y cobertura de la parcela (request.orchard)
+    let calculator: ClimateCalculator
+    try {
+      calculator = calculatorForRequest(request)
+    } catch (e) {
+      const error = e instanceof Error ? e.message : "seasonCalendar o crop inválido"
+      return { success: false, error, source: request.source }
+    }
+
+    const response = await fetchWithCache(provider, request, this.ctx)
+    if (response.success && response.data) {
+      const gaps = await this.fillGaps(request, response.data)
+
+      // después del relleno: los días que vienen de la fuente secundaria también se corrigen
+      const bias = await correctBias(request, gaps.data, this.ctx)
+
+      // la corrección frente a estación ya absorbe la diferencia de altitud: no se aplican las dos.
+      // La de altitud sí deja fuera lo rellenado desde la secundaria (otra rejilla)
+      const elevation = bias.result.applied
+        ? { data: bias.data, correction: { applied: false, reason: "ya corregida frente a estación (biasCorrection)" } }
+        : await applyLapseRateCorrection(request, bias.data, {
+            cellDeg: provider.descriptor.capabilities.gridCellDeg,
+            providerCellElevationM: response.debug?.gridElevationM,
+          })
+
+      // control de calidad sobre la serie ya corregida: solo marca (day.qc), no cambia valores
+      const qc = runQualityControl(elevation.data, { latitude: request.latitude })
+
+      // Penman-Monteith: altitud de la parcela (o de la celda) y altura del viento de la fuente
+      const etoOpts = {
+        elevation: request.elevation ?? response.debug?.gridElevationM,
+        windHeightM: provider.descriptor.capabilities.windHeightM,
+      }
+
+      // latitude puede ser undefined en fuentes tipo AEMET CP; lo pasamos seguro
+      return {
+        ...response,
+        data: calculator.processClimateData(qc.data, request.latitude, etoOpts),
+        debug: {
+          ...response.debug,
+          gaps: gaps.coverage,
+          biasCorrection: bias.result,
+          elevation: elevation.correction,
+          qc: qc.summary,
+        },
       }
-      return response
-    }
-
-    switch (request.source) {
-      case "NASA_POWER":
-        return processData(await this.nasaPower.getClimateData(request))
-      case "ERA5":
-        return processData(await this.era5.getClimateData(request))
-      case "AEMET":
-        return processData(await this.aemet.getClimateData(request))
-      case "SIAR":
-        return processData(await this.siar.getClimateData(request))
-      case "OPEN_METEO":
-        return processData(await this.openMeteo.getClimateData(request))
-      default:
-        return { success: false, error: `Invalid source: ${String(request.source)}`, source: "API" }
     }
+    return response
+  }
+
+  /**
+   * Marca huecos (días/variables sin dato) y los rellena según request.gapFill.
+   * Va ANTES de processClimateData para que ETo/índices usen los valores rellenados.
+   */
+  private async fillGaps(request: ClimateRequest, raw: ClimateData[]) {
+    const strategy = resolveGapFillStrategy(request.gapFill)
+    const detected = detectGaps(raw, request.startDate, request.endDate)
+
+    let data = detected
+    let secondarySource: DataSource | undefined
+    let secondaryError: string | undefined
+
+    const canUseSecondary = typeof request.latitude === "number" && typeof request.longitude === "number"
+
+    if (usesSecondary(strategy) && canUseSecondary && hasGaps(data)) {
+      secondarySource = request.gapFillSource ?? defaultSecondarySource(request.source)
+      const secondary = getProvider(secondarySource)
+      const range = gapDateRange(data)
+
+      if (!secondary || secondarySource === request.source || secondarySource === "BLEND") {
+        secondaryError = `Fuente secundaria no válida: ${secondarySource}`
+      } else if (range) {
+        try {
+          const res = await fetchWithCache(secondary, { ...request, ...range, source: secondarySource }, this.ctx)
+          if (res.success && res.data) data = fillFromSecondary(data, res.data, secondarySource)
+          else secondaryError = res.error || "Sin datos"
+        } catch (e) {
+          secondaryError = e instanceof Error ? e.message : "Unknown error"
+        }
+      }
+    }
+
+    if (usesInterpolation(strategy)) data = interpolateGaps(data)
+
+    const { data: finalData, dropped } = finalizeGaps(data)
+
+    return {
+      data: finalData,
+      coverage: gapCoverage(detected, finalData, {
+        strategy,
+        receivedDays: raw.length,
+        dropped,
+        secondarySource,
+        secondaryError,
+      }),
+    }
+  }
+}
+
+/**
+ * Debug de un histórico troceado: huecos y QC sumados como si fuese una sola petición;
+ * corrección de sesgo, esquema, caché y lo propio del proveedor, tramo a tramo (debug.chunks).
+ */
+export function mergeChunkDebug(
+  chunks: Array<{ start: string; end: string; debug?: Record<string, any> }>,
+): Record<string, any> | undefined {
+  const parts = chunks.filter((c) => c.debug)
+  if (!parts.length) return undefined
+
+  return {
+    gaps: mergeGapCoverage(parts.map((c) => c.debug!.gaps).filter(Boolean)),
+    qc: mergeQcSummaries(parts.map((c) => c.debug!.qc).filter(Boolean)),
+    // la corrección por altitud es la misma en todos los tramos (misma parcela y celda)
+    elevation: parts.find((c) => c.debug!.elevation)?.debug!.elevation,
+    chunks: parts.map(({ start, end, debug }) => {
+      const { gaps: _gaps, qc: _qc, elevation: _elevation, ...rest } = debug!
+      return { start, end, ...rest }
+    }),
   }
 }
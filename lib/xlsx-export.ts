@@ -1,12 +1,15 @@
 // lib/xlsx-export.ts
 import ExcelJS from "exceljs"
-import type { ClimateData } from "./types"
+import type { ClimateData, GapField } from "./types"
+import { formatProvenance } from "./blend"
+import { formatQcFlags, qcSummary } from "./quality-control"
 import { promises as fs } from "fs"
 import path from "path"
 
 const GREEN = "FF00B050"
 const ZEBRA_1 = "FFF3F9F2"
 const ZEBRA_2 = "FFFFFFFF"
+const QC_FLAGGED = "FFFFE699" // celda que no pasó el control de calidad (lib/quality-control.ts)
 
 export type ExportPayload = {
   meta: {
@@ -38,9 +41,14 @@ type RowOut = {
   gdd: number
   deficit: number
   need: number
-}
 
-const DEFAULT_KC = 0.3
+  // procedencia (fuente, o detalle por variable si la serie es BLEND)
+  source: string
+
+  // control de calidad: texto de la columna + flags para resaltar celdas (no es columna)
+  qc: string
+  qcFlags?: ClimateData["qc"]
+}
 
 const COLUMNS: Array<{ header: string; key: keyof RowOut; width: number; numFmt?: string }> = [
   { header: "Día", key: "day", width: 6, numFmt: "0" },
@@ -62,8 +70,21 @@ const COLUMNS: Array<{ header: string; key: keyof RowOut; width: number; numFmt?
   { header: "GDD", key: "gdd", width: 10, numFmt: "0.00" },
   { header: "Déficit Hídrico", key: "deficit", width: 14, numFmt: "0.00" },
   { header: "Necesidad Riego (mm)", key: "need", width: 18, numFmt: "0.00" },
+  { header: "Procedencia", key: "source", width: 48 },
+  { header: "Control de calidad", key: "qc", width: 40 },
 ]
 
+// columna de la hoja diaria para cada variable con flag de calidad
+const QC_COLUMN: Record<GapField, keyof RowOut> = {
+  temperature_max: "tmax",
+  temperature_min: "tmin",
+  temperature_avg: "tmean",
+  humidity: "rh",
+  precipitation: "pr",
+  wind_speed: "wind",
+  solar_radiation: "rs",
+}
+
 function borderThin(): ExcelJS.Borders {
   return {
     top: { style: "thin" },
@@ -176,7 +197,7 @@ function styleZebra(ws: ExcelJS.Worksheet, fromRow: number) {
 }
 
 function pickMainSource(sources: Record<string, ClimateData[] | undefined>) {
-  const preferred = ["SIAR", "AEMET", "NASA_POWER", "ERA5"]
+  const preferred = ["BLEND", "SIAR", "AEMET", "NASA_POWER", "ERA5"]
   for (const p of preferred) {
     const r = sources[p]
     if (r && r.length) return { name: p, rows: r }
@@ -185,11 +206,13 @@ function pickMainSource(sources: Record<string, ClimateData[] | undefined>) {
   return first ? { name: first[0], rows: first[1]! } : { name: "NO_DATA", rows: [] as ClimateData[] }
 }
 
-function normalize(rows: ClimateData[], kc = DEFAULT_KC): RowOut[] {
+// ETc y Kc del día tal como salen de ClimateCalculator.processClimateData (curva FAO-56 del cultivo)
+function normalize(rows: ClimateData[], sourceName = ""): RowOut[] {
   const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date))
   return sorted.map((d, idx) => {
     const eto = getNum(d, ["eto", "eto_mm", "ETO"])
     const etcRaw = getNum(d, ["etc", "etc_mm", "ETC"])
+    const kc = getNum(d, ["kc", "Kc"]) || (eto > 0 ? etcRaw / eto : 0)
     const etc = etcRaw || eto * kc
 
     return {
@@ -211,6 +234,11 @@ function normalize(rows: ClimateData[], kc = DEFAULT_KC): RowOut[] {
       gdd: getNum(d, ["gdd", "gdd_total", "grados_dia"]),
       deficit: getNum(d, ["deficit_hidrico", "deficit", "deficit_mm"]),
       need: getNum(d, ["necesidad_riego", "need_irrigation", "riego_mm"]),
+
+      source: formatProvenance(d.provenance) || sourceName,
+
+      qc: formatQcFlags(d.qc),
+      qcFlags: d.qc,
     }
   })
 }
@@ -294,6 +322,18 @@ function buildAnnual(rows: RowOut[]) {
   })
 }
 
+function highlightQc(ws: ExcelJS.Worksheet, headerRowIndex: number, rows: RowOut[]) {
+  rows.forEach((r, i) => {
+    if (!r.qcFlags) return
+    const row = ws.getRow(headerRowIndex + 1 + i)
+    for (const [field, test] of Object.entries(r.qcFlags) as Array<[GapField, string]>) {
+      const col = COLUMNS.findIndex((c) => c.key === QC_COLUMN[field]) + 1
+      if (col <= 0 || !test) continue
+      row.getCell(col).fill = { type: "pattern", pattern: "solid", fgColor: { argb: QC_FLAGGED } }
+    }
+  })
+}
+
 function applyNumFormats(ws: ExcelJS.Worksheet, headerRowIndex: number, columns: typeof COLUMNS) {
   columns.forEach((c, i) => {
     if (!c.numFmt) return
@@ -314,6 +354,8 @@ export async function buildClimateWorkbook(payload: ExportPayload): Promise<Buff
   wb.creator = "Agroclima"
   wb.created = new Date()
 
+  const main = pickMainSource(payload.sources)
+
   // ---------------- INFO ----------------
   const info = wb.addWorksheet("INFO")
   setSheetDefaults(info)
@@ -327,13 +369,13 @@ export async function buildClimateWorkbook(payload: ExportPayload): Promise<Buff
     { k: "startDate", v: payload.meta.startDate },
     { k: "endDate", v: payload.meta.endDate },
     { k: "generatedAt", v: new Date().toISOString() },
+    { k: "qcFlaggedDays", v: qcSummary(main.rows).flaggedDays }, // días con algún valor marcado por el control de calidad
   ])
   styleHeaderRow(info, 1)
   styleZebra(info, 2)
 
   // ----------- Hoja principal: Datos Diarios -----------
-  const main = pickMainSource(payload.sources)
-  const dailyRows = normalize(main.rows, DEFAULT_KC)
+  const dailyRows = normalize(main.rows, main.name)
 
   const ws = wb.addWorksheet("Datos Diarios")
   setSheetDefaults(ws)
@@ -357,6 +399,7 @@ export async function buildClimateWorkbook(payload: ExportPayload): Promise<Buff
 
   styleHeaderRow(ws, headerRowIndex)
   styleZebra(ws, headerRowIndex + 1)
+  highlightQc(ws, headerRowIndex, dailyRows)
   applyNumFormats(ws, headerRowIndex, COLUMNS)
 
   // ----------- Resumen Mensual -----------
@@ -0,0 +1,17 @@
+-- Caché de respuestas de proveedores (lib/climate-cache.ts, CLIMATE_CACHE=postgres)
+-- Se crea en la base de datos PowerNasa
+CREATE TABLE IF NOT EXISTS climate_cache (
+    provider VARCHAR(20) NOT NULL, -- NASA_POWER, OPEN_METEO, ERA5...
+    lat DOUBLE PRECISION NOT NULL, -- latitud redondeada a la rejilla de caché
+    lon DOUBLE PRECISION NOT NULL, -- longitud redondeada a la rejilla de caché
+    fecha DATE NOT NULL,
+
+    data JSONB NOT NULL, -- ClimateData normalizado (salida del proveedor)
+    fetched_at TIMESTAMPTZ DEFAULT NOW(),
+
+    PRIMARY KEY (provider, lat, lon, fecha)
+);
+
+CREATE INDEX IF NOT EXISTS idx_climate_cache_fetched ON climate_cache(fetched_at DESC);
+
+COMMENT ON TABLE climate_cache IS 'Caché de datos diarios por proveedor y punto (rellenada bajo demanda por la app)';
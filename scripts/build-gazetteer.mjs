@@ -0,0 +1,235 @@
+// scripts/build-gazetteer.mjs
+//
+// Genera el nomenclátor offline de lib/gazetteer.ts (data/gazetteer/es-postal-codes.csv)
+// a partir de descargas públicas, sin llamar a ningún servicio:
+//
+//   --municipios  una de estas dos (se distingue por la extensión):
+//                 - IGN, Nomenclátor Geográfico de Municipios y Entidades de Población:
+//                   fichero de municipios (CSV ";" con COD_INE, NOMBRE_ACTUAL, PROVINCIA,
+//                   LATITUD_ETRS89, LONGITUD_ETRS89, ALTITUD)
+//                 - es-atlas (TopoJSON de los límites municipales del IGN, MIT):
+//                   es/municipalities.json de `npm pack es-atlas`. Sin altitud; el centroide
+//                   es el del polígono principal del término municipal.
+//   --postal      (opcional) GeoNames postal codes de España (ES.txt dentro de
+//                 https://download.geonames.org/export/zip/ES.zip, CC BY 4.0)
+//
+// Uso:
+//   pnpm build:gazetteer --municipios MUNICIPIOS.csv|municipalities.json [--postal ES.txt]
+//                        [--out data/gazetteer/es-postal-codes.csv]
+//
+// El municipio de cada CP sale del código INE de GeoNames (admin code3) y, si no lo trae
+// o no existe en el IGN, del municipio IGN con el centroide más cercano. El municipio con más
+// localidades dentro del CP va primero (lib/gazetteer.ts lo toma como principal).
+// Sin --postal se escribe una fila por municipio con postal_code vacío: vale para el
+// geocoding inverso y el INE, pero no para buscar por CP.
+
+import fs from "node:fs"
+import path from "node:path"
+
+function arg(name, fallback) {
+  const i = process.argv.indexOf(`--${name}`)
+  return i >= 0 && process.argv[i + 1] ? process.argv[i + 1] : fallback
+}
+
+const POSTAL = arg("postal")
+const MUNICIPIOS = arg("municipios")
+const OUT = arg("out", path.join("data", "gazetteer", "es-postal-codes.csv"))
+
+if (!MUNICIPIOS) {
+  console.error("Uso: node scripts/build-gazetteer.mjs --municipios MUNICIPIOS.csv|municipalities.json [--postal ES.txt] [--out ...]")
+  process.exit(1)
+}
+
+function num(v) {
+  const n = Number(String(v ?? "").trim().replace(",", "."))
+  return Number.isFinite(n) ? n : undefined
+}
+
+function haversineKm(lat1, lon1, lat2, lon2) {
+  const toRad = (x) => (x * Math.PI) / 180
+  const a =
+    Math.sin(toRad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lon2 - lon1) / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(a))
+}
+
+// los CSV del IGN vienen a veces en latin1: si UTF-8 deja caracteres de reemplazo, se relee
+function readText(file) {
+  const buf = fs.readFileSync(file)
+  const utf8 = buf.toString("utf8")
+  return utf8.includes("�") ? buf.toString("latin1") : utf8
+}
+
+// ---------- municipios IGN ----------
+function loadMunicipios(file) {
+  const lines = readText(file).split(/\r?\n/).filter((l) => l.trim())
+  const header = lines.shift().split(";").map((h) => h.trim().replace(/^"|"$/g, "").toUpperCase())
+  const col = (...names) => {
+    const i = header.findIndex((h) => names.includes(h))
+    if (i < 0) throw new Error(`${file}: falta la columna ${names.join(" / ")}`)
+    return i
+  }
+  const iIne = col("COD_INE")
+  const iName = col("NOMBRE_ACTUAL", "NOMBRE")
+  const iProv = col("PROVINCIA")
+  const iLat = col("LATITUD_ETRS89", "LATITUD")
+  const iLon = col("LONGITUD_ETRS89", "LONGITUD")
+  const iAlt = col("ALTITUD")
+
+  const out = new Map()
+  for (const line of lines) {
+    const f = line.split(";").map((x) => x.trim().replace(/^"|"$/g, ""))
+    const ine = String(f[iIne] || "").slice(0, 5)
+    const latitude = num(f[iLat])
+    const longitude = num(f[iLon])
+    if (!/^\d{5}$/.test(ine) || latitude === undefined || longitude === undefined) continue
+    out.set(ine, {
+      ine,
+      municipio: f[iName],
+      provincia: f[iProv],
+      latitude,
+      longitude,
+      altitude: num(f[iAlt]),
+    })
+  }
+  return out
+}
+
+// ---------- municipios es-atlas (TopoJSON) ----------
+// arcos con delta-encoding y transform (quantized TopoJSON)
+function decodeArcs(topo) {
+  const [sx, sy] = topo.transform.scale
+  const [tx, ty] = topo.transform.translate
+  return topo.arcs.map((arc) => {
+    let x = 0
+    let y = 0
+    return arc.map(([dx, dy]) => {
+      x += dx
+      y += dy
+      return [x * sx + tx, y * sy + ty]
+    })
+  })
+}
+
+function ringCoords(arcs, ring) {
+  const out = []
+  for (const i of ring) {
+    const pts = i < 0 ? [...arcs[~i]].reverse() : arcs[i]
+    out.push(...(out.length ? pts.slice(1) : pts))
+  }
+  return out
+}
+
+// centroide de área (plano lon/lat, basta a escala municipal) y área con signo
+function ringCentroid(pts) {
+  let a = 0
+  let cx = 0
+  let cy = 0
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const f = pts[j][0] * pts[i][1] - pts[i][0] * pts[j][1]
+    a += f
+    cx += (pts[j][0] + pts[i][0]) * f
+    cy += (pts[j][1] + pts[i][1]) * f
+  }
+  if (!a) return null
+  return { area: Math.abs(a / 2), longitude: cx / (3 * a), latitude: cy / (3 * a) }
+}
+
+function loadAtlas(file) {
+  const topo = JSON.parse(fs.readFileSync(file, "utf8"))
+  const arcs = decodeArcs(topo)
+  const provincias = new Map((topo.objects.provinces?.geometries ?? []).map((g) => [g.id, g.properties.name]))
+
+  const out = new Map()
+  for (const g of topo.objects.municipalities.geometries) {
+    const ine = String(g.id ?? "")
+    const provincia = provincias.get(ine.slice(0, 2))
+    // 53xxx = territorios comunes a varios municipios, sin provincia
+    if (!/^\d{5}$/.test(ine) || !provincia) continue
+
+    const polygons = g.type === "Polygon" ? [g.arcs] : g.type === "MultiPolygon" ? g.arcs : []
+    let best = null
+    for (const [outer] of polygons) {
+      const c = ringCentroid(ringCoords(arcs, outer))
+      if (c && (!best || c.area > best.area)) best = c
+    }
+    if (!best) continue
+
+    out.set(ine, {
+      ine,
+      municipio: g.properties.name,
+      provincia,
+      latitude: best.latitude,
+      longitude: best.longitude,
+      altitude: undefined,
+    })
+  }
+  return out
+}
+
+// ---------- CP GeoNames ----------
+// country, postal code, place, admin1 name/code, admin2 name/code, admin3 name/code, lat, lon, accuracy
+function loadPostal(file) {
+  const rows = []
+  for (const line of readText(file).split(/\r?\n/)) {
+    const f = line.split("\t")
+    if (f.length < 11 || !/^\d{5}$/.test(f[1])) continue
+    const latitude = num(f[9])
+    const longitude = num(f[10])
+    if (latitude === undefined || longitude === undefined) continue
+    rows.push({ cp: f[1], ine: /^\d{5}$/.test(f[8]) ? f[8] : undefined, latitude, longitude })
+  }
+  return rows
+}
+
+function nearest(municipios, lat, lon) {
+  let best = null
+  let bestKm = Infinity
+  for (const m of municipios.values()) {
+    const d = haversineKm(lat, lon, m.latitude, m.longitude)
+    if (d < bestKm) {
+      best = m
+      bestKm = d
+    }
+  }
+  return best
+}
+
+const municipios = MUNICIPIOS.endsWith(".json") ? loadAtlas(MUNICIPIOS) : loadMunicipios(MUNICIPIOS)
+const postal = POSTAL ? loadPostal(POSTAL) : []
+
+// cp -> ine -> nº de localidades
+const counts = new Map()
+let byNearest = 0
+for (const r of postal) {
+  let m = r.ine ? municipios.get(r.ine) : undefined
+  if (!m) {
+    m = nearest(municipios, r.latitude, r.longitude)
+    byNearest++
+  }
+  if (!m) continue
+  const perCp = counts.get(r.cp) ?? new Map()
+  perCp.set(m.ine, (perCp.get(m.ine) ?? 0) + 1)
+  counts.set(r.cp, perCp)
+}
+
+const row = (cp, m) =>
+  [cp, m.ine, m.municipio, m.provincia, m.latitude.toFixed(5), m.longitude.toFixed(5), m.altitude ?? ""].join(";")
+
+const lines = ["postal_code;ine;municipio;provincia;latitude;longitude;altitude"]
+for (const cp of [...counts.keys()].sort()) {
+  const ranked = [...counts.get(cp).entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  for (const [ine] of ranked) lines.push(row(cp, municipios.get(ine)))
+}
+
+// municipios sin ningún CP (o todos, sin --postal): fila sin postal_code
+const withCp = new Set([...counts.values()].flatMap((perCp) => [...perCp.keys()]))
+const withoutCp = [...municipios.values()].filter((m) => !withCp.has(m.ine)).sort((a, b) => a.ine.localeCompare(b.ine))
+for (const m of withoutCp) lines.push(row("", m))
+
+fs.mkdirSync(path.dirname(OUT), { recursive: true })
+fs.writeFileSync(OUT, lines.join("\n") + "\n", "utf8")
+const cpRows = lines.length - 1 - withoutCp.length
+console.log(`${OUT}: ${municipios.size} municipios, ${counts.size} CP, ${cpRows} filas CP–municipio`)
+if (POSTAL) console.log(`${byNearest} localidades sin código INE válido asignadas al municipio más cercano`)
+if (withoutCp.length) console.log(`${withoutCp.length} municipios sin código postal`)
@@ -0,0 +1,133 @@
+// scripts/mock-cds-server.mjs
+//
+// Servidor CDS (Copernicus Retrieve API v1) de pega para probar ERA5 y los jobs
+// (lib/climate-jobs.ts) sin cuenta ni colas reales.
+//
+// Uso:
+//   node scripts/mock-cds-server.mjs            (puerto 4010, o MOCK_CDS_PORT)
+//   CDS_BASE_URL=http://localhost:4010/api COPERNICUS_API_KEY=mock CDS_POLL_INTERVAL_MS=500 pnpm dev
+//
+// Cada job pasa por accepted -> running -> successful (MOCK_CDS_STEPS sondeos) y la descarga es
+// un CSV sintético: horario (timeseries/single-levels) o diario si el job trae `daily_statistic`.
+// MOCK_CDS_FAIL=1 hace que todos los jobs terminen en "failed".
+
+import http from "node:http"
+import { randomUUID } from "node:crypto"
+
+const PORT = Number(process.env.MOCK_CDS_PORT) || 4010
+const STEPS = Number(process.env.MOCK_CDS_STEPS) || 3
+const FAIL = process.env.MOCK_CDS_FAIL === "1"
+
+const jobs = new Map()
+
+function json(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers })
+  res.end(JSON.stringify(body))
+}
+
+function asList(v) {
+  return Array.isArray(v) ? v : v == null ? [] : [v]
+}
+
+// fechas válidas de las combinaciones year × month × day del job
+function datesOf(inputs) {
+  const out = []
+  for (const y of asList(inputs.year)) {
+    for (const m of asList(inputs.month)) {
+      for (const d of asList(inputs.day)) {
+        const iso = `${y}-${String(m).padStart(2, "0")}-${String(d).padStart(2, "0")}`
+        const dt = new Date(`${iso}T00:00:00Z`)
+        if (!Number.isNaN(dt.getTime()) && dt.toISOString().slice(0, 10) === iso) out.push(iso)
+      }
+    }
+  }
+  return out.sort()
+}
+
+// Temperatura (K) con ciclo anual y diario
+function tempK(date, hour) {
+  const doy = Math.floor((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${date.slice(0, 4)}-01-01T00:00:00Z`)) / 86400000)
+  const annual = 15 - 10 * Math.cos((2 * Math.PI * (doy - 15)) / 365)
+  const daily = 6 * Math.sin((2 * Math.PI * (hour - 9)) / 24)
+  return 273.15 + annual + daily
+}
+
+function hourlyCsv(inputs) {
+  const lines = ["valid_time,t2m,d2m,tp,ssrd,u10,v10"]
+  const times = asList(inputs.time).length ? asList(inputs.time) : Array.from({ length: 24 }, (_, h) => `${h}:00`)
+
+  for (const date of datesOf(inputs)) {
+    for (const t of times) {
+      const h = Number(String(t).split(":")[0])
+      const T = tempK(date, h)
+      const ssrd = h >= 7 && h <= 19 ? 1.5e6 * Math.sin((Math.PI * (h - 7)) / 12) : 0
+      lines.push(
+        [`${date} ${String(h).padStart(2, "0")}:00:00`, T.toFixed(2), (T - 6).toFixed(2), 0.0001, ssrd.toFixed(0), 1.5, -1.0].join(","),
+      )
+    }
+  }
+  return lines.join("\n")
+}
+
+function dailyCsv(inputs) {
+  const stat = String(inputs.daily_statistic || "daily_mean")
+  const lines = ["valid_time,t2m,d2m,tp,ssrd,u10,v10"]
+
+  for (const date of datesOf(inputs)) {
+    const mean = tempK(date, 12) - 2
+    const t2m = stat === "daily_maximum" ? mean + 6 : stat === "daily_minimum" ? mean - 6 : mean
+    lines.push([date, t2m.toFixed(2), (mean - 6).toFixed(2), 0.0001, 7.5e5, 1.5, -1.0].join(","))
+  }
+  return lines.join("\n")
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://${req.headers.host}`)
+  const base = `http://${req.headers.host}`
+
+  // POST .../retrieve/v1/processes/{dataset}/execution
+  const submit = url.pathname.match(/\/retrieve\/v1\/processes\/([^/]+)\/execution$/)
+  if (req.method === "POST" && submit) {
+    let raw = ""
+    for await (const chunk of req) raw += chunk
+    const body = raw ? JSON.parse(raw) : {}
+
+    const id = randomUUID()
+    jobs.set(id, { id, dataset: submit[1], inputs: body.inputs || {}, polls: 0 })
+    console.log(`[mock-cds] submit ${submit[1]} -> ${id}`)
+
+    return json(res, 201, { jobID: id, status: "accepted" }, { Location: `${base}/api/retrieve/v1/jobs/${id}` })
+  }
+
+  // GET .../retrieve/v1/jobs/{id}
+  const status = url.pathname.match(/\/retrieve\/v1\/jobs\/([^/]+)$/)
+  if (req.method === "GET" && status) {
+    const job = jobs.get(status[1])
+    if (!job) return json(res, 404, { message: "job not found" })
+
+    job.polls += 1
+    if (job.polls < STEPS) return json(res, 200, { jobID: job.id, status: job.polls === 1 ? "accepted" : "running" })
+    if (FAIL) return json(res, 200, { jobID: job.id, status: "failed", message: "mock failure" })
+
+    return json(res, 200, {
+      jobID: job.id,
+      status: "successful",
+      outputs: { asset: { value: { href: `${base}/download/${job.id}` } } },
+    })
+  }
+
+  // GET /download/{id}
+  const dl = url.pathname.match(/^\/download\/([^/]+)$/)
+  if (req.method === "GET" && dl) {
+    const job = jobs.get(dl[1])
+    if (!job) return json(res, 404, { message: "job not found" })
+
+    const csv = job.inputs.daily_statistic ? dailyCsv(job.inputs) : hourlyCsv(job.inputs)
+    res.writeHead(200, { "Content-Type": "text/csv" })
+    return res.end(csv)
+  }
+
+  json(res, 404, { message: `no route ${req.method} ${url.pathname}` })
+})
+
+server.listen(PORT, () => console.log(`[mock-cds] escuchando en http://localhost:${PORT}/api`))